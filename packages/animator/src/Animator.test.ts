@@ -0,0 +1,376 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { Animator } from './Animator';
+import { ManualClock } from './Clock';
+import { EASINGS, resolveEasing } from './easing';
+import { Compositor } from '../../compositor/src/Compositor';
+import { AsciiObject } from '../../compositor/src/AsciiObject';
+
+function createScene(): Compositor {
+  return new Compositor([
+    new AsciiObject({
+      id: 'ship',
+      content: [['>']],
+      position: { x: 0, y: 0 },
+      color: '#000000',
+      influence: {
+        radius: 1,
+        transform: { type: 'lighten', strength: 0.2, falloff: 'linear' },
+      },
+    }),
+    new AsciiObject({ id: 'rock', content: [['o']], position: { x: 5, y: 5 } }),
+  ]);
+}
+
+describe('Animator', () => {
+  let compositor: Compositor;
+  let clock: ManualClock;
+  let animator: Animator;
+
+  beforeEach(() => {
+    compositor = createScene();
+    clock = new ManualClock();
+    animator = new Animator(compositor, { clock });
+  });
+
+  describe('Tweens', () => {
+    test('interpolates position and snaps to whole cells', () => {
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 10, y: 5 }, duration: 1000 });
+
+      animator.step(250);
+      expect(compositor.getObject('ship').position).toEqual({ x: 3, y: 1 });
+      animator.step(750);
+      expect(compositor.getObject('ship').position).toEqual({ x: 10, y: 5 });
+    });
+
+    test('starts from the current object value by default', () => {
+      animator.addTween({ id: 'rock', property: 'position', to: { x: 15, y: 5 }, duration: 100 });
+
+      animator.step(50);
+      expect(compositor.getObject('rock').position).toEqual({ x: 10, y: 5 });
+    });
+
+    test('chains tweens on the same track', () => {
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 10, y: 0 }, duration: 100 });
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 10, y: 10 }, start: 100, duration: 100 });
+
+      animator.seek(50);
+      expect(compositor.getObject('ship').position).toEqual({ x: 5, y: 0 });
+      animator.seek(150);
+      expect(compositor.getObject('ship').position).toEqual({ x: 10, y: 5 });
+      expect(animator.getDuration()).toBe(200);
+    });
+
+    test('interpolates color per channel', () => {
+      animator.addTween({ id: 'ship', property: 'color', from: '#000000', to: '#FF8000', duration: 100 });
+
+      animator.step(50);
+      expect(compositor.getObject('ship').color).toBe('#804000');
+    });
+
+    test('rounds layer values', () => {
+      animator.addTween({ id: 'ship', property: 'layer', to: 4, duration: 100 });
+
+      animator.step(60);
+      expect(compositor.getObject('ship').layer).toBe(2);
+    });
+
+    test('animates influence strength', () => {
+      animator.addTween({ id: 'ship', property: 'influenceStrength', to: 1, duration: 100 });
+
+      animator.step(50);
+      expect(compositor.getObject('ship').influence!.transform.strength).toBeCloseTo(0.6);
+      expect(compositor.getObject('ship').influence!.radius).toBe(1);
+    });
+
+    test('applies easing', () => {
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 100, y: 0 }, duration: 100, easing: 'easeInQuad' });
+
+      animator.step(50);
+      expect(compositor.getObject('ship').position.x).toBe(25);
+    });
+
+    test('accepts custom easing functions', () => {
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 100, y: 0 }, duration: 100, easing: () => 0.1 });
+
+      animator.step(50);
+      expect(compositor.getObject('ship').position.x).toBe(10);
+    });
+
+    test('throws on invalid tween configuration', () => {
+      expect(() => animator.addTween({ id: 'ship', property: 'position', to: { x: 1, y: 1 }, duration: 0 })).toThrow(
+        'Tween duration must be positive'
+      );
+      expect(() => animator.addTween({ id: 'missing', property: 'layer', to: 1, duration: 10 })).toThrow(
+        "Object with id 'missing' not found"
+      );
+      expect(() => animator.addTween({ id: 'ship', property: 'color', to: 'red', duration: 10 })).toThrow(
+        'Invalid color format: must be #RRGGBB'
+      );
+      expect(() => animator.addTween({ id: 'ship', property: 'layer', to: 1.5, duration: 10 })).toThrow(
+        'Layer must be an integer'
+      );
+      expect(() => animator.addTween({ id: 'ship', property: 'influenceStrength', to: 2, duration: 10 })).toThrow(
+        'Influence strength must be between 0.0 and 1.0'
+      );
+      expect(() => animator.addTween({ id: 'rock', property: 'influenceStrength', to: 1, duration: 10 })).toThrow(
+        "Object 'rock' has no influence to animate"
+      );
+      expect(() =>
+        animator.addTween({ id: 'ship', property: 'layer', to: 1, duration: 10, easing: 'wobble' as any })
+      ).toThrow('Unknown easing: wobble');
+    });
+  });
+
+  describe('Keyframes', () => {
+    test('interpolates between keyframes in any order', () => {
+      animator.addKeyframes('ship', 'position', [
+        { time: 200, value: { x: 0, y: 10 } },
+        { time: 0, value: { x: 0, y: 0 } },
+        { time: 100, value: { x: 10, y: 0 } },
+      ]);
+
+      animator.seek(100);
+      expect(compositor.getObject('ship').position).toEqual({ x: 10, y: 0 });
+      animator.seek(150);
+      expect(compositor.getObject('ship').position).toEqual({ x: 5, y: 5 });
+    });
+
+    test('holds first and last values outside the track', () => {
+      animator.addKeyframes('ship', 'layer', [
+        { time: 100, value: 2 },
+        { time: 200, value: 4 },
+      ]);
+      animator.addKeyframes('rock', 'layer', [{ time: 400, value: 1 }]);
+
+      animator.seek(50);
+      expect(compositor.getObject('ship').layer).toBe(2);
+      animator.seek(300);
+      expect(compositor.getObject('ship').layer).toBe(4);
+    });
+
+    test('replaces keyframes at the same time', () => {
+      animator.addKeyframes('ship', 'layer', [{ time: 0, value: 1 }, { time: 100, value: 2 }]);
+      animator.addKeyframes('ship', 'layer', [{ time: 100, value: 3 }]);
+
+      animator.seek(100);
+      expect(compositor.getObject('ship').layer).toBe(3);
+    });
+
+    test('easing applies to the segment arriving at a keyframe', () => {
+      animator.addKeyframes('ship', 'position', [
+        { time: 0, value: { x: 0, y: 0 } },
+        { time: 100, value: { x: 100, y: 0 }, easing: 'step' },
+      ]);
+
+      animator.seek(99);
+      expect(compositor.getObject('ship').position.x).toBe(0);
+      animator.seek(100);
+      expect(compositor.getObject('ship').position.x).toBe(100);
+    });
+
+    test('throws on empty or negative-time tracks', () => {
+      expect(() => animator.addKeyframes('ship', 'layer', [])).toThrow(
+        'Keyframe track requires at least one keyframe'
+      );
+      expect(() => animator.addKeyframes('ship', 'layer', [{ time: -1, value: 1 }])).toThrow(
+        'Keyframe time must be a non-negative number'
+      );
+    });
+
+    test('removeTracks stops animating an object', () => {
+      animator.addTween({ id: 'ship', property: 'layer', to: 4, duration: 100 });
+      animator.addTween({ id: 'rock', property: 'layer', to: 4, duration: 100 });
+      animator.removeTracks('ship');
+
+      animator.step(100);
+      expect(compositor.getObject('ship').layer).toBe(0);
+      expect(compositor.getObject('rock').layer).toBe(4);
+
+      animator.removeTracks();
+      expect(animator.getDuration()).toBe(0);
+    });
+  });
+
+  describe('Playback', () => {
+    beforeEach(() => {
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 100, y: 0 }, duration: 1000 });
+    });
+
+    test('update() does nothing while paused', () => {
+      clock.advance(500);
+      animator.update();
+      expect(animator.getTime()).toBe(0);
+    });
+
+    test('update() advances by clock time while playing', () => {
+      animator.play();
+      clock.advance(300);
+      animator.update();
+      expect(animator.getTime()).toBe(300);
+      expect(compositor.getObject('ship').position.x).toBe(30);
+
+      clock.advance(200);
+      animator.update();
+      expect(animator.getTime()).toBe(500);
+    });
+
+    test('pause() stops time from advancing', () => {
+      animator.play();
+      clock.advance(100);
+      animator.update();
+      animator.pause();
+      clock.advance(500);
+      animator.update();
+      expect(animator.getTime()).toBe(100);
+      expect(animator.isPlaying()).toBe(false);
+
+      animator.play();
+      clock.advance(100);
+      animator.update();
+      expect(animator.getTime()).toBe(200);
+    });
+
+    test('stops at the end and calls onComplete', () => {
+      const onComplete = vi.fn();
+      animator = new Animator(compositor, { clock, onComplete });
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 100, y: 0 }, duration: 1000 });
+
+      animator.play();
+      clock.advance(1500);
+      animator.update();
+      expect(animator.getTime()).toBe(1000);
+      expect(animator.isPlaying()).toBe(false);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    test('play() restarts a finished timeline', () => {
+      animator.play();
+      clock.advance(1000);
+      animator.update();
+      animator.play();
+      expect(animator.getTime()).toBe(0);
+      expect(compositor.getObject('ship').position.x).toBe(0);
+    });
+
+    test('loops when enabled', () => {
+      animator.loop = true;
+      animator.play();
+      clock.advance(1250);
+      animator.update();
+      expect(animator.getTime()).toBe(250);
+      expect(animator.isPlaying()).toBe(true);
+      expect(compositor.getObject('ship').position.x).toBe(25);
+    });
+
+    test('plays in reverse', () => {
+      animator.seek(1000);
+      animator.reverse();
+      expect(animator.isReversed()).toBe(true);
+
+      animator.step(400);
+      expect(animator.getTime()).toBe(600);
+      expect(compositor.getObject('ship').position.x).toBe(60);
+    });
+
+    test('reverse loop wraps to the end', () => {
+      animator.loop = true;
+      animator.setReversed(true);
+      animator.step(200);
+      expect(animator.getTime()).toBe(800);
+    });
+
+    test('reversed play() restarts from the end', () => {
+      animator.setReversed(true);
+      animator.play();
+      expect(animator.getTime()).toBe(1000);
+    });
+
+    test('seek clamps to the timeline', () => {
+      animator.seek(5000);
+      expect(animator.getTime()).toBe(1000);
+      animator.seek(-5);
+      expect(animator.getTime()).toBe(0);
+    });
+
+    test('step() is deterministic and independent of the clock', () => {
+      for (let i = 0; i < 10; i++) {
+        animator.step(16);
+      }
+      expect(animator.getTime()).toBe(160);
+      expect(compositor.getObject('ship').position.x).toBe(16);
+      expect(() => animator.step(-1)).toThrow('Step must be non-negative');
+    });
+
+    test('explicit duration extends the timeline', () => {
+      animator = new Animator(compositor, { clock, duration: 2000 });
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 100, y: 0 }, duration: 1000 });
+      animator.step(1500);
+      expect(animator.getTime()).toBe(1500);
+      expect(compositor.getObject('ship').position.x).toBe(100);
+    });
+
+    test('throws on non-positive explicit duration', () => {
+      expect(() => new Animator(compositor, { duration: 0 })).toThrow('Timeline duration must be positive');
+    });
+  });
+
+  describe('Compositor integration', () => {
+    test('moves objects without re-adding them', () => {
+      animator.addTween({ id: 'rock', property: 'position', from: { x: 0, y: 5 }, to: { x: 2, y: 5 }, duration: 100 });
+      const viewport = { x: 0, y: 5, width: 3, height: 1 };
+
+      animator.seek(0);
+      expect(compositor.render(viewport).characters[0]).toEqual(['o', ' ', ' ']);
+      animator.step(100);
+      const output = compositor.render(viewport);
+      expect(output.characters[0]).toEqual([' ', ' ', 'o']);
+      expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 2, maxY: 0 }]);
+    });
+
+    test('skips tracks of removed objects and resumes them when the id returns', () => {
+      animator.addTween({ id: 'rock', property: 'position', to: { x: 9, y: 5 }, duration: 100 });
+      animator.addTween({ id: 'ship', property: 'position', to: { x: 4, y: 0 }, duration: 100 });
+      compositor.removeObject('rock');
+
+      animator.play();
+      clock.advance(50);
+      animator.update();
+      animator.seek(25);
+      expect(compositor.getObject('ship').position).toEqual({ x: 1, y: 0 });
+
+      compositor.addObject(new AsciiObject({ id: 'rock', content: [['o']], position: { x: 0, y: 0 } }));
+      animator.step(25);
+      expect(compositor.getObject('rock').position).toEqual({ x: 7, y: 5 });
+    });
+
+    test('leaves objects clean when values do not change', () => {
+      animator.addKeyframes('rock', 'layer', [{ time: 0, value: 0 }, { time: 100, value: 0 }]);
+      compositor.render({ x: 0, y: 0, width: 1, height: 1 });
+
+      animator.step(50);
+      expect(compositor.getObject('rock').isDirty()).toBe(false);
+    });
+  });
+});
+
+describe('Easing', () => {
+  test('all easings start at 0 and end at 1', () => {
+    for (const fn of Object.values(EASINGS)) {
+      expect(fn(0)).toBeCloseTo(0);
+      expect(fn(1)).toBeCloseTo(1);
+    }
+  });
+
+  test('resolveEasing defaults to linear', () => {
+    expect(resolveEasing()(0.3)).toBe(0.3);
+  });
+});
+
+describe('ManualClock', () => {
+  test('advances and rejects going backwards', () => {
+    const clock = new ManualClock(10);
+    clock.advance(5);
+    expect(clock.now()).toBe(15);
+    expect(() => clock.advance(-1)).toThrow('Clock cannot move backwards');
+  });
+});
@@ -0,0 +1,643 @@
+/**
+ * Animator - Timeline playback of keyframe tracks on a Compositor scene
+ *
+ * Drives compositor objects over time using per-object keyframe tracks. Tweens are
+ * shorthand for adding a start and end keyframe. Time is read from an injectable
+ * Clock, and step() advances the timeline deterministically.
+ *
+ * @module @ascii-art-studio/animator
+ */
+
+import type { Compositor } from '../../compositor/src/Compositor';
+import type { AsciiObject, Position } from '../../compositor/src/AsciiObject';
+import { type Clock, systemClock } from './Clock';
+import { type EasingFunction, type EasingName, resolveEasing } from './easing';
+import type { Sprite } from './Sprite';
+import type { Camera } from './Camera';
+
+/** Object properties that can be animated */
+export type AnimatableProperty = 'position' | 'color' | 'layer' | 'influenceStrength';
+
+/** Value type for each animatable property */
+export interface AnimatableValues {
+  position: Position;
+  color: string;
+  layer: number;
+  influenceStrength: number;
+}
+
+/**
+ * A value at a point on the timeline.
+ * The easing shapes the segment arriving at this keyframe.
+ */
+export interface Keyframe<P extends AnimatableProperty = AnimatableProperty> {
+  /** Time in milliseconds from timeline start */
+  time: number;
+  /** Property value at this time */
+  value: AnimatableValues[P];
+  /** Easing for the segment ending at this keyframe (default: linear) */
+  easing?: EasingName | EasingFunction;
+}
+
+/** Options for Animator.addTween() */
+export interface TweenOptions<P extends AnimatableProperty = AnimatableProperty> {
+  /** Target object id */
+  id: string;
+  /** Property to animate */
+  property: P;
+  /** Start value (default: track value at start time, or the object's current value) */
+  from?: AnimatableValues[P];
+  /** End value */
+  to: AnimatableValues[P];
+  /** Start time in milliseconds (default: 0) */
+  start?: number;
+  /** Duration in milliseconds (must be positive) */
+  duration: number;
+  /** Easing (default: linear) */
+  easing?: EasingName | EasingFunction;
+}
+
+/** Options for creating an Animator */
+export interface AnimatorOptions {
+  /** Time source (default: performance.now) */
+  clock?: Clock;
+  /** Wrap around at the ends of the timeline instead of stopping (default: false) */
+  loop?: boolean;
+  /** Explicit timeline length in ms (default: time of the last keyframe) */
+  duration?: number;
+  /** Called when playback reaches the end (or start, when reversed) without looping */
+  onComplete?: () => void;
+}
+
+/** Keyframe with its easing resolved */
+interface ResolvedKeyframe {
+  time: number;
+  value: AnimatableValues[AnimatableProperty];
+  easing: EasingFunction;
+}
+
+/**
+ * Timeline animator for Compositor scenes.
+ *
+ * @example
+ * ```typescript
+ * const animator = new Animator(compositor, { loop: true });
+ * animator.addTween({ id: 'ship', property: 'position', to: { x: 40, y: 5 }, duration: 2000, easing: 'easeInOutQuad' });
+ * animator.addKeyframes('ship', 'color', [
+ *   { time: 0, value: '#ffffff' },
+ *   { time: 1000, value: '#ff0000' },
+ *   { time: 2000, value: '#ffffff' },
+ * ]);
+ * animator.play();
+ *
+ * function frame() {
+ *   animator.update();
+ *   draw(compositor.render());
+ *   requestAnimationFrame(frame);
+ * }
+ * ```
+ */
+export class Animator {
+  /** Whether playback wraps at the ends of the timeline */
+  public loop: boolean;
+
+  /** Scene being animated */
+  private compositor: Compositor;
+
+  /** Time source */
+  private clock: Clock;
+
+  /** Explicit timeline length (overrides last keyframe time) */
+  private explicitDuration?: number;
+
+  /** Completion callback */
+  private onComplete?: () => void;
+
+  /** Keyframe tracks: object id -> property -> keyframes sorted by time */
+  private tracks: Map<string, Map<AnimatableProperty, ResolvedKeyframe[]>> = new Map();
+
+  /** Frame-sequence sprites advanced alongside the timeline */
+  private sprites: Set<Sprite> = new Set();
+
+  /** Cameras advanced after objects have moved */
+  private cameras: Set<Camera> = new Set();
+
+  /** Current timeline position in ms */
+  private time: number = 0;
+
+  /** Whether the timeline advances on update() */
+  private playing: boolean = false;
+
+  /** Playback direction (1 = forward, -1 = reverse) */
+  private direction: 1 | -1 = 1;
+
+  /** Clock time of the last update() while playing */
+  private lastTick: number | null = null;
+
+  /** Clock time of the last update(), for sprites and cameras */
+  private lastDriveTick: number | null = null;
+
+  /**
+   * Creates a new animator for a compositor.
+   *
+   * @param compositor - Scene to animate
+   * @param options - Animator options
+   * @throws {Error} If duration is provided and not positive
+   */
+  constructor(compositor: Compositor, options: AnimatorOptions = {}) {
+    if (options.duration !== undefined && !(options.duration > 0)) {
+      throw new Error('Timeline duration must be positive');
+    }
+
+    this.compositor = compositor;
+    this.clock = options.clock ?? systemClock;
+    this.loop = options.loop ?? false;
+    this.explicitDuration = options.duration;
+    this.onComplete = options.onComplete;
+  }
+
+  /**
+   * Adds a tween: a start and end keyframe on the object's property track.
+   *
+   * @param options - Tween configuration
+   * @throws {Error} If the object does not exist
+   * @throws {Error} If duration is not positive or start is negative
+   * @throws {Error} If a value is invalid for the property
+   */
+  addTween<P extends AnimatableProperty>(options: TweenOptions<P>): void {
+    const start = options.start ?? 0;
+    if (!(options.duration > 0)) {
+      throw new Error('Tween duration must be positive');
+    }
+
+    const obj = this.compositor.getObject(options.id);
+    const from = options.from ?? this.valueAt(options.id, options.property, start) ?? this.readValue(obj, options.property);
+
+    this.addKeyframes(options.id, options.property, [
+      { time: start, value: from },
+      { time: start + options.duration, value: options.to, easing: options.easing },
+    ]);
+  }
+
+  /**
+   * Adds keyframes to an object's property track.
+   * A keyframe at the same time as an existing one replaces it.
+   *
+   * @param id - Target object id
+   * @param property - Property to animate
+   * @param keyframes - Keyframes (any order)
+   * @throws {Error} If the object does not exist
+   * @throws {Error} If no keyframes are given or a time is negative
+   * @throws {Error} If a value is invalid for the property
+   */
+  addKeyframes<P extends AnimatableProperty>(id: string, property: P, keyframes: Keyframe<P>[]): void {
+    const obj = this.compositor.getObject(id);
+
+    if (keyframes.length === 0) {
+      throw new Error('Keyframe track requires at least one keyframe');
+    }
+    if (property === 'influenceStrength' && !obj.influence) {
+      throw new Error(`Object '${id}' has no influence to animate`);
+    }
+
+    const resolved: ResolvedKeyframe[] = keyframes.map(k => {
+      if (!(k.time >= 0) || !Number.isFinite(k.time)) {
+        throw new Error('Keyframe time must be a non-negative number');
+      }
+      this.validateValue(property, k.value);
+      return {
+        time: k.time,
+        value: this.normalizeValue(property, k.value),
+        easing: resolveEasing(k.easing),
+      };
+    });
+
+    let objectTracks = this.tracks.get(id);
+    if (!objectTracks) {
+      objectTracks = new Map();
+      this.tracks.set(id, objectTracks);
+    }
+
+    const track = objectTracks.get(property) ?? [];
+    for (const keyframe of resolved) {
+      const existing = track.findIndex(k => k.time === keyframe.time);
+      if (existing >= 0) {
+        track[existing] = keyframe;
+      } else {
+        track.push(keyframe);
+      }
+    }
+    track.sort((a, b) => a.time - b.time);
+    objectTracks.set(property, track);
+  }
+
+  /**
+   * Removes keyframe tracks.
+   *
+   * @param id - Object id whose tracks to remove (all tracks if omitted)
+   * @param property - Single property track to remove (all of the object's tracks if omitted)
+   */
+  removeTracks(id?: string, property?: AnimatableProperty): void {
+    if (id === undefined) {
+      this.tracks.clear();
+      return;
+    }
+    if (property === undefined) {
+      this.tracks.delete(id);
+      return;
+    }
+    this.tracks.get(id)?.delete(property);
+  }
+
+  /**
+   * Registers a sprite to be advanced by update() and step().
+   * Sprites always play forward by elapsed time, independent of timeline
+   * direction, looping and playback state (they keep animating while the
+   * timeline is paused or finished), and do not count towards the timeline duration.
+   *
+   * @param sprite - Sprite to drive
+   */
+  addSprite(sprite: Sprite): void {
+    this.sprites.add(sprite);
+  }
+
+  /**
+   * Stops driving a sprite. Its object keeps the frame currently shown.
+   *
+   * @param sprite - Sprite to remove
+   */
+  removeSprite(sprite: Sprite): void {
+    this.sprites.delete(sprite);
+  }
+
+  /**
+   * Registers a camera to be advanced by update() and step(), after the
+   * timeline and sprites have moved its target. Like sprites, cameras always
+   * advance by elapsed time, including while the timeline is paused or finished.
+   *
+   * @param camera - Camera to drive
+   */
+  addCamera(camera: Camera): void {
+    this.cameras.add(camera);
+  }
+
+  /**
+   * Stops driving a camera. It keeps its current position.
+   *
+   * @param camera - Camera to remove
+   */
+  removeCamera(camera: Camera): void {
+    this.cameras.delete(camera);
+  }
+
+  /**
+   * Returns the timeline length in milliseconds.
+   * Uses the explicit duration if set, otherwise the time of the last keyframe.
+   */
+  getDuration(): number {
+    if (this.explicitDuration !== undefined) {
+      return this.explicitDuration;
+    }
+
+    let duration = 0;
+    for (const objectTracks of this.tracks.values()) {
+      for (const track of objectTracks.values()) {
+        duration = Math.max(duration, track[track.length - 1].time);
+      }
+    }
+    return duration;
+  }
+
+  /**
+   * Returns the current timeline position in milliseconds.
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Returns true while the timeline is playing.
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Returns true if playback runs backwards.
+   */
+  isReversed(): boolean {
+    return this.direction === -1;
+  }
+
+  /**
+   * Starts or resumes playback from the current time.
+   * If a non-looping timeline already finished, restarts from its beginning
+   * (the end, when reversed).
+   */
+  play(): void {
+    if (!this.loop) {
+      const duration = this.getDuration();
+      if (this.direction === 1 && this.time >= duration) {
+        this.time = 0;
+      } else if (this.direction === -1 && this.time <= 0) {
+        this.time = duration;
+      }
+    }
+
+    this.playing = true;
+    this.lastTick = this.clock.now();
+    if (this.lastDriveTick === null) {
+      this.lastDriveTick = this.lastTick;
+    }
+    this.apply();
+  }
+
+  /**
+   * Pauses playback at the current time.
+   */
+  pause(): void {
+    this.playing = false;
+    this.lastTick = null;
+  }
+
+  /**
+   * Jumps to a time and applies the scene state for it.
+   *
+   * @param time - Time in ms (clamped to the timeline)
+   */
+  seek(time: number): void {
+    this.time = Math.max(0, Math.min(this.getDuration(), time));
+    this.apply();
+  }
+
+  /**
+   * Sets playback direction.
+   *
+   * @param reversed - True to play backwards
+   */
+  setReversed(reversed: boolean): void {
+    this.direction = reversed ? -1 : 1;
+  }
+
+  /**
+   * Toggles playback direction.
+   */
+  reverse(): void {
+    this.direction = this.direction === 1 ? -1 : 1;
+  }
+
+  /**
+   * Advances the timeline by the clock time elapsed since the last update.
+   * Call once per frame. While paused the timeline stays put, but sprites and
+   * cameras still advance.
+   */
+  update(): void {
+    const now = this.clock.now();
+    // Sprites and cameras keep their own tick, so pausing the timeline does not freeze them
+    const driveElapsed = now - (this.lastDriveTick ?? now);
+    this.lastDriveTick = now;
+
+    if (!this.playing) {
+      this.advanceDriven(driveElapsed);
+      return;
+    }
+
+    const elapsed = now - (this.lastTick ?? now);
+    this.lastTick = now;
+    this.advance(elapsed, driveElapsed);
+  }
+
+  /**
+   * Advances the timeline by an exact amount, independent of the clock.
+   * Works while paused (frame stepping) and honors direction and looping.
+   *
+   * @param ms - Milliseconds to advance (must be non-negative)
+   * @throws {Error} If ms is negative
+   */
+  step(ms: number): void {
+    if (ms < 0) {
+      throw new Error('Step must be non-negative');
+    }
+    this.advance(ms, ms);
+  }
+
+  /**
+   * Moves the timeline in the current direction and applies the new state,
+   * then advances sprites and cameras.
+   *
+   * @param ms - Timeline milliseconds
+   * @param driveMs - Sprite and camera milliseconds
+   */
+  private advance(ms: number, driveMs: number): void {
+    const duration = this.getDuration();
+    let time = this.time + ms * this.direction;
+    let completed = false;
+
+    if (duration <= 0) {
+      time = 0;
+    } else if (time > duration || time < 0) {
+      if (this.loop) {
+        time = ((time % duration) + duration) % duration;
+      } else {
+        time = Math.max(0, Math.min(duration, time));
+        completed = this.playing;
+        this.pause();
+      }
+    }
+
+    this.time = time;
+    this.apply();
+    this.advanceDriven(driveMs);
+
+    if (completed) {
+      this.onComplete?.();
+    }
+  }
+
+  /**
+   * Advances sprites, then cameras (so they see their targets' final positions).
+   */
+  private advanceDriven(ms: number): void {
+    for (const sprite of this.sprites) {
+      sprite.advance(ms);
+    }
+    for (const camera of this.cameras) {
+      camera.advance(ms);
+    }
+  }
+
+  /**
+   * Applies every track's value at the current time to its object.
+   * Setters are only called when the value changes, so unchanged objects stay clean.
+   * Tracks of objects no longer in the scene are skipped until an object with that id returns.
+   */
+  private apply(): void {
+    for (const [id, objectTracks] of this.tracks) {
+      if (!this.compositor.hasObject(id)) {
+        continue;
+      }
+      const obj = this.compositor.getObject(id);
+
+      for (const property of objectTracks.keys()) {
+        const value = this.valueAt(id, property, this.time)!;
+
+        switch (property) {
+          case 'position': {
+            const { x, y } = value as Position;
+            if (obj.position.x !== x || obj.position.y !== y) {
+              obj.setPosition(x, y);
+            }
+            break;
+          }
+          case 'color':
+            if (obj.color !== value) {
+              obj.setColor(value as string);
+            }
+            break;
+          case 'layer':
+            if (obj.layer !== value) {
+              obj.setLayer(value as number);
+            }
+            break;
+          case 'influenceStrength':
+            if (obj.influence && obj.influence.transform.strength !== value) {
+              obj.setInfluence({
+                ...obj.influence,
+                transform: { ...obj.influence.transform, strength: value as number },
+              });
+            }
+            break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Evaluates a track at a time.
+   *
+   * @returns Interpolated value, or undefined if the track does not exist
+   */
+  private valueAt<P extends AnimatableProperty>(id: string, property: P, time: number): AnimatableValues[P] | undefined {
+    const track = this.tracks.get(id)?.get(property);
+    if (!track) {
+      return undefined;
+    }
+
+    const first = track[0];
+    const last = track[track.length - 1];
+    if (time <= first.time) return first.value as AnimatableValues[P];
+    if (time >= last.time) return last.value as AnimatableValues[P];
+
+    // Find segment containing time
+    let i = 0;
+    while (track[i + 1].time <= time) {
+      i++;
+    }
+    const from = track[i];
+    const to = track[i + 1];
+    const t = to.easing((time - from.time) / (to.time - from.time));
+
+    return this.interpolate(property, from.value, to.value, t) as AnimatableValues[P];
+  }
+
+  /**
+   * Interpolates between two property values.
+   * Positions and layers snap to whole cells; colors blend per channel.
+   */
+  private interpolate(
+    property: AnimatableProperty,
+    from: AnimatableValues[AnimatableProperty],
+    to: AnimatableValues[AnimatableProperty],
+    t: number
+  ): AnimatableValues[AnimatableProperty] {
+    const lerp = (a: number, b: number) => a + (b - a) * t;
+
+    switch (property) {
+      case 'position': {
+        const a = from as Position;
+        const b = to as Position;
+        return { x: Math.round(lerp(a.x, b.x)), y: Math.round(lerp(a.y, b.y)) };
+      }
+      case 'color': {
+        const a = from as string;
+        const b = to as string;
+        let hex = '#';
+        for (let c = 1; c < 7; c += 2) {
+          const channel = Math.round(lerp(parseInt(a.slice(c, c + 2), 16), parseInt(b.slice(c, c + 2), 16)));
+          hex += Math.max(0, Math.min(255, channel)).toString(16).padStart(2, '0');
+        }
+        return hex;
+      }
+      case 'layer':
+        return Math.round(lerp(from as number, to as number));
+      case 'influenceStrength':
+        return Math.max(0, Math.min(1, lerp(from as number, to as number)));
+    }
+  }
+
+  /**
+   * Reads an object's current value for a property.
+   */
+  private readValue<P extends AnimatableProperty>(obj: AsciiObject, property: P): AnimatableValues[P] {
+    switch (property) {
+      case 'position':
+        return { ...obj.position } as AnimatableValues[P];
+      case 'color':
+        return obj.color as AnimatableValues[P];
+      case 'layer':
+        return obj.layer as AnimatableValues[P];
+      default:
+        if (!obj.influence) {
+          throw new Error(`Object '${obj.id}' has no influence to animate`);
+        }
+        return obj.influence.transform.strength as AnimatableValues[P];
+    }
+  }
+
+  /**
+   * Copies positions and lowercases colors so stored keyframes match object state.
+   */
+  private normalizeValue(
+    property: AnimatableProperty,
+    value: AnimatableValues[AnimatableProperty]
+  ): AnimatableValues[AnimatableProperty] {
+    if (property === 'position') {
+      const { x, y } = value as Position;
+      return { x, y };
+    }
+    if (property === 'color') {
+      return (value as string).toLowerCase();
+    }
+    return value;
+  }
+
+  /**
+   * Validates a keyframe value with the same rules as the AsciiObject setters.
+   */
+  private validateValue(property: AnimatableProperty, value: unknown): void {
+    switch (property) {
+      case 'position': {
+        const p = value as Position;
+        if (!p || !Number.isFinite(p.x) || !Number.isFinite(p.y)) {
+          throw new Error('Position keyframe must have numeric x and y');
+        }
+        break;
+      }
+      case 'color':
+        if (typeof value !== 'string' || !/^#[0-9A-Fa-f]{6}$/.test(value)) {
+          throw new Error('Invalid color format: must be #RRGGBB');
+        }
+        break;
+      case 'layer':
+        if (!Number.isInteger(value)) {
+          throw new Error('Layer must be an integer');
+        }
+        break;
+      case 'influenceStrength':
+        if (typeof value !== 'number' || value < 0 || value > 1) {
+          throw new Error('Influence strength must be between 0.0 and 1.0');
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { Camera } from './Camera';
+import { Animator } from './Animator';
+import { ManualClock } from './Clock';
+import { Compositor } from '../../compositor/src/Compositor';
+import { AsciiObject } from '../../compositor/src/AsciiObject';
+import { Group } from '../../compositor/src/Group';
+
+const FRAME = 1000 / 60;
+
+describe('Camera', () => {
+  let compositor: Compositor;
+  let hero: AsciiObject;
+
+  beforeEach(() => {
+    hero = new AsciiObject({ id: 'hero', content: '@', position: { x: 20, y: 10 } });
+    compositor = new Compositor([hero]);
+  });
+
+  test('keeps the followed object centered and renders through getViewport()', () => {
+    const camera = new Camera(compositor, { width: 11, height: 5 });
+    camera.follow(hero);
+    camera.advance(FRAME);
+
+    expect(camera.getViewport()).toEqual({ x: 15, y: 8, width: 11, height: 5 });
+    const output = compositor.render(camera.getViewport());
+    expect(output.characters[2][5]).toBe('@');
+
+    hero.setPosition(25, 10);
+    camera.advance(FRAME);
+    expect(camera.getViewport().x).toBe(20);
+  });
+
+  test('follows groups and can snap immediately', () => {
+    const group = new Group({ id: 'party', position: { x: 40, y: 0 }, children: [hero] });
+    hero.setPosition(40, 0);
+    const camera = new Camera(compositor, { width: 11, height: 5 });
+
+    camera.follow(group, true);
+
+    expect(camera.getViewport()).toMatchObject({ x: 35, y: -2 });
+    expect(camera.getTarget()).toBe(group);
+  });
+
+  test('does not scroll while the target stays inside the deadzone', () => {
+    const camera = new Camera(compositor, { width: 11, height: 5, deadzone: { width: 4, height: 1 } });
+    hero.setPosition(7, 2);
+    camera.follow(hero);
+
+    camera.advance(FRAME);
+    expect(camera.getPosition()).toEqual({ x: 0, y: 0 });
+
+    hero.setPosition(10, 2);
+    camera.advance(FRAME);
+    expect(camera.getPosition()).toEqual({ x: 3, y: 0 });
+  });
+
+  test('lerp eases towards the target independent of frame rate', () => {
+    hero.setPosition(21, 2);
+    const camera = new Camera(compositor, { width: 11, height: 5, lerp: 0.5 });
+    camera.follow(hero);
+
+    camera.advance(FRAME);
+    expect(camera.getPosition().x).toBeCloseTo(8);
+
+    camera.advance(FRAME * 2);
+    expect(camera.getPosition().x).toBeCloseTo(14);
+
+    camera.advance(1000);
+    expect(camera.getPosition()).toEqual({ x: 16, y: 0 });
+  });
+
+  test('clamps to explicit bounds and to the canvas', () => {
+    const camera = new Camera(compositor, {
+      width: 10,
+      height: 4,
+      bounds: { minX: 0, minY: 0, maxX: 29, maxY: 11 },
+    });
+
+    camera.setPosition(-5, 50);
+    expect(camera.getPosition()).toEqual({ x: 0, y: 8 });
+
+    camera.follow(hero);
+    hero.setPosition(29, 11);
+    camera.advance(FRAME);
+    expect(camera.getPosition()).toEqual({ x: 20, y: 8 });
+
+    compositor.addObject(new AsciiObject({ id: 'wall', content: '####', position: { x: 20, y: 0 } }));
+    camera.setBounds('canvas');
+    camera.setPosition(0, 0);
+    expect(camera.getPosition()).toEqual({ x: 20, y: 0 });
+
+    // Bounds smaller than the viewport: centered on them
+    camera.setBounds({ minX: 0, minY: 0, maxX: 5, maxY: 1 });
+    expect(camera.getPosition()).toEqual({ x: -2, y: -1 });
+  });
+
+  test('centerOn and resize keep the center cell', () => {
+    const camera = new Camera(compositor, { width: 11, height: 5 });
+
+    camera.centerOn(50, 20);
+    expect(camera.getViewport()).toEqual({ x: 45, y: 18, width: 11, height: 5 });
+
+    camera.resize(21, 9);
+    expect(camera.getViewport()).toEqual({ x: 40, y: 16, width: 21, height: 9 });
+  });
+
+  test('shake offsets the viewport and decays to zero', () => {
+    const camera = new Camera(compositor, { width: 10, height: 4, random: () => 0.9 });
+    camera.setPosition(5, 5);
+
+    camera.shake(2, 100);
+    expect(camera.getViewport()).toMatchObject({ x: 7, y: 7 });
+    expect(camera.isShaking()).toBe(true);
+
+    camera.advance(50);
+    expect(camera.getViewport()).toMatchObject({ x: 6, y: 6 });
+
+    camera.advance(50);
+    expect(camera.getViewport()).toMatchObject({ x: 5, y: 5 });
+    expect(camera.isShaking()).toBe(false);
+    expect(camera.getPosition()).toEqual({ x: 5, y: 5 });
+  });
+
+  test('is advanced by an Animator after the timeline moves its target', () => {
+    const animator = new Animator(compositor, { clock: new ManualClock() });
+    animator.addTween({ id: 'hero', property: 'position', to: { x: 30, y: 10 }, duration: 100 });
+    const camera = new Camera(compositor, { width: 11, height: 5 });
+    camera.follow(hero);
+    animator.addCamera(camera);
+
+    animator.step(100);
+    expect(camera.getViewport()).toMatchObject({ x: 25, y: 8 });
+
+    animator.removeCamera(camera);
+    animator.seek(0);
+    animator.step(0);
+    expect(camera.getViewport()).toMatchObject({ x: 25, y: 8 });
+  });
+
+  test('keeps following after a non-looping timeline completes', () => {
+    const clock = new ManualClock();
+    const animator = new Animator(compositor, { clock });
+    animator.addTween({ id: 'hero', property: 'position', to: { x: 30, y: 10 }, duration: 100 });
+    const camera = new Camera(compositor, { width: 11, height: 5 });
+    camera.follow(hero);
+    animator.addCamera(camera);
+
+    animator.play();
+    clock.advance(150);
+    animator.update();
+    expect(animator.isPlaying()).toBe(false);
+    expect(camera.getViewport()).toMatchObject({ x: 25, y: 8 });
+
+    hero.setPosition(40, 12);
+    clock.advance(FRAME);
+    animator.update();
+    expect(camera.getViewport()).toMatchObject({ x: 35, y: 10 });
+  });
+
+  test('validates options', () => {
+    expect(() => new Camera(compositor, { width: 0, height: 5 })).toThrow('Camera size must be positive integers');
+    expect(() => new Camera(compositor, { width: 10, height: 5, lerp: 0 })).toThrow(
+      'Camera lerp must be between 0 (exclusive) and 1'
+    );
+    expect(() => new Camera(compositor, { width: 10, height: 5, deadzone: { width: 11, height: 1 } })).toThrow(
+      'Deadzone must be between 0 and the viewport size'
+    );
+
+    const camera = new Camera(compositor, { width: 10, height: 5 });
+    expect(() => camera.shake(1, 0)).toThrow('Shake intensity must be non-negative and duration positive');
+    expect(() => camera.advance(-1)).toThrow('Camera cannot advance backwards');
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * Camera - Viewport control for scrolling scenes
+ *
+ * Tracks a viewport position in world cells: follows a target with a deadzone
+ * and smoothing, stays inside world bounds, and adds screen shake. getViewport()
+ * returns a whole-cell Viewport that can be passed straight to Compositor.render().
+ *
+ * @module @ascii-art-studio/animator
+ */
+
+import type { Compositor, Viewport } from '../../compositor/src/Compositor';
+import type { Bounds, Position } from '../../compositor/src/AsciiObject';
+import type { SceneNode } from '../../compositor/src/Group';
+
+/**
+ * Area the camera is kept inside:
+ * - Bounds: explicit world rect (inclusive, like object bounds)
+ * - 'canvas': the compositor's current getCanvasBounds()
+ */
+export type CameraBounds = Bounds | 'canvas';
+
+/** Options for creating a Camera */
+export interface CameraOptions {
+  /** Viewport width in cells (positive integer) */
+  width: number;
+  /** Viewport height in cells (positive integer) */
+  height: number;
+  /** Initial top-left corner in world cells (default: 0, 0) */
+  position?: Position;
+  /**
+   * Size of the centered area the target can move in without scrolling
+   * (default: 0 x 0, the camera keeps the target centered)
+   */
+  deadzone?: { width: number; height: number };
+  /**
+   * Fraction of the remaining distance to the target covered per 60 fps frame,
+   * in (0, 1]. 1 snaps to the target (default: 1)
+   */
+  lerp?: number;
+  /** Area to keep the viewport inside (default: unbounded) */
+  bounds?: CameraBounds | null;
+  /** Random source for shake offsets, returning [0, 1) (default: Math.random) */
+  random?: () => number;
+}
+
+/** Reference frame length for lerp, in ms */
+const FRAME_MS = 1000 / 60;
+
+/**
+ * Scrolling camera for a Compositor scene.
+ *
+ * @example
+ * ```typescript
+ * const camera = new Camera(compositor, { width: 80, height: 24, lerp: 0.2, bounds: 'canvas' });
+ * camera.setDeadzone(20, 6);
+ * camera.follow(compositor.getObject('hero'));
+ * animator.addCamera(camera);
+ *
+ * function frame() {
+ *   animator.update();
+ *   draw(compositor.render(camera.getViewport()));
+ *   requestAnimationFrame(frame);
+ * }
+ * ```
+ */
+export class Camera {
+  /** Scene used for 'canvas' bounds */
+  private compositor: Compositor;
+
+  /** Viewport size in cells */
+  private width: number;
+  private height: number;
+
+  /** Top-left corner in world cells (fractional while smoothing) */
+  private x: number;
+  private y: number;
+
+  /** Node being followed */
+  private target: SceneNode | null = null;
+
+  /** Deadzone size in cells */
+  private deadzone: { width: number; height: number } = { width: 0, height: 0 };
+
+  /** Smoothing factor per reference frame */
+  private lerp: number;
+
+  /** Clamping area */
+  private bounds: CameraBounds | null;
+
+  /** Random source for shake */
+  private random: () => number;
+
+  /** Shake amplitude in cells at the start of the shake */
+  private shakeIntensity: number = 0;
+
+  /** Shake length and elapsed time in ms */
+  private shakeDuration: number = 0;
+  private shakeTime: number = 0;
+
+  /** Current shake offset in whole cells */
+  private shakeOffset: Position = { x: 0, y: 0 };
+
+  /**
+   * Creates a camera.
+   *
+   * @param compositor - Scene the camera looks at
+   * @param options - Camera configuration
+   * @throws {Error} If the size, deadzone or lerp is invalid
+   */
+  constructor(compositor: Compositor, options: CameraOptions) {
+    this.validateSize(options?.width, options?.height);
+    if (options.lerp !== undefined) {
+      this.validateLerp(options.lerp);
+    }
+
+    this.compositor = compositor;
+    this.width = options.width;
+    this.height = options.height;
+    this.x = options.position?.x ?? 0;
+    this.y = options.position?.y ?? 0;
+    this.lerp = options.lerp ?? 1;
+    this.bounds = options.bounds ?? null;
+    this.random = options.random ?? Math.random;
+
+    if (options.deadzone) {
+      this.setDeadzone(options.deadzone.width, options.deadzone.height);
+    }
+    this.clamp();
+  }
+
+  /**
+   * Starts following a node (object or group), or stops following with null.
+   * The camera moves towards the node on the next advance().
+   *
+   * @param target - Node to follow, or null
+   * @param snap - Jump to the node immediately instead of easing (default: false)
+   */
+  follow(target: SceneNode | null, snap: boolean = false): void {
+    this.target = target;
+    if (snap && target) {
+      const goal = this.goalFor(target);
+      if (goal) {
+        this.x = goal.x;
+        this.y = goal.y;
+        this.clamp();
+      }
+    }
+  }
+
+  /**
+   * Returns the node being followed.
+   */
+  getTarget(): SceneNode | null {
+    return this.target;
+  }
+
+  /**
+   * Sets the deadzone: a centered area the target can move in without the camera scrolling.
+   *
+   * @param width - Deadzone width in cells (0 to the viewport width)
+   * @param height - Deadzone height in cells (0 to the viewport height)
+   * @throws {Error} If the deadzone is negative or larger than the viewport
+   */
+  setDeadzone(width: number, height: number): void {
+    if (!(width >= 0 && width <= this.width && height >= 0 && height <= this.height)) {
+      throw new Error('Deadzone must be between 0 and the viewport size');
+    }
+    this.deadzone = { width, height };
+  }
+
+  /**
+   * Sets the smoothing factor.
+   *
+   * @param lerp - Fraction of the remaining distance covered per 60 fps frame, in (0, 1]
+   * @throws {Error} If lerp is outside (0, 1]
+   */
+  setLerp(lerp: number): void {
+    this.validateLerp(lerp);
+    this.lerp = lerp;
+  }
+
+  /**
+   * Sets the area the viewport is kept inside, or null for no clamping.
+   * If the area is smaller than the viewport, the viewport is centered on it.
+   *
+   * @param bounds - World rect, 'canvas', or null
+   */
+  setBounds(bounds: CameraBounds | null): void {
+    this.bounds = bounds;
+    this.clamp();
+  }
+
+  /**
+   * Resizes the viewport, keeping its center in place.
+   * The deadzone shrinks to fit if needed.
+   *
+   * @param width - New width in cells (positive integer)
+   * @param height - New height in cells (positive integer)
+   * @throws {Error} If the size is not a positive integer
+   */
+  resize(width: number, height: number): void {
+    this.validateSize(width, height);
+    this.x += (this.width - width) / 2;
+    this.y += (this.height - height) / 2;
+    this.width = width;
+    this.height = height;
+    this.deadzone = {
+      width: Math.min(this.deadzone.width, width),
+      height: Math.min(this.deadzone.height, height),
+    };
+    this.clamp();
+  }
+
+  /**
+   * Moves the viewport's top-left corner (clamped to bounds).
+   *
+   * @param x - World X
+   * @param y - World Y
+   */
+  setPosition(x: number, y: number): void {
+    this.x = x;
+    this.y = y;
+    this.clamp();
+  }
+
+  /**
+   * Moves the viewport so a world cell is at its center (clamped to bounds).
+   *
+   * @param x - World X
+   * @param y - World Y
+   */
+  centerOn(x: number, y: number): void {
+    this.setPosition(x + 0.5 - this.width / 2, y + 0.5 - this.height / 2);
+  }
+
+  /**
+   * Returns the unrounded top-left corner, without shake.
+   */
+  getPosition(): Position {
+    return { x: this.x, y: this.y };
+  }
+
+  /**
+   * Starts a screen shake that decays linearly to zero.
+   * A new shake replaces the current one.
+   *
+   * @param intensity - Maximum offset in cells
+   * @param duration - Shake length in ms
+   * @throws {Error} If intensity is negative or duration is not positive
+   */
+  shake(intensity: number, duration: number): void {
+    if (!(intensity >= 0) || !(duration > 0)) {
+      throw new Error('Shake intensity must be non-negative and duration positive');
+    }
+    this.shakeIntensity = intensity;
+    this.shakeDuration = duration;
+    this.shakeTime = 0;
+    this.updateShake();
+  }
+
+  /**
+   * Returns true while a shake is running.
+   */
+  isShaking(): boolean {
+    return this.shakeTime < this.shakeDuration;
+  }
+
+  /**
+   * Moves towards the target and advances the shake.
+   *
+   * @param ms - Milliseconds to advance (must be non-negative)
+   * @throws {Error} If ms is negative
+   */
+  advance(ms: number): void {
+    if (ms < 0) {
+      throw new Error('Camera cannot advance backwards');
+    }
+
+    const goal = this.target ? this.goalFor(this.target) : null;
+    if (goal) {
+      // Frame-rate independent exponential smoothing
+      const t = this.lerp === 1 ? 1 : 1 - Math.pow(1 - this.lerp, ms / FRAME_MS);
+      this.x += (goal.x - this.x) * t;
+      this.y += (goal.y - this.y) * t;
+      // Settle exactly once within a hundredth of a cell
+      if (Math.abs(goal.x - this.x) < 0.01) this.x = goal.x;
+      if (Math.abs(goal.y - this.y) < 0.01) this.y = goal.y;
+    }
+    this.clamp();
+
+    if (this.isShaking()) {
+      this.shakeTime = Math.min(this.shakeDuration, this.shakeTime + ms);
+      this.updateShake();
+    }
+  }
+
+  /**
+   * Returns the viewport to render: the rounded position plus the shake offset.
+   * Shake is applied after clamping, so it stays visible at the world edges.
+   */
+  getViewport(): Viewport {
+    return {
+      x: Math.round(this.x) + this.shakeOffset.x,
+      y: Math.round(this.y) + this.shakeOffset.y,
+      width: this.width,
+      height: this.height,
+    };
+  }
+
+  /**
+   * Returns the top-left corner that brings a node back inside the deadzone,
+   * or null if the node has no bounds (empty group).
+   */
+  private goalFor(target: SceneNode): Position | null {
+    const bounds = target.getBounds();
+    if (!bounds) {
+      return null;
+    }
+
+    const goal = { x: this.x, y: this.y };
+    const axes = [
+      ['x', 'width', (bounds.minX + bounds.maxX + 1) / 2],
+      ['y', 'height', (bounds.minY + bounds.maxY + 1) / 2],
+    ] as const;
+
+    for (const [axis, size, center] of axes) {
+      const half = this.deadzone[size] / 2;
+      const offset = center - (this[axis] + this[size] / 2);
+      if (offset > half) {
+        goal[axis] += offset - half;
+      } else if (offset < -half) {
+        goal[axis] += offset + half;
+      }
+    }
+    return goal;
+  }
+
+  /**
+   * Keeps the position inside the bounds, centering on axes smaller than the viewport.
+   */
+  private clamp(): void {
+    const bounds = this.bounds === 'canvas' ? this.compositor.getCanvasBounds() : this.bounds;
+    if (!bounds) {
+      return;
+    }
+
+    const clampAxis = (value: number, min: number, max: number, size: number): number => {
+      const span = max - min + 1;
+      if (span <= size) {
+        return min - (size - span) / 2;
+      }
+      return Math.max(min, Math.min(max + 1 - size, value));
+    };
+
+    this.x = clampAxis(this.x, bounds.minX, bounds.maxX, this.width);
+    this.y = clampAxis(this.y, bounds.minY, bounds.maxY, this.height);
+  }
+
+  /**
+   * Picks a new random shake offset scaled by the remaining shake strength.
+   */
+  private updateShake(): void {
+    const strength = this.isShaking() ? this.shakeIntensity * (1 - this.shakeTime / this.shakeDuration) : 0;
+    if (strength === 0) {
+      this.shakeOffset = { x: 0, y: 0 };
+      return;
+    }
+    // Add 0 to normalize -0 from rounding small negative offsets
+    this.shakeOffset = {
+      x: Math.round((this.random() * 2 - 1) * strength) + 0,
+      y: Math.round((this.random() * 2 - 1) * strength) + 0,
+    };
+  }
+
+  /**
+   * Validates a viewport size.
+   */
+  private validateSize(width: number, height: number): void {
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      throw new Error('Camera size must be positive integers');
+    }
+  }
+
+  /**
+   * Validates a smoothing factor.
+   */
+  private validateLerp(lerp: number): void {
+    if (!(lerp > 0 && lerp <= 1)) {
+      throw new Error('Camera lerp must be between 0 (exclusive) and 1');
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Clock sources for the animator
+ *
+ * The Animator reads time through a Clock so tests can drive it deterministically.
+ *
+ * @module @ascii-art-studio/animator
+ */
+
+/** Source of the current time in milliseconds */
+export interface Clock {
+  /** Current time in milliseconds (monotonic) */
+  now(): number;
+}
+
+/** Clock backed by performance.now() (falls back to Date.now()) */
+export const systemClock: Clock = {
+  now: () => (typeof performance !== 'undefined' ? performance.now() : Date.now()),
+};
+
+/**
+ * Manually advanced clock for deterministic tests and offline rendering.
+ *
+ * @example
+ * ```typescript
+ * const clock = new ManualClock();
+ * const animator = new Animator(compositor, { clock });
+ * animator.play();
+ * clock.advance(100);
+ * animator.update(); // timeline is now at 100ms
+ * ```
+ */
+export class ManualClock implements Clock {
+  /** Current time in milliseconds */
+  private current: number;
+
+  /**
+   * Creates a manual clock.
+   *
+   * @param start - Initial time in milliseconds (default: 0)
+   */
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  /**
+   * Returns the current time.
+   */
+  now(): number {
+    return this.current;
+  }
+
+  /**
+   * Moves the clock forward.
+   *
+   * @param ms - Milliseconds to advance (must be non-negative)
+   * @throws {Error} If ms is negative
+   */
+  advance(ms: number): void {
+    if (ms < 0) {
+      throw new Error('Clock cannot move backwards');
+    }
+    this.current += ms;
+  }
+}
@@ -0,0 +1,221 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { Sprite } from './Sprite';
+import { Animator } from './Animator';
+import { ManualClock } from './Clock';
+import { Compositor } from '../../compositor/src/Compositor';
+import { AsciiObject } from '../../compositor/src/AsciiObject';
+
+const SPINNER = ['|', '/', '-', '\\'].map(c => ({ content: c, duration: 100 }));
+
+function charOf(compositor: Compositor, id: string): string | null {
+  return compositor.getObject(id).content[0][0];
+}
+
+describe('Sprite', () => {
+  let compositor: Compositor;
+
+  beforeEach(() => {
+    compositor = new Compositor([
+      new AsciiObject({ id: 'spinner', content: [['?']], position: { x: 0, y: 0 } }),
+    ]);
+  });
+
+  test('shows the first frame on creation', () => {
+    const sprite = new Sprite(compositor.getObject('spinner'), { frames: SPINNER });
+
+    expect(sprite.getFrameIndex()).toBe(0);
+    expect(sprite.frameCount).toBe(4);
+    expect(charOf(compositor, 'spinner')).toBe('|');
+  });
+
+  test('loop mode wraps to the first frame', () => {
+    const sprite = new Sprite(compositor.getObject('spinner'), { frames: SPINNER });
+    const seen: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      seen.push(sprite.getFrameIndex());
+      sprite.advance(100);
+    }
+
+    expect(seen).toEqual([0, 1, 2, 3, 0, 1]);
+    expect(sprite.isFinished()).toBe(false);
+  });
+
+  test('ping-pong mode reverses without repeating end frames', () => {
+    const sprite = new Sprite(compositor.getObject('spinner'), {
+      frames: SPINNER.slice(0, 3),
+      mode: 'ping-pong',
+    });
+    const seen: number[] = [];
+    for (let i = 0; i < 7; i++) {
+      seen.push(sprite.getFrameIndex());
+      sprite.advance(100);
+    }
+
+    expect(seen).toEqual([0, 1, 2, 1, 0, 1, 2]);
+  });
+
+  test('once mode holds the last frame and finishes', () => {
+    const sprite = new Sprite(compositor.getObject('spinner'), { frames: SPINNER, mode: 'once' });
+
+    sprite.advance(350);
+    expect(sprite.getFrameIndex()).toBe(3);
+    expect(sprite.isFinished()).toBe(false);
+
+    sprite.advance(1000);
+    expect(sprite.getFrameIndex()).toBe(3);
+    expect(sprite.isFinished()).toBe(true);
+    expect(charOf(compositor, 'spinner')).toBe('\\');
+  });
+
+  test('honors per-frame durations', () => {
+    const sprite = new Sprite(compositor.getObject('spinner'), {
+      frames: [
+        { content: 'a', duration: 50 },
+        { content: 'b', duration: 200 },
+      ],
+    });
+
+    sprite.seek(49);
+    expect(sprite.getFrameIndex()).toBe(0);
+    sprite.seek(50);
+    expect(sprite.getFrameIndex()).toBe(1);
+    sprite.seek(249);
+    expect(sprite.getFrameIndex()).toBe(1);
+    sprite.seek(250);
+    expect(sprite.getFrameIndex()).toBe(0);
+  });
+
+  test('setFrame jumps to a frame and reset restarts', () => {
+    const sprite = new Sprite(compositor.getObject('spinner'), { frames: SPINNER });
+
+    sprite.setFrame(2);
+    expect(sprite.getTime()).toBe(200);
+    expect(charOf(compositor, 'spinner')).toBe('-');
+
+    sprite.reset();
+    expect(sprite.getFrameIndex()).toBe(0);
+    expect(() => sprite.setFrame(4)).toThrow('Frame index out of range: 4');
+  });
+
+  test('changing frames marks the object dirty for incremental rendering', () => {
+    const sprite = new Sprite(compositor.getObject('spinner'), { frames: SPINNER });
+    compositor.render({ x: 0, y: 0, width: 3, height: 1 });
+
+    sprite.advance(100);
+    const output = compositor.render({ x: 0, y: 0, width: 3, height: 1 });
+
+    expect(output.characters[0][0]).toBe('/');
+    expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 0, maxY: 0 }]);
+  });
+
+  test('does not touch the object when the frame is unchanged', () => {
+    const sprite = new Sprite(compositor.getObject('spinner'), { frames: SPINNER });
+    compositor.render({ x: 0, y: 0, width: 3, height: 1 });
+
+    sprite.advance(50);
+    const output = compositor.render({ x: 0, y: 0, width: 3, height: 1 });
+
+    expect(output.dirtyRegions).toEqual([]);
+  });
+
+  test('keeps influence masks in sync with frame shape', () => {
+    const obj = new AsciiObject({
+      id: 'glow',
+      content: 'x',
+      position: { x: 0, y: 0 },
+      influence: { radius: 1, transform: { type: 'lighten', strength: 1.0, falloff: 'linear' } },
+    });
+    const sprite = new Sprite(obj, {
+      frames: [
+        { content: 'x', duration: 100 },
+        { content: 'xxx', duration: 100 },
+      ],
+    });
+    expect(obj.getInfluenceMask()?.[0].length).toBe(3);
+
+    sprite.advance(100);
+    expect(obj.getInfluenceMask()?.[0].length).toBe(5);
+  });
+
+  test('preserves the object flip state across frames', () => {
+    const obj = new AsciiObject({ id: 'walker', content: 'ab', position: { x: 0, y: 0 } });
+    obj.setFlipHorizontal(true);
+    const sprite = new Sprite(obj, {
+      frames: [
+        { content: 'ab', duration: 100 },
+        { content: 'cd', duration: 100 },
+      ],
+    });
+    expect(obj.content[0]).toEqual(['b', 'a']);
+
+    sprite.advance(100);
+    expect(obj.content[0]).toEqual(['d', 'c']);
+    expect(obj.flipHorizontal).toBe(true);
+  });
+
+  test('validates frames and mode', () => {
+    const obj = compositor.getObject('spinner');
+
+    expect(() => new Sprite(obj, { frames: [] })).toThrow('Sprite requires at least one frame');
+    expect(() => new Sprite(obj, { frames: [{ content: 'a', duration: 0 }] })).toThrow(
+      'Sprite frame duration must be positive'
+    );
+    expect(() => new Sprite(obj, { frames: SPINNER, mode: 'bounce' as any })).toThrow(
+      'Invalid sprite playback mode: bounce'
+    );
+    expect(() => new Sprite(obj, { frames: SPINNER }).advance(-1)).toThrow('Sprite cannot advance backwards');
+  });
+
+  test('is driven by an Animator', () => {
+    const clock = new ManualClock();
+    const animator = new Animator(compositor, { clock });
+    const sprite = new Sprite(compositor.getObject('spinner'), { frames: SPINNER });
+    animator.addSprite(sprite);
+
+    animator.step(200);
+    expect(charOf(compositor, 'spinner')).toBe('-');
+
+    animator.play();
+    animator.update();
+    clock.advance(100);
+    animator.update();
+    expect(charOf(compositor, 'spinner')).toBe('\\');
+
+    animator.removeSprite(sprite);
+    animator.step(100);
+    expect(charOf(compositor, 'spinner')).toBe('\\');
+  });
+
+  test('keeps animating while the timeline is empty, paused or finished', () => {
+    compositor.addObject(new AsciiObject({ id: 'ship', content: '>', position: { x: 0, y: 1 } }));
+    const clock = new ManualClock();
+    const animator = new Animator(compositor, { clock });
+    animator.addSprite(new Sprite(compositor.getObject('spinner'), { frames: SPINNER }));
+
+    // Empty timeline, never played
+    animator.update();
+    clock.advance(100);
+    animator.update();
+    expect(charOf(compositor, 'spinner')).toBe('/');
+
+    // Non-looping timeline that completes
+    animator.addTween({ id: 'ship', property: 'position', to: { x: 5, y: 1 }, duration: 50 });
+    animator.play();
+    clock.advance(100);
+    animator.update();
+    expect(animator.isPlaying()).toBe(false);
+    expect(charOf(compositor, 'spinner')).toBe('-');
+    clock.advance(100);
+    animator.update();
+    expect(charOf(compositor, 'spinner')).toBe('\\');
+
+    // Paused mid-timeline; the timeline itself stays put
+    animator.seek(20);
+    animator.play();
+    animator.pause();
+    clock.advance(100);
+    animator.update();
+    expect(charOf(compositor, 'spinner')).toBe('|');
+    expect(animator.getTime()).toBe(20);
+  });
+});
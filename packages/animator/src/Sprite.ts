@@ -0,0 +1,256 @@
+/**
+ * Sprite - Frame-sequence animation for AsciiObject content
+ *
+ * Cycles an AsciiObject through a list of content frames (walk cycles, spinners,
+ * flickering fire). Frames are applied with setContent(), so the compositor's
+ * dirty tracking and influence masks stay correct.
+ *
+ * @module @ascii-art-studio/animator
+ */
+
+import { AsciiObject, type Cell } from '../../compositor/src/AsciiObject';
+
+/** A single frame of sprite content */
+export interface SpriteFrame {
+  /** Frame content (any AsciiObject content format) */
+  content: Cell[][] | string[] | string;
+  /** How long the frame is shown in milliseconds (must be positive) */
+  duration: number;
+}
+
+/**
+ * Playback mode:
+ * - loop: 0, 1, 2, 0, 1, 2, ...
+ * - ping-pong: 0, 1, 2, 1, 0, 1, ...
+ * - once: 0, 1, 2 then hold the last frame
+ */
+export type SpritePlayback = 'loop' | 'ping-pong' | 'once';
+
+/** Options for creating a Sprite */
+export interface SpriteOptions {
+  /** Frames in playback order (at least one) */
+  frames: SpriteFrame[];
+  /** Playback mode (default: 'loop') */
+  mode?: SpritePlayback;
+  /** Use flood fill to auto-detect transparent edges on each frame (default: false) */
+  autoDetectEdges?: boolean;
+  /** Apply character mirroring when re-applying the object's flip state to frames (default: false) */
+  mirrorChars?: boolean;
+}
+
+/**
+ * Drives an AsciiObject's content through a sequence of frames over time.
+ *
+ * The object's current orientation (rotation and flips) is re-applied to every
+ * frame, so a flipped walk cycle keeps facing the same way.
+ *
+ * @example
+ * ```typescript
+ * const spinner = new Sprite(compositor.getObject('spinner'), {
+ *   frames: ['|', '/', '-', '\\'].map(c => ({ content: c, duration: 100 })),
+ * });
+ * animator.addSprite(spinner);
+ * ```
+ */
+export class Sprite {
+  /** Object whose content is animated */
+  public readonly object: AsciiObject;
+
+  /** Playback mode */
+  public readonly mode: SpritePlayback;
+
+  /** Normalized frame content */
+  private frames: Cell[][][];
+
+  /** Frame durations in ms */
+  private durations: number[];
+
+  /** Frame indices in playback order for one cycle */
+  private sequence: number[];
+
+  /** Length of one cycle in ms */
+  private cycleDuration: number;
+
+  /** Apply character mirroring when re-applying flips */
+  private mirrorChars: boolean;
+
+  /** Elapsed playback time in ms */
+  private time: number = 0;
+
+  /** Frame currently shown on the object */
+  private currentFrame: number = -1;
+
+  /**
+   * Creates a sprite and shows its first frame on the object.
+   *
+   * @param object - Object to animate
+   * @param options - Sprite configuration
+   * @throws {Error} If no frames are given or a duration is not positive
+   * @throws {Error} If a frame's content is invalid (same errors as AsciiObject)
+   */
+  constructor(object: AsciiObject, options: SpriteOptions) {
+    if (!options?.frames || options.frames.length === 0) {
+      throw new Error('Sprite requires at least one frame');
+    }
+
+    const mode = options.mode ?? 'loop';
+    if (mode !== 'loop' && mode !== 'ping-pong' && mode !== 'once') {
+      throw new Error(`Invalid sprite playback mode: ${mode}`);
+    }
+
+    // Normalize and validate every frame up front via the AsciiObject constructor
+    this.frames = options.frames.map(frame => {
+      if (!(frame.duration > 0)) {
+        throw new Error('Sprite frame duration must be positive');
+      }
+      return new AsciiObject({
+        id: object.id,
+        content: frame.content,
+        position: { x: 0, y: 0 },
+        autoDetectEdges: options.autoDetectEdges,
+      }).content;
+    });
+
+    this.object = object;
+    this.mode = mode;
+    this.mirrorChars = options.mirrorChars ?? false;
+    this.durations = options.frames.map(frame => frame.duration);
+    this.sequence = this.buildSequence(this.frames.length, mode);
+    this.cycleDuration = this.sequence.reduce((sum, i) => sum + this.durations[i], 0);
+
+    this.applyFrame(0);
+  }
+
+  /**
+   * Number of frames.
+   */
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Returns the index of the frame currently shown.
+   */
+  getFrameIndex(): number {
+    return this.currentFrame;
+  }
+
+  /**
+   * Returns the elapsed playback time in milliseconds.
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Returns true once a 'once' sprite has reached its last frame's end.
+   * Looping sprites never finish.
+   */
+  isFinished(): boolean {
+    return this.mode === 'once' && this.time >= this.cycleDuration;
+  }
+
+  /**
+   * Advances playback and shows the frame for the new time.
+   *
+   * @param ms - Milliseconds to advance (must be non-negative)
+   * @throws {Error} If ms is negative
+   */
+  advance(ms: number): void {
+    if (ms < 0) {
+      throw new Error('Sprite cannot advance backwards');
+    }
+    this.seek(this.time + ms);
+  }
+
+  /**
+   * Jumps to a playback time and shows the frame for it.
+   *
+   * @param time - Time in ms (negative values clamp to 0)
+   */
+  seek(time: number): void {
+    this.time = Math.max(0, time);
+    this.applyFrame(this.frameAt(this.time));
+  }
+
+  /**
+   * Shows a specific frame, moving playback to that frame's first appearance.
+   *
+   * @param index - Frame index
+   * @throws {Error} If index is out of range
+   */
+  setFrame(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.frames.length) {
+      throw new Error(`Frame index out of range: ${index}`);
+    }
+
+    let start = 0;
+    for (const i of this.sequence) {
+      if (i === index) break;
+      start += this.durations[i];
+    }
+    this.seek(start);
+  }
+
+  /**
+   * Restarts playback from the first frame.
+   */
+  reset(): void {
+    this.seek(0);
+  }
+
+  /**
+   * Returns the frame index for a playback time.
+   */
+  private frameAt(time: number): number {
+    if (this.mode === 'once' && time >= this.cycleDuration) {
+      return this.sequence[this.sequence.length - 1];
+    }
+
+    let t = time % this.cycleDuration;
+    for (const i of this.sequence) {
+      if (t < this.durations[i]) {
+        return i;
+      }
+      t -= this.durations[i];
+    }
+    return this.sequence[this.sequence.length - 1];
+  }
+
+  /**
+   * Shows a frame on the object if it is not already shown.
+   * Re-applies the object's rotation and flips so orientation is preserved.
+   */
+  private applyFrame(index: number): void {
+    if (index === this.currentFrame) {
+      return;
+    }
+    this.currentFrame = index;
+
+    const obj = this.object;
+    const { rotation, flipHorizontal, flipVertical } = obj;
+
+    // setContent() replaces oriented content with the raw frame; rebuild orientation on top
+    obj.setContent(this.frames[index]);
+    obj.rotation = 0;
+    obj.flipHorizontal = false;
+    obj.flipVertical = false;
+    if (rotation !== 0) {
+      obj.rotate(rotation);
+    }
+    obj.setFlipHorizontal(flipHorizontal, this.mirrorChars);
+    obj.setFlipVertical(flipVertical, this.mirrorChars);
+  }
+
+  /**
+   * Builds the frame order for one playback cycle.
+   */
+  private buildSequence(count: number, mode: SpritePlayback): number[] {
+    const forward = Array.from({ length: count }, (_, i) => i);
+    if (mode !== 'ping-pong' || count < 3) {
+      return forward;
+    }
+    // Skip the end frames on the way back so they are not shown twice in a row
+    return [...forward, ...forward.slice(1, -1).reverse()];
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Easing functions for animation timing
+ *
+ * Each easing maps linear progress (0.0 to 1.0) to eased progress.
+ *
+ * @module @ascii-art-studio/animator
+ */
+
+/** Maps linear progress (0.0 to 1.0) to eased progress */
+export type EasingFunction = (t: number) => number;
+
+/** Built-in easing names */
+export type EasingName =
+  | 'linear'
+  | 'step'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic'
+  | 'easeInSine'
+  | 'easeOutSine'
+  | 'easeInOutSine'
+  | 'easeOutBounce';
+
+/** Built-in easing functions by name */
+export const EASINGS: Record<EasingName, EasingFunction> = {
+  linear: t => t,
+  // Holds the start value until the segment ends (useful for discrete changes)
+  step: t => (t >= 1 ? 1 : 0),
+  easeInQuad: t => t * t,
+  easeOutQuad: t => 1 - (1 - t) * (1 - t),
+  easeInOutQuad: t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInCubic: t => t * t * t,
+  easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeInSine: t => 1 - Math.cos((t * Math.PI) / 2),
+  easeOutSine: t => Math.sin((t * Math.PI) / 2),
+  easeInOutSine: t => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeOutBounce: t => {
+    const n1 = 7.5625;
+    const d1 = 2.75;
+    if (t < 1 / d1) return n1 * t * t;
+    if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+    if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+    return n1 * (t -= 2.625 / d1) * t + 0.984375;
+  },
+};
+
+/**
+ * Resolves an easing name or function to an easing function.
+ *
+ * @param easing - Easing name or custom function (default: linear)
+ * @returns Easing function
+ * @throws {Error} If the easing name is unknown
+ */
+export function resolveEasing(easing: EasingName | EasingFunction = 'linear'): EasingFunction {
+  if (typeof easing === 'function') {
+    return easing;
+  }
+
+  const fn = EASINGS[easing];
+  if (!fn) {
+    throw new Error(`Unknown easing: ${easing}`);
+  }
+  return fn;
+}
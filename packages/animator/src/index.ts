@@ -4,3 +4,20 @@
  */
 
 export const version = '0.0.0'
+
+export { Animator } from './Animator'
+export type {
+  AnimatableProperty,
+  AnimatableValues,
+  Keyframe,
+  TweenOptions,
+  AnimatorOptions,
+} from './Animator'
+export { Sprite } from './Sprite'
+export type { SpriteFrame, SpritePlayback, SpriteOptions } from './Sprite'
+export { Camera } from './Camera'
+export type { CameraOptions, CameraBounds } from './Camera'
+export { ManualClock, systemClock } from './Clock'
+export type { Clock } from './Clock'
+export { EASINGS, resolveEasing } from './easing'
+export type { EasingFunction, EasingName } from './easing'
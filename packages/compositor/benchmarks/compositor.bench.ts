@@ -1,5 +1,5 @@
 import { bench, describe } from 'vitest';
-import { Compositor, AsciiObject } from '../src/Compositor';
+import { Compositor, AsciiObject, createRenderBuffer } from '../src/Compositor';
 
 describe('Compositor Performance', () => {
   // Baseline: Simple render without complexity
@@ -45,6 +45,15 @@ describe('Compositor Performance', () => {
     c.render({ x: 0, y: 0, width: 100, height: 100 });
   });
 
+  bench('large viewport into typed buffer (100x100)', () => {
+    const c = new Compositor();
+    c.addObject(new AsciiObject({ id: 'obj',
+      content: [['#']],
+      position: { x: 50, y: 50 }
+    }));
+    c.renderInto(createRenderBuffer(100, 100), { x: 0, y: 0, width: 100, height: 100 });
+  });
+
   bench('very large viewport (500x500)', () => {
     const c = new Compositor();
     c.addObject(new AsciiObject({ id: 'obj',
@@ -157,6 +166,15 @@ describe('Compositor Performance', () => {
     c.getObject('obj').flipVerticalToggle();
   });
 
+  bench('rotate quarter turn', () => {
+    const c = new Compositor();
+    c.addObject(new AsciiObject({ id: 'obj',
+      content: ['┌───┐', '│ → │', '└───┘'],
+      position: { x: 0, y: 0 }
+    }));
+    c.getObject('obj').rotate(1);
+  });
+
   // AutoDetectEdges
   bench('autoDetectEdges on complex shape', () => {
     const c = new Compositor();
@@ -195,6 +213,65 @@ describe('Compositor Performance', () => {
     warmCompositor.render({ x: 0, y: 0, width: 10, height: 10 });
   });
 
+  // Incremental re-render: one sprite moving over a large static scene
+  const spriteCompositor = new Compositor();
+  spriteCompositor.addObject(new AsciiObject({ id: 'bg',
+    content: Array(60).fill('.'.repeat(200)),
+    position: { x: 0, y: 0 }
+  }));
+  spriteCompositor.addObject(new AsciiObject({ id: 'sprite',
+    content: ['/\\', '\\/'],
+    position: { x: 0, y: 0 },
+    layer: 1,
+    influence: {
+      radius: 2,
+      transform: { type: 'lighten', strength: 0.5, falloff: 'linear' }
+    }
+  }));
+  spriteCompositor.render({ x: 0, y: 0, width: 200, height: 60 });
+  let spriteFrame = 0;
+
+  bench('dirty region: moving sprite over 200x60 scene', () => {
+    spriteFrame = (spriteFrame + 1) % 190;
+    spriteCompositor.getObject('sprite').setPosition(spriteFrame, spriteFrame % 50);
+    spriteCompositor.render({ x: 0, y: 0, width: 200, height: 60 });
+  });
+
+  // Spatial index: many small objects scattered across a large world
+  const manyObjects = new Compositor();
+  for (let i = 0; i < 1000; i++) {
+    manyObjects.addObject(new AsciiObject({ id: `obj${i}`,
+      content: [['#', '#'], ['#', '#']],
+      position: { x: (i * 37) % 400, y: (i * 17) % 120 },
+      layer: i % 4
+    }));
+  }
+  let manyObjectsPan = 0;
+
+  bench('spatial index: 1000 objects (200x60 viewport)', () => {
+    manyObjectsPan = (manyObjectsPan + 1) % 200;
+    manyObjects.render({ x: manyObjectsPan, y: 0, width: 200, height: 60 });
+  });
+
+  const manyInfluence = new Compositor();
+  for (let i = 0; i < 2000; i++) {
+    manyInfluence.addObject(new AsciiObject({ id: `obj${i}`,
+      content: [['*']],
+      position: { x: (i * 53) % 800, y: (i * 29) % 200 },
+      color: '#ff8800',
+      influence: {
+        radius: 2,
+        transform: { type: 'lighten', strength: 0.4, falloff: 'linear' }
+      }
+    }));
+  }
+  let manyInfluencePan = 0;
+
+  bench('spatial index: 2000 objects with influence (200x60 viewport)', () => {
+    manyInfluencePan = (manyInfluencePan + 1) % 600;
+    manyInfluence.render({ x: manyInfluencePan, y: 70, width: 200, height: 60 });
+  });
+
   // Viewport offset (dirty region simulation)
   bench('viewport offset (panning simulation)', () => {
     const c = new Compositor();
@@ -0,0 +1,143 @@
+import { describe, test, expect } from 'vitest';
+import { toAnsi, rgbToAnsi256, rgbToAnsi16 } from './AnsiExporter';
+import { Compositor } from './Compositor';
+import { AsciiObject } from './AsciiObject';
+import { WIDE_CONTINUATION } from './unicode';
+
+const ESC = '\x1b[';
+
+describe('AnsiExporter', () => {
+  describe('toAnsi', () => {
+    test('emits truecolor foreground escapes by default', () => {
+      const output = { characters: [['A']], colors: [['#ff8000']] };
+      expect(toAnsi(output)).toBe(`${ESC}38;2;255;128;0mA${ESC}0m`);
+    });
+
+    test('merges runs of identical colors', () => {
+      const output = {
+        characters: [['A', 'B', 'C']],
+        colors: [['#ff0000', '#ff0000', '#00ff00']],
+      };
+      expect(toAnsi(output)).toBe(`${ESC}38;2;255;0;0mAB${ESC}38;2;0;255;0mC${ESC}0m`);
+    });
+
+    test('skips foreground changes for spaces without background', () => {
+      const output = {
+        characters: [['A', ' ', 'B']],
+        colors: [['#ff0000', '#000000', '#ff0000']],
+      };
+      expect(toAnsi(output)).toBe(`${ESC}38;2;255;0;0mA B${ESC}0m`);
+    });
+
+    test('emits plain text for rows of spaces', () => {
+      const output = { characters: [[' ', ' ']], colors: [['#000000', '#000000']] };
+      expect(toAnsi(output)).toBe('  ');
+    });
+
+    test('separates rows with newlines and resets each row', () => {
+      const output = {
+        characters: [['A'], ['B']],
+        colors: [['#ff0000'], ['#ff0000']],
+      };
+      expect(toAnsi(output)).toBe(`${ESC}38;2;255;0;0mA${ESC}0m\n${ESC}38;2;255;0;0mB${ESC}0m`);
+    });
+
+    test('skips wide glyph continuation cells', () => {
+      const output = {
+        characters: [['日', WIDE_CONTINUATION, 'x']],
+        colors: [['#ff0000', '#00ff00', '#ff0000']],
+      };
+      expect(toAnsi(output)).toBe(`${ESC}38;2;255;0;0m日x${ESC}0m`);
+    });
+
+    test('replaces control characters so content cannot inject escapes', () => {
+      const output = {
+        characters: [['\x1b', '[', '2', 'J', '\u009b', 'e\u0007', '\n', '\x7f']],
+        colors: [Array(8).fill('#ff0000')],
+      };
+      expect(toAnsi(output)).toBe(`${ESC}38;2;255;0;0m\ufffd[2J\ufffde\ufffd\ufffd\ufffd${ESC}0m`);
+    });
+
+    test('uses 256-color palette indices', () => {
+      const output = { characters: [['A']], colors: [['#ff0000']] };
+      expect(toAnsi(output, { mode: '256' })).toBe(`${ESC}38;5;196mA${ESC}0m`);
+    });
+
+    test('uses 16-color SGR codes', () => {
+      const output = {
+        characters: [['A', 'B']],
+        colors: [['#cd0000', '#ffffff']],
+      };
+      expect(toAnsi(output, { mode: '16' })).toBe(`${ESC}31mA${ESC}97mB${ESC}0m`);
+    });
+
+    test('applies uniform background color', () => {
+      const output = { characters: [['A', ' ']], colors: [['#ffffff', '#000000']] };
+      expect(toAnsi(output, { background: '#0000ff' })).toBe(
+        `${ESC}38;2;255;255;255;48;2;0;0;255mA${ESC}38;2;0;0;0m ${ESC}0m`
+      );
+    });
+
+    test('applies per-cell background grid in 16-color mode', () => {
+      const output = { characters: [['A', 'B']], colors: [['#000000', '#000000']] };
+      expect(toAnsi(output, { mode: '16', background: [['#ff0000', '#00ff00']] })).toBe(
+        `${ESC}30;101mA${ESC}102mB${ESC}0m`
+      );
+    });
+
+    test('throws on mismatched background grid', () => {
+      const output = { characters: [['A', 'B']], colors: [['#000000', '#000000']] };
+      expect(() => toAnsi(output, { background: [['#000000']] })).toThrow(
+        'Background grid dimensions must match output'
+      );
+    });
+
+    test('throws on invalid mode', () => {
+      const output = { characters: [['A']], colors: [['#000000']] };
+      expect(() => toAnsi(output, { mode: '8' as any })).toThrow('Invalid ANSI color mode: 8');
+    });
+
+    test('throws on invalid background color', () => {
+      const output = { characters: [['A']], colors: [['#000000']] };
+      expect(() => toAnsi(output, { background: 'blue' })).toThrow('Invalid color format: must be #RRGGBB');
+    });
+
+    test('exports compositor output', () => {
+      const compositor = new Compositor([
+        new AsciiObject({ id: 'obj', content: ['##'], position: { x: 0, y: 0 }, color: '#00ff00' }),
+      ]);
+      const output = compositor.render({ x: 0, y: 0, width: 3, height: 1 });
+      expect(toAnsi(output)).toBe(`${ESC}38;2;0;255;0m## ${ESC}0m`);
+    });
+  });
+
+  describe('rgbToAnsi256', () => {
+    test('maps primaries to the color cube', () => {
+      expect(rgbToAnsi256([255, 0, 0])).toBe(196);
+      expect(rgbToAnsi256([0, 255, 0])).toBe(46);
+      expect(rgbToAnsi256([0, 0, 255])).toBe(21);
+      expect(rgbToAnsi256([0, 0, 0])).toBe(16);
+      expect(rgbToAnsi256([255, 255, 255])).toBe(231);
+    });
+
+    test('maps mid grays to the grayscale ramp', () => {
+      expect(rgbToAnsi256([128, 128, 128])).toBe(244);
+      expect(rgbToAnsi256([8, 8, 8])).toBe(232);
+    });
+
+    test('quantizes to nearest cube level', () => {
+      // 100 is nearest to level 95 (index 1), 200 nearest to 215 (index 4)
+      expect(rgbToAnsi256([100, 200, 0])).toBe(16 + 36 * 1 + 6 * 4 + 0);
+    });
+  });
+
+  describe('rgbToAnsi16', () => {
+    test('maps to nearest palette entry', () => {
+      expect(rgbToAnsi16([0, 0, 0])).toBe(0);
+      expect(rgbToAnsi16([250, 10, 10])).toBe(9);
+      expect(rgbToAnsi16([200, 0, 0])).toBe(1);
+      expect(rgbToAnsi16([130, 130, 130])).toBe(8);
+      expect(rgbToAnsi16([255, 255, 255])).toBe(15);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * AnsiExporter - Terminal output for rendered scenes
+ *
+ * Converts a RenderOutput into an ANSI escape string for display in a terminal.
+ * Supports 24-bit truecolor, xterm 256-color and basic 16-color palettes, with
+ * nearest-color quantization and run-length merging of identical colors.
+ *
+ * @module @ascii-art-studio/compositor
+ */
+
+import { type RGB, parseHexColor } from './AsciiObject';
+import type { RenderOutput } from './Compositor';
+import { WIDE_CONTINUATION } from './unicode';
+
+/** Terminal color capability */
+export type AnsiColorMode = 'truecolor' | '256' | '16';
+
+/** Options for toAnsi() */
+export interface AnsiExportOptions {
+  /** Color mode (default: 'truecolor') */
+  mode?: AnsiColorMode;
+  /**
+   * Optional background color channel: a single hex color for every cell,
+   * or a grid of hex colors [y][x] matching the output dimensions (e.g. RenderOutput.backgrounds).
+   */
+  background?: string | string[][];
+}
+
+/** ANSI reset sequence */
+const RESET = '\x1b[0m';
+
+/** C0 and C1 control characters (including ESC and DEL), which would let content inject escape sequences */
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]/g;
+
+/** Shown in place of control characters */
+const REPLACEMENT_CHARACTER = '\ufffd';
+
+/** Channel levels of the 6x6x6 color cube (indices 16-231) */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/** Standard xterm colors for the 16-color palette (indices 0-15) */
+const ANSI_16_PALETTE: RGB[] = [
+  [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0],
+  [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+  [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0],
+  [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255],
+];
+
+/** Squared Euclidean distance between two colors */
+function distanceSq(r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number {
+  const dr = r1 - r2;
+  const dg = g1 - g2;
+  const db = b1 - b2;
+  return dr * dr + dg * dg + db * db;
+}
+
+/** Index of the nearest color cube level for one channel */
+function nearestCubeLevel(value: number): number {
+  let best = 0;
+  for (let i = 1; i < CUBE_LEVELS.length; i++) {
+    if (Math.abs(CUBE_LEVELS[i] - value) < Math.abs(CUBE_LEVELS[best] - value)) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Quantizes an RGB color to the nearest xterm 256-color palette index.
+ * Considers both the 6x6x6 color cube and the 24-step grayscale ramp.
+ *
+ * @param rgb - Color to quantize
+ * @returns Palette index (16-255)
+ */
+export function rgbToAnsi256(rgb: RGB): number {
+  const [r, g, b] = rgb;
+
+  // Nearest color cube entry
+  const ri = nearestCubeLevel(r);
+  const gi = nearestCubeLevel(g);
+  const bi = nearestCubeLevel(b);
+  const cubeIndex = 16 + 36 * ri + 6 * gi + bi;
+  const cubeDistance = distanceSq(r, g, b, CUBE_LEVELS[ri], CUBE_LEVELS[gi], CUBE_LEVELS[bi]);
+
+  // Nearest grayscale ramp entry (levels 8, 18, ..., 238)
+  const average = (r + g + b) / 3;
+  const grayStep = Math.max(0, Math.min(23, Math.round((average - 8) / 10)));
+  const grayLevel = 8 + grayStep * 10;
+  const grayDistance = distanceSq(r, g, b, grayLevel, grayLevel, grayLevel);
+
+  return grayDistance < cubeDistance ? 232 + grayStep : cubeIndex;
+}
+
+/**
+ * Quantizes an RGB color to the nearest basic 16-color palette index.
+ *
+ * @param rgb - Color to quantize
+ * @returns Palette index (0-15)
+ */
+export function rgbToAnsi16(rgb: RGB): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < ANSI_16_PALETTE.length; i++) {
+    const p = ANSI_16_PALETTE[i];
+    const d = distanceSq(rgb[0], rgb[1], rgb[2], p[0], p[1], p[2]);
+    if (d < bestDistance) {
+      best = i;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/**
+ * Builds the SGR parameter string selecting a color in the given mode.
+ *
+ * @param rgb - Color to select
+ * @param mode - Color mode
+ * @param background - True for background, false for foreground
+ * @returns SGR parameters (without ESC[ and m)
+ */
+function colorParams(rgb: RGB, mode: AnsiColorMode, background: boolean): string {
+  switch (mode) {
+    case 'truecolor':
+      return `${background ? 48 : 38};2;${rgb[0]};${rgb[1]};${rgb[2]}`;
+    case '256':
+      return `${background ? 48 : 38};5;${rgbToAnsi256(rgb)}`;
+    case '16': {
+      const index = rgbToAnsi16(rgb);
+      const base = background ? (index < 8 ? 40 : 100) : (index < 8 ? 30 : 90);
+      return `${base + (index % 8)}`;
+    }
+  }
+}
+
+/**
+ * Converts a rendered scene to an ANSI escape string.
+ *
+ * Each row becomes one line. Color escapes are only emitted when the color changes
+ * from the previous cell, and every line ends with a reset so colors never bleed
+ * into the rest of the terminal. Without a background channel, spaces keep the
+ * current foreground color (their color is invisible) to keep runs long.
+ * Control characters in cells are written as U+FFFD, so content cannot emit
+ * escape sequences of its own.
+ *
+ * @param output - Rendered output (characters and colors)
+ * @param options - Export options
+ * @returns ANSI string with rows separated by newlines
+ * @throws {Error} If mode is not a supported color mode
+ * @throws {Error} If a background grid does not match the output dimensions
+ * @throws {Error} If a color is not valid #RRGGBB format
+ *
+ * @example
+ * ```typescript
+ * const output = compositor.render({ x: 0, y: 0, width: 80, height: 24 });
+ * process.stdout.write(toAnsi(output, { mode: '256' }) + '\n');
+ * ```
+ */
+export function toAnsi(
+  output: Pick<RenderOutput, 'characters' | 'colors'>,
+  options: AnsiExportOptions = {}
+): string {
+  const mode = options.mode ?? 'truecolor';
+  if (mode !== 'truecolor' && mode !== '256' && mode !== '16') {
+    throw new Error(`Invalid ANSI color mode: ${mode}`);
+  }
+
+  const { characters, colors } = output;
+  const background = options.background;
+
+  if (Array.isArray(background)) {
+    const mismatch =
+      background.length !== characters.length ||
+      background.some((row, y) => row.length !== characters[y].length);
+    if (mismatch) {
+      throw new Error('Background grid dimensions must match output');
+    }
+  }
+
+  // Cache SGR parameters per hex color (scenes reuse few colors)
+  const fgCache = new Map<string, string>();
+  const bgCache = new Map<string, string>();
+  const paramsFor = (hex: string, isBackground: boolean): string => {
+    const cache = isBackground ? bgCache : fgCache;
+    let params = cache.get(hex);
+    if (params === undefined) {
+      if (!/^#[0-9a-f]{6}$/.test(hex)) {
+        throw new Error('Invalid color format: must be #RRGGBB');
+      }
+      params = colorParams(parseHexColor(hex), mode, isBackground);
+      cache.set(hex, params);
+    }
+    return params;
+  };
+
+  const lines: string[] = [];
+
+  for (let y = 0; y < characters.length; y++) {
+    const charRow = characters[y];
+    const colorRow = colors[y];
+    let line = '';
+    let currentFg: string | null = null;
+    let currentBg: string | null = null;
+
+    for (let x = 0; x < charRow.length; x++) {
+      const char = charRow[x];
+      // The wide glyph before it already covers this cell
+      if (char === WIDE_CONTINUATION) {
+        continue;
+      }
+      const params: string[] = [];
+
+      // Foreground (skipped for spaces without background - color is invisible)
+      if (char !== ' ' || background !== undefined) {
+        const fg = paramsFor(colorRow[x].toLowerCase(), false);
+        if (fg !== currentFg) {
+          params.push(fg);
+          currentFg = fg;
+        }
+      }
+
+      if (background !== undefined) {
+        const hex = typeof background === 'string' ? background : background[y][x];
+        const bg = paramsFor(hex.toLowerCase(), true);
+        if (bg !== currentBg) {
+          params.push(bg);
+          currentBg = bg;
+        }
+      }
+
+      if (params.length > 0) {
+        line += `\x1b[${params.join(';')}m`;
+      }
+      line += char.replace(CONTROL_CHARACTERS, REPLACEMENT_CHARACTER);
+    }
+
+    if (currentFg !== null || currentBg !== null) {
+      line += RESET;
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
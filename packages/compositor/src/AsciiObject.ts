@@ -7,6 +7,9 @@
  * @module @ascii-art-studio/compositor
  */
 
+import { EventEmitter } from './EventEmitter';
+import { WIDE_CONTINUATION, isWideGlyph, reverseCells, textToCells } from './unicode';
+
 /** Horizontal character mirror map for flip operations */
 const HORIZONTAL_MIRROR_MAP: Record<string, string> = {
   // ASCII brackets
@@ -61,6 +64,34 @@ const VERTICAL_MIRROR_MAP: Record<string, string> = {
   '⇑': '⇓', '⇓': '⇑',
 };
 
+/** Clockwise quarter-turn character map for rotate operations */
+const ROTATE_CLOCKWISE_MAP: Record<string, string> = {
+  // ASCII lines and slashes
+  '-': '|', '|': '-',
+  '/': '\\', '\\': '/',
+  // ASCII carets
+  '<': '^', '^': '>', '>': 'v', 'v': '<',
+  // Box drawing light - lines
+  '─': '│', '│': '─',
+  // Box drawing light - corners
+  '┌': '┐', '┐': '┘', '┘': '└', '└': '┌',
+  // Box drawing light - T-junctions
+  '├': '┬', '┬': '┤', '┤': '┴', '┴': '├',
+  // Box drawing light - rounded corners
+  '╭': '╮', '╮': '╯', '╯': '╰', '╰': '╭',
+  // Box drawing double - lines
+  '═': '║', '║': '═',
+  // Box drawing double - corners
+  '╔': '╗', '╗': '╝', '╝': '╚', '╚': '╔',
+  // Box drawing double - T-junctions
+  '╠': '╦', '╦': '╣', '╣': '╩', '╩': '╠',
+  // Arrows
+  '→': '↓', '↓': '←', '←': '↑', '↑': '→',
+  '↗': '↘', '↘': '↙', '↙': '↖', '↖': '↗',
+  '⇒': '⇓', '⇓': '⇐', '⇐': '⇑', '⇑': '⇒',
+  '↔': '↕', '↕': '↔',
+};
+
 /** RGB color tuple [r, g, b] where each component is 0-255 */
 export type RGB = [number, number, number];
 
@@ -73,7 +104,10 @@ export function parseHexColor(hex: string): RGB {
   ];
 }
 
-/** Represents a single cell in the ASCII grid. null = transparent, string = visible character */
+/**
+ * Represents a single cell in the ASCII grid. null = transparent, string = visible character
+ * (one grapheme cluster; a wide glyph is followed by a WIDE_CONTINUATION cell)
+ */
 export type Cell = string | null;
 
 /** 2D position in canvas coordinates */
@@ -82,6 +116,49 @@ export interface Position {
   y: number;
 }
 
+/**
+ * Color transform (blend mode) used by influences and layer effects.
+ * The target color is blended onto the color beneath, then mixed in by strength.
+ */
+export type TransformType =
+  | 'lighten'
+  | 'darken'
+  | 'multiply'
+  | 'multiply-darken'
+  | 'screen'
+  | 'overlay'
+  | 'soft-light'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'difference'
+  | 'additive';
+
+/** All supported transform types (for validation) */
+export const TRANSFORM_TYPES: readonly TransformType[] = [
+  'lighten',
+  'darken',
+  'multiply',
+  'multiply-darken',
+  'screen',
+  'overlay',
+  'soft-light',
+  'color-dodge',
+  'color-burn',
+  'difference',
+  'additive',
+];
+
+/**
+ * Color channel a transform applies to.
+ * - foreground: character color
+ * - background: cell background color
+ * - both: character and background colors
+ */
+export type ColorTarget = 'foreground' | 'background' | 'both';
+
+/** All supported color targets */
+export const COLOR_TARGETS: readonly ColorTarget[] = ['foreground', 'background', 'both'];
+
 /**
  * Proximity-based influence configuration.
  * Objects emit gradients that affect the colors of lower layers based on distance.
@@ -93,13 +170,15 @@ export interface Influence {
   color?: string;
   transform: {
     /** Transform type */
-    type: 'lighten' | 'darken' | 'multiply' | 'multiply-darken';
+    type: TransformType;
     /** Maximum effect strength at distance 0 (0.0 to 1.0) */
     strength: number;
     /** How influence decreases with distance */
     falloff: 'linear' | 'quadratic' | 'exponential' | 'cubic';
     /** Darken factor for 'multiply-darken' type (0.0 to 1.0, default 0.8) */
     darkenFactor?: number;
+    /** Color channel the transform applies to (default: 'foreground') */
+    target?: ColorTarget;
   };
 }
 
@@ -121,18 +200,96 @@ export interface Bounds {
 export interface AsciiObjectOptions {
   /** Unique identifier for the object */
   id: string;
-  /** Object content (null = transparent, ' ' = opaque space, other = visible char) */
+  /**
+   * Object content (null = transparent, ' ' = opaque space, other = visible char).
+   * Strings are split into grapheme clusters; wide (CJK, emoji) glyphs take two cells.
+   */
   content: Cell[][] | string[] | string;
   /** Canvas position where object's (0,0) origin is placed */
   position: Position;
   /** Hex color in #RRGGBB format (default: #000000) */
   color?: string;
+  /** Background hex color of content cells (default: null = shows the background beneath) */
+  backgroundColor?: string | null;
   /** Layer number - higher layers render on top (default: 0) */
   layer?: number;
+  /** Order within the layer - higher renders on top; ties are first-added-wins (default: 0) */
+  zIndex?: number;
   /** Optional proximity-based influence effect */
   influence?: Influence;
   /** Use flood fill to auto-detect transparent edges (default: false) */
   autoDetectEdges?: boolean;
+  /** Content opacity from 0.0 (invisible) to 1.0 (opaque); blends color with what lies beneath (default: 1.0) */
+  opacity?: number;
+  /**
+   * Below this opacity the character beneath shows instead of this object's
+   * (default: 0 = this object's unless fully transparent)
+   */
+  opacityCharThreshold?: number;
+  /** Whether the object is rendered; hidden objects keep their state and priority (default: true) */
+  visible?: boolean;
+}
+
+/**
+ * JSON-safe snapshot of an AsciiObject (see AsciiObject.toJSON).
+ * Content is stored already flipped; flip flags record the current flip state.
+ */
+export interface SerializedAsciiObject {
+  id: string;
+  /** Normalized content (null = transparent) */
+  content: Cell[][];
+  position: Position;
+  color: string;
+  /** Background color; omitted when transparent */
+  backgroundColor?: string;
+  layer: number;
+  /** Order within the layer; optional for scenes saved before zIndex existed */
+  zIndex?: number;
+  influence?: Influence;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  /** Clockwise quarter turns (0-3); optional for scenes saved before rotation existed */
+  rotation?: number;
+  /** Content opacity; optional for scenes saved before opacity existed */
+  opacity?: number;
+  /** Opacity below which the character beneath wins; optional for older scenes */
+  opacityCharThreshold?: number;
+  /** Omitted when visible */
+  visible?: boolean;
+}
+
+/** Object property changed by a mutator (see AsciiObjectChangeEvent) */
+export type AsciiObjectProperty =
+  | 'position'
+  | 'content'
+  | 'color'
+  | 'backgroundColor'
+  | 'opacity'
+  | 'opacityCharThreshold'
+  | 'influence'
+  | 'layer'
+  | 'zIndex'
+  | 'flipHorizontal'
+  | 'flipVertical'
+  | 'rotation'
+  | 'visible';
+
+/** Payload of an AsciiObject 'change' event */
+export interface AsciiObjectChangeEvent {
+  /** Object that changed */
+  object: AsciiObject;
+  /** Property that changed */
+  property: AsciiObjectProperty;
+  /** Bounds (including influence) before the change */
+  oldBounds: Bounds;
+  /** Bounds (including influence) after the change */
+  newBounds: Bounds;
+}
+
+/** Events emitted by AsciiObject */
+export interface AsciiObjectEvents {
+  /** Emitted after every mutator call, once the object is in its new state */
+  change: AsciiObjectChangeEvent;
 }
 
 /**
@@ -140,9 +297,9 @@ export interface AsciiObjectOptions {
  *
  * Objects manage their own state, track changes, and regenerate influence masks
  * lazily when needed. The Compositor observes objects and marks dirty regions
- * for efficient re-rendering.
+ * for efficient re-rendering. Every mutator emits a 'change' event.
  */
-export class AsciiObject {
+export class AsciiObject extends EventEmitter<AsciiObjectEvents> {
   /** Unique identifier */
   public readonly id: string;
 
@@ -155,12 +312,21 @@ export class AsciiObject {
   /** Layer number */
   public layer: number;
 
+  /** Order within the layer (higher renders on top) */
+  public zIndex: number;
+
   /** Hex color in #RRGGBB format */
   public color: string;
 
   /** Pre-parsed RGB tuple of color (kept in sync with color) */
   public colorRGB: RGB;
 
+  /** Background hex color of content cells (null = transparent) */
+  public backgroundColor: string | null;
+
+  /** Pre-parsed RGB tuple of backgroundColor (kept in sync with backgroundColor) */
+  public backgroundColorRGB: RGB | null;
+
   /** Influence configuration */
   public influence?: Influence;
 
@@ -173,6 +339,21 @@ export class AsciiObject {
   /** True if object is flipped vertically */
   public flipVertical: boolean = false;
 
+  /**
+   * Clockwise quarter turns (0-3) applied to the source content before any flips.
+   * Current content = flips(rotation(source)), so flips stay in screen space.
+   */
+  public rotation: number = 0;
+
+  /** Content opacity (0.0 to 1.0) */
+  public opacity: number;
+
+  /** Opacity below which the character beneath shows through (0.0 to 1.0); it always does at opacity 0 */
+  public opacityCharThreshold: number;
+
+  /** Whether the object is rendered */
+  public visible: boolean;
+
   /** Accumulated dirty bounding box (union of all positions since last render) */
   private _dirtyBounds: Bounds | null = null;
 
@@ -191,6 +372,8 @@ export class AsciiObject {
    * @param options - Object configuration
    */
   constructor(options: AsciiObjectOptions) {
+    super();
+
     // Validate required fields
     if (!options || !options.id || !options.content || !options.position) {
       const missing: string[] = [];
@@ -215,7 +398,12 @@ export class AsciiObject {
     this.position = { ...options.position };
     this.color = (options.color || '#000000').toLowerCase();
     this.colorRGB = parseHexColor(this.color);
+    this.backgroundColor = options.backgroundColor ? options.backgroundColor.toLowerCase() : null;
     this.layer = options.layer ?? 0;
+    this.zIndex = options.zIndex ?? 0;
+    this.opacity = options.opacity ?? 1;
+    this.opacityCharThreshold = options.opacityCharThreshold ?? 0;
+    this.visible = options.visible ?? true;
     this.influence = options.influence ? this.cloneInfluence(options.influence) : undefined;
     if (this.influence?.color) {
       this.influenceColorRGB = parseHexColor(this.influence.color);
@@ -225,29 +413,82 @@ export class AsciiObject {
     if (!Number.isInteger(this.layer)) {
       throw new Error('Layer must be an integer');
     }
+    if (!Number.isFinite(this.zIndex)) {
+      throw new Error('zIndex must be a finite number');
+    }
 
     // Validate color format
     if (!this.isValidColor(this.color)) {
       throw new Error('Invalid color format: must be #RRGGBB');
     }
+    if (this.backgroundColor !== null && !this.isValidColor(this.backgroundColor)) {
+      throw new Error('Invalid background color format: must be #RRGGBB');
+    }
+    this.backgroundColorRGB = this.backgroundColor !== null ? parseHexColor(this.backgroundColor) : null;
+
+    this.validateOpacity(this.opacity, this.opacityCharThreshold);
 
     // Validate influence if present
     if (this.influence) {
-      const { radius, transform } = this.influence;
-
-      if (radius <= 0 || !Number.isInteger(radius)) {
-        throw new Error('Influence radius must be positive integer');
-      }
-
-      if (transform.strength < 0 || transform.strength > 1.0) {
-        throw new Error('Influence strength must be between 0.0 and 1.0');
-      }
+      this.validateInfluence(this.influence);
     }
 
     // Initial state is dirty
     this._dirtyBounds = this.calculateBounds();
   }
 
+  /**
+   * Restores an object from a serialized snapshot.
+   * Validates through the constructor, so invalid data throws the same errors.
+   *
+   * @param data - Serialized object
+   * @returns New AsciiObject
+   */
+  static fromJSON(data: SerializedAsciiObject): AsciiObject {
+    const obj = new AsciiObject({
+      id: data?.id,
+      content: data?.content,
+      position: data?.position,
+      color: data?.color,
+      backgroundColor: data?.backgroundColor,
+      layer: data?.layer,
+      zIndex: data?.zIndex,
+      influence: data?.influence,
+      opacity: data?.opacity,
+      opacityCharThreshold: data?.opacityCharThreshold,
+      visible: data?.visible !== false,
+    });
+    obj.flipHorizontal = data.flipHorizontal === true;
+    obj.flipVertical = data.flipVertical === true;
+    obj.rotation = Number.isInteger(data.rotation) ? (((data.rotation as number) % 4) + 4) % 4 : 0;
+    return obj;
+  }
+
+  /**
+   * Returns a JSON-safe snapshot of the object's state.
+   * Called automatically by JSON.stringify.
+   *
+   * @returns Serialized object (deep clone)
+   */
+  toJSON(): SerializedAsciiObject {
+    return {
+      id: this.id,
+      content: this.cloneContent(this.content),
+      position: { ...this.position },
+      color: this.color,
+      ...(this.backgroundColor !== null && { backgroundColor: this.backgroundColor }),
+      layer: this.layer,
+      zIndex: this.zIndex,
+      ...(this.influence && { influence: this.cloneInfluence(this.influence) }),
+      flipHorizontal: this.flipHorizontal,
+      flipVertical: this.flipVertical,
+      rotation: this.rotation,
+      opacity: this.opacity,
+      opacityCharThreshold: this.opacityCharThreshold,
+      ...(!this.visible && { visible: false }),
+    };
+  }
+
   /**
    * Sets the object's position.
    * Accumulates dirty bounds for both old and new positions.
@@ -257,7 +498,8 @@ export class AsciiObject {
    */
   setPosition(x: number, y: number): void {
     // Mark old position dirty
-    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+    const oldBounds = this.getBounds();
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, oldBounds);
 
     // Update position
     this.position = { x, y };
@@ -267,6 +509,8 @@ export class AsciiObject {
 
     // Mark new position dirty
     this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('position', oldBounds);
   }
 
   /**
@@ -278,7 +522,8 @@ export class AsciiObject {
    */
   setContent(content: Cell[][] | string[] | string, autoDetectEdges: boolean = false): void {
     // Mark old bounds dirty
-    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+    const oldBounds = this.getBounds();
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, oldBounds);
 
     // Update content
     this.content = this.normalizeContent(content);
@@ -294,6 +539,8 @@ export class AsciiObject {
 
     // Mark new bounds dirty
     this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('content', oldBounds);
   }
 
   /**
@@ -307,12 +554,71 @@ export class AsciiObject {
     if (!this.isValidColor(normalizedColor)) {
       throw new Error(`Invalid color format: ${color}. Expected #RRGGBB.`);
     }
+    const oldBounds = this.getBounds();
 
     this.color = normalizedColor;
     this.colorRGB = parseHexColor(normalizedColor);
 
     // Mark bounds dirty (color change affects render)
     this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('color', oldBounds);
+  }
+
+  /**
+   * Sets the object's background color.
+   * Marks bounds dirty.
+   *
+   * @param color - New hex color (#RRGGBB), or null for a transparent background
+   */
+  setBackgroundColor(color: string | null): void {
+    const normalizedColor = color === null ? null : color.toLowerCase();
+    if (normalizedColor !== null && !this.isValidColor(normalizedColor)) {
+      throw new Error(`Invalid color format: ${color}. Expected #RRGGBB.`);
+    }
+    const oldBounds = this.getBounds();
+
+    this.backgroundColor = normalizedColor;
+    this.backgroundColorRGB = normalizedColor === null ? null : parseHexColor(normalizedColor);
+
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('backgroundColor', oldBounds);
+  }
+
+  /**
+   * Sets the object's content opacity.
+   * Marks bounds dirty.
+   *
+   * @param opacity - Opacity from 0.0 (invisible) to 1.0 (opaque)
+   * @throws {Error} If opacity is outside 0.0 to 1.0
+   */
+  setOpacity(opacity: number): void {
+    this.validateOpacity(opacity, this.opacityCharThreshold);
+    const oldBounds = this.getBounds();
+    this.opacity = opacity;
+
+    // Mark bounds dirty (opacity changes blended colors)
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('opacity', oldBounds);
+  }
+
+  /**
+   * Sets the opacity below which the character beneath shows through.
+   * Marks bounds dirty.
+   *
+   * @param threshold - Threshold from 0.0 (this object's character wins unless opacity is 0) to 1.0
+   * @throws {Error} If threshold is outside 0.0 to 1.0
+   */
+  setOpacityCharThreshold(threshold: number): void {
+    this.validateOpacity(this.opacity, threshold);
+    const oldBounds = this.getBounds();
+    this.opacityCharThreshold = threshold;
+
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('opacityCharThreshold', oldBounds);
   }
 
   /**
@@ -320,10 +626,16 @@ export class AsciiObject {
    * Invalidates mask and marks bounds dirty.
    *
    * @param influence - New influence configuration (or undefined to remove)
+   * @throws {Error} If the influence radius, strength, transform type or color target is invalid
    */
   setInfluence(influence: Influence | undefined): void {
+    if (influence) {
+      this.validateInfluence(influence);
+    }
+
     // Mark old bounds dirty
-    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+    const oldBounds = this.getBounds();
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, oldBounds);
 
     // Update influence
     this.influence = influence ? this.cloneInfluence(influence) : undefined;
@@ -336,6 +648,8 @@ export class AsciiObject {
 
     // Mark new bounds dirty
     this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('influence', oldBounds);
   }
 
   /**
@@ -345,10 +659,50 @@ export class AsciiObject {
    * @param layer - New layer number
    */
   setLayer(layer: number): void {
+    const oldBounds = this.getBounds();
     this.layer = layer;
 
     // Mark bounds dirty (layer affects render order)
     this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('layer', oldBounds);
+  }
+
+  /**
+   * Sets the object's order within its layer.
+   * Marks bounds dirty.
+   *
+   * @param zIndex - New order (higher renders on top)
+   * @throws {Error} If zIndex is not a finite number
+   */
+  setZIndex(zIndex: number): void {
+    if (!Number.isFinite(zIndex)) {
+      throw new Error('zIndex must be a finite number');
+    }
+
+    const oldBounds = this.getBounds();
+    this.zIndex = zIndex;
+
+    // Mark bounds dirty (zIndex affects render order)
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('zIndex', oldBounds);
+  }
+
+  /**
+   * Shows or hides the object. Hidden objects keep all state, including their
+   * insertion-order priority in the Compositor. Marks bounds dirty.
+   *
+   * @param visible - New visible flag
+   */
+  setVisible(visible: boolean): void {
+    const oldBounds = this.getBounds();
+    this.visible = visible;
+
+    // Mark bounds dirty (object appears or disappears)
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('visible', oldBounds);
   }
 
   /**
@@ -359,17 +713,18 @@ export class AsciiObject {
    */
   flipHorizontalToggle(mirrorChars: boolean = false): void {
     // Mark bounds dirty before flip
-    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+    const oldBounds = this.getBounds();
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, oldBounds);
 
     // Physically flip the content horizontally
     if (mirrorChars) {
       // Flip positions and apply horizontal character mirroring only
       this.content = this.content.map(row =>
-        [...row].reverse().map(cell => this.applyHorizontalMirror(cell))
+        reverseCells(row).map(cell => this.applyHorizontalMirror(cell))
       );
     } else {
       // Flip positions only (current behavior)
-      this.content = this.content.map(row => [...row].reverse());
+      this.content = this.content.map(row => reverseCells(row));
     }
 
     // Toggle flag
@@ -382,6 +737,8 @@ export class AsciiObject {
 
     // Mark bounds dirty after flip
     this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('flipHorizontal', oldBounds);
   }
 
   /**
@@ -392,7 +749,8 @@ export class AsciiObject {
    */
   flipVerticalToggle(mirrorChars: boolean = false): void {
     // Mark bounds dirty before flip
-    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+    const oldBounds = this.getBounds();
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, oldBounds);
 
     // Physically flip the content vertically
     if (mirrorChars) {
@@ -415,6 +773,8 @@ export class AsciiObject {
 
     // Mark bounds dirty after flip
     this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('flipVertical', oldBounds);
   }
 
   /**
@@ -441,6 +801,72 @@ export class AsciiObject {
     }
   }
 
+  /**
+   * Rotates the object clockwise by a number of quarter turns.
+   * The top-left corner stays at the object's position, so non-square content
+   * swaps width and height. Invalidates mask and marks old and new bounds dirty.
+   *
+   * Rotation composes with flip state: because flips are applied after rotation,
+   * rotating a singly-flipped object turns its source the opposite way.
+   *
+   * Wide glyphs stay upright: a quarter turn makes each column that came from a row
+   * with wide glyphs two cells wide, so every glyph keeps its continuation on the right.
+   * That widening is not undone by turning back.
+   *
+   * @param quarterTurns - Clockwise quarter turns (negative = counter-clockwise)
+   * @param remapChars - If true, remaps directional characters (─ to │, → to ↓, etc.) (default: true)
+   * @throws {Error} If quarterTurns is not an integer
+   */
+  rotate(quarterTurns: number, remapChars: boolean = true): void {
+    if (!Number.isInteger(quarterTurns)) {
+      throw new Error('Rotation must be an integer number of quarter turns');
+    }
+
+    const turns = ((quarterTurns % 4) + 4) % 4;
+    if (turns === 0) {
+      return;
+    }
+
+    // Mark old bounds dirty
+    const oldBounds = this.getBounds();
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, oldBounds);
+
+    // Physically rotate the content: a half turn, then any remaining quarter turn
+    const remap = (cell: Cell): Cell => (remapChars ? this.applyRotationMap(cell) : cell);
+    if (turns >= 2) {
+      this.content = this.content.map(row => reverseCells(row).map(cell => remap(remap(cell)))).reverse();
+    }
+    if (turns % 2 === 1) {
+      this.content = this.rotateClockwise(this.content, remap);
+    }
+
+    // Track rotation of the source (reversed when exactly one flip is active)
+    const direction = this.flipHorizontal !== this.flipVertical ? -1 : 1;
+    this.rotation = (((this.rotation + direction * turns) % 4) + 4) % 4;
+
+    // Invalidate mask and bounds (content and dimensions changed)
+    this._maskInvalidated = true;
+    this._influenceMask = null;
+    this._bounds = null;
+
+    // Mark new bounds dirty
+    this._dirtyBounds = this.unionBounds(this._dirtyBounds, this.getBounds());
+
+    this.emitChange('rotation', oldBounds);
+  }
+
+  /**
+   * Emits a 'change' event if anyone is listening.
+   *
+   * @param property - Changed property
+   * @param oldBounds - Bounds captured before the change
+   */
+  private emitChange(property: AsciiObjectProperty, oldBounds: Bounds): void {
+    if (this.hasListeners('change')) {
+      this.emit('change', { object: this, property, oldBounds: { ...oldBounds }, newBounds: { ...this.getBounds() } });
+    }
+  }
+
   /**
    * Checks if object has changed since last render.
    *
@@ -546,6 +972,52 @@ export class AsciiObject {
     return VERTICAL_MIRROR_MAP[cell] ?? cell;
   }
 
+  /**
+   * Applies clockwise quarter-turn character remapping.
+   *
+   * @param cell - Character to remap (or null)
+   * @returns Rotated character (or null if input was null)
+   */
+  private applyRotationMap(cell: Cell): Cell {
+    if (cell === null) {
+      return null;
+    }
+    return ROTATE_CLOCKWISE_MAP[cell] ?? cell;
+  }
+
+  /**
+   * Rotates content one clockwise quarter turn. A column whose source row holds wide
+   * glyphs is two cells wide; cells freed by re-pairing are transparent.
+   */
+  private rotateClockwise(content: Cell[][], remap: (cell: Cell) => Cell): Cell[][] {
+    const width = content[0].length;
+    // Output columns run from the bottom source row to the top one
+    const sources = content.slice().reverse();
+    const wideColumns = sources.map(source => source.some(isWideGlyph));
+    const rotated: Cell[][] = [];
+
+    for (let y = 0; y < width; y++) {
+      const row: Cell[] = [];
+      sources.forEach((source, column) => {
+        const cell = source[y];
+        if (isWideGlyph(cell)) {
+          row.push(cell, WIDE_CONTINUATION);
+        } else if (cell === WIDE_CONTINUATION && y > 0 && isWideGlyph(source[y - 1])) {
+          // The glyph's right half now sits below it; its pair was rebuilt above
+          row.push(null, null);
+        } else {
+          row.push(remap(cell));
+          if (wideColumns[column]) {
+            row.push(null);
+          }
+        }
+      });
+      rotated.push(row);
+    }
+
+    return rotated;
+  }
+
   /**
    * Generates influence mask with gradient falloff.
    */
@@ -689,21 +1161,23 @@ export class AsciiObject {
   }
 
   /**
-   * Converts string array to Cell[][] and validates equal lengths.
+   * Converts string array to Cell[][] and validates equal widths in cells.
    */
   private normalizeStringArray(lines: string[]): Cell[][] {
     if (lines.length === 0) {
       return [];
     }
 
-    const width = lines[0].length;
-    for (const line of lines) {
-      if (line.length !== width) {
+    // One cell per grapheme, two for wide glyphs (see textToCells)
+    const rows = lines.map(line => textToCells(line));
+    const width = rows[0].length;
+    for (const row of rows) {
+      if (row.length !== width) {
         throw new Error('Invalid content format: rows have unequal lengths');
       }
     }
 
-    return lines.map(line => line.split(''));
+    return rows;
   }
 
   /**
@@ -803,6 +1277,41 @@ export class AsciiObject {
     };
   }
 
+  /**
+   * Validates influence radius, strength, transform type and color target.
+   */
+  private validateInfluence(influence: Influence): void {
+    const { radius, transform } = influence;
+
+    if (radius <= 0 || !Number.isInteger(radius)) {
+      throw new Error('Influence radius must be positive integer');
+    }
+
+    if (transform.strength < 0 || transform.strength > 1.0) {
+      throw new Error('Influence strength must be between 0.0 and 1.0');
+    }
+
+    if (!TRANSFORM_TYPES.includes(transform.type)) {
+      throw new Error(`Invalid transform type: ${transform.type}`);
+    }
+
+    if (transform.target !== undefined && !COLOR_TARGETS.includes(transform.target)) {
+      throw new Error(`Invalid color target: ${transform.target}`);
+    }
+  }
+
+  /**
+   * Validates opacity and character threshold ranges.
+   */
+  private validateOpacity(opacity: number, threshold: number): void {
+    if (typeof opacity !== 'number' || !(opacity >= 0 && opacity <= 1)) {
+      throw new Error('Opacity must be between 0.0 and 1.0');
+    }
+    if (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 1)) {
+      throw new Error('Opacity char threshold must be between 0.0 and 1.0');
+    }
+  }
+
   /**
    * Validates color is in #RRGGBB format.
    */
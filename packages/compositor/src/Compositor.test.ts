@@ -1,6 +1,23 @@
 import { describe, test, expect, beforeEach } from 'vitest';
-import { Compositor } from './Compositor';
-import { AsciiObject, type AsciiObjectOptions } from './AsciiObject';
+import {
+  Compositor,
+  createRenderBuffer,
+  SCENE_FORMAT_VERSION,
+  type GradientCurve,
+  type LayerEffectChangeEvent,
+  type LayerGradient,
+} from './Compositor';
+import {
+  AsciiObject,
+  type AsciiObjectChangeEvent,
+  type AsciiObjectOptions,
+  type Bounds,
+  type ColorTarget,
+  type TransformType,
+} from './AsciiObject';
+import { Group } from './Group';
+import { Tilemap } from './Tilemap';
+import { WIDE_CONTINUATION } from './unicode';
 
 // Helper function for backwards compatibility in tests
 function addObjectLegacy(
@@ -1405,636 +1422,2530 @@ describe('Compositor', () => {
       // Different viewport should trigger re-render
       expect(output2.characters[0][0]).toBe(' ');
     });
-  });
 
-  describe('Multiply and Multiply-Darken Blend Modes', () => {
-    let compositor: Compositor;
+    test('reports whole viewport as dirty on first render', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
+        position: { x: 0, y: 0 },
+      });
 
-    beforeEach(() => {
-      compositor = new Compositor();
+      const output = compositor.render({ x: 0, y: 0, width: 4, height: 3 });
+      expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 3, maxY: 2 }]);
     });
 
-    test('multiply blend mode combines colors', () => {
-      // White object on bottom layer
-      addObjectLegacy(compositor, 'bottom', {
-        content: [['*']],
+    test('reports no dirty regions on clean cache hit', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
         position: { x: 0, y: 0 },
-        color: '#ffffff',
-        layer: 0,
       });
 
-      // Red glass pane (spaces) on top layer with multiply influence
-      addObjectLegacy(compositor, 'top', {
-        content: [[' ']],
+      compositor.render({ x: 0, y: 0, width: 4, height: 4 });
+      const output = compositor.render({ x: 0, y: 0, width: 4, height: 4 });
+      expect(output.dirtyRegions).toEqual([]);
+    });
+
+    test('reports union of old and new positions when object moves', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
         position: { x: 0, y: 0 },
-        color: '#ff0000',
-        layer: 1,
-        influence: {
-          radius: 1,
-          transform: { type: 'multiply', strength: 1.0, falloff: 'linear' }
-        }
       });
 
-      const output = compositor.render({ x: 0, y: 0, width: 1, height: 1 });
+      compositor.render({ x: 0, y: 0, width: 10, height: 10 });
+      compositor.getObject('obj1').setPosition(5, 5);
 
-      // The white character should be tinted red by multiply influence
-      // White (#ffffff) multiplied by red (#ff0000) should give red (#ff0000)
-      expect(output.characters[0][0]).toBe('*');
-      expect(output.colors[0][0]).toBe('#ff0000');
+      const output = compositor.render({ x: 0, y: 0, width: 10, height: 10 });
+      expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 5, maxY: 5 }]);
+      expect(output.characters[0][0]).toBe(' ');
+      expect(output.characters[5][5]).toBe('#');
     });
 
-    test('multiply-darken is darker than multiply', () => {
-      // Setup two identical scenes, one with multiply, one with multiply-darken
-      const comp1 = new Compositor();
-      addObjectLegacy(comp1, 'bottom', {
-        content: [['*']],
-        position: { x: 0, y: 0 },
-        color: '#ffffff',
-        layer: 0,
-      });
-      addObjectLegacy(comp1, 'top', {
-        content: [[' ']],
+    test('merges overlapping dirty regions', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#', '#']],
         position: { x: 0, y: 0 },
-        color: '#ff0000',
-        layer: 1,
-        influence: {
-          radius: 1,
-          transform: { type: 'multiply', strength: 1.0, falloff: 'linear' }
-        }
       });
 
-      const comp2 = new Compositor();
-      addObjectLegacy(comp2, 'bottom', {
-        content: [['*']],
-        position: { x: 0, y: 0 },
-        color: '#ffffff',
-        layer: 0,
-      });
-      addObjectLegacy(comp2, 'top', {
-        content: [[' ']],
-        position: { x: 0, y: 0 },
-        color: '#ff0000',
-        layer: 1,
-        influence: {
-          radius: 1,
-          transform: { type: 'multiply-darken', strength: 1.0, falloff: 'linear', darkenFactor: 0.5 }
-        }
-      });
+      compositor.render({ x: 0, y: 0, width: 10, height: 10 });
+      compositor.getObject('obj1').setPosition(1, 0);
 
-      const output1 = comp1.render({ x: 0, y: 0, width: 1, height: 1 });
-      const output2 = comp2.render({ x: 0, y: 0, width: 1, height: 1 });
+      const output = compositor.render({ x: 0, y: 0, width: 10, height: 10 });
+      expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 2, maxY: 0 }]);
+    });
 
-      // Both should have the same character
-      expect(output1.characters[0][0]).toBe('*');
-      expect(output2.characters[0][0]).toBe('*');
+    test('includes influence radius in dirty regions', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
+        position: { x: 5, y: 5 },
+        influence: {
+          radius: 2,
+          transform: { type: 'lighten', strength: 0.5, falloff: 'linear' },
+        },
+      });
 
-      // Colors should be different - multiply-darken should be darker
-      expect(output1.colors[0][0]).not.toBe(output2.colors[0][0]);
+      compositor.render({ x: 0, y: 0, width: 10, height: 10 });
+      compositor.getObject('obj1').setColor('#ff0000');
 
-      // Parse colors and verify multiply-darken is darker
-      const color1 = output1.colors[0][0];
-      const color2 = output2.colors[0][0];
+      const output = compositor.render({ x: 0, y: 0, width: 10, height: 10 });
+      expect(output.dirtyRegions).toEqual([{ minX: 3, minY: 3, maxX: 7, maxY: 7 }]);
+    });
 
-      const r1 = parseInt(color1.slice(1, 3), 16);
-      const g1 = parseInt(color1.slice(3, 5), 16);
-      const b1 = parseInt(color1.slice(5, 7), 16);
+    test('clips dirty regions to the viewport', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#', '#', '#']],
+        position: { x: -1, y: 0 },
+      });
 
-      const r2 = parseInt(color2.slice(1, 3), 16);
-      const g2 = parseInt(color2.slice(3, 5), 16);
-      const b2 = parseInt(color2.slice(5, 7), 16);
+      compositor.render({ x: 0, y: 0, width: 5, height: 5 });
+      compositor.getObject('obj1').setColor('#ff0000');
+      addObjectLegacy(compositor, 'offscreen', {
+        content: [['#']],
+        position: { x: 20, y: 20 },
+      });
 
-      // Multiply-darken should have lower RGB values (darker)
-      expect(r2).toBeLessThanOrEqual(r1);
-      expect(g2).toBeLessThanOrEqual(g1);
-      expect(b2).toBeLessThanOrEqual(b1);
+      const output = compositor.render({ x: 0, y: 0, width: 5, height: 5 });
+      expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 1, maxY: 0 }]);
     });
 
-    test('multiply-darken respects darkenFactor parameter', () => {
-      const comp1 = new Compositor();
-      addObjectLegacy(comp1, 'bottom', {
-        content: [['*']],
+    test('keeps separate regions for objects far apart', () => {
+      addObjectLegacy(compositor, 'a', {
+        content: [['#']],
         position: { x: 0, y: 0 },
-        color: '#ffffff',
-        layer: 0,
       });
-      addObjectLegacy(comp1, 'top', {
-        content: [[' ']],
-        position: { x: 0, y: 0 },
-        color: '#ff0000',
-        layer: 1,
-        influence: {
-          radius: 1,
-          transform: { type: 'multiply-darken', strength: 1.0, falloff: 'linear', darkenFactor: 0.8 }
-        }
+      addObjectLegacy(compositor, 'b', {
+        content: [['#']],
+        position: { x: 8, y: 8 },
       });
 
-      const comp2 = new Compositor();
-      addObjectLegacy(comp2, 'bottom', {
-        content: [['*']],
-        position: { x: 0, y: 0 },
-        color: '#ffffff',
-        layer: 0,
-      });
-      addObjectLegacy(comp2, 'top', {
-        content: [[' ']],
-        position: { x: 0, y: 0 },
-        color: '#ff0000',
-        layer: 1,
-        influence: {
-          radius: 1,
-          transform: { type: 'multiply-darken', strength: 1.0, falloff: 'linear', darkenFactor: 0.5 }
-        }
-      });
+      compositor.render({ x: 0, y: 0, width: 10, height: 10 });
+      compositor.getObject('a').setColor('#ff0000');
+      compositor.getObject('b').setColor('#00ff00');
 
-      const output1 = comp1.render({ x: 0, y: 0, width: 1, height: 1 });
-      const output2 = comp2.render({ x: 0, y: 0, width: 1, height: 1 });
+      const output = compositor.render({ x: 0, y: 0, width: 10, height: 10 });
+      expect(output.dirtyRegions).toEqual([
+        { minX: 0, minY: 0, maxX: 0, maxY: 0 },
+        { minX: 8, minY: 8, maxX: 8, maxY: 8 },
+      ]);
+    });
 
-      // Different darkenFactors should produce different colors
-      expect(output1.colors[0][0]).not.toBe(output2.colors[0][0]);
+    test('reports removed object region', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
+        position: { x: 2, y: 1 },
+      });
 
-      // Lower darkenFactor (0.5) should be darker than higher (0.8)
-      const r1 = parseInt(output1.colors[0][0].slice(1, 3), 16);
-      const r2 = parseInt(output2.colors[0][0].slice(1, 3), 16);
-      expect(r2).toBeLessThan(r1);
+      compositor.render({ x: 0, y: 0, width: 5, height: 5 });
+      compositor.removeObject('obj1');
+
+      const output = compositor.render({ x: 0, y: 0, width: 5, height: 5 });
+      expect(output.dirtyRegions).toEqual([{ minX: 2, minY: 1, maxX: 2, maxY: 1 }]);
+      expect(output.characters[1][2]).toBe(' ');
     });
 
-    test('multiply with glass pane effect', () => {
-      // Object beneath glass
-      addObjectLegacy(compositor, 'bg', {
-        content: [['#', '#']],
+    test('reports pending dirty bounds of removed object', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
         position: { x: 0, y: 0 },
-        color: '#0000ff',
-        layer: 0,
       });
 
-      // Glass pane (spaces with multiply influence)
-      addObjectLegacy(compositor, 'glass', {
-        content: [[' ', ' '], [' ', ' ']],
+      compositor.render({ x: 0, y: 0, width: 5, height: 5 });
+      compositor.getObject('obj1').setPosition(3, 3);
+      compositor.removeObject('obj1');
+
+      const output = compositor.render({ x: 0, y: 0, width: 5, height: 5 });
+      expect(output.characters[0][0]).toBe(' ');
+      expect(output.characters[3][3]).toBe(' ');
+    });
+
+    test('re-renders whole viewport when layer effect changes', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
         position: { x: 0, y: 0 },
-        color: '#ff0000',
-        layer: 1,
-        influence: {
-          radius: 1,
-          transform: { type: 'multiply', strength: 1.0, falloff: 'linear' }
-        }
       });
 
-      const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      compositor.render({ x: 0, y: 0, width: 3, height: 3 });
+      compositor.setLayerEffect(0, { color: '#ffffff', type: 'lighten', strength: 0.5 });
 
-      // Background should be visible through glass with multiply effect
-      expect(output.characters[0][0]).toBe('#');
-      // Blue multiplied by red should give black
-      expect(output.colors[0][0]).toBe('#000000');
+      const output = compositor.render({ x: 0, y: 0, width: 3, height: 3 });
+      expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 2, maxY: 2 }]);
+    });
+
+    test('incremental render matches full render', () => {
+      const viewport = { x: -2, y: -2, width: 16, height: 12 };
+      const build = (): Compositor => {
+        const c = new Compositor();
+        c.addObject(new AsciiObject({
+          id: 'bg',
+          content: Array(8).fill('..........'),
+          position: { x: 0, y: 0 },
+          color: '#336699',
+        }));
+        c.addObject(new AsciiObject({
+          id: 'sprite',
+          content: ['/\\', '\\/'],
+          position: { x: 1, y: 1 },
+          color: '#ff0000',
+          layer: 1,
+          influence: {
+            radius: 2,
+            transform: { type: 'lighten', strength: 0.6, falloff: 'quadratic' },
+          },
+        }));
+        c.addObject(new AsciiObject({
+          id: 'glass',
+          content: ['   ', '   '],
+          position: { x: 6, y: 4 },
+          color: '#00ff00',
+          layer: 2,
+          influence: {
+            radius: 1,
+            transform: { type: 'multiply', strength: 0.5, falloff: 'linear' },
+          },
+        }));
+        return c;
+      };
+
+      const incremental = build();
+      incremental.render(viewport);
+
+      const mutate = (c: Compositor): void => {
+        c.getObject('sprite').setPosition(7, 3);
+        c.getObject('glass').setPosition(2, 5);
+        c.getObject('bg').setColor('#999999');
+      };
+      mutate(incremental);
+      const patched = incremental.render(viewport);
+
+      const fresh = build();
+      mutate(fresh);
+      const full = fresh.render(viewport);
+
+      expect(patched.characters).toEqual(full.characters);
+      expect(patched.colors).toEqual(full.colors);
     });
   });
 
-  describe('Layer Effects', () => {
+  describe('Multiple viewport caches', () => {
+    const main = { x: 0, y: 0, width: 10, height: 4 };
+    const minimap = { x: 20, y: 0, width: 4, height: 2 };
     let compositor: Compositor;
 
     beforeEach(() => {
       compositor = new Compositor();
+      addObjectLegacy(compositor, 'hero', { content: '@', position: { x: 1, y: 1 } });
+      addObjectLegacy(compositor, 'flag', { content: 'F', position: { x: 21, y: 0 } });
     });
 
-    describe('setLayerEffect and getLayerEffect', () => {
-      test('sets and retrieves layer effect', () => {
-        const effect = {
-          color: '#ff0000',
-          type: 'lighten' as const,
-          strength: 0.5,
-        };
+    test('alternating viewports each hit their own cache', () => {
+      compositor.render(main);
+      compositor.render(minimap);
 
-        compositor.setLayerEffect(1, effect);
-        const retrieved = compositor.getLayerEffect(1);
+      expect(compositor.render(main).dirtyRegions).toEqual([]);
+      expect(compositor.render(minimap).dirtyRegions).toEqual([]);
+    });
 
-        expect(retrieved).toEqual(effect);
-      });
+    test('dirty regions only invalidate the viewports they intersect', () => {
+      compositor.render(main);
+      compositor.render(minimap);
 
-      test('returns null for layer with no effect', () => {
-        expect(compositor.getLayerEffect(5)).toBeNull();
-      });
+      compositor.getObject('hero').setPosition(2, 1);
+      const mainOutput = compositor.render(main);
+      const minimapOutput = compositor.render(minimap);
 
-      test('removes layer effect when set to null', () => {
-        compositor.setLayerEffect(1, {
-          color: '#ff0000',
-          type: 'lighten',
-          strength: 0.5,
-        });
+      expect(mainOutput.dirtyRegions).toEqual([{ minX: 1, minY: 1, maxX: 2, maxY: 1 }]);
+      expect(mainOutput.characters[1].join('')).toBe('  @       ');
+      expect(minimapOutput.dirtyRegions).toEqual([]);
 
-        compositor.setLayerEffect(1, null);
-        expect(compositor.getLayerEffect(1)).toBeNull();
-      });
+      // Changes made before another viewport's render still reach this one
+      compositor.getObject('flag').setPosition(22, 1);
+      compositor.render(main);
+      const moved = compositor.render(minimap);
+      expect(moved.dirtyRegions).toEqual([{ minX: 1, minY: 0, maxX: 2, maxY: 1 }]);
+      expect(moved.characters.map(row => row.join(''))).toEqual(['    ', '  F ']);
+    });
 
-      test('returns deep clone of layer effect', () => {
-        const effect = {
-          color: '#ff0000',
-          type: 'multiply-darken' as const,
-          strength: 0.8,
-          darkenFactor: 0.5,
-        };
+    test('layer effect changes invalidate every cached viewport', () => {
+      compositor.render(main);
+      compositor.render(minimap);
 
-        compositor.setLayerEffect(1, effect);
-        const retrieved = compositor.getLayerEffect(1);
+      compositor.setLayerEffect(0, { color: '#ffffff', type: 'lighten', strength: 0.5 });
+      compositor.render(main);
 
-        effect.strength = 1.0;
-        expect(retrieved?.strength).toBe(0.8);
-      });
+      expect(compositor.render(minimap).dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 3, maxY: 1 }]);
+    });
 
-      test('allows multiple layer effects on different layers', () => {
-        compositor.setLayerEffect(0, {
-          color: '#ff0000',
-          type: 'lighten',
-          strength: 0.3,
-        });
+    test('evicts the least recently rendered viewport', () => {
+      const fullRegion = (vp: { width: number; height: number }) => [
+        { minX: 0, minY: 0, maxX: vp.width - 1, maxY: vp.height - 1 },
+      ];
+      compositor.setViewportCacheSize(2);
+      const third = { x: 5, y: 5, width: 2, height: 2 };
 
-        compositor.setLayerEffect(2, {
-          color: '#00ff00',
-          type: 'multiply',
+      compositor.render(main);
+      compositor.render(minimap);
+      compositor.render(main);
+      compositor.render(third);
+
+      expect(compositor.render(main).dirtyRegions).toEqual([]);
+      expect(compositor.render(minimap).dirtyRegions).toEqual(fullRegion(minimap));
+
+      compositor.setViewportCacheSize(1);
+      expect(compositor.getViewportCacheSize()).toBe(1);
+      expect(compositor.render(main).dirtyRegions).toEqual(fullRegion(main));
+      expect(() => compositor.setViewportCacheSize(0)).toThrow('Viewport cache size must be a positive integer');
+    });
+  });
+
+  describe('Spatial index', () => {
+    let compositor: Compositor;
+
+    beforeEach(() => {
+      compositor = new Compositor();
+    });
+
+    test('renders objects moved across index buckets', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
+        position: { x: 1, y: 1 },
+      });
+
+      compositor.render({ x: 0, y: 0, width: 60, height: 40 });
+      compositor.getObject('obj1').setPosition(50, 35);
+
+      const output = compositor.render({ x: 0, y: 0, width: 60, height: 40 });
+      expect(output.characters[1][1]).toBe(' ');
+      expect(output.characters[35][50]).toBe('#');
+    });
+
+    test('renders objects whose content grows into new buckets', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
+        position: { x: 14, y: 0 },
+      });
+
+      compositor.render({ x: 0, y: 0, width: 40, height: 1 });
+      compositor.getObject('obj1').setContent(['#####']);
+
+      const output = compositor.render({ x: 0, y: 0, width: 40, height: 1 });
+      expect(output.characters[0].slice(14, 19).join('')).toBe('#####');
+    });
+
+    test('renders influence that extends into neighbouring buckets', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
+        position: { x: 15, y: 0 },
+        color: '#ffffff',
+        influence: {
+          radius: 3,
+          transform: { type: 'lighten', strength: 1.0, falloff: 'linear' },
+        },
+      });
+
+      const output = compositor.render({ x: 0, y: 0, width: 32, height: 1 });
+      expect(output.colors[0][17]).not.toBe('#000000');
+      expect(output.colors[0][13]).toBe(output.colors[0][17]);
+    });
+
+    test('keeps first-added-wins order after earlier object moves', () => {
+      addObjectLegacy(compositor, 'first', {
+        content: [['A']],
+        position: { x: 40, y: 0 },
+      });
+      addObjectLegacy(compositor, 'second', {
+        content: [['B']],
+        position: { x: 0, y: 0 },
+      });
+
+      compositor.render({ x: 0, y: 0, width: 50, height: 1 });
+      compositor.getObject('first').setPosition(0, 0);
+
+      const output = compositor.render({ x: 0, y: 0, width: 50, height: 1 });
+      expect(output.characters[0][0]).toBe('A');
+    });
+
+    test('renders large scenes identically to a single-object scan', () => {
+      const objects: AsciiObject[] = [];
+      for (let i = 0; i < 200; i++) {
+        objects.push(new AsciiObject({
+          id: `obj${i}`,
+          content: [['a', 'b'], ['c', 'd']],
+          position: { x: (i * 7) % 90 - 10, y: (i * 13) % 50 - 5 },
+          color: i % 2 === 0 ? '#ff0000' : '#0000ff',
+          layer: i % 3,
+        }));
+      }
+      compositor = new Compositor(objects);
+      const output = compositor.render({ x: -5, y: -5, width: 80, height: 40 });
+
+      // Reference: each cell resolves to the first object on the topmost layer covering it
+      for (let y = 0; y < 40; y++) {
+        for (let x = 0; x < 80; x++) {
+          const wx = x - 5;
+          const wy = y - 5;
+          let expected = ' ';
+          let bestLayer = -Infinity;
+          for (const obj of objects) {
+            const lx = wx - obj.position.x;
+            const ly = wy - obj.position.y;
+            if (lx >= 0 && lx < 2 && ly >= 0 && ly < 2 && obj.layer > bestLayer) {
+              bestLayer = obj.layer;
+              expected = obj.content[ly][lx]!;
+            }
+          }
+          expect(output.characters[y][x]).toBe(expected);
+        }
+      }
+    });
+  });
+
+  describe('renderInto', () => {
+    let compositor: Compositor;
+
+    beforeEach(() => {
+      compositor = new Compositor();
+    });
+
+    test('writes the same characters and colors as render()', () => {
+      addObjectLegacy(compositor, 'bg', {
+        content: ['....', '....'],
+        position: { x: 0, y: 0 },
+        color: '#336699',
+      });
+      addObjectLegacy(compositor, 'fg', {
+        content: [['@']],
+        position: { x: 1, y: 1 },
+        color: '#ff0000',
+        layer: 1,
+        influence: {
+          radius: 2,
+          transform: { type: 'lighten', strength: 0.5, falloff: 'linear' },
+        },
+      });
+      compositor.setLayerEffect(1, { color: '#0000ff', type: 'multiply', strength: 0.3 });
+
+      const viewport = { x: -1, y: -1, width: 6, height: 4 };
+      const buffer = createRenderBuffer(6, 4);
+      compositor.renderInto(buffer, viewport);
+      const output = compositor.render(viewport);
+
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 6; x++) {
+          const i = y * 6 + x;
+          expect(String.fromCodePoint(buffer.codePoints[i])).toBe(output.characters[y][x]);
+          const hex = '#' + Array.from(buffer.colors.slice(i * 3, i * 3 + 3))
+            .map(c => c.toString(16).padStart(2, '0'))
+            .join('');
+          expect(hex).toBe(output.colors[y][x]);
+        }
+      }
+    });
+
+    test('uses default viewport', () => {
+      compositor = createCompositorLegacy([
+        { id: 'obj1', content: [['#']], position: { x: 0, y: 0 }, color: '#ff8000' },
+      ], { x: 0, y: 0, width: 2, height: 1 });
+
+      const buffer = createRenderBuffer(2, 1);
+      compositor.renderInto(buffer);
+      expect(Array.from(buffer.codePoints)).toEqual([35, 32]);
+      expect(Array.from(buffer.colors)).toEqual([255, 128, 0, 0, 0, 0]);
+    });
+
+    test('stores astral characters as single code points', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['😀']],
+        position: { x: 0, y: 0 },
+      });
+
+      const buffer = createRenderBuffer(1, 1);
+      compositor.renderInto(buffer, { x: 0, y: 0, width: 1, height: 1 });
+      expect(buffer.codePoints[0]).toBe(0x1f600);
+    });
+
+    test('throws when buffer does not match viewport', () => {
+      const buffer = createRenderBuffer(2, 2);
+      expect(() => compositor.renderInto(buffer, { x: 0, y: 0, width: 3, height: 2 })).toThrow(
+        'Render buffer dimensions must match viewport'
+      );
+    });
+
+    test('throws when buffer arrays are too small', () => {
+      const buffer = { width: 2, height: 2, codePoints: new Uint32Array(4), colors: new Uint8ClampedArray(4) };
+      expect(() => compositor.renderInto(buffer, { x: 0, y: 0, width: 2, height: 2 })).toThrow(
+        'Render buffer dimensions must match viewport'
+      );
+    });
+
+    test('throws without viewport', () => {
+      expect(() => compositor.renderInto(createRenderBuffer(1, 1))).toThrow(
+        'No viewport specified and no default viewport set'
+      );
+    });
+
+    test('createRenderBuffer rejects invalid dimensions', () => {
+      expect(() => createRenderBuffer(0, 5)).toThrow('Render buffer width and height must be positive integers');
+      expect(() => createRenderBuffer(2.5, 5)).toThrow('Render buffer width and height must be positive integers');
+    });
+
+    test('object changes consumed by renderInto still update render() cache', () => {
+      addObjectLegacy(compositor, 'obj1', {
+        content: [['#']],
+        position: { x: 0, y: 0 },
+      });
+      const viewport = { x: 0, y: 0, width: 3, height: 1 };
+      compositor.render(viewport);
+
+      compositor.getObject('obj1').setPosition(2, 0);
+      compositor.renderInto(createRenderBuffer(3, 1), viewport);
+
+      const output = compositor.render(viewport);
+      expect(output.characters[0]).toEqual([' ', ' ', '#']);
+    });
+  });
+
+  describe('Serialization', () => {
+    function buildScene(): Compositor {
+      const compositor = createCompositorLegacy([
+        {
+          id: 'bg',
+          content: ['#### ', '#  # '],
+          position: { x: -1, y: 0 },
+          color: '#336699',
+        },
+        {
+          id: 'arrow',
+          content: [['<', '-', null], [null, '/', '[']],
+          position: { x: 2, y: 1 },
+          color: '#FF0000',
+          layer: 2,
+          influence: {
+            radius: 2,
+            color: '#00ff00',
+            transform: { type: 'multiply-darken', strength: 0.7, falloff: 'cubic', darkenFactor: 0.5 },
+          },
+        },
+      ], { x: -2, y: -1, width: 10, height: 6 });
+      compositor.getObject('arrow').flipHorizontalToggle(true);
+      compositor.setLayerEffect(1, { color: '#4444FF', type: 'multiply', strength: 0.4 });
+      compositor.setLayerEffect(0, { color: '#000000', type: 'darken', strength: 0.2 });
+      return compositor;
+    }
+
+    test('toJSON captures objects, flip state, layer effects and viewport', () => {
+      const json = buildScene().toJSON();
+
+      expect(json.version).toBe(SCENE_FORMAT_VERSION);
+      expect(json.objects.map(o => o.id)).toEqual(['bg', 'arrow']);
+      expect(json.objects[1]).toEqual({
+        id: 'arrow',
+        content: [[null, '-', '>'], [']', '\\', null]],
+        position: { x: 2, y: 1 },
+        color: '#ff0000',
+        layer: 2,
+        zIndex: 0,
+        influence: {
+          radius: 2,
+          color: '#00ff00',
+          transform: { type: 'multiply-darken', strength: 0.7, falloff: 'cubic', darkenFactor: 0.5 },
+        },
+        flipHorizontal: true,
+        flipVertical: false,
+        rotation: 0,
+        opacity: 1,
+        opacityCharThreshold: 0,
+      });
+      expect(json.objects[0].influence).toBeUndefined();
+      expect(json.layerEffects).toEqual([
+        { layer: 0, effect: { color: '#000000', type: 'darken', strength: 0.2 } },
+        { layer: 1, effect: { color: '#4444ff', type: 'multiply', strength: 0.4 } },
+      ]);
+      expect(json.defaultViewport).toEqual({ x: -2, y: -1, width: 10, height: 6 });
+    });
+
+    test('toJSON returns a deep clone', () => {
+      const compositor = buildScene();
+      const json = compositor.toJSON();
+      json.objects[0].content[0][0] = 'X';
+      json.objects[0].position.x = 99;
+
+      const obj = compositor.getObject('bg');
+      expect(obj.content[0][0]).toBe('#');
+      expect(obj.position.x).toBe(-1);
+    });
+
+    test('round-trips through JSON.stringify and fromJSON', () => {
+      const original = buildScene();
+      const restored = Compositor.fromJSON(JSON.parse(JSON.stringify(original)));
+
+      expect(restored.toJSON()).toEqual(original.toJSON());
+      expect(restored.render()).toEqual(original.render());
+      expect(restored.getObject('arrow').flipHorizontal).toBe(true);
+    });
+
+    test('preserves null cells through JSON', () => {
+      const restored = Compositor.fromJSON(JSON.parse(JSON.stringify(buildScene())));
+      expect(restored.getObject('arrow').content[0][0]).toBeNull();
+    });
+
+    test('omits default viewport when not set', () => {
+      const json = new Compositor().toJSON();
+      expect(json).toEqual({ version: SCENE_FORMAT_VERSION, objects: [], layerEffects: [] });
+    });
+
+    test('throws on unsupported version', () => {
+      expect(() => Compositor.fromJSON({ version: 99, objects: [], layerEffects: [] })).toThrow(
+        'Unsupported scene version: 99'
+      );
+    });
+
+    test('throws when objects is not an array', () => {
+      expect(() => Compositor.fromJSON({ version: SCENE_FORMAT_VERSION } as any)).toThrow(
+        'Invalid scene: objects must be an array'
+      );
+    });
+
+    test('throws constructor errors for invalid objects', () => {
+      const json = buildScene().toJSON();
+
+      const missing = JSON.parse(JSON.stringify(json));
+      delete missing.objects[0].position;
+      expect(() => Compositor.fromJSON(missing)).toThrow(
+        'Invalid initial object: missing required fields (position)'
+      );
+
+      const ragged = JSON.parse(JSON.stringify(json));
+      ragged.objects[0].content = [['a', 'b'], ['c']];
+      expect(() => Compositor.fromJSON(ragged)).toThrow('Invalid content format: rows have unequal lengths');
+
+      const badColor = JSON.parse(JSON.stringify(json));
+      badColor.objects[0].color = 'red';
+      expect(() => Compositor.fromJSON(badColor)).toThrow('Invalid color format: must be #RRGGBB');
+
+      const duplicate = JSON.parse(JSON.stringify(json));
+      duplicate.objects[1].id = 'bg';
+      expect(() => Compositor.fromJSON(duplicate)).toThrow("Object with id 'bg' already exists");
+    });
+
+    test('throws setLayerEffect errors for invalid layer effects', () => {
+      const json = buildScene().toJSON();
+      json.layerEffects[0].effect.strength = 2;
+      expect(() => Compositor.fromJSON(json)).toThrow('Strength must be between 0.0 and 1.0');
+    });
+  });
+
+  describe('Multiply and Multiply-Darken Blend Modes', () => {
+    let compositor: Compositor;
+
+    beforeEach(() => {
+      compositor = new Compositor();
+    });
+
+    test('multiply blend mode combines colors', () => {
+      // White object on bottom layer
+      addObjectLegacy(compositor, 'bottom', {
+        content: [['*']],
+        position: { x: 0, y: 0 },
+        color: '#ffffff',
+        layer: 0,
+      });
+
+      // Red glass pane (spaces) on top layer with multiply influence
+      addObjectLegacy(compositor, 'top', {
+        content: [[' ']],
+        position: { x: 0, y: 0 },
+        color: '#ff0000',
+        layer: 1,
+        influence: {
+          radius: 1,
+          transform: { type: 'multiply', strength: 1.0, falloff: 'linear' }
+        }
+      });
+
+      const output = compositor.render({ x: 0, y: 0, width: 1, height: 1 });
+
+      // The white character should be tinted red by multiply influence
+      // White (#ffffff) multiplied by red (#ff0000) should give red (#ff0000)
+      expect(output.characters[0][0]).toBe('*');
+      expect(output.colors[0][0]).toBe('#ff0000');
+    });
+
+    test('multiply-darken is darker than multiply', () => {
+      // Setup two identical scenes, one with multiply, one with multiply-darken
+      const comp1 = new Compositor();
+      addObjectLegacy(comp1, 'bottom', {
+        content: [['*']],
+        position: { x: 0, y: 0 },
+        color: '#ffffff',
+        layer: 0,
+      });
+      addObjectLegacy(comp1, 'top', {
+        content: [[' ']],
+        position: { x: 0, y: 0 },
+        color: '#ff0000',
+        layer: 1,
+        influence: {
+          radius: 1,
+          transform: { type: 'multiply', strength: 1.0, falloff: 'linear' }
+        }
+      });
+
+      const comp2 = new Compositor();
+      addObjectLegacy(comp2, 'bottom', {
+        content: [['*']],
+        position: { x: 0, y: 0 },
+        color: '#ffffff',
+        layer: 0,
+      });
+      addObjectLegacy(comp2, 'top', {
+        content: [[' ']],
+        position: { x: 0, y: 0 },
+        color: '#ff0000',
+        layer: 1,
+        influence: {
+          radius: 1,
+          transform: { type: 'multiply-darken', strength: 1.0, falloff: 'linear', darkenFactor: 0.5 }
+        }
+      });
+
+      const output1 = comp1.render({ x: 0, y: 0, width: 1, height: 1 });
+      const output2 = comp2.render({ x: 0, y: 0, width: 1, height: 1 });
+
+      // Both should have the same character
+      expect(output1.characters[0][0]).toBe('*');
+      expect(output2.characters[0][0]).toBe('*');
+
+      // Colors should be different - multiply-darken should be darker
+      expect(output1.colors[0][0]).not.toBe(output2.colors[0][0]);
+
+      // Parse colors and verify multiply-darken is darker
+      const color1 = output1.colors[0][0];
+      const color2 = output2.colors[0][0];
+
+      const r1 = parseInt(color1.slice(1, 3), 16);
+      const g1 = parseInt(color1.slice(3, 5), 16);
+      const b1 = parseInt(color1.slice(5, 7), 16);
+
+      const r2 = parseInt(color2.slice(1, 3), 16);
+      const g2 = parseInt(color2.slice(3, 5), 16);
+      const b2 = parseInt(color2.slice(5, 7), 16);
+
+      // Multiply-darken should have lower RGB values (darker)
+      expect(r2).toBeLessThanOrEqual(r1);
+      expect(g2).toBeLessThanOrEqual(g1);
+      expect(b2).toBeLessThanOrEqual(b1);
+    });
+
+    test('multiply-darken respects darkenFactor parameter', () => {
+      const comp1 = new Compositor();
+      addObjectLegacy(comp1, 'bottom', {
+        content: [['*']],
+        position: { x: 0, y: 0 },
+        color: '#ffffff',
+        layer: 0,
+      });
+      addObjectLegacy(comp1, 'top', {
+        content: [[' ']],
+        position: { x: 0, y: 0 },
+        color: '#ff0000',
+        layer: 1,
+        influence: {
+          radius: 1,
+          transform: { type: 'multiply-darken', strength: 1.0, falloff: 'linear', darkenFactor: 0.8 }
+        }
+      });
+
+      const comp2 = new Compositor();
+      addObjectLegacy(comp2, 'bottom', {
+        content: [['*']],
+        position: { x: 0, y: 0 },
+        color: '#ffffff',
+        layer: 0,
+      });
+      addObjectLegacy(comp2, 'top', {
+        content: [[' ']],
+        position: { x: 0, y: 0 },
+        color: '#ff0000',
+        layer: 1,
+        influence: {
+          radius: 1,
+          transform: { type: 'multiply-darken', strength: 1.0, falloff: 'linear', darkenFactor: 0.5 }
+        }
+      });
+
+      const output1 = comp1.render({ x: 0, y: 0, width: 1, height: 1 });
+      const output2 = comp2.render({ x: 0, y: 0, width: 1, height: 1 });
+
+      // Different darkenFactors should produce different colors
+      expect(output1.colors[0][0]).not.toBe(output2.colors[0][0]);
+
+      // Lower darkenFactor (0.5) should be darker than higher (0.8)
+      const r1 = parseInt(output1.colors[0][0].slice(1, 3), 16);
+      const r2 = parseInt(output2.colors[0][0].slice(1, 3), 16);
+      expect(r2).toBeLessThan(r1);
+    });
+
+    test('multiply with glass pane effect', () => {
+      // Object beneath glass
+      addObjectLegacy(compositor, 'bg', {
+        content: [['#', '#']],
+        position: { x: 0, y: 0 },
+        color: '#0000ff',
+        layer: 0,
+      });
+
+      // Glass pane (spaces with multiply influence)
+      addObjectLegacy(compositor, 'glass', {
+        content: [[' ', ' '], [' ', ' ']],
+        position: { x: 0, y: 0 },
+        color: '#ff0000',
+        layer: 1,
+        influence: {
+          radius: 1,
+          transform: { type: 'multiply', strength: 1.0, falloff: 'linear' }
+        }
+      });
+
+      const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+      // Background should be visible through glass with multiply effect
+      expect(output.characters[0][0]).toBe('#');
+      // Blue multiplied by red should give black
+      expect(output.colors[0][0]).toBe('#000000');
+    });
+  });
+
+  describe('Additional Blend Modes', () => {
+    // Base #4080c0 blended with target #8040ff (W3C separable blend formulas)
+    const BASE = '#4080c0';
+    const TARGET = '#8040ff';
+    const cases: Array<[TransformType, string, string]> = [
+      // [type, full strength, half strength]
+      ['screen', '#a0a0ff', '#7090e0'],
+      ['overlay', '#4041ff', '#4060e0'],
+      ['soft-light', '#4060dd', '#4070cf'],
+      ['color-dodge', '#81abff', '#6095e0'],
+      ['color-burn', '#0000c0', '#2040c0'],
+      ['difference', '#40403f', '#406080'],
+      ['additive', '#c0c0ff', '#80a0e0'],
+    ];
+
+    test.each(cases)('%s layer effect blends and mixes by strength', (type, full, half) => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'obj', { content: 'x', position: { x: 0, y: 0 }, color: BASE });
+
+      compositor.setLayerEffect(0, { color: TARGET, type, strength: 1.0 });
+      expect(compositor.render({ x: 0, y: 0, width: 1, height: 1 }).colors[0][0]).toBe(full);
+
+      compositor.setLayerEffect(0, { color: TARGET, type, strength: 0.5 });
+      expect(compositor.render({ x: 0, y: 0, width: 1, height: 1 }).colors[0][0]).toBe(half);
+    });
+
+    test.each(cases)('%s influence follows falloff', (type, full, half) => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'ground', { content: '#####', position: { x: 0, y: 0 }, color: BASE });
+      addObjectLegacy(compositor, 'light', {
+        content: [[' ']],
+        position: { x: 0, y: 0 },
+        color: TARGET,
+        layer: 1,
+        influence: { radius: 4, transform: { type, strength: 1.0, falloff: 'linear' } },
+      });
+
+      const colors = compositor.render({ x: 0, y: 0, width: 5, height: 1 }).colors[0];
+
+      // Glass pane at distance 0 applies full strength; linear falloff halves it at distance 2
+      expect(colors[0]).toBe(full);
+      expect(colors[2]).toBe(half);
+      expect(colors[4]).toBe(BASE);
+    });
+
+    test('screen never darkens and difference with itself is black', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'obj', { content: 'x', position: { x: 0, y: 0 }, color: '#808080' });
+
+      compositor.setLayerEffect(0, { color: '#000000', type: 'screen', strength: 1.0 });
+      expect(compositor.render({ x: 0, y: 0, width: 1, height: 1 }).colors[0][0]).toBe('#808080');
+
+      compositor.setLayerEffect(0, { color: '#808080', type: 'difference', strength: 1.0 });
+      expect(compositor.render({ x: 0, y: 0, width: 1, height: 1 }).colors[0][0]).toBe('#000000');
+    });
+
+    test('additive clamps at white', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'obj', { content: 'x', position: { x: 0, y: 0 }, color: '#c0c0c0' });
+      compositor.setLayerEffect(0, { color: '#808080', type: 'additive', strength: 1.0 });
+
+      expect(compositor.render({ x: 0, y: 0, width: 1, height: 1 }).colors[0][0]).toBe('#ffffff');
+    });
+
+    test('new modes survive serialization', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'obj', {
+        content: 'x',
+        position: { x: 0, y: 0 },
+        influence: { radius: 1, transform: { type: 'overlay', strength: 0.5, falloff: 'linear' } },
+      });
+      compositor.setLayerEffect(0, { color: '#ffffff', type: 'soft-light', strength: 0.3 });
+
+      const restored = Compositor.fromJSON(JSON.parse(JSON.stringify(compositor)));
+      expect(restored.getObject('obj').influence?.transform.type).toBe('overlay');
+      expect(restored.getLayerEffect(0)?.type).toBe('soft-light');
+    });
+
+    test('rejects unknown transform types', () => {
+      const compositor = new Compositor();
+      expect(() =>
+        compositor.setLayerEffect(0, { color: '#ffffff', type: 'hue' as TransformType, strength: 1.0 })
+      ).toThrow('Invalid transform type: hue');
+
+      const influence = {
+        radius: 1,
+        transform: { type: 'hue' as TransformType, strength: 1.0, falloff: 'linear' as const },
+      };
+      expect(() => new AsciiObject({ id: 'a', content: 'x', position: { x: 0, y: 0 }, influence })).toThrow(
+        'Invalid transform type: hue'
+      );
+
+      const obj = new AsciiObject({ id: 'b', content: 'x', position: { x: 0, y: 0 } });
+      expect(() => obj.setInfluence(influence)).toThrow('Invalid transform type: hue');
+      expect(obj.influence).toBeUndefined();
+    });
+  });
+
+  describe('Layer Effects', () => {
+    let compositor: Compositor;
+
+    beforeEach(() => {
+      compositor = new Compositor();
+    });
+
+    describe('setLayerEffect and getLayerEffect', () => {
+      test('sets and retrieves layer effect', () => {
+        const effect = {
+          color: '#ff0000',
+          type: 'lighten' as const,
+          strength: 0.5,
+        };
+
+        compositor.setLayerEffect(1, effect);
+        const retrieved = compositor.getLayerEffect(1);
+
+        expect(retrieved).toEqual(effect);
+      });
+
+      test('returns null for layer with no effect', () => {
+        expect(compositor.getLayerEffect(5)).toBeNull();
+      });
+
+      test('removes layer effect when set to null', () => {
+        compositor.setLayerEffect(1, {
+          color: '#ff0000',
+          type: 'lighten',
+          strength: 0.5,
+        });
+
+        compositor.setLayerEffect(1, null);
+        expect(compositor.getLayerEffect(1)).toBeNull();
+      });
+
+      test('returns deep clone of layer effect', () => {
+        const effect = {
+          color: '#ff0000',
+          type: 'multiply-darken' as const,
+          strength: 0.8,
+          darkenFactor: 0.5,
+        };
+
+        compositor.setLayerEffect(1, effect);
+        const retrieved = compositor.getLayerEffect(1);
+
+        effect.strength = 1.0;
+        expect(retrieved?.strength).toBe(0.8);
+      });
+
+      test('allows multiple layer effects on different layers', () => {
+        compositor.setLayerEffect(0, {
+          color: '#ff0000',
+          type: 'lighten',
+          strength: 0.3,
+        });
+
+        compositor.setLayerEffect(2, {
+          color: '#00ff00',
+          type: 'multiply',
+          strength: 0.7,
+        });
+
+        expect(compositor.getLayerEffect(0)).toEqual({
+          color: '#ff0000',
+          type: 'lighten',
+          strength: 0.3,
+        });
+
+        expect(compositor.getLayerEffect(2)).toEqual({
+          color: '#00ff00',
+          type: 'multiply',
           strength: 0.7,
         });
+      });
+
+      test('overwrites existing layer effect', () => {
+        compositor.setLayerEffect(1, {
+          color: '#ff0000',
+          type: 'lighten',
+          strength: 0.5,
+        });
+
+        compositor.setLayerEffect(1, {
+          color: '#00ff00',
+          type: 'darken',
+          strength: 0.8,
+        });
+
+        expect(compositor.getLayerEffect(1)).toEqual({
+          color: '#00ff00',
+          type: 'darken',
+          strength: 0.8,
+        });
+      });
+    });
+
+    describe('Layer effect validation', () => {
+      test('throws on invalid color format', () => {
+        expect(() => {
+          compositor.setLayerEffect(1, {
+            color: 'red',
+            type: 'lighten',
+            strength: 0.5,
+          });
+        }).toThrow('Invalid color format: must be #RRGGBB');
+      });
+
+      test('throws on strength less than 0', () => {
+        expect(() => {
+          compositor.setLayerEffect(1, {
+            color: '#ff0000',
+            type: 'lighten',
+            strength: -0.1,
+          });
+        }).toThrow('Strength must be between 0.0 and 1.0');
+      });
+
+      test('throws on strength greater than 1', () => {
+        expect(() => {
+          compositor.setLayerEffect(1, {
+            color: '#ff0000',
+            type: 'lighten',
+            strength: 1.5,
+          });
+        }).toThrow('Strength must be between 0.0 and 1.0');
+      });
+
+      test('throws on darkenFactor less than 0', () => {
+        expect(() => {
+          compositor.setLayerEffect(1, {
+            color: '#ff0000',
+            type: 'multiply-darken',
+            strength: 0.5,
+            darkenFactor: -0.1,
+          });
+        }).toThrow('darkenFactor must be between 0.0 and 1.0');
+      });
+
+      test('throws on darkenFactor greater than 1', () => {
+        expect(() => {
+          compositor.setLayerEffect(1, {
+            color: '#ff0000',
+            type: 'multiply-darken',
+            strength: 0.5,
+            darkenFactor: 1.5,
+          });
+        }).toThrow('darkenFactor must be between 0.0 and 1.0');
+      });
+
+      test('allows strength of exactly 0', () => {
+        expect(() => {
+          compositor.setLayerEffect(1, {
+            color: '#ff0000',
+            type: 'lighten',
+            strength: 0.0,
+          });
+        }).not.toThrow();
+      });
+
+      test('allows strength of exactly 1', () => {
+        expect(() => {
+          compositor.setLayerEffect(1, {
+            color: '#ff0000',
+            type: 'lighten',
+            strength: 1.0,
+          });
+        }).not.toThrow();
+      });
+    });
+
+    describe('Layer effect rendering', () => {
+      test('applies lighten effect uniformly to viewport', () => {
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#', '#'], ['#', '#']],
+          position: { x: 0, y: 0 },
+          color: '#000000',
+          layer: 0,
+        });
+
+        compositor.setLayerEffect(1, {
+          color: '#ffffff',
+          type: 'lighten',
+          strength: 0.5,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // All cells should be lightened by 50% toward white
+        expect(output.colors[0][0]).toBe('#808080');
+        expect(output.colors[0][1]).toBe('#808080');
+        expect(output.colors[1][0]).toBe('#808080');
+        expect(output.colors[1][1]).toBe('#808080');
+      });
+
+      test('applies darken effect uniformly to viewport', () => {
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#', '#'], ['#', '#']],
+          position: { x: 0, y: 0 },
+          color: '#ffffff',
+          layer: 0,
+        });
+
+        compositor.setLayerEffect(1, {
+          color: '#000000',
+          type: 'darken',
+          strength: 0.5,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // All cells should be darkened by 50% toward black
+        expect(output.colors[0][0]).toBe('#808080');
+        expect(output.colors[0][1]).toBe('#808080');
+        expect(output.colors[1][0]).toBe('#808080');
+        expect(output.colors[1][1]).toBe('#808080');
+      });
+
+      test('applies multiply effect uniformly to viewport', () => {
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#', '#'], ['#', '#']],
+          position: { x: 0, y: 0 },
+          color: '#ffffff',
+          layer: 0,
+        });
+
+        compositor.setLayerEffect(1, {
+          color: '#ff0000',
+          type: 'multiply',
+          strength: 1.0,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // White multiplied by red at full strength should be red
+        expect(output.colors[0][0]).toBe('#ff0000');
+        expect(output.colors[0][1]).toBe('#ff0000');
+        expect(output.colors[1][0]).toBe('#ff0000');
+        expect(output.colors[1][1]).toBe('#ff0000');
+      });
+
+      test('applies multiply-darken effect uniformly to viewport', () => {
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#', '#'], ['#', '#']],
+          position: { x: 0, y: 0 },
+          color: '#ffffff',
+          layer: 0,
+        });
+
+        compositor.setLayerEffect(1, {
+          color: '#ff0000',
+          type: 'multiply-darken',
+          strength: 1.0,
+          darkenFactor: 0.5,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // White multiplied by red, then darkened by 50%
+        expect(output.colors[0][0]).toBe('#800000');
+      });
+
+      test('layer effect applied before rendering layer objects', () => {
+        // Layer 0: white background
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#', '#'], ['#', '#']],
+          position: { x: 0, y: 0 },
+          color: '#ffffff',
+          layer: 0,
+        });
+
+        // Layer 1 effect: darken everything below
+        compositor.setLayerEffect(1, {
+          color: '#000000',
+          type: 'darken',
+          strength: 0.5,
+        });
+
+        // Layer 1 object: black character (should NOT be affected by layer 1 effect)
+        addObjectLegacy(compositor, 'top', {
+          content: [['@']],
+          position: { x: 0, y: 0 },
+          color: '#000000',
+          layer: 1,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // [0,0] has layer 1 object '@' - should be black (not affected by its own layer effect)
+        expect(output.characters[0][0]).toBe('@');
+        expect(output.colors[0][0]).toBe('#000000');
+
+        // [0,1] shows layer 0 through layer 1 effect - should be darkened
+        expect(output.characters[0][1]).toBe('#');
+        expect(output.colors[0][1]).toBe('#808080');
+      });
+
+      test('multiple layer effects stack correctly', () => {
+        // Layer 0: white background
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#', '#'], ['#', '#']],
+          position: { x: 0, y: 0 },
+          color: '#ffffff',
+          layer: 0,
+        });
+
+        // Layer 1 effect: darken by 50%
+        compositor.setLayerEffect(1, {
+          color: '#000000',
+          type: 'darken',
+          strength: 0.5,
+        });
+
+        // Layer 2 effect: darken by 50% again
+        compositor.setLayerEffect(2, {
+          color: '#000000',
+          type: 'darken',
+          strength: 0.5,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // After first darken: #ffffff -> #808080
+        // After second darken: #808080 -> #404040
+        expect(output.colors[0][0]).toBe('#404040');
+      });
+
+      test('layer effect affects empty viewport cells', () => {
+        // No objects, just a layer effect
+        compositor.setLayerEffect(0, {
+          color: '#ff0000',
+          type: 'lighten',
+          strength: 1.0,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // Empty cells default to black, then lightened toward red
+        expect(output.colors[0][0]).toBe('#ff0000');
+        expect(output.colors[0][1]).toBe('#ff0000');
+      });
+
+      test('layer effect with strength 0 has no effect', () => {
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#', '#']],
+          position: { x: 0, y: 0 },
+          color: '#808080',
+          layer: 0,
+        });
+
+        compositor.setLayerEffect(1, {
+          color: '#ffffff',
+          type: 'lighten',
+          strength: 0.0,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // Original color unchanged
+        expect(output.colors[0][0]).toBe('#808080');
+      });
+
+      test('layer effect interacts with object influence', () => {
+        // Layer 0: black character with white lighten influence
+        addObjectLegacy(compositor, 'obj', {
+          content: [['#']],
+          position: { x: 0, y: 0 },
+          color: '#000000',
+          layer: 0,
+          influence: {
+            radius: 2,  // Radius 2 so position [0,1] has 50% influence with linear falloff
+            transform: { type: 'lighten', strength: 1.0, falloff: 'linear' }
+          }
+        });
+
+        // Layer 1: multiply effect (red tint)
+        compositor.setLayerEffect(1, {
+          color: '#ff0000',
+          type: 'multiply',
+          strength: 1.0,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+
+        // [0,0] is black, layer effect multiplies: black * red = black
+        expect(output.colors[0][0]).toBe('#000000');
+
+        // [0,1] is influenced to be lighter (50% with linear falloff at distance 1, radius 2)
+        // then multiplied by red - should have some red tint
+        const color = output.colors[0][1];
+        expect(color).not.toBe('#000000');
+        // Red channel should be present
+        const r = parseInt(color.slice(1, 3), 16);
+        expect(r).toBeGreaterThan(0);
+      });
+
+      test('removing layer effect removes its rendering effect', () => {
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#']],
+          position: { x: 0, y: 0 },
+          color: '#000000',
+          layer: 0,
+        });
+
+        compositor.setLayerEffect(1, {
+          color: '#ffffff',
+          type: 'lighten',
+          strength: 1.0,
+        });
+
+        let output = compositor.render({ x: 0, y: 0, width: 1, height: 1 });
+        expect(output.colors[0][0]).toBe('#ffffff');
+
+        compositor.setLayerEffect(1, null);
+        output = compositor.render({ x: 0, y: 0, width: 1, height: 1 });
+        expect(output.colors[0][0]).toBe('#000000');
+      });
+
+      test('mixed effect types on different layers', () => {
+        addObjectLegacy(compositor, 'bg', {
+          content: [['#', '#']],
+          position: { x: 0, y: 0 },
+          color: '#808080',
+          layer: 0,
+        });
+
+        // Layer 1: lighten toward white
+        compositor.setLayerEffect(1, {
+          color: '#ffffff',
+          type: 'lighten',
+          strength: 0.5,
+        });
+
+        // Layer 2: multiply by blue
+        compositor.setLayerEffect(2, {
+          color: '#0000ff',
+          type: 'multiply',
+          strength: 1.0,
+        });
+
+        const output = compositor.render({ x: 0, y: 0, width: 2, height: 1 });
+
+        // Gray lightened 50% toward white: #808080 -> #c0c0c0
+        // Then multiplied by blue: #c0c0c0 * #0000ff = #0000c0
+        expect(output.colors[0][0]).toBe('#0000c0');
+      });
+    });
+  });
+
+  describe('Gradient Layer Effects', () => {
+    let compositor: Compositor;
+
+    const row = (output: { colors: string[][] }, y: number = 0) => output.colors[y];
+
+    beforeEach(() => {
+      compositor = new Compositor();
+      addObjectLegacy(compositor, 'ground', { content: '#'.repeat(20), position: { x: 0, y: 0 }, color: '#000000' });
+    });
+
+    test('linear gradient ramps strength from stop to stop', () => {
+      compositor.setLayerEffect(1, {
+        color: '#ffffff',
+        type: 'lighten',
+        strength: 1.0,
+        gradient: {
+          kind: 'linear',
+          from: { x: 0, y: 0 },
+          to: { x: 4, y: 0 },
+          stops: [{ offset: 0, strength: 0 }, { offset: 1, strength: 1 }],
+        },
+      });
+
+      const colors = row(compositor.render({ x: 0, y: 0, width: 6, height: 1 }));
+
+      // Positions 0, 0.25, 0.5, 0.75, 1, then clamped to the last stop
+      expect(colors).toEqual(['#000000', '#404040', '#808080', '#bfbfbf', '#ffffff', '#ffffff']);
+    });
+
+    test('interpolates stop colors and scales by effect strength', () => {
+      compositor.setLayerEffect(1, {
+        color: '#ffffff',
+        type: 'lighten',
+        strength: 1.0,
+        gradient: {
+          kind: 'linear',
+          from: { x: 0, y: 0 },
+          to: { x: 4, y: 0 },
+          stops: [{ offset: 0, color: '#ff0000' }, { offset: 1, color: '#0000ff' }],
+        },
+      });
+      expect(row(compositor.render({ x: 0, y: 0, width: 5, height: 1 }))[2]).toBe('#800080');
+
+      // Stops without color use the effect color; effect strength scales every stop
+      compositor.setLayerEffect(1, {
+        color: '#ffffff',
+        type: 'lighten',
+        strength: 0.5,
+        gradient: { kind: 'linear', from: { x: 0, y: 0 }, to: { x: 4, y: 0 }, stops: [{ offset: 0.5 }] },
+      });
+      expect(row(compositor.render({ x: 0, y: 0, width: 5, height: 1 }))).toEqual(Array(5).fill('#808080'));
+    });
+
+    test('radial gradient spotlight with elliptical radii', () => {
+      const spot = new Compositor();
+      addObjectLegacy(spot, 'wall', { content: Array(5).fill('#####'), position: { x: 0, y: 0 }, color: '#ffffff' });
+      spot.setLayerEffect(1, {
+        color: '#000000',
+        type: 'darken',
+        strength: 1.0,
+        gradient: {
+          kind: 'radial',
+          center: { x: 2, y: 2 },
+          radius: 2,
+          radiusY: 1,
+          stops: [{ offset: 0, strength: 0 }, { offset: 1, strength: 1 }],
+        },
+      });
+
+      const output = spot.render({ x: 0, y: 0, width: 5, height: 5 });
+
+      expect(row(output, 2)).toEqual(['#000000', '#808080', '#ffffff', '#808080', '#000000']);
+      expect(row(output, 1)[2]).toBe('#000000');
+      expect(row(output, 0)[2]).toBe('#000000');
+    });
+
+    test('applies strength curves to the gradient position', () => {
+      const gradient = {
+        kind: 'linear' as const,
+        from: { x: 0, y: 0 },
+        to: { x: 4, y: 0 },
+        stops: [{ offset: 0, strength: 0 }, { offset: 1, strength: 1 }],
+      };
+      const colorsWith = (curve: GradientCurve) => {
+        compositor.setLayerEffect(1, {
+          color: '#ffffff',
+          type: 'lighten',
+          strength: 1,
+          gradient: { ...gradient, curve },
+        });
+        return row(compositor.render({ x: 0, y: 0, width: 5, height: 1 }));
+      };
+
+      expect(colorsWith('ease-in')[2]).toBe('#404040');
+      expect(colorsWith('ease-out')[2]).toBe('#bfbfbf');
+      expect(colorsWith('smoothstep')[1]).toBe('#282828');
+    });
+
+    test('viewport-anchored gradients follow the camera, world-anchored ones stay in the scene', () => {
+      const gradient = {
+        kind: 'linear' as const,
+        from: { x: 0, y: 0 },
+        to: { x: 4, y: 0 },
+        stops: [{ offset: 0, strength: 0 }, { offset: 1, strength: 1 }],
+      };
+      const ramp = ['#000000', '#404040', '#808080', '#bfbfbf', '#ffffff'];
+
+      compositor.setLayerEffect(1, { color: '#ffffff', type: 'lighten', strength: 1, gradient });
+      expect(row(compositor.render({ x: 0, y: 0, width: 5, height: 1 }))).toEqual(ramp);
+      expect(row(compositor.render({ x: 10, y: 0, width: 5, height: 1 }))).toEqual(ramp);
+
+      compositor.setLayerEffect(1, {
+        color: '#ffffff',
+        type: 'lighten',
+        strength: 1,
+        gradient: { ...gradient, anchor: 'world' },
+      });
+      expect(row(compositor.render({ x: 10, y: 0, width: 5, height: 1 }))).toEqual(Array(5).fill('#ffffff'));
+      expect(row(compositor.render({ x: 0, y: 0, width: 5, height: 1 }))).toEqual(ramp);
+    });
+
+    test('applies at the layer position in the stack', () => {
+      addObjectLegacy(compositor, 'top', { content: 'T', position: { x: 0, y: 0 }, color: '#000000', layer: 2 });
+      compositor.setLayerEffect(1, {
+        color: '#ffffff',
+        type: 'lighten',
+        strength: 1,
+        gradient: {
+          kind: 'radial',
+          center: { x: 0, y: 0 },
+          radius: 4,
+          stops: [{ offset: 0 }, { offset: 1, strength: 0 }],
+        },
+      });
+
+      const colors = row(compositor.render({ x: 0, y: 0, width: 2, height: 1 }));
+
+      // Object above the effect layer is untouched; ground below is lightened
+      expect(colors[0]).toBe('#000000');
+      expect(colors[1]).toBe('#bfbfbf');
+    });
+
+    test('changing a gradient invalidates the cached render', () => {
+      const effect = {
+        color: '#ffffff',
+        type: 'lighten' as const,
+        strength: 1,
+        gradient: {
+          kind: 'linear' as const,
+          from: { x: 0, y: 0 },
+          to: { x: 4, y: 0 },
+          stops: [{ offset: 0, strength: 0 }],
+        },
+      };
+      compositor.setLayerEffect(1, effect);
+      expect(row(compositor.render({ x: 0, y: 0, width: 2, height: 1 }))).toEqual(['#000000', '#000000']);
+
+      // External mutation is ignored until the effect is set again
+      effect.gradient.stops[0].strength = 1;
+      expect(compositor.getLayerEffect(1)!.gradient!.stops[0].strength).toBe(0);
+      expect(row(compositor.render({ x: 0, y: 0, width: 2, height: 1 }))).toEqual(['#000000', '#000000']);
+
+      compositor.setLayerEffect(1, effect);
+      const output = compositor.render({ x: 0, y: 0, width: 2, height: 1 });
+      expect(row(output)).toEqual(['#ffffff', '#ffffff']);
+      expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 1, maxY: 0 }]);
+    });
+
+    test('round-trips through serialization', () => {
+      compositor.setLayerEffect(1, {
+        color: '#000000',
+        type: 'darken',
+        strength: 0.8,
+        gradient: {
+          kind: 'radial',
+          anchor: 'world',
+          center: { x: 3, y: 0 },
+          radius: 6,
+          radiusY: 3,
+          stops: [{ offset: 0.25, color: '#FF0000', strength: 0 }, { offset: 1 }],
+          curve: 'smoothstep',
+        },
+      });
+
+      const json = JSON.parse(JSON.stringify(compositor));
+      expect(json.layerEffects[0].effect.gradient).toEqual({
+        kind: 'radial',
+        anchor: 'world',
+        center: { x: 3, y: 0 },
+        radius: 6,
+        radiusY: 3,
+        stops: [{ offset: 0.25, color: '#ff0000', strength: 0 }, { offset: 1 }],
+        curve: 'smoothstep',
+      });
+
+      const restored = Compositor.fromJSON(json);
+      const viewport = { x: 0, y: 0, width: 10, height: 1 };
+      expect(restored.render(viewport)).toEqual(compositor.render(viewport));
+    });
+
+    test('validates gradients', () => {
+      const set = (gradient: unknown) =>
+        compositor.setLayerEffect(1, {
+          color: '#000000',
+          type: 'darken',
+          strength: 1,
+          gradient: gradient as LayerGradient,
+        });
+      const stops = [{ offset: 0 }];
+
+      expect(() => set({ kind: 'conic', stops })).toThrow('Invalid gradient kind: conic');
+      expect(() => set({ kind: 'linear', from: { x: 1, y: 1 }, to: { x: 1, y: 1 }, stops })).toThrow(
+        'Linear gradient from and to must be different points'
+      );
+      expect(() => set({ kind: 'radial', center: { x: 0, y: 0 }, radius: 0, stops })).toThrow(
+        'Gradient radius must be positive'
+      );
+      expect(() => set({ kind: 'radial', center: { x: 0, y: 0 }, radius: 2, radiusY: -1, stops })).toThrow(
+        'Gradient radius must be positive'
+      );
+
+      const radial = { kind: 'radial', center: { x: 0, y: 0 }, radius: 2 };
+      expect(() => set({ ...radial, stops, anchor: 'screen' })).toThrow('Invalid gradient anchor: screen');
+      expect(() => set({ ...radial, stops, curve: 'bounce' })).toThrow('Invalid gradient curve: bounce');
+      expect(() => set({ ...radial, stops: [] })).toThrow('Gradient requires at least one stop');
+      expect(() => set({ ...radial, stops: [{ offset: 0.5 }, { offset: 0.2 }] })).toThrow(
+        'Gradient stop offsets must be ascending between 0.0 and 1.0'
+      );
+      expect(() => set({ ...radial, stops: [{ offset: 1.5 }] })).toThrow(
+        'Gradient stop offsets must be ascending between 0.0 and 1.0'
+      );
+      expect(() => set({ ...radial, stops: [{ offset: 0, color: 'red' }] })).toThrow(
+        'Invalid color format: must be #RRGGBB'
+      );
+      expect(() => set({ ...radial, stops: [{ offset: 0, strength: 2 }] })).toThrow(
+        'Gradient stop strength must be between 0.0 and 1.0'
+      );
+
+      // A failed update leaves the previous effect in place
+      expect(compositor.getLayerEffect(1)).toBeNull();
+    });
+  });
+
+  describe('Background Colors', () => {
+    const viewport = { x: 0, y: 0, width: 1, height: 1 };
+
+    test('backgrounds are black by default and match the output dimensions', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'text', { content: 'ab', position: { x: 0, y: 0 }, color: '#ffffff' });
+
+      const output = compositor.render({ x: 0, y: 0, width: 3, height: 2 });
+
+      expect(output.backgrounds).toEqual([
+        ['#000000', '#000000', '#000000'],
+        ['#000000', '#000000', '#000000'],
+      ]);
+    });
+
+    test('backgroundColor fills content cells, including opaque spaces', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'block', {
+        content: [['#', ' ', null]],
+        position: { x: 0, y: 0 },
+        color: '#ffffff',
+        backgroundColor: '#0000FF',
+      });
+
+      const output = compositor.render({ x: 0, y: 0, width: 3, height: 1 });
+
+      expect(output.characters[0]).toEqual(['#', ' ', ' ']);
+      expect(output.colors[0][0]).toBe('#ffffff');
+      expect(output.backgrounds[0]).toEqual(['#0000ff', '#0000ff', '#000000']);
+    });
+
+    test('content without a background color shows the background beneath', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'block', {
+        content: '   ',
+        position: { x: 0, y: 0 },
+        backgroundColor: '#333333',
+      });
+      addObjectLegacy(compositor, 'text', {
+        content: [['A', null]],
+        position: { x: 0, y: 0 },
+        color: '#ffffff',
+        layer: 1,
+      });
 
-        expect(compositor.getLayerEffect(0)).toEqual({
+      const output = compositor.render({ x: 0, y: 0, width: 3, height: 1 });
+
+      expect(output.characters[0]).toEqual(['A', ' ', ' ']);
+      expect(output.colors[0][0]).toBe('#ffffff');
+      expect(output.backgrounds[0]).toEqual(['#333333', '#333333', '#333333']);
+    });
+
+    test.each([
+      ['foreground', '#808000', '#0000ff'],
+      ['background', '#00ff00', '#800080'],
+      ['both', '#808000', '#800080'],
+    ] as const)('glass pane influence targeting %s', (target, color, background) => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'text', {
+        content: 'A',
+        position: { x: 0, y: 0 },
+        color: '#00ff00',
+        backgroundColor: '#0000ff',
+      });
+      addObjectLegacy(compositor, 'glass', {
+        content: [[' ']],
+        position: { x: 0, y: 0 },
+        layer: 1,
+        influence: {
+          radius: 1,
           color: '#ff0000',
-          type: 'lighten',
-          strength: 0.3,
-        });
+          transform: { type: 'lighten', strength: 0.5, falloff: 'linear', target },
+        },
+      });
 
-        expect(compositor.getLayerEffect(2)).toEqual({
-          color: '#00ff00',
-          type: 'multiply',
-          strength: 0.7,
-        });
+      const output = compositor.render(viewport);
+
+      expect(output.characters[0][0]).toBe('A');
+      expect(output.colors[0][0]).toBe(color);
+      expect(output.backgrounds[0][0]).toBe(background);
+    });
+
+    test('layer effects can target the background', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'text', { content: 'A', position: { x: 0, y: 0 }, color: '#ffffff' });
+      compositor.setLayerEffect(1, { color: '#ff0000', type: 'lighten', strength: 1, target: 'background' });
+
+      const output = compositor.render({ x: 0, y: 0, width: 2, height: 1 });
+
+      expect(output.colors[0][0]).toBe('#ffffff');
+      expect(output.backgrounds[0]).toEqual(['#ff0000', '#ff0000']);
+      expect(compositor.getLayerEffect(1)?.target).toBe('background');
+    });
+
+    test('semi-transparent objects blend their background with the background beneath', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'ground', { content: 'AB', position: { x: 0, y: 0 }, backgroundColor: '#0000ff' });
+      addObjectLegacy(compositor, 'tinted', {
+        content: 'X',
+        position: { x: 0, y: 0 },
+        layer: 1,
+        opacity: 0.5,
+        backgroundColor: '#ff0000',
       });
+      addObjectLegacy(compositor, 'plain', { content: 'Y', position: { x: 1, y: 0 }, layer: 1, opacity: 0.5 });
 
-      test('overwrites existing layer effect', () => {
-        compositor.setLayerEffect(1, {
-          color: '#ff0000',
-          type: 'lighten',
-          strength: 0.5,
-        });
+      const output = compositor.render({ x: 0, y: 0, width: 2, height: 1 });
 
-        compositor.setLayerEffect(1, {
-          color: '#00ff00',
-          type: 'darken',
-          strength: 0.8,
-        });
+      expect(output.backgrounds[0]).toEqual(['#800080', '#0000ff']);
+    });
 
-        expect(compositor.getLayerEffect(1)).toEqual({
-          color: '#00ff00',
-          type: 'darken',
-          strength: 0.8,
-        });
+    test('setBackgroundColor re-renders cells that show the background', () => {
+      const compositor = new Compositor();
+      const ground = new AsciiObject({ id: 'ground', content: '..', position: { x: 0, y: 0 } });
+      compositor.addObject(ground);
+      addObjectLegacy(compositor, 'text', { content: 'A', position: { x: 0, y: 0 }, layer: 1 });
+      compositor.render({ x: 0, y: 0, width: 2, height: 1 });
+
+      ground.setBackgroundColor('#123456');
+      const output = compositor.render({ x: 0, y: 0, width: 2, height: 1 });
+
+      expect(output.backgrounds[0]).toEqual(['#123456', '#123456']);
+      expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 1, maxY: 0 }]);
+
+      ground.setBackgroundColor(null);
+      expect(compositor.render({ x: 0, y: 0, width: 2, height: 1 }).backgrounds[0]).toEqual(['#000000', '#000000']);
+    });
+
+    test('renderInto writes backgrounds when the buffer has them', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'block', { content: 'A', position: { x: 0, y: 0 }, backgroundColor: '#102030' });
+
+      const buffer = createRenderBuffer(1, 1);
+      compositor.renderInto(buffer, viewport);
+      expect(Array.from(buffer.backgrounds!)).toEqual([0x10, 0x20, 0x30]);
+
+      const { backgrounds: _, ...withoutBackgrounds } = createRenderBuffer(1, 1);
+      compositor.renderInto(withoutBackgrounds, viewport);
+      expect(String.fromCodePoint(withoutBackgrounds.codePoints[0])).toBe('A');
+
+      const shortBackgrounds = { ...createRenderBuffer(1, 1), backgrounds: new Uint8ClampedArray(0) };
+      expect(() => compositor.renderInto(shortBackgrounds, viewport)).toThrow(
+        'Render buffer dimensions must match viewport'
+      );
+    });
+
+    test('round-trips background colors and targets through serialization', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'block', {
+        content: 'A',
+        position: { x: 0, y: 0 },
+        backgroundColor: '#102030',
+        influence: { radius: 1, transform: { type: 'darken', strength: 0.5, falloff: 'linear', target: 'both' } },
+      });
+      compositor.setLayerEffect(2, { color: '#ff0000', type: 'multiply', strength: 0.5, target: 'background' });
+
+      const json = JSON.parse(JSON.stringify(compositor));
+      expect(json.objects[0].backgroundColor).toBe('#102030');
+      expect(json.objects[0].influence.transform.target).toBe('both');
+
+      const restored = Compositor.fromJSON(json);
+      const vp = { x: -1, y: -1, width: 3, height: 3 };
+      expect(restored.render(vp)).toEqual(compositor.render(vp));
+
+      // Transparent backgrounds are omitted
+      expect(new AsciiObject({ id: 'plain', content: 'A', position: { x: 0, y: 0 } }).toJSON()).not.toHaveProperty(
+        'backgroundColor'
+      );
+    });
+
+    test('validates background colors and targets', () => {
+      const compositor = new Compositor();
+      const obj = new AsciiObject({ id: 'obj', content: 'A', position: { x: 0, y: 0 } });
+
+      expect(
+        () => new AsciiObject({ id: 'bad', content: 'A', position: { x: 0, y: 0 }, backgroundColor: 'blue' })
+      ).toThrow('Invalid background color format: must be #RRGGBB');
+      expect(() => obj.setBackgroundColor('#12345')).toThrow('Invalid color format: #12345. Expected #RRGGBB.');
+      expect(() =>
+        obj.setInfluence({
+          radius: 1,
+          transform: { type: 'lighten', strength: 1, falloff: 'linear', target: 'border' as ColorTarget },
+        })
+      ).toThrow('Invalid color target: border');
+      expect(() =>
+        compositor.setLayerEffect(0, { color: '#ffffff', type: 'lighten', strength: 1, target: 'fill' as ColorTarget })
+      ).toThrow('Invalid color target: fill');
+    });
+  });
+
+  describe('Hit Testing', () => {
+    let compositor: Compositor;
+
+    beforeEach(() => {
+      compositor = new Compositor();
+      addObjectLegacy(compositor, 'ground', { content: ['#####', '#####'], position: { x: 0, y: 0 } });
+      addObjectLegacy(compositor, 'sprite', {
+        content: [['@', null], [' ', '@']],
+        position: { x: 1, y: 0 },
+        layer: 2,
+        influence: { radius: 2, transform: { type: 'lighten', strength: 1, falloff: 'linear' } },
+      });
+      addObjectLegacy(compositor, 'sign', { content: [['A', ' ']], position: { x: 3, y: 1 }, layer: 1 });
+    });
+
+    test('pick returns the topmost object with local coordinates', () => {
+      const hit = compositor.pick(2, 1);
+
+      expect(hit?.object.id).toBe('sprite');
+      expect(hit?.layer).toBe(2);
+      expect(hit?.local).toEqual({ x: 1, y: 1 });
+      expect(hit?.char).toBe('@');
+    });
+
+    test('transparent cells, glass panes and influence are not hits', () => {
+      // null cell and glass-pane space of the sprite fall through to the ground
+      expect(compositor.pick(2, 0)?.object.id).toBe('ground');
+      expect(compositor.pick(1, 1)?.object.id).toBe('ground');
+
+      // Influence only, no content
+      expect(compositor.pick(6, 0)).toBeNull();
+    });
+
+    test('opaque spaces are hits', () => {
+      const hit = compositor.pick(4, 1);
+
+      expect(hit?.object.id).toBe('sign');
+      expect(hit?.char).toBe(' ');
+    });
+
+    test('pickAll returns the full stack in render order', () => {
+      addObjectLegacy(compositor, 'second', { content: 'B', position: { x: 3, y: 1 }, layer: 1 });
+
+      const hits = compositor.pickAll(3, 1);
+
+      expect(hits.map(hit => hit.object.id)).toEqual(['sign', 'second', 'ground']);
+      expect(hits.map(hit => hit.local)).toEqual([{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 3, y: 1 }]);
+      expect(compositor.pickAll(-5, -5)).toEqual([]);
+    });
+
+    test('reflects object changes made since the last render', () => {
+      compositor.render({ x: 0, y: 0, width: 5, height: 2 });
+      compositor.getObject('sprite').setPosition(10, 10);
+
+      expect(compositor.pick(1, 0)?.object.id).toBe('ground');
+      expect(compositor.pick(10, 10)?.object.id).toBe('sprite');
+
+      // Pending changes are still re-rendered
+      const output = compositor.render({ x: 0, y: 0, width: 5, height: 2 });
+      expect(output.characters[0].join('')).toBe('#####');
+    });
+
+    test('queryRect returns objects with content in the rectangle, topmost first', () => {
+      expect(compositor.queryRect({ minX: 0, minY: 0, maxX: 4, maxY: 1 }).map(obj => obj.id)).toEqual([
+        'sprite',
+        'sign',
+        'ground',
+      ]);
+      expect(compositor.queryRect({ minX: 4, minY: 1, maxX: 10, maxY: 5 }).map(obj => obj.id)).toEqual([
+        'sign',
+        'ground',
+      ]);
+
+      // Only the sprite's transparent cell and influence overlap this rectangle
+      const ground = compositor.getObject('ground');
+      ground.setPosition(0, 5);
+      expect(compositor.queryRect({ minX: 2, minY: 0, maxX: 2, maxY: 0 })).toEqual([]);
+    });
+
+    test('queryRect validates bounds', () => {
+      expect(() => compositor.queryRect({ minX: 2, minY: 0, maxX: 1, maxY: 0 })).toThrow(
+        'Query bounds min must not exceed max'
+      );
+    });
+  });
+
+  describe('Change Events', () => {
+    test('object mutators emit change with the property and old/new bounds', () => {
+      const obj = new AsciiObject({ id: 'a', content: ['ab'], position: { x: 0, y: 0 } });
+      const events: AsciiObjectChangeEvent[] = [];
+      obj.on('change', event => events.push(event));
+
+      obj.setPosition(5, 2);
+      obj.setColor('#ff0000');
+      obj.setContent(['abc']);
+
+      expect(events.map(event => event.property)).toEqual(['position', 'color', 'content']);
+      expect(events[0].object).toBe(obj);
+      expect(events[0].oldBounds).toEqual({ minX: 0, minY: 0, maxX: 1, maxY: 0 });
+      expect(events[0].newBounds).toEqual({ minX: 5, minY: 2, maxX: 6, maxY: 2 });
+      expect(events[2].newBounds).toEqual({ minX: 5, minY: 2, maxX: 7, maxY: 2 });
+    });
+
+    test('flips, rotation, influence and layer changes emit change', () => {
+      const obj = new AsciiObject({ id: 'a', content: ['ab'], position: { x: 0, y: 0 } });
+      const properties: string[] = [];
+      obj.on('change', event => properties.push(event.property));
+
+      obj.flipHorizontalToggle();
+      obj.flipVerticalToggle();
+      obj.rotate(0);
+      obj.rotate(1);
+      obj.setInfluence({ radius: 1, transform: { type: 'lighten', strength: 1, falloff: 'linear' } });
+      obj.setLayer(3);
+
+      expect(properties).toEqual(['flipHorizontal', 'flipVertical', 'rotation', 'influence', 'layer']);
+    });
+
+    test('compositor emits objectAdded, objectRemoved and invalidated', () => {
+      const compositor = new Compositor();
+      const calls: string[] = [];
+      const invalidated: Array<Bounds | null> = [];
+      compositor.on('objectAdded', event => calls.push(`added ${event.object.id}`));
+      compositor.on('objectRemoved', event => calls.push(`removed ${event.object.id}`));
+      compositor.on('invalidated', event => {
+        calls.push('invalidated');
+        invalidated.push(event.bounds);
+      });
+
+      addObjectLegacy(compositor, 'a', { content: ['ab'], position: { x: 1, y: 1 } });
+      compositor.removeObject('a');
+
+      expect(calls).toEqual(['added a', 'invalidated', 'removed a', 'invalidated']);
+      expect(invalidated).toEqual([
+        { minX: 1, minY: 1, maxX: 2, maxY: 1 },
+        { minX: 1, minY: 1, maxX: 2, maxY: 1 },
+      ]);
+    });
+
+    test('compositor re-emits object changes as invalidated until the object is removed', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'a', { content: ['ab'], position: { x: 0, y: 0 } });
+      const obj = compositor.getObject('a');
+      const invalidated: Array<Bounds | null> = [];
+      compositor.on('invalidated', event => invalidated.push(event.bounds));
+
+      obj.setPosition(4, 1);
+      compositor.removeObject('a');
+      invalidated.length = 0;
+      obj.setPosition(0, 0);
+
+      expect(invalidated).toEqual([]);
+
+      compositor.addObject(obj);
+      invalidated.length = 0;
+      obj.setPosition(2, 0);
+      expect(invalidated).toEqual([{ minX: 0, minY: 0, maxX: 3, maxY: 0 }]);
+    });
+
+    test('union of old and new bounds covers the move', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'a', { content: ['ab'], position: { x: 0, y: 0 } });
+      const invalidated: Array<Bounds | null> = [];
+      compositor.on('invalidated', event => invalidated.push(event.bounds));
+
+      compositor.getObject('a').setPosition(4, 1);
+
+      expect(invalidated).toEqual([{ minX: 0, minY: 0, maxX: 5, maxY: 1 }]);
+    });
+
+    test('layer effect changes emit layerEffectChanged and a full invalidation', () => {
+      const compositor = new Compositor();
+      const effects: LayerEffectChangeEvent[] = [];
+      const invalidated: Array<Bounds | null> = [];
+      compositor.on('layerEffectChanged', event => effects.push(event));
+      compositor.on('invalidated', event => invalidated.push(event.bounds));
+
+      compositor.setLayerEffect(1, { color: '#0000ff', type: 'multiply', strength: 0.5 });
+      compositor.setLayerEffect(1, null);
+
+      expect(effects).toEqual([
+        { layer: 1, effect: { color: '#0000ff', type: 'multiply', strength: 0.5 } },
+        { layer: 1, effect: null },
+      ]);
+      expect(invalidated).toEqual([null, null]);
+    });
+
+    test('unsubscribed listeners are not called', () => {
+      const compositor = new Compositor();
+      let count = 0;
+      const unsubscribe = compositor.on('objectAdded', () => count++);
+
+      addObjectLegacy(compositor, 'a', { content: 'x', position: { x: 0, y: 0 } });
+      unsubscribe();
+      addObjectLegacy(compositor, 'b', { content: 'y', position: { x: 0, y: 0 } });
+
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('Groups', () => {
+    let compositor: Compositor;
+    let hero: Group;
+    const viewport = { x: 0, y: 0, width: 8, height: 2 };
+    const rows = () => compositor.render(viewport).characters.map(row => row.join(''));
+
+    beforeEach(() => {
+      compositor = new Compositor();
+      hero = new Group({
+        id: 'hero',
+        position: { x: 1, y: 0 },
+        children: [
+          new AsciiObject({ id: 'head', content: ['o'], position: { x: 1, y: 0 } }),
+          new AsciiObject({ id: 'body', content: ['/|>'], position: { x: 0, y: 1 } }),
+        ],
+      });
+      compositor.addGroup(hero);
+    });
+
+    test('renders group objects at their world positions', () => {
+      expect(compositor.getObject('head').position).toEqual({ x: 2, y: 0 });
+      expect(compositor.listGroups()).toEqual([hero]);
+      expect(rows()).toEqual(['  o     ', ' /|>    ']);
+    });
+
+    test('moving and flipping the group re-renders the dirty regions', () => {
+      rows();
+      hero.setPosition(4, 0);
+      expect(rows()).toEqual(['     o  ', '    /|> ']);
+
+      hero.flipHorizontalToggle(true);
+      expect(rows()).toEqual(['     o  ', '    <|\\ ']);
+    });
+
+    test('hidden groups are not rendered, picked or counted in canvas bounds', () => {
+      rows();
+      hero.setVisible(false);
+
+      expect(rows()).toEqual(['        ', '        ']);
+      expect(compositor.pick(2, 0)).toBeNull();
+      expect(compositor.getCanvasBounds()).toEqual({ minX: 0, minY: 0, maxX: 0, maxY: 0 });
+
+      // Changes while hidden are applied when shown again
+      hero.setPosition(0, 0);
+      hero.setVisible(true);
+      expect(rows()).toEqual([' o      ', '/|>     ']);
+      expect(compositor.pick(1, 0)?.object.id).toBe('head');
+    });
+
+    test('objects in hidden groups are saved hidden', () => {
+      compositor.addObject(new AsciiObject({ id: 'loose', content: ['x'], position: { x: 7, y: 0 } }));
+      hero.setVisible(false);
+
+      const json = JSON.parse(JSON.stringify(compositor));
+      expect(json.objects.map((obj: { visible?: boolean }) => obj.visible)).toEqual([false, false, undefined]);
+      expect(compositor.getObject('head').visible).toBe(true);
+
+      const restored = Compositor.fromJSON(json);
+      expect(restored.render(viewport).characters.map(row => row.join(''))).toEqual(rows());
+      expect(rows()).toEqual(['       x', '        ']);
+    });
+
+    test('objects attached to or detached from the group follow the scene', () => {
+      const hat = new AsciiObject({ id: 'hat', content: ['^'], position: { x: 2, y: 0 }, layer: 1 });
+      hero.add(hat);
+      expect(compositor.getObject('hat').position).toEqual({ x: 3, y: 0 });
+      expect(rows()[0]).toBe('  o^    ');
+
+      hero.remove(hat);
+      expect(() => compositor.getObject('hat')).toThrow("Object with id 'hat' not found");
+      expect(rows()[0]).toBe('  o     ');
+
+      // removeObject also detaches from the group
+      compositor.removeObject('head');
+      expect(hero.getObjects().map(obj => obj.id)).toEqual(['body']);
+      expect(rows()).toEqual(['        ', ' /|>    ']);
+    });
+
+    test('rejects duplicate object IDs without changing the scene or group', () => {
+      const duplicate = new AsciiObject({ id: 'head', content: ['x'], position: { x: 0, y: 0 } });
+      const wing = new Group({
+        id: 'wing',
+        children: [new AsciiObject({ id: 'tip', content: ['x'], position: { x: 0, y: 0 } }), duplicate],
       });
+
+      expect(() => hero.add(wing)).toThrow("Object with id 'head' already exists");
+      expect(hero.getChildren()).toHaveLength(2);
+      expect(Group.parentOf(wing)).toBeNull();
+      expect(() => compositor.getObject('tip')).toThrow();
+    });
+
+    test('removeGroup removes its objects and stops tracking it', () => {
+      compositor.removeGroup('hero');
+
+      expect(compositor.listObjects()).toEqual([]);
+      expect(() => compositor.getGroup('hero')).toThrow("Group with id 'hero' not found");
+
+      hero.add(new AsciiObject({ id: 'extra', content: ['x'], position: { x: 0, y: 0 } }));
+      expect(compositor.listObjects()).toEqual([]);
+    });
+
+    test('validates groups', () => {
+      expect(() => compositor.addGroup(hero)).toThrow("Group with id 'hero' already exists");
+
+      const parent = new Group({ id: 'parent' });
+      const child = new Group({ id: 'child' });
+      parent.add(child);
+      expect(() => compositor.addGroup(child)).toThrow('Only root groups can be added to a compositor');
+    });
+  });
+
+  describe('Visibility and Layer Locking', () => {
+    let compositor: Compositor;
+    const viewport = { x: 0, y: 0, width: 3, height: 1 };
+    const row = () => compositor.render(viewport).characters[0].join('');
+
+    beforeEach(() => {
+      compositor = new Compositor();
+      addObjectLegacy(compositor, 'base', { content: '...', position: { x: 0, y: 0 }, layer: 0 });
+      addObjectLegacy(compositor, 'mid', { content: 'M', position: { x: 1, y: 0 }, layer: 1 });
+      addObjectLegacy(compositor, 'top', { content: 'T', position: { x: 2, y: 0 }, layer: 2 });
+    });
+
+    test('hidden objects keep their state and priority', () => {
+      addObjectLegacy(compositor, 'twin', { content: 'W', position: { x: 1, y: 0 }, layer: 1 });
+      const mid = compositor.getObject('mid');
+      expect(row()).toBe('.MT');
+
+      mid.setVisible(false);
+      expect(row()).toBe('.WT');
+      expect(compositor.pick(1, 0)?.object.id).toBe('twin');
+
+      mid.setVisible(true);
+      expect(row()).toBe('.MT');
+      expect(compositor.listObjects().map(obj => obj.id)).toEqual(['base', 'mid', 'top', 'twin']);
+    });
+
+    test('hidden layers hide their objects and effects', () => {
+      compositor.setLayerEffect(1, { color: '#ff0000', type: 'lighten', strength: 1 });
+      const tinted = compositor.render(viewport).colors[0][0];
+      expect(tinted).toBe('#ff0000');
+
+      compositor.setLayerVisible(1, false);
+      const output = compositor.render(viewport);
+
+      expect(output.characters[0].join('')).toBe('..T');
+      expect(output.colors[0][0]).toBe('#000000');
+      expect(compositor.isLayerVisible(1)).toBe(false);
+      expect(compositor.getLayerEffect(1)).not.toBeNull();
+
+      compositor.setLayerVisible(1, true);
+      expect(row()).toBe('.MT');
+      expect(compositor.render(viewport).colors[0][0]).toBe('#ff0000');
+    });
+
+    test('objects moved onto a hidden layer disappear', () => {
+      compositor.setLayerVisible(2, false);
+      row();
+      compositor.getObject('mid').setLayer(2);
+
+      expect(row()).toBe('...');
+      expect(compositor.getCanvasBounds()).toEqual({ minX: 0, minY: 0, maxX: 2, maxY: 0 });
+    });
+
+    test('solo shows only soloed layers, and mute wins over solo', () => {
+      compositor.setLayerSolo(0, true);
+      compositor.setLayerSolo(2, true);
+      expect(row()).toBe('..T');
+      expect(compositor.isLayerShown(1)).toBe(false);
+
+      compositor.setLayerVisible(2, false);
+      expect(row()).toBe('...');
+
+      compositor.setLayerSolo(0, false);
+      compositor.setLayerSolo(2, false);
+      expect(row()).toBe('.M.');
+    });
+
+    test('locked layers render but are not hit', () => {
+      compositor.setLayerLocked(2, true);
+
+      expect(row()).toBe('.MT');
+      expect(compositor.pick(2, 0)?.object.id).toBe('base');
+      expect(compositor.queryRect({ minX: 0, minY: 0, maxX: 2, maxY: 0 }).map(obj => obj.id)).toEqual([
+        'mid',
+        'base',
+      ]);
+
+      compositor.setLayerLocked(2, false);
+      expect(compositor.pick(2, 0)?.object.id).toBe('top');
+    });
+
+    test('visibility changes emit invalidated', () => {
+      const invalidated: Array<Bounds | null> = [];
+      compositor.on('invalidated', event => invalidated.push(event.bounds));
+
+      compositor.setLayerVisible(2, false);
+      compositor.setLayerVisible(2, false);
+
+      expect(invalidated).toEqual([{ minX: 2, minY: 0, maxX: 2, maxY: 0 }]);
+    });
+
+    test('object and layer visibility round-trip through JSON', () => {
+      compositor.getObject('mid').setVisible(false);
+      compositor.setLayerVisible(0, false);
+      compositor.setLayerSolo(2, true);
+      compositor.setLayerLocked(2, true);
+
+      const json = JSON.parse(JSON.stringify(compositor));
+      expect(json.layers).toEqual([
+        { layer: 0, visible: false, solo: false, locked: false },
+        { layer: 2, visible: true, solo: true, locked: true },
+      ]);
+      expect(json.objects[1].visible).toBe(false);
+      expect(json.objects[0]).not.toHaveProperty('visible');
+
+      const restored = Compositor.fromJSON(json);
+      expect(restored.toJSON()).toEqual(compositor.toJSON());
+      expect(restored.render(viewport).characters[0].join('')).toBe('  T');
+      expect(new Compositor().toJSON()).not.toHaveProperty('layers');
+      expect(() => Compositor.fromJSON({ ...json, layers: {} })).toThrow('Invalid scene: layers must be an array');
+    });
+  });
+
+  describe('Z-Order', () => {
+    let compositor: Compositor;
+    const viewport = { x: 0, y: 0, width: 1, height: 1 };
+    const top = () => compositor.render(viewport).characters[0][0];
+
+    beforeEach(() => {
+      compositor = new Compositor();
+      for (const id of ['a', 'b', 'c']) {
+        addObjectLegacy(compositor, id, { content: id, position: { x: 0, y: 0 } });
+      }
+    });
+
+    test('higher zIndex renders on top, ties are first-added-wins', () => {
+      expect(top()).toBe('a');
+
+      compositor.getObject('c').setZIndex(1);
+      expect(top()).toBe('c');
+      expect(compositor.pickAll(0, 0).map(hit => hit.object.id)).toEqual(['c', 'a', 'b']);
+
+      addObjectLegacy(compositor, 'd', { content: 'd', position: { x: 0, y: 0 }, zIndex: -1 });
+      compositor.getObject('c').setZIndex(-2);
+      expect(compositor.pickAll(0, 0).map(hit => hit.object.id)).toEqual(['a', 'b', 'd', 'c']);
+    });
+
+    test('zIndex never lifts an object above a higher layer', () => {
+      addObjectLegacy(compositor, 'up', { content: 'u', position: { x: 0, y: 0 }, layer: 1 });
+      compositor.getObject('a').setZIndex(100);
+
+      expect(top()).toBe('u');
+    });
+
+    test('bringToFront and sendToBack reorder within the layer', () => {
+      top();
+      compositor.bringToFront('b');
+      expect(top()).toBe('b');
+      expect(compositor.getObject('b').zIndex).toBe(0);
+
+      compositor.sendToBack('b');
+      expect(compositor.pickAll(0, 0).map(hit => hit.object.id)).toEqual(['a', 'c', 'b']);
+
+      compositor.getObject('c').setZIndex(5);
+      compositor.bringToFront('a');
+      expect(compositor.getObject('a').zIndex).toBe(5);
+      expect(compositor.pickAll(0, 0).map(hit => hit.object.id)).toEqual(['a', 'c', 'b']);
+
+      compositor.sendToBack('a');
+      expect(compositor.getObject('a').zIndex).toBe(0);
+      expect(compositor.pickAll(0, 0).map(hit => hit.object.id)).toEqual(['c', 'b', 'a']);
+    });
+
+    test('moveAbove places an object directly in front of another', () => {
+      compositor.getObject('a').setZIndex(3);
+      compositor.moveAbove('c', 'b');
+
+      expect(compositor.pickAll(0, 0).map(hit => hit.object.id)).toEqual(['a', 'c', 'b']);
+
+      compositor.moveAbove('b', 'a');
+      expect(compositor.pickAll(0, 0).map(hit => hit.object.id)).toEqual(['b', 'a', 'c']);
+      expect(compositor.getObject('b').zIndex).toBe(3);
     });
 
-    describe('Layer effect validation', () => {
-      test('throws on invalid color format', () => {
-        expect(() => {
-          compositor.setLayerEffect(1, {
-            color: 'red',
-            type: 'lighten',
-            strength: 0.5,
-          });
-        }).toThrow('Invalid color format: must be #RRGGBB');
-      });
+    test('moveAbove validates its arguments', () => {
+      addObjectLegacy(compositor, 'up', { content: 'u', position: { x: 0, y: 0 }, layer: 1 });
 
-      test('throws on strength less than 0', () => {
-        expect(() => {
-          compositor.setLayerEffect(1, {
-            color: '#ff0000',
-            type: 'lighten',
-            strength: -0.1,
-          });
-        }).toThrow('Strength must be between 0.0 and 1.0');
-      });
+      expect(() => compositor.moveAbove('a', 'a')).toThrow('Cannot move an object above itself');
+      expect(() => compositor.moveAbove('a', 'up')).toThrow("Objects 'a' and 'up' are on different layers");
+      expect(() => compositor.moveAbove('a', 'missing')).toThrow("Object with id 'missing' not found");
+      expect(() => compositor.getObject('a').setZIndex(NaN)).toThrow('zIndex must be a finite number');
+    });
 
-      test('throws on strength greater than 1', () => {
-        expect(() => {
-          compositor.setLayerEffect(1, {
-            color: '#ff0000',
-            type: 'lighten',
-            strength: 1.5,
-          });
-        }).toThrow('Strength must be between 0.0 and 1.0');
-      });
+    test('reordering invalidates the cache', () => {
+      const invalidated: Array<Bounds | null> = [];
+      top();
+      compositor.on('invalidated', event => invalidated.push(event.bounds));
 
-      test('throws on darkenFactor less than 0', () => {
-        expect(() => {
-          compositor.setLayerEffect(1, {
-            color: '#ff0000',
-            type: 'multiply-darken',
-            strength: 0.5,
-            darkenFactor: -0.1,
-          });
-        }).toThrow('darkenFactor must be between 0.0 and 1.0');
-      });
+      compositor.bringToFront('c');
 
-      test('throws on darkenFactor greater than 1', () => {
-        expect(() => {
-          compositor.setLayerEffect(1, {
-            color: '#ff0000',
-            type: 'multiply-darken',
-            strength: 0.5,
-            darkenFactor: 1.5,
-          });
-        }).toThrow('darkenFactor must be between 0.0 and 1.0');
-      });
+      expect(top()).toBe('c');
+      expect(invalidated).toContainEqual({ minX: 0, minY: 0, maxX: 0, maxY: 0 });
+    });
 
-      test('allows strength of exactly 0', () => {
-        expect(() => {
-          compositor.setLayerEffect(1, {
-            color: '#ff0000',
-            type: 'lighten',
-            strength: 0.0,
-          });
-        }).not.toThrow();
-      });
+    test('order and zIndex survive serialization', () => {
+      compositor.getObject('a').setZIndex(-1);
+      compositor.moveAbove('c', 'b');
 
-      test('allows strength of exactly 1', () => {
-        expect(() => {
-          compositor.setLayerEffect(1, {
-            color: '#ff0000',
-            type: 'lighten',
-            strength: 1.0,
-          });
-        }).not.toThrow();
-      });
+      const restored = Compositor.fromJSON(JSON.parse(JSON.stringify(compositor)));
+
+      expect(restored.listObjects().map(obj => obj.id)).toEqual(['a', 'c', 'b']);
+      expect(restored.getObject('a').zIndex).toBe(-1);
+      expect(restored.pickAll(0, 0).map(hit => hit.object.id)).toEqual(['c', 'b', 'a']);
     });
+  });
 
-    describe('Layer effect rendering', () => {
-      test('applies lighten effect uniformly to viewport', () => {
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#', '#'], ['#', '#']],
-          position: { x: 0, y: 0 },
-          color: '#000000',
-          layer: 0,
-        });
+  describe('Unicode Content', () => {
+    const rows = (output: { characters: string[][] }) => output.characters.map(row => row.join(''));
 
-        compositor.setLayerEffect(1, {
-          color: '#ffffff',
-          type: 'lighten',
-          strength: 0.5,
-        });
+    test('string content is split into graphemes with wide glyphs over two cells', () => {
+      const obj = new AsciiObject({ id: 'a', content: ['日本', 'a\u{1f600}b'], position: { x: 0, y: 0 } });
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      expect(obj.content).toEqual([
+        ['日', WIDE_CONTINUATION, '本', WIDE_CONTINUATION],
+        ['a', '\u{1f600}', WIDE_CONTINUATION, 'b'],
+      ]);
+      expect(obj.getBounds()).toEqual({ minX: 0, minY: 0, maxX: 3, maxY: 1 });
+      expect(() => new AsciiObject({ id: 'b', content: ['日', 'ab', 'abc'], position: { x: 0, y: 0 } })).toThrow(
+        'Invalid content format: rows have unequal lengths'
+      );
+    });
 
-        // All cells should be lightened by 50% toward white
-        expect(output.colors[0][0]).toBe('#808080');
-        expect(output.colors[0][1]).toBe('#808080');
-        expect(output.colors[1][0]).toBe('#808080');
-        expect(output.colors[1][1]).toBe('#808080');
-      });
+    test('renders aligned rows', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'cjk', { content: ['日本|', 'ab--|'], position: { x: 0, y: 0 } });
 
-      test('applies darken effect uniformly to viewport', () => {
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#', '#'], ['#', '#']],
-          position: { x: 0, y: 0 },
-          color: '#ffffff',
-          layer: 0,
-        });
+      expect(rows(compositor.render({ x: 0, y: 0, width: 5, height: 2 }))).toEqual(['日本|', 'ab--|']);
+    });
 
-        compositor.setLayerEffect(1, {
-          color: '#000000',
-          type: 'darken',
-          strength: 0.5,
-        });
+    test('horizontal flip keeps wide pairs in order', () => {
+      const obj = new AsciiObject({ id: 'a', content: ['<日'], position: { x: 0, y: 0 } });
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      obj.flipHorizontalToggle(true);
 
-        // All cells should be darkened by 50% toward black
-        expect(output.colors[0][0]).toBe('#808080');
-        expect(output.colors[0][1]).toBe('#808080');
-        expect(output.colors[1][0]).toBe('#808080');
-        expect(output.colors[1][1]).toBe('#808080');
-      });
+      expect(obj.content).toEqual([['日', WIDE_CONTINUATION, '>']]);
+      obj.flipHorizontalToggle(true);
+      expect(obj.content).toEqual([['<', '日', WIDE_CONTINUATION]]);
+    });
 
-      test('applies multiply effect uniformly to viewport', () => {
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#', '#'], ['#', '#']],
-          position: { x: 0, y: 0 },
-          color: '#ffffff',
-          layer: 0,
-        });
+    test('quarter turns keep wide glyphs paired horizontally', () => {
+      const C = WIDE_CONTINUATION;
+      const obj = new AsciiObject({ id: 'a', content: ['日x'], position: { x: 0, y: 0 } });
 
-        compositor.setLayerEffect(1, {
-          color: '#ff0000',
-          type: 'multiply',
-          strength: 1.0,
-        });
+      obj.rotate(1);
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      expect(obj.content).toEqual([['日', C], [null, null], ['x', null]]);
+      expect(obj.getBounds()).toEqual({ minX: 0, minY: 0, maxX: 1, maxY: 2 });
 
-        // White multiplied by red at full strength should be red
-        expect(output.colors[0][0]).toBe('#ff0000');
-        expect(output.colors[0][1]).toBe('#ff0000');
-        expect(output.colors[1][0]).toBe('#ff0000');
-        expect(output.colors[1][1]).toBe('#ff0000');
-      });
+      // Only columns that came from rows with wide glyphs are widened
+      const emoji = new AsciiObject({ id: 'b', content: ['a\u{1f600}', '-|-'], position: { x: 0, y: 0 } });
+      emoji.rotate(-1);
+      expect(emoji.content).toEqual([
+        ['\u{1f600}', C, '|'],
+        [null, null, '-'],
+        ['a', null, '|'],
+      ]);
+    });
 
-      test('applies multiply-darken effect uniformly to viewport', () => {
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#', '#'], ['#', '#']],
-          position: { x: 0, y: 0 },
-          color: '#ffffff',
-          layer: 0,
-        });
+    test('half turns reverse wide pairs in place', () => {
+      const obj = new AsciiObject({ id: 'a', content: ['<日', 'ab-'], position: { x: 0, y: 0 } });
 
-        compositor.setLayerEffect(1, {
-          color: '#ff0000',
-          type: 'multiply-darken',
-          strength: 1.0,
-          darkenFactor: 0.5,
-        });
+      obj.rotate(2);
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      expect(obj.content).toEqual([['-', 'b', 'a'], ['日', WIDE_CONTINUATION, '>']]);
+      obj.rotate(2);
+      expect(obj.content).toEqual([['<', '日', WIDE_CONTINUATION], ['a', 'b', '-']]);
+    });
 
-        // White multiplied by red, then darkened by 50%
-        expect(output.colors[0][0]).toBe('#800000');
-      });
+    test('rotated wide glyphs render whole', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'cjk', { content: ['日本'], position: { x: 0, y: 0 } });
 
-      test('layer effect applied before rendering layer objects', () => {
-        // Layer 0: white background
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#', '#'], ['#', '#']],
-          position: { x: 0, y: 0 },
-          color: '#ffffff',
-          layer: 0,
-        });
+      compositor.getObject('cjk').rotate(1);
 
-        // Layer 1 effect: darken everything below
-        compositor.setLayerEffect(1, {
-          color: '#000000',
-          type: 'darken',
-          strength: 0.5,
-        });
+      expect(rows(compositor.render({ x: 0, y: 0, width: 2, height: 4 }))).toEqual(['日', '  ', '本', '  ']);
+    });
 
-        // Layer 1 object: black character (should NOT be affected by layer 1 effect)
-        addObjectLegacy(compositor, 'top', {
-          content: [['@']],
-          position: { x: 0, y: 0 },
-          color: '#000000',
-          layer: 1,
-        });
+    test('half-covered wide glyphs render as spaces', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'text', { content: ['日本語'], position: { x: 0, y: 0 } });
+      addObjectLegacy(compositor, 'cover', { content: 'X', position: { x: 3, y: 0 }, layer: 1 });
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      expect(rows(compositor.render({ x: 0, y: 0, width: 6, height: 1 }))).toEqual(['日 X語']);
+      // Cut by the viewport edges
+      expect(rows(compositor.render({ x: 1, y: 0, width: 4, height: 1 }))).toEqual(['  X ']);
+    });
 
-        // [0,0] has layer 1 object '@' - should be black (not affected by its own layer effect)
-        expect(output.characters[0][0]).toBe('@');
-        expect(output.colors[0][0]).toBe('#000000');
+    test('incremental renders re-pair glyphs next to dirty regions', () => {
+      const compositor = new Compositor();
+      const viewport = { x: 0, y: 0, width: 4, height: 1 };
+      addObjectLegacy(compositor, 'text', { content: ['日本'], position: { x: 0, y: 0 } });
+      addObjectLegacy(compositor, 'cover', { content: 'X', position: { x: 1, y: 0 }, layer: 1 });
+      expect(rows(compositor.render(viewport))).toEqual([' X本']);
 
-        // [0,1] shows layer 0 through layer 1 effect - should be darkened
-        expect(output.characters[0][1]).toBe('#');
-        expect(output.colors[0][1]).toBe('#808080');
-      });
+      compositor.getObject('cover').setPosition(2, 0);
+      expect(rows(compositor.render(viewport))).toEqual(['日X ']);
 
-      test('multiple layer effects stack correctly', () => {
-        // Layer 0: white background
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#', '#'], ['#', '#']],
-          position: { x: 0, y: 0 },
-          color: '#ffffff',
-          layer: 0,
-        });
+      compositor.getObject('cover').setPosition(10, 0);
+      const output = compositor.render(viewport);
+      expect(rows(output)).toEqual(['日本']);
+    });
 
-        // Layer 1 effect: darken by 50%
-        compositor.setLayerEffect(1, {
-          color: '#000000',
-          type: 'darken',
-          strength: 0.5,
-        });
+    test('renderInto writes 0 for continuation cells', () => {
+      const compositor = new Compositor();
+      addObjectLegacy(compositor, 'text', { content: ['日x'], position: { x: 0, y: 0 } });
 
-        // Layer 2 effect: darken by 50% again
-        compositor.setLayerEffect(2, {
-          color: '#000000',
-          type: 'darken',
-          strength: 0.5,
-        });
+      const buffer = createRenderBuffer(3, 1);
+      compositor.renderInto(buffer, { x: 0, y: 0, width: 3, height: 1 });
+      expect(Array.from(buffer.codePoints)).toEqual([0x65e5, 0, 0x78]);
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      const cut = createRenderBuffer(1, 1);
+      compositor.renderInto(cut, { x: 0, y: 0, width: 1, height: 1 });
+      expect(cut.codePoints[0]).toBe(0x20);
+    });
+  });
 
-        // After first darken: #ffffff -> #808080
-        // After second darken: #808080 -> #404040
-        expect(output.colors[0][0]).toBe('#404040');
-      });
+  describe('Tilemaps', () => {
+    const viewport = { x: 0, y: 0, width: 8, height: 4 };
+    const text = (output: { characters: string[][] }) => output.characters.map(row => row.join(''));
+    let compositor: Compositor;
+    let floor: Tilemap;
 
-      test('layer effect affects empty viewport cells', () => {
-        // No objects, just a layer effect
-        compositor.setLayerEffect(0, {
-          color: '#ff0000',
-          type: 'lighten',
-          strength: 1.0,
-        });
+    beforeEach(() => {
+      compositor = new Compositor();
+      floor = new Tilemap({
+        id: 'floor',
+        tileset: [['..', '..'], [['~', '~'], [null, '~']]],
+        grid: [[0, 1], [1, 0]],
+        position: { x: 1, y: 0 },
+        color: '#404040',
+        backgroundColor: '#000080',
+      });
+      compositor.addTilemap(floor);
+    });
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+    test('renders like the same content as an object, beneath objects on its layer', () => {
+      addObjectLegacy(compositor, 'hero', { content: '@', position: { x: 2, y: 1 }, color: '#ffffff' });
+      const output = compositor.render(viewport);
 
-        // Empty cells default to black, then lightened toward red
-        expect(output.colors[0][0]).toBe('#ff0000');
-        expect(output.colors[0][1]).toBe('#ff0000');
+      // Same cells as an object; the hero comes first so it still wins in the reference
+      const reference = new Compositor();
+      addObjectLegacy(reference, 'hero', { content: '@', position: { x: 2, y: 1 }, color: '#ffffff' });
+      addObjectLegacy(reference, 'floor', {
+        content: [['.', '.', '~', '~'], ['.', '.', null, '~'], ['~', '~', '.', '.'], [null, '~', '.', '.']],
+        position: { x: 1, y: 0 },
+        color: '#404040',
+        backgroundColor: '#000080',
       });
+      const expected = reference.render(viewport);
 
-      test('layer effect with strength 0 has no effect', () => {
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#', '#']],
-          position: { x: 0, y: 0 },
-          color: '#808080',
-          layer: 0,
-        });
+      expect(text(output)).toEqual([' ..~~   ', ' .@ ~   ', ' ~~..   ', '  ~..   ']);
+      expect(output.colors).toEqual(expected.colors);
+      expect(output.backgrounds).toEqual(expected.backgrounds);
+      expect(compositor.listTilemaps()).toEqual([floor]);
+      expect(compositor.getCanvasBounds()).toEqual({ minX: 1, minY: 0, maxX: 4, maxY: 3 });
+    });
 
-        compositor.setLayerEffect(1, {
-          color: '#ffffff',
-          type: 'lighten',
-          strength: 0.0,
-        });
+    test('covers lower layers and takes layer effects from above', () => {
+      addObjectLegacy(compositor, 'below', { content: 'XXXXX', position: { x: 0, y: 1 }, layer: -1 });
+      compositor.setLayerEffect(1, { color: '#000000', type: 'multiply', strength: 0.5 });
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      const output = compositor.render(viewport);
 
-        // Original color unchanged
-        expect(output.colors[0][0]).toBe('#808080');
-      });
+      // Transparent tile cells show the layer beneath
+      expect(text(output)[1]).toBe('X..X~   ');
+      expect(output.colors[0][1]).toBe('#202020');
+    });
+
+    test('wrapped tilemaps tile the plane without a size limit', () => {
+      compositor.removeTilemap('floor');
+      compositor.addTilemap(new Tilemap({ id: 'sea', tileset: [['~.']], grid: [[0]], wrap: 'both' }));
+
+      const far = { x: 1_000_001, y: -7_000, width: 5, height: 2 };
+      expect(text(compositor.render(far))).toEqual(['.~.~.', '.~.~.']);
+      expect(compositor.getCanvasBounds()).toEqual({ minX: 0, minY: 0, maxX: 0, maxY: 0 });
+    });
 
-      test('layer effect interacts with object influence', () => {
-        // Layer 0: black character with white lighten influence
-        addObjectLegacy(compositor, 'obj', {
-          content: [['#']],
-          position: { x: 0, y: 0 },
-          color: '#000000',
-          layer: 0,
-          influence: {
-            radius: 2,  // Radius 2 so position [0,1] has 50% influence with linear falloff
-            transform: { type: 'lighten', strength: 1.0, falloff: 'linear' }
-          }
-        });
+    test('setTile re-renders only the changed tile', () => {
+      compositor.render(viewport);
 
-        // Layer 1: multiply effect (red tint)
-        compositor.setLayerEffect(1, {
-          color: '#ff0000',
-          type: 'multiply',
-          strength: 1.0,
-        });
+      floor.setTile(1, 1, 1);
+      const output = compositor.render(viewport);
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 2 });
+      expect(output.dirtyRegions).toEqual([{ minX: 3, minY: 2, maxX: 4, maxY: 3 }]);
+      expect(text(output)).toEqual([' ..~~   ', ' .. ~   ', ' ~~~~   ', '  ~ ~   ']);
+    });
 
-        // [0,0] is black, layer effect multiplies: black * red = black
-        expect(output.colors[0][0]).toBe('#000000');
+    test('setTile on a wrapped tilemap re-renders each visible repeat of the tile', () => {
+      const pattern = new Tilemap({ id: 'pattern', tileset: ['ab', 'cd'], grid: [[0, 1]], wrap: 'x', layer: 1 });
+      compositor.addTilemap(pattern);
+      const wide = { x: 0, y: 0, width: 9, height: 1 };
+      expect(text(compositor.render(wide))).toEqual(['abcdabcda']);
 
-        // [0,1] is influenced to be lighter (50% with linear falloff at distance 1, radius 2)
-        // then multiplied by red - should have some red tint
-        const color = output.colors[0][1];
-        expect(color).not.toBe('#000000');
-        // Red channel should be present
-        const r = parseInt(color.slice(1, 3), 16);
-        expect(r).toBeGreaterThan(0);
-      });
+      pattern.setTile(1, 0, 0);
+      const output = compositor.render(wide);
 
-      test('removing layer effect removes its rendering effect', () => {
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#']],
-          position: { x: 0, y: 0 },
-          color: '#000000',
-          layer: 0,
-        });
+      expect(output.dirtyRegions).toEqual([
+        { minX: 2, minY: 0, maxX: 3, maxY: 0 },
+        { minX: 6, minY: 0, maxX: 7, maxY: 0 },
+      ]);
+      expect(text(output)).toEqual(['ababababa']);
+    });
 
-        compositor.setLayerEffect(1, {
-          color: '#ffffff',
-          type: 'lighten',
-          strength: 1.0,
-        });
+    test('moving, recoloring and hiding invalidate the tilemap area', () => {
+      const invalidated: Array<Bounds | null> = [];
+      compositor.on('invalidated', event => invalidated.push(event.bounds));
+      compositor.render(viewport);
 
-        let output = compositor.render({ x: 0, y: 0, width: 1, height: 1 });
-        expect(output.colors[0][0]).toBe('#ffffff');
+      floor.setPosition(0, 0);
+      expect(text(compositor.render(viewport))[0]).toBe('..~~    ');
 
-        compositor.setLayerEffect(1, null);
-        output = compositor.render({ x: 0, y: 0, width: 1, height: 1 });
-        expect(output.colors[0][0]).toBe('#000000');
-      });
+      floor.setVisible(false);
+      expect(text(compositor.render(viewport))).toEqual(['        ', '        ', '        ', '        ']);
+      expect(compositor.getCanvasBounds()).toEqual({ minX: 0, minY: 0, maxX: 0, maxY: 0 });
 
-      test('mixed effect types on different layers', () => {
-        addObjectLegacy(compositor, 'bg', {
-          content: [['#', '#']],
-          position: { x: 0, y: 0 },
-          color: '#808080',
-          layer: 0,
-        });
+      floor.setVisible(true);
+      compositor.setLayerVisible(0, false);
+      expect(text(compositor.render(viewport))[0]).toBe('        ');
+      compositor.setLayerVisible(0, true);
+      floor.setColor('#ff0000');
+      expect(compositor.render(viewport).colors[0][0]).toBe('#ff0000');
 
-        // Layer 1: lighten toward white
-        compositor.setLayerEffect(1, {
-          color: '#ffffff',
-          type: 'lighten',
-          strength: 0.5,
-        });
+      compositor.removeTilemap('floor');
+      expect(text(compositor.render(viewport))[0]).toBe('        ');
+      expect(invalidated[0]).toEqual({ minX: 0, minY: 0, maxX: 4, maxY: 3 });
+      expect(invalidated).toHaveLength(7);
+    });
 
-        // Layer 2: multiply by blue
-        compositor.setLayerEffect(2, {
-          color: '#0000ff',
-          type: 'multiply',
-          strength: 1.0,
-        });
+    test('are saved with the scene', () => {
+      floor.setTile(0, 0, null);
+      const restored = Compositor.fromJSON(JSON.parse(JSON.stringify(compositor)));
 
-        const output = compositor.render({ x: 0, y: 0, width: 2, height: 1 });
+      expect(restored.getTilemap('floor').toJSON()).toEqual(floor.toJSON());
+      expect(text(restored.render(viewport))).toEqual(text(compositor.render(viewport)));
+      expect(new Compositor().toJSON().tilemaps).toBeUndefined();
+    });
 
-        // Gray lightened 50% toward white: #808080 -> #c0c0c0
-        // Then multiplied by blue: #c0c0c0 * #0000ff = #0000c0
-        expect(output.colors[0][0]).toBe('#0000c0');
-      });
+    test('validates ids', () => {
+      expect(() => compositor.addTilemap(floor)).toThrow("Tilemap with id 'floor' already exists");
+      expect(() => compositor.getTilemap('missing')).toThrow("Tilemap with id 'missing' not found");
+      expect(() => compositor.removeTilemap('missing')).toThrow("Tilemap with id 'missing' not found");
     });
   });
 
@@ -2652,6 +4563,377 @@ describe('Compositor', () => {
     });
   });
 
+  describe('Rotation', () => {
+    let compositor: Compositor;
+
+    beforeEach(() => {
+      compositor = new Compositor();
+    });
+
+    test('rotates content clockwise by one quarter turn', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['ab', 'cd', 'ef'],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.rotate(1);
+      expect(obj.content).toEqual([['e', 'c', 'a'], ['f', 'd', 'b']]);
+      expect(obj.rotation).toBe(1);
+    });
+
+    test('rotates 180 and 270 degrees', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['ab', 'cd'],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.rotate(2);
+      expect(obj.content).toEqual([['d', 'c'], ['b', 'a']]);
+      obj.rotate(1);
+      expect(obj.content).toEqual([['b', 'd'], ['a', 'c']]);
+      expect(obj.rotation).toBe(3);
+    });
+
+    test('negative turns rotate counter-clockwise', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['ab'],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.rotate(-1);
+      expect(obj.content).toEqual([['b'], ['a']]);
+      expect(obj.rotation).toBe(3);
+    });
+
+    test('four quarter turns restore original content', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['┌─→', '│ /'],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      const original = obj.content.map(row => [...row]);
+      obj.rotate(1);
+      obj.rotate(1);
+      obj.rotate(1);
+      obj.rotate(1);
+      expect(obj.content).toEqual(original);
+      expect(obj.rotation).toBe(0);
+    });
+
+    test('remaps directional characters', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['┌─┐', '└─┘'],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.rotate(1);
+      expect(obj.content.map(row => row.join(''))).toEqual(['┌┐', '││', '└┘']);
+    });
+
+    test('remaps arrows, carets and slashes', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: [['→', '<', '/', '-']],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.rotate(1);
+      expect(obj.content.map(row => row[0])).toEqual(['↓', '^', '\\', '|']);
+      obj.rotate(1);
+      expect(obj.content.map(row => row.join(''))).toEqual(['-/>←']);
+    });
+
+    test('skips character remapping when disabled', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: [['─', '→']],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.rotate(1, false);
+      expect(obj.content).toEqual([['─'], ['→']]);
+    });
+
+    test('preserves null transparency', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: [['#', null], [null, '#']],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.rotate(1);
+      expect(obj.content).toEqual([[null, '#'], ['#', null]]);
+    });
+
+    test('throws on non-integer turns', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: [['#']],
+        position: { x: 0, y: 0 },
+      });
+
+      expect(() => compositor.getObject('obj').rotate(1.5)).toThrow(
+        'Rotation must be an integer number of quarter turns'
+      );
+    });
+
+    test('zero turns leave object clean', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: [['#']],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.clearDirty();
+      obj.rotate(4);
+      expect(obj.isDirty()).toBe(false);
+    });
+
+    test('tracks dirty bounds for non-square content', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['####'],
+        position: { x: 2, y: 3 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.clearDirty();
+      obj.rotate(1);
+      expect(obj.getDirtyBounds()).toEqual({ minX: 2, minY: 3, maxX: 5, maxY: 6 });
+      expect(obj.getBounds()).toEqual({ minX: 2, minY: 3, maxX: 2, maxY: 6 });
+    });
+
+    test('re-renders old and new footprint', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['###'],
+        position: { x: 0, y: 0 },
+      });
+
+      compositor.render({ x: 0, y: 0, width: 3, height: 3 });
+      compositor.getObject('obj').rotate(1);
+
+      const output = compositor.render({ x: 0, y: 0, width: 3, height: 3 });
+      expect(output.characters.map(row => row.join(''))).toEqual(['#  ', '#  ', '#  ']);
+    });
+
+    test('invalidates influence mask', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: [['#', '#']],
+        position: { x: 0, y: 0 },
+        influence: {
+          radius: 1,
+          transform: { type: 'lighten', strength: 0.5, falloff: 'linear' },
+        },
+      });
+
+      const obj = compositor.getObject('obj');
+      expect(obj.getInfluenceMask()).toHaveLength(3);
+      obj.rotate(1);
+      expect(obj.needsMaskRegeneration()).toBe(true);
+      expect(obj.getInfluenceMask()).toHaveLength(4);
+      expect(obj.getInfluenceMask()[0]).toHaveLength(3);
+    });
+
+    test('rotation after single flip turns source the other way', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['ab', 'cd'],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.flipHorizontalToggle();
+      obj.rotate(1);
+      expect(obj.rotation).toBe(3);
+
+      // Same result as rotating the source counter-clockwise, then flipping
+      const reference = new AsciiObject({ id: 'ref', content: ['ab', 'cd'], position: { x: 0, y: 0 } });
+      reference.rotate(3);
+      reference.flipHorizontalToggle();
+      expect(obj.content).toEqual(reference.content);
+    });
+
+    test('rotation after both flips keeps direction', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['ab', 'cd'],
+        position: { x: 0, y: 0 },
+      });
+
+      const obj = compositor.getObject('obj');
+      obj.flipHorizontalToggle();
+      obj.flipVerticalToggle();
+      obj.rotate(1);
+      expect(obj.rotation).toBe(1);
+      expect(obj.flipHorizontal).toBe(true);
+      expect(obj.flipVertical).toBe(true);
+    });
+
+    test('rotation state survives serialization', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: ['ab'],
+        position: { x: 0, y: 0 },
+      });
+      compositor.getObject('obj').rotate(1);
+
+      const restored = Compositor.fromJSON(JSON.parse(JSON.stringify(compositor)));
+      expect(restored.getObject('obj').rotation).toBe(1);
+      expect(restored.getObject('obj').content).toEqual([['a'], ['b']]);
+    });
+  });
+
+  describe('Opacity', () => {
+    let compositor: Compositor;
+    const viewport = { x: 0, y: 0, width: 3, height: 1 };
+
+    beforeEach(() => {
+      compositor = new Compositor();
+    });
+
+    test('defaults to fully opaque', () => {
+      addObjectLegacy(compositor, 'obj', { content: 'x', position: { x: 0, y: 0 }, color: '#ff0000' });
+
+      expect(compositor.getObject('obj').opacity).toBe(1);
+      expect(compositor.render(viewport).colors[0][0]).toBe('#ff0000');
+    });
+
+    test('blends color with content beneath; top character wins', () => {
+      addObjectLegacy(compositor, 'top', {
+        content: 'T',
+        position: { x: 0, y: 0 },
+        color: '#ff0000',
+        layer: 1,
+        opacity: 0.5,
+      });
+      addObjectLegacy(compositor, 'bottom', { content: 'B', position: { x: 0, y: 0 }, color: '#0000ff' });
+
+      const output = compositor.render(viewport);
+      expect(output.characters[0][0]).toBe('T');
+      expect(output.colors[0][0]).toBe('#800080');
+    });
+
+    test('blends with black where nothing is beneath', () => {
+      addObjectLegacy(compositor, 'obj', { content: 'x', position: { x: 0, y: 0 }, color: '#ffffff', opacity: 0.25 });
+
+      expect(compositor.render(viewport).colors[0][0]).toBe('#404040');
+    });
+
+    test('opacity 0 shows the cell beneath with the default char threshold', () => {
+      addObjectLegacy(compositor, 'top', {
+        content: 'T ',
+        position: { x: 0, y: 0 },
+        color: '#ff0000',
+        backgroundColor: '#ffffff',
+        layer: 1,
+        opacity: 0,
+      });
+      addObjectLegacy(compositor, 'bottom', { content: 'BC', position: { x: 0, y: 0 }, color: '#00ff00' });
+
+      const output = compositor.render({ x: 0, y: 0, width: 2, height: 1 });
+      expect(output.characters[0]).toEqual(['B', 'C']);
+      expect(output.colors[0]).toEqual(['#00ff00', '#00ff00']);
+      expect(output.backgrounds[0]).toEqual(['#000000', '#000000']);
+
+      // Any opacity above 0 keeps the object's own character by default
+      compositor.getObject('top').setOpacity(0.01);
+      expect(compositor.render({ x: 0, y: 0, width: 2, height: 1 }).characters[0]).toEqual(['T', ' ']);
+    });
+
+    test('character beneath wins below the char threshold', () => {
+      addObjectLegacy(compositor, 'top', {
+        content: 'T',
+        position: { x: 0, y: 0 },
+        color: '#ffffff',
+        layer: 1,
+        opacity: 0.3,
+        opacityCharThreshold: 0.5,
+      });
+      addObjectLegacy(compositor, 'bottom', { content: 'B', position: { x: 0, y: 0 }, color: '#000000' });
+
+      let output = compositor.render(viewport);
+      expect(output.characters[0][0]).toBe('B');
+      expect(output.colors[0][0]).toBe('#4d4d4d');
+
+      compositor.getObject('top').setOpacity(0.6);
+      output = compositor.render(viewport);
+      expect(output.characters[0][0]).toBe('T');
+    });
+
+    test('blends with later objects on the same layer', () => {
+      addObjectLegacy(compositor, 'first', { content: 'F', position: { x: 0, y: 0 }, color: '#ff0000', opacity: 0.5 });
+      addObjectLegacy(compositor, 'second', { content: 'S', position: { x: 0, y: 0 }, color: '#0000ff' });
+
+      const output = compositor.render(viewport);
+      expect(output.characters[0][0]).toBe('F');
+      expect(output.colors[0][0]).toBe('#800080');
+    });
+
+    test('semi-transparent opaque spaces blend but hide the character beneath', () => {
+      addObjectLegacy(compositor, 'top', { content: ' ', position: { x: 0, y: 0 }, color: '#ffffff', layer: 1, opacity: 0.5 });
+      addObjectLegacy(compositor, 'bottom', { content: 'B', position: { x: 0, y: 0 }, color: '#000000' });
+
+      const output = compositor.render(viewport);
+      expect(output.characters[0][0]).toBe(' ');
+      expect(output.colors[0][0]).toBe('#808080');
+    });
+
+    test('transforms above apply after blending; the object layer effect applies once', () => {
+      addObjectLegacy(compositor, 'top', { content: 'T', position: { x: 0, y: 0 }, color: '#000000', layer: 1, opacity: 0.5 });
+      addObjectLegacy(compositor, 'bottom', { content: 'B', position: { x: 0, y: 0 }, color: '#000000' });
+      compositor.setLayerEffect(1, { color: '#ffffff', type: 'lighten', strength: 0.5 });
+
+      // Blend black with black, then lighten by 50% once
+      expect(compositor.render(viewport).colors[0][0]).toBe('#808080');
+    });
+
+    test('setOpacity marks the object dirty', () => {
+      addObjectLegacy(compositor, 'obj', { content: 'x', position: { x: 1, y: 0 }, color: '#ffffff' });
+      compositor.render(viewport);
+
+      compositor.getObject('obj').setOpacity(0.5);
+      const output = compositor.render(viewport);
+      expect(output.dirtyRegions).toEqual([{ minX: 1, minY: 0, maxX: 1, maxY: 0 }]);
+      expect(output.colors[0][1]).toBe('#808080');
+    });
+
+    test('renderInto matches render for blended cells', () => {
+      addObjectLegacy(compositor, 'top', { content: 'T', position: { x: 0, y: 0 }, color: '#ff0000', layer: 1, opacity: 0.5 });
+      addObjectLegacy(compositor, 'bottom', { content: 'B', position: { x: 0, y: 0 }, color: '#0000ff' });
+      const buffer = createRenderBuffer(3, 1);
+      compositor.renderInto(buffer, viewport);
+
+      expect(String.fromCodePoint(buffer.codePoints[0])).toBe('T');
+      expect(Array.from(buffer.colors.slice(0, 3))).toEqual([128, 0, 128]);
+    });
+
+    test('validates opacity and threshold', () => {
+      expect(() => new AsciiObject({ id: 'a', content: 'x', position: { x: 0, y: 0 }, opacity: 1.5 })).toThrow(
+        'Opacity must be between 0.0 and 1.0'
+      );
+      expect(
+        () => new AsciiObject({ id: 'a', content: 'x', position: { x: 0, y: 0 }, opacityCharThreshold: -0.1 })
+      ).toThrow('Opacity char threshold must be between 0.0 and 1.0');
+
+      const obj = new AsciiObject({ id: 'a', content: 'x', position: { x: 0, y: 0 } });
+      expect(() => obj.setOpacity(NaN)).toThrow('Opacity must be between 0.0 and 1.0');
+      expect(obj.opacity).toBe(1);
+    });
+
+    test('round-trips through serialization', () => {
+      addObjectLegacy(compositor, 'obj', {
+        content: 'x',
+        position: { x: 0, y: 0 },
+        opacity: 0.4,
+        opacityCharThreshold: 0.2,
+      });
+
+      const restored = Compositor.fromJSON(JSON.parse(JSON.stringify(compositor)));
+      expect(restored.getObject('obj').opacity).toBe(0.4);
+      expect(restored.getObject('obj').opacityCharThreshold).toBe(0.2);
+    });
+  });
+
   describe('Character Mirroring', () => {
     describe('Horizontal Mirror Map', () => {
       test('ASCII brackets mirror correctly', () => {
@@ -8,41 +8,242 @@
  * @module @ascii-art-studio/compositor
  */
 
-import { AsciiObject, type Influence, type Bounds, type RGB, parseHexColor } from './AsciiObject';
+import {
+  AsciiObject,
+  type AsciiObjectChangeEvent,
+  type Influence,
+  type Bounds,
+  type Cell,
+  type ColorTarget,
+  type Position,
+  type RGB,
+  type SerializedAsciiObject,
+  type TransformType,
+  TRANSFORM_TYPES,
+  COLOR_TARGETS,
+  parseHexColor,
+} from './AsciiObject';
+import { SpatialIndex } from './SpatialIndex';
+import { EventEmitter } from './EventEmitter';
+import { Group, type GroupChildEvent, type GroupVisibilityEvent } from './Group';
+import { Tilemap, type SerializedTilemap, type TilemapChangeEvent } from './Tilemap';
+import { WIDE_CONTINUATION, isWideGlyph } from './unicode';
 
 // Re-export types for public API
-export { AsciiObject, type Influence };
+export { AsciiObject, type Influence, type Bounds, type SerializedAsciiObject, type TransformType, type ColorTarget };
+
+/** Current version of the serialized scene format */
+export const SCENE_FORMAT_VERSION = 1;
 
 /** Pre-computed hex lookup table: index 0-255 → '00'..'ff' */
 const HEX_LUT: string[] = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, '0'));
 
-/** Convert RGB tuple to hex string */
-function rgbToHex(rgb: RGB): string {
-  return `#${HEX_LUT[rgb[0]]}${HEX_LUT[rgb[1]]}${HEX_LUT[rgb[2]]}`;
+/** Convert RGB components to hex string */
+export function rgbToHex(r: number, g: number, b: number): string {
+  return `#${HEX_LUT[r]}${HEX_LUT[g]}${HEX_LUT[b]}`;
 }
 
+/**
+ * Per-channel blend functions for the separable blend modes (W3C Compositing spec).
+ * Take the color beneath and the target color as 0.0 to 1.0, return the blended channel.
+ */
+const BLEND_FUNCTIONS: Record<
+  Exclude<TransformType, 'lighten' | 'darken' | 'multiply' | 'multiply-darken'>,
+  (base: number, target: number) => number
+> = {
+  screen: (b, t) => b + t - b * t,
+  overlay: (b, t) => (b <= 0.5 ? 2 * b * t : 1 - 2 * (1 - b) * (1 - t)),
+  'soft-light': (b, t) => {
+    if (t <= 0.5) {
+      return b - (1 - 2 * t) * b * (1 - b);
+    }
+    const d = b <= 0.25 ? ((16 * b - 12) * b + 4) * b : Math.sqrt(b);
+    return b + (2 * t - 1) * (d - b);
+  },
+  'color-dodge': (b, t) => (b === 0 ? 0 : t >= 1 ? 1 : Math.min(1, b / (1 - t))),
+  'color-burn': (b, t) => (b >= 1 ? 1 : t <= 0 ? 0 : 1 - Math.min(1, (1 - b) / t)),
+  difference: (b, t) => Math.abs(b - t),
+  additive: (b, t) => Math.min(1, b + t),
+};
+
 /** RGB black constant */
 const RGB_BLACK: RGB = [0, 0, 0];
 const RGB_WHITE: RGB = [255, 255, 255];
 
 /**
- * Uniform color effect applied to an entire layer.
+ * Easing curves applied to a gradient position before stop lookup.
+ * Take and return a position from 0.0 to 1.0.
+ */
+const GRADIENT_CURVES = {
+  linear: (t: number) => t,
+  'ease-in': (t: number) => t * t,
+  'ease-out': (t: number) => 1 - (1 - t) * (1 - t),
+  smoothstep: (t: number) => t * t * (3 - 2 * t),
+};
+
+/** Easing curve for gradient positions */
+export type GradientCurve = keyof typeof GRADIENT_CURVES;
+
+/**
+ * Coordinate space of gradient geometry.
+ * - world: fixed in the scene, scrolls with content
+ * - viewport: relative to the viewport's top-left cell, stays put as the camera moves
+ */
+export type GradientAnchor = 'world' | 'viewport';
+
+/** Color and strength at a position along a gradient */
+export interface GradientStop {
+  /** Position along the gradient (0.0 to 1.0) */
+  offset: number;
+  /** Color at this stop (hex #RRGGBB, default: the effect color) */
+  color?: string;
+  /** Multiplier for the effect strength at this stop (0.0 to 1.0, default 1.0) */
+  strength?: number;
+}
+
+/** Fields shared by all gradient kinds */
+export interface BaseGradient {
+  /** Coordinate space of the geometry (default: 'viewport') */
+  anchor?: GradientAnchor;
+  /** Color stops in ascending offset order (at least one) */
+  stops: GradientStop[];
+  /** Easing applied to the position before stop lookup (default: 'linear') */
+  curve?: GradientCurve;
+}
+
+/** Gradient along the line from `from` (position 0) to `to` (position 1) */
+export interface LinearGradient extends BaseGradient {
+  kind: 'linear';
+  from: Position;
+  to: Position;
+}
+
+/** Gradient from `center` (position 0) out to an ellipse with the given radii (position 1) */
+export interface RadialGradient extends BaseGradient {
+  kind: 'radial';
+  center: Position;
+  /** Horizontal radius in cells */
+  radius: number;
+  /** Vertical radius in cells (default: radius) */
+  radiusY?: number;
+}
+
+/** Gradient that varies a layer effect's color and strength across cells */
+export type LayerGradient = LinearGradient | RadialGradient;
+
+/**
+ * Color effect applied to an entire layer.
  * Applied to the whole viewport before rendering objects on the layer.
  * Like a colored filter or Photoshop adjustment layer.
+ * With a gradient, color and strength vary per cell (vignettes, spotlights);
+ * positions beyond either end of the gradient use the nearest stop.
  */
 export interface LayerEffect {
-  /** Color of the effect (hex #RRGGBB) */
+  /** Color of the effect (hex #RRGGBB); default color for gradient stops */
   color: string;
   /** Transform type */
-  type: 'lighten' | 'darken' | 'multiply' | 'multiply-darken';
-  /** Effect strength (0.0 to 1.0) */
+  type: TransformType;
+  /** Effect strength (0.0 to 1.0); scaled by gradient stop strengths */
   strength: number;
   /** Darken factor for multiply-darken (0.0 to 1.0, default 0.8) */
   darkenFactor?: number;
+  /** Optional gradient (default: uniform color and strength) */
+  gradient?: LayerGradient;
+  /** Color channel the effect applies to (default: 'foreground') */
+  target?: ColorTarget;
+}
+
+/** Gradient stop with defaults resolved and color pre-parsed */
+interface ResolvedStop {
+  offset: number;
+  r: number; g: number; b: number;
+  strength: number;
+}
+
+/**
+ * Deep clones a gradient, normalizing colors to lowercase.
+ */
+function cloneGradient(gradient: LayerGradient): LayerGradient {
+  const base = {
+    ...(gradient.anchor !== undefined && { anchor: gradient.anchor }),
+    stops: gradient.stops.map(stop => ({
+      offset: stop.offset,
+      ...(stop.color !== undefined && { color: stop.color.toLowerCase() }),
+      ...(stop.strength !== undefined && { strength: stop.strength }),
+    })),
+    ...(gradient.curve !== undefined && { curve: gradient.curve }),
+  };
+
+  if (gradient.kind === 'linear') {
+    return { kind: 'linear', from: { ...gradient.from }, to: { ...gradient.to }, ...base };
+  }
+  return {
+    kind: 'radial',
+    center: { ...gradient.center },
+    radius: gradient.radius,
+    ...(gradient.radiusY !== undefined && { radiusY: gradient.radiusY }),
+    ...base,
+  };
+}
+
+/**
+ * Resolved color of one channel.
+ * `color` holds the original hex when no transforms applied (avoids RGB→hex conversion).
+ */
+interface ChannelColor {
+  r: number;
+  g: number;
+  b: number;
+  color: string | null;
+}
+
+/** Result of compositing a single cell: foreground color fields plus the background */
+interface CellResult extends ChannelColor {
+  char: string;
+  background: ChannelColor;
+}
+
+/** Cached render output for one viewport (see Compositor.render) */
+interface ViewportCache {
+  viewport: Viewport;
+  output: RenderOutput;
+  /** World-space regions changed since this viewport was last rendered */
+  dirtyRegions: Bounds[];
+  /** Whether the next render of this viewport must re-render all of it */
+  fullyDirty: boolean;
+}
+
+/** Default number of viewports whose output is cached */
+const DEFAULT_VIEWPORT_CACHE_SIZE = 4;
+
+/** Pending regions after which a cached viewport is re-rendered whole instead of patched */
+const MAX_PENDING_REGIONS = 256;
+
+/** Background of cells with nothing behind them (shared, never mutated) */
+const BLACK_BACKGROUND: ChannelColor = { r: 0, g: 0, b: 0, color: '#000000' };
+
+/** Color transform collected during cell traversal (target color pre-parsed to RGB) */
+interface ColorTransform {
+  tR: number; tG: number; tB: number;
+  type: TransformType;
+  strength: number;
+  darkenFactor?: number;
+}
+
+/** An object hit at a world cell (see Compositor.pickAll) */
+export interface PickResult {
+  /** Object whose content covers the cell */
+  object: AsciiObject;
+  /** Object's layer */
+  layer: number;
+  /** Cell position relative to the object's origin */
+  local: Position;
+  /** Character at the cell (' ' for an opaque space) */
+  char: string;
 }
 
 /** Camera viewport defining the visible region */
-interface Viewport {
+export interface Viewport {
   x: number;
   y: number;
   width: number;
@@ -54,17 +255,128 @@ interface Viewport {
  * Separate character and color grids for memory efficiency.
  */
 export interface RenderOutput {
-  /** 2D grid of characters [y][x] */
+  /**
+   * 2D grid of characters [y][x]. A wide glyph is followed by WIDE_CONTINUATION (''),
+   * so joining a row gives correctly aligned text; halves cut off by overlap or the
+   * viewport edge are rendered as spaces.
+   */
   characters: string[][];
   /** 2D grid of hex colors [y][x] (same dimensions as characters) */
   colors: string[][];
+  /** 2D grid of hex background colors [y][x] (same dimensions as characters; empty = #000000) */
+  backgrounds: string[][];
+  /**
+   * Viewport-local regions (inclusive bounds) that changed since the previous render.
+   * A full render reports the whole viewport; a clean cache hit reports none.
+   */
+  dirtyRegions: Bounds[];
+}
+
+/**
+ * Caller-owned typed-array render target for high-throughput consumers
+ * (canvas/WebGL upload, terminal writers). Cells are stored row-major.
+ */
+export interface RenderBuffer {
+  /** Width in cells (must match the rendered viewport) */
+  width: number;
+  /** Height in cells (must match the rendered viewport) */
+  height: number;
+  /**
+   * Unicode code point per cell, index y * width + x. Grapheme clusters keep their
+   * first code point; 0 marks the right half of a wide glyph.
+   */
+  codePoints: Uint32Array;
+  /** RGB triple per cell, index (y * width + x) * 3 */
+  colors: Uint8ClampedArray;
+  /** Optional background RGB triple per cell, same layout as colors (skipped when absent) */
+  backgrounds?: Uint8ClampedArray;
+}
+
+/**
+ * Allocates a RenderBuffer for the given dimensions.
+ *
+ * @param width - Width in cells
+ * @param height - Height in cells
+ * @returns Zero-filled render buffer (with a backgrounds array)
+ * @throws {Error} If width or height is not a positive integer
+ */
+export function createRenderBuffer(width: number, height: number): RenderBuffer {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error('Render buffer width and height must be positive integers');
+  }
+
+  return {
+    width,
+    height,
+    codePoints: new Uint32Array(width * height),
+    colors: new Uint8ClampedArray(width * height * 3),
+    backgrounds: new Uint8ClampedArray(width * height * 3),
+  };
+}
+
+/** Payload of Compositor 'objectAdded' and 'objectRemoved' events */
+export interface SceneObjectEvent {
+  /** Object added to or removed from the scene */
+  object: AsciiObject;
+}
+
+/** Payload of a Compositor 'layerEffectChanged' event */
+export interface LayerEffectChangeEvent {
+  /** Layer whose effect changed */
+  layer: number;
+  /** New effect (deep clone), or null if removed */
+  effect: LayerEffect | null;
+}
+
+/** Payload of a Compositor 'invalidated' event */
+export interface InvalidatedEvent {
+  /** World-space region whose rendering changed, or null for the whole scene */
+  bounds: Bounds | null;
+}
+
+/** Events emitted by Compositor */
+export interface CompositorEvents {
+  /** An object was added (emitted after the scene is updated) */
+  objectAdded: SceneObjectEvent;
+  /** An object was removed (emitted after the scene is updated) */
+  objectRemoved: SceneObjectEvent;
+  /** A layer effect was set or removed */
+  layerEffectChanged: LayerEffectChangeEvent;
+  /** Part of the scene needs re-rendering (any add, remove, object, tilemap or layer effect change) */
+  invalidated: InvalidatedEvent;
+}
+
+/**
+ * JSON-safe snapshot of a Compositor scene (see Compositor.toJSON).
+ */
+export interface SerializedScene {
+  /** Format version (SCENE_FORMAT_VERSION) */
+  version: number;
+  /** Objects in insertion order (the same-layer, same-zIndex render order) */
+  objects: SerializedAsciiObject[];
+  /** Layer effects sorted by layer */
+  layerEffects: Array<{ layer: number; effect: LayerEffect }>;
+  /** Layers with non-default visibility, solo or lock state, sorted by layer; omitted when none */
+  layers?: SerializedLayerState[];
+  /** Tilemaps in insertion order; omitted when none */
+  tilemaps?: SerializedTilemap[];
+  /** Default viewport, if set */
+  defaultViewport?: Viewport;
+}
+
+/** Saved visibility, solo and lock state of a layer (see SerializedScene.layers) */
+export interface SerializedLayerState {
+  layer: number;
+  visible: boolean;
+  solo: boolean;
+  locked: boolean;
 }
 
 /**
  * ASCII Compositor - Stateful scene manager for ASCII art composition.
  *
  * Manages a collection of ASCII objects with layering, transparency, and influence effects.
- * Optimized for animation through whole-viewport caching with dirty region invalidation.
+ * Optimized for animation through viewport caching with incremental dirty region re-rendering.
  *
  * Key features:
  * - Layer-based rendering (higher layers on top)
@@ -73,6 +385,9 @@ export interface RenderOutput {
  * - Auto-edge detection via flood fill
  * - Viewport caching for performance
  * - Object flip operations
+ * - Object groups (see Group)
+ * - Tiled backgrounds (see Tilemap)
+ * - Change events for on-demand rendering (see CompositorEvents)
  *
  * @example
  * ```typescript
@@ -86,27 +401,109 @@ export interface RenderOutput {
  * const output = compositor.render({ x: 0, y: 0, width: 10, height: 10 });
  * ```
  */
-export class Compositor {
+export class Compositor extends EventEmitter<CompositorEvents> {
   /** Scene objects stored by ID */
   private objects: Map<string, AsciiObject> = new Map();
 
+  /** Grid index of visible object bounds (synced on add/remove and when objects are dirty) */
+  private spatialIndex: SpatialIndex<AsciiObject> = new SpatialIndex();
+
+  /** Root groups stored by ID */
+  private groups: Map<string, Group> = new Map();
+
+  /** Tilemaps stored by ID */
+  private tilemaps: Map<string, Tilemap> = new Map();
+
+  /** Visible tilemaps by layer, in insertion order (updated each render pass) */
+  private layerTilemaps: Map<number, Tilemap[]> = new Map();
+
+  /** Objects hidden by their own flag, their layer or a group (kept out of the spatial index) */
+  private hiddenObjects: Set<AsciiObject> = new Set();
+
+  /** Layers hidden with setLayerVisible (muted) */
+  private hiddenLayers: Set<number> = new Set();
+
+  /** Soloed layers; when any exist, only they are shown */
+  private soloLayers: Set<number> = new Set();
+
+  /** Layers excluded from hit testing */
+  private lockedLayers: Set<number> = new Set();
+
   /** Layer effects stored by layer number */
   private layerEffects: Map<number, LayerEffect> = new Map();
 
   /** Pre-parsed RGB for layer effect colors */
   private layerEffectRGBs: Map<number, RGB> = new Map();
 
+  /** Resolved stops for layer effects with a gradient */
+  private layerGradientStops: Map<number, ResolvedStop[]> = new Map();
+
+  /** True if anything sets or transforms backgrounds (updated each render pass) */
+  private backgroundsActive: boolean = false;
+
+  /** True if any object lays out wide glyph pairs, so rendered rows need pair repair (updated each render pass) */
+  private widesActive: boolean = false;
+
+  /** Whether a content matrix has continuation cells (content is replaced, never mutated, on change) */
+  private wideContent: WeakMap<Cell[][], boolean> = new WeakMap();
+
   /** Default viewport for render() calls */
   private defaultViewport?: Viewport;
 
-  /** Whether the scene has changed since last render */
-  private dirty: boolean = false;
+  /** Whether every cached viewport must be re-rendered entirely (handed to the caches on render) */
+  private fullyDirty: boolean = false;
+
+  /** World-space regions changed since last render (handed to the caches they intersect on render) */
+  private dirtyRegions: Bounds[] = [];
+
+  /** Cached outputs keyed by viewport, least recently rendered first */
+  private viewportCaches: Map<string, ViewportCache> = new Map();
+
+  /** Maximum number of cached viewports */
+  private viewportCacheSize: number = DEFAULT_VIEWPORT_CACHE_SIZE;
+
+  /** Tracks visibility and re-emits object changes as 'invalidated' (subscribed while an object is in the scene) */
+  private readonly handleObjectChange = (event: AsciiObjectChangeEvent): void => {
+    if (event.property === 'visible' || event.property === 'layer') {
+      this.refreshVisibility(event.object);
+    }
+    if (this.hasListeners('invalidated')) {
+      const { oldBounds, newBounds } = event;
+      this.emit('invalidated', {
+        bounds: {
+          minX: Math.min(oldBounds.minX, newBounds.minX),
+          minY: Math.min(oldBounds.minY, newBounds.minY),
+          maxX: Math.max(oldBounds.maxX, newBounds.maxX),
+          maxY: Math.max(oldBounds.maxY, newBounds.maxY),
+        },
+      });
+    }
+  };
+
+  /** Adds objects attached anywhere in a registered group tree */
+  private readonly handleGroupChildAdded = (event: GroupChildEvent): void => {
+    this.addObjects(event.child instanceof Group ? event.child.getObjects() : [event.child]);
+  };
+
+  /** Removes objects detached anywhere in a registered group tree */
+  private readonly handleGroupChildRemoved = (event: GroupChildEvent): void => {
+    for (const obj of event.child instanceof Group ? event.child.getObjects() : [event.child]) {
+      this.removeFromScene(obj);
+    }
+  };
 
-  /** Last rendered viewport for cache validation */
-  private lastViewport?: Viewport;
+  /** Shows or hides the objects of a group whose visibility changed */
+  private readonly handleGroupVisibility = (event: GroupVisibilityEvent): void => {
+    for (const obj of event.group.getObjects()) {
+      this.refreshVisibility(obj);
+    }
+  };
 
-  /** Cached render output (deep clone) */
-  private cachedOutput?: RenderOutput;
+  /** Re-emits tilemap changes as 'invalidated' (dirty regions are collected on render) */
+  private readonly handleTilemapChange = (event: TilemapChangeEvent): void => {
+    const { tilemap, bounds } = event;
+    this.emit('invalidated', { bounds: tilemap.wrap === 'none' ? { ...bounds } : null });
+  };
 
   /**
    * Creates a new compositor with optional initial objects and default viewport.
@@ -116,6 +513,7 @@ export class Compositor {
    * @throws {Error} If duplicate object IDs are provided
    */
   constructor(initialObjects?: AsciiObject[], defaultViewport?: Viewport) {
+    super();
     this.defaultViewport = defaultViewport;
 
     if (initialObjects) {
@@ -125,10 +523,112 @@ export class Compositor {
     }
   }
 
+  /**
+   * Restores a compositor from a serialized scene.
+   *
+   * Objects and layer effects are validated by the AsciiObject constructor and
+   * setLayerEffect(), so invalid data throws the same errors they do.
+   *
+   * @param data - Serialized scene (e.g. from JSON.parse)
+   * @returns New compositor with the restored scene
+   * @throws {Error} If the scene version is unsupported
+   * @throws {Error} If objects, layerEffects, layers or tilemaps are not arrays
+   * @throws {Error} If any object, layer effect, layer state or tilemap is invalid
+   *
+   * @example
+   * ```typescript
+   * const saved = JSON.stringify(compositor);
+   * const restored = Compositor.fromJSON(JSON.parse(saved));
+   * ```
+   */
+  static fromJSON(data: SerializedScene): Compositor {
+    if (data?.version !== SCENE_FORMAT_VERSION) {
+      throw new Error(`Unsupported scene version: ${data?.version}`);
+    }
+    if (!Array.isArray(data.objects)) {
+      throw new Error('Invalid scene: objects must be an array');
+    }
+    if (data.layerEffects !== undefined && !Array.isArray(data.layerEffects)) {
+      throw new Error('Invalid scene: layerEffects must be an array');
+    }
+    if (data.layers !== undefined && !Array.isArray(data.layers)) {
+      throw new Error('Invalid scene: layers must be an array');
+    }
+    if (data.tilemaps !== undefined && !Array.isArray(data.tilemaps)) {
+      throw new Error('Invalid scene: tilemaps must be an array');
+    }
+
+    const objects = data.objects.map(obj => AsciiObject.fromJSON(obj));
+    const defaultViewport = data.defaultViewport ? { ...data.defaultViewport } : undefined;
+    const compositor = new Compositor(objects, defaultViewport);
+
+    for (const { layer, effect } of data.layerEffects ?? []) {
+      if (!Number.isInteger(layer)) {
+        throw new Error('Layer must be an integer');
+      }
+      compositor.setLayerEffect(layer, effect);
+    }
+
+    for (const { layer, visible, solo, locked } of data.layers ?? []) {
+      if (!Number.isInteger(layer)) {
+        throw new Error('Layer must be an integer');
+      }
+      compositor.setLayerVisible(layer, visible !== false);
+      compositor.setLayerSolo(layer, solo === true);
+      compositor.setLayerLocked(layer, locked === true);
+    }
+
+    for (const tilemap of data.tilemaps ?? []) {
+      compositor.addTilemap(Tilemap.fromJSON(tilemap));
+    }
+
+    return compositor;
+  }
+
+  /**
+   * Returns a JSON-safe snapshot of the scene.
+   * Called automatically by JSON.stringify. Groups are not serialized; their
+   * objects are saved with their world position and layer, and as hidden when a
+   * group hides them (see serializeObject).
+   *
+   * @returns Serialized scene (deep clone)
+   */
+  toJSON(): SerializedScene {
+    const layerEffects = Array.from(this.layerEffects.keys())
+      .sort((a, b) => a - b)
+      .map(layer => ({ layer, effect: this.getLayerEffect(layer)! }));
+    const layers = this.getLayerStates();
+
+    return {
+      version: SCENE_FORMAT_VERSION,
+      objects: this.listObjects().map(obj => this.serializeObject(obj)),
+      layerEffects,
+      ...(layers.length > 0 && { layers }),
+      ...(this.tilemaps.size > 0 && { tilemaps: this.listTilemaps().map(tilemap => tilemap.toJSON()) }),
+      ...(this.defaultViewport && { defaultViewport: { ...this.defaultViewport } }),
+    };
+  }
+
+  /**
+   * Serializes an object as toJSON() saves it. Group visibility is not saved
+   * separately, so an object in a hidden group is saved with `visible: false`.
+   *
+   * @param obj - Object to serialize
+   * @returns Serialized object (deep clone)
+   */
+  serializeObject(obj: AsciiObject): SerializedAsciiObject {
+    const data = obj.toJSON();
+    if (Group.parentOf(obj)?.isVisible() === false) {
+      data.visible = false;
+    }
+    return data;
+  }
+
   /**
    * Adds an AsciiObject to the scene.
    *
    * The object's current bounds are marked dirty to invalidate the render cache.
+   * Emits 'objectAdded', then 'invalidated'.
    *
    * @param obj - AsciiObject instance to add
    * @throws {Error} If object ID already exists
@@ -140,21 +640,208 @@ export class Compositor {
     }
 
     this.objects.set(obj.id, obj);
-    this.dirty = true;
+    if (this.isHidden(obj)) {
+      this.hiddenObjects.add(obj);
+    } else {
+      this.spatialIndex.insert(obj, obj.getBounds());
+    }
+    this.dirtyRegions.push(obj.getBounds());
+    obj.on('change', this.handleObjectChange);
+
+    this.emit('objectAdded', { object: obj });
+    this.emit('invalidated', { bounds: { ...obj.getBounds() } });
   }
 
   /**
    * Removes an object from the scene.
    *
    * The object's region (including influence) is marked dirty to invalidate the cache.
+   * An object of an added group is also removed from its group.
+   * Emits 'objectRemoved', then 'invalidated'.
    *
    * @param id - Object identifier
    * @throws {Error} If object ID not found
    */
   removeObject(id: string): void {
     const obj = this.getObjectOrThrow(id);
-    this.dirty = true;
-    this.objects.delete(id);
+
+    // Removing from the group removes the object from the scene (see handleGroupChildRemoved)
+    const parent = Group.parentOf(obj);
+    if (parent && this.isInScene(parent)) {
+      parent.remove(obj);
+      return;
+    }
+    this.removeFromScene(obj);
+  }
+
+  /**
+   * Adds a root group and all its descendant objects to the scene.
+   *
+   * Objects attached to or detached from the group tree later are added to or
+   * removed from the scene automatically, and hidden groups' objects are not rendered.
+   *
+   * @param group - Root group to add
+   * @throws {Error} If group ID already exists
+   * @throws {Error} If the group belongs to another group
+   * @throws {Error} If any descendant object ID already exists
+   */
+  addGroup(group: Group): void {
+    if (this.groups.has(group.id)) {
+      throw new Error(`Group with id '${group.id}' already exists`);
+    }
+    if (Group.parentOf(group)) {
+      throw new Error('Only root groups can be added to a compositor');
+    }
+
+    this.addObjects(group.getObjects());
+    this.groups.set(group.id, group);
+    group.on('childAdded', this.handleGroupChildAdded);
+    group.on('childRemoved', this.handleGroupChildRemoved);
+    group.on('visibilityChanged', this.handleGroupVisibility);
+  }
+
+  /**
+   * Removes a root group and all its descendant objects from the scene.
+   * The group itself is left intact.
+   *
+   * @param id - Group identifier
+   * @throws {Error} If group ID not found
+   */
+  removeGroup(id: string): void {
+    const group = this.getGroup(id);
+
+    group.off('childAdded', this.handleGroupChildAdded);
+    group.off('childRemoved', this.handleGroupChildRemoved);
+    group.off('visibilityChanged', this.handleGroupVisibility);
+    this.groups.delete(id);
+    for (const obj of group.getObjects()) {
+      this.removeFromScene(obj);
+    }
+  }
+
+  /**
+   * Returns a root group by ID.
+   *
+   * @param id - Group identifier
+   * @returns The Group instance
+   * @throws {Error} If group ID not found
+   */
+  getGroup(id: string): Group {
+    const group = this.groups.get(id);
+    if (!group) {
+      throw new Error(`Group with id '${id}' not found`);
+    }
+    return group;
+  }
+
+  /**
+   * Returns all root groups in the scene.
+   *
+   * @returns Array of Group instances
+   */
+  listGroups(): Group[] {
+    return Array.from(this.groups.values());
+  }
+
+  /**
+   * Adds a tilemap to the scene. Its cells render beneath the objects on its layer.
+   * Emits 'invalidated'.
+   *
+   * @param tilemap - Tilemap to add
+   * @throws {Error} If tilemap ID already exists
+   */
+  addTilemap(tilemap: Tilemap): void {
+    if (this.tilemaps.has(tilemap.id)) {
+      throw new Error(`Tilemap with id '${tilemap.id}' already exists`);
+    }
+
+    this.tilemaps.set(tilemap.id, tilemap);
+    tilemap.clearDirty();
+    this.markTilemapRegion(tilemap, tilemap.getBounds());
+    tilemap.on('change', this.handleTilemapChange);
+
+    this.emit('invalidated', { bounds: tilemap.wrap === 'none' ? { ...tilemap.getBounds() } : null });
+  }
+
+  /**
+   * Removes a tilemap from the scene. Emits 'invalidated'.
+   *
+   * @param id - Tilemap identifier
+   * @throws {Error} If tilemap ID not found
+   */
+  removeTilemap(id: string): void {
+    const tilemap = this.getTilemap(id);
+
+    // Include any pending dirty regions - the tilemap won't be visited by the next render
+    for (const region of tilemap.getDirtyRegions()) {
+      this.markTilemapRegion(tilemap, region);
+    }
+    this.markTilemapRegion(tilemap, tilemap.getBounds());
+
+    this.tilemaps.delete(id);
+    tilemap.off('change', this.handleTilemapChange);
+
+    this.emit('invalidated', { bounds: tilemap.wrap === 'none' ? { ...tilemap.getBounds() } : null });
+  }
+
+  /**
+   * Returns a tilemap by ID.
+   *
+   * @param id - Tilemap identifier
+   * @returns The Tilemap instance
+   * @throws {Error} If tilemap ID not found
+   */
+  getTilemap(id: string): Tilemap {
+    const tilemap = this.tilemaps.get(id);
+    if (!tilemap) {
+      throw new Error(`Tilemap with id '${id}' not found`);
+    }
+    return tilemap;
+  }
+
+  /**
+   * Returns all tilemaps in the scene, in insertion order (first-added wins on a layer).
+   *
+   * @returns Array of Tilemap instances
+   */
+  listTilemaps(): Tilemap[] {
+    return Array.from(this.tilemaps.values());
+  }
+
+  /**
+   * Adds several objects, checking all IDs first so a duplicate adds none of them.
+   */
+  private addObjects(objects: AsciiObject[]): void {
+    const ids = new Set<string>();
+    for (const obj of objects) {
+      if (this.objects.has(obj.id) || ids.has(obj.id)) {
+        throw new Error(`Object with id '${obj.id}' already exists`);
+      }
+      ids.add(obj.id);
+    }
+    for (const obj of objects) {
+      this.addObject(obj);
+    }
+  }
+
+  /**
+   * Removes an object from the scene without touching its group.
+   */
+  private removeFromScene(obj: AsciiObject): void {
+    // Include any pending dirty bounds - the object won't be visited by the next render
+    const pending = obj.getDirtyBounds();
+    if (pending) {
+      this.dirtyRegions.push(pending);
+    }
+    this.dirtyRegions.push(obj.getBounds());
+
+    this.objects.delete(obj.id);
+    this.spatialIndex.remove(obj);
+    this.hiddenObjects.delete(obj);
+    obj.off('change', this.handleObjectChange);
+
+    this.emit('objectRemoved', { object: obj });
+    this.emit('invalidated', { bounds: { ...obj.getBounds() } });
   }
 
   /**
@@ -171,6 +858,15 @@ export class Compositor {
     return this.getObjectOrThrow(id);
   }
 
+  /**
+   * Returns true if an object with the ID is in the scene.
+   *
+   * @param id - Object identifier
+   */
+  hasObject(id: string): boolean {
+    return this.objects.has(id);
+  }
+
   /**
    * Returns all objects in the scene.
    *
@@ -183,15 +879,91 @@ export class Compositor {
   }
 
   /**
-   * Set a uniform color effect for a layer.
+   * Moves an object in front of every other object on its layer.
+   * Raises its zIndex to the layer's highest (if lower) and puts it first among equal zIndex.
+   *
+   * @param id - Object identifier
+   * @throws {Error} If object ID not found
+   */
+  bringToFront(id: string): void {
+    const obj = this.getObjectOrThrow(id);
+    const peers = this.getObjectsOnLayer(obj.layer).filter(other => other !== obj);
+    if (peers.length === 0) {
+      return;
+    }
+
+    const top = Math.max(...peers.map(other => other.zIndex));
+    if (obj.zIndex > top) {
+      return;
+    }
+    if (obj.zIndex !== top) {
+      obj.setZIndex(top);
+    }
+    this.moveInOrder(obj, this.objects.values().next().value!);
+  }
+
+  /**
+   * Moves an object behind every other object on its layer.
+   * Lowers its zIndex to the layer's lowest (if higher) and puts it last among equal zIndex.
+   *
+   * @param id - Object identifier
+   * @throws {Error} If object ID not found
+   */
+  sendToBack(id: string): void {
+    const obj = this.getObjectOrThrow(id);
+    const peers = this.getObjectsOnLayer(obj.layer).filter(other => other !== obj);
+    if (peers.length === 0) {
+      return;
+    }
+
+    const bottom = Math.min(...peers.map(other => other.zIndex));
+    if (obj.zIndex < bottom) {
+      return;
+    }
+    if (obj.zIndex !== bottom) {
+      obj.setZIndex(bottom);
+    }
+    this.moveInOrder(obj, null);
+  }
+
+  /**
+   * Moves an object directly in front of another object on the same layer.
+   * Takes the other object's zIndex and goes right before it among equal zIndex.
+   *
+   * @param id - Object to move
+   * @param otherId - Object to move in front of
+   * @throws {Error} If either object ID is not found
+   * @throws {Error} If the IDs are the same or the objects are on different layers
+   */
+  moveAbove(id: string, otherId: string): void {
+    const obj = this.getObjectOrThrow(id);
+    const other = this.getObjectOrThrow(otherId);
+    if (obj === other) {
+      throw new Error('Cannot move an object above itself');
+    }
+    if (obj.layer !== other.layer) {
+      throw new Error(`Objects '${id}' and '${otherId}' are on different layers`);
+    }
+
+    if (obj.zIndex !== other.zIndex) {
+      obj.setZIndex(other.zIndex);
+    }
+    this.moveInOrder(obj, other);
+  }
+
+  /**
+   * Set a color effect for a layer.
    * The effect is applied to the entire viewport BEFORE rendering objects on this layer.
-   * This creates a "filter layer" effect that tints everything below uniformly.
+   * This creates a "filter layer" effect that tints everything below, uniformly or
+   * along a linear or radial gradient. Emits 'layerEffectChanged', then 'invalidated'.
    *
    * @param layer - Layer number
    * @param effect - Layer effect configuration, or null to remove
    * @throws {Error} If color is not valid #RRGGBB format
    * @throws {Error} If strength is not between 0.0 and 1.0
    * @throws {Error} If darkenFactor is provided and not between 0.0 and 1.0
+   * @throws {Error} If target is not a valid color target
+   * @throws {Error} If the gradient is invalid (see validateGradient)
    *
    * @example
    * // Blue fog layer
@@ -201,6 +973,21 @@ export class Compositor {
    *   strength: 0.5
    * });
    *
+   * // Vignette over an 80x24 viewport
+   * compositor.setLayerEffect(10, {
+   *   color: '#000000',
+   *   type: 'darken',
+   *   strength: 0.8,
+   *   gradient: {
+   *     kind: 'radial',
+   *     center: { x: 40, y: 12 },
+   *     radius: 40,
+   *     radiusY: 12,
+   *     stops: [{ offset: 0.6, strength: 0 }, { offset: 1, strength: 1 }],
+   *     curve: 'ease-in'
+   *   }
+   * });
+   *
    * // Remove effect
    * compositor.setLayerEffect(3, null);
    */
@@ -208,8 +995,10 @@ export class Compositor {
     if (effect === null) {
       this.layerEffects.delete(layer);
       this.layerEffectRGBs.delete(layer);
+      this.layerGradientStops.delete(layer);
       // Mark entire viewport dirty since layer effect affects everything
-      this.dirty = true;
+      this.fullyDirty = true;
+      this.emitLayerEffectChanged(layer);
       return;
     }
 
@@ -223,6 +1012,11 @@ export class Compositor {
       throw new Error('Strength must be between 0.0 and 1.0');
     }
 
+    // Validate transform type
+    if (!TRANSFORM_TYPES.includes(effect.type)) {
+      throw new Error(`Invalid transform type: ${effect.type}`);
+    }
+
     // Validate darkenFactor if present
     if (effect.darkenFactor !== undefined) {
       if (effect.darkenFactor < 0 || effect.darkenFactor > 1) {
@@ -233,18 +1027,52 @@ export class Compositor {
       }
     }
 
+    if (effect.target !== undefined && !COLOR_TARGETS.includes(effect.target)) {
+      throw new Error(`Invalid color target: ${effect.target}`);
+    }
+
+    if (effect.gradient !== undefined) {
+      this.validateGradient(effect.gradient);
+    }
+
     // Store deep clone to prevent external mutations
     const normalizedColor = effect.color.toLowerCase();
+    const rgb = parseHexColor(normalizedColor);
     this.layerEffects.set(layer, {
       color: normalizedColor,
       type: effect.type,
       strength: effect.strength,
       ...(effect.darkenFactor !== undefined && { darkenFactor: effect.darkenFactor }),
+      ...(effect.gradient !== undefined && { gradient: cloneGradient(effect.gradient) }),
+      ...(effect.target !== undefined && { target: effect.target }),
     });
-    this.layerEffectRGBs.set(layer, parseHexColor(normalizedColor));
+    this.layerEffectRGBs.set(layer, rgb);
+
+    if (effect.gradient !== undefined) {
+      this.layerGradientStops.set(
+        layer,
+        effect.gradient.stops.map(stop => {
+          const [r, g, b] = stop.color !== undefined ? parseHexColor(stop.color.toLowerCase()) : rgb;
+          return { offset: stop.offset, r, g, b, strength: stop.strength ?? 1 };
+        })
+      );
+    } else {
+      this.layerGradientStops.delete(layer);
+    }
 
     // Mark entire viewport dirty
-    this.dirty = true;
+    this.fullyDirty = true;
+    this.emitLayerEffectChanged(layer);
+  }
+
+  /**
+   * Emits 'layerEffectChanged' with the layer's current effect, then 'invalidated' for the whole scene.
+   */
+  private emitLayerEffectChanged(layer: number): void {
+    if (this.hasListeners('layerEffectChanged')) {
+      this.emit('layerEffectChanged', { layer, effect: this.getLayerEffect(layer) });
+    }
+    this.emit('invalidated', { bounds: null });
   }
 
   /**
@@ -265,18 +1093,128 @@ export class Compositor {
       type: effect.type,
       strength: effect.strength,
       ...(effect.darkenFactor !== undefined && { darkenFactor: effect.darkenFactor }),
+      ...(effect.gradient !== undefined && { gradient: cloneGradient(effect.gradient) }),
+      ...(effect.target !== undefined && { target: effect.target }),
     };
   }
+  /**
+   * Shows or hides (mutes) a layer's objects and effect. Hidden layers keep their
+   * objects, effect and ordering; showing the layer restores them as they were.
+   *
+   * @param layer - Layer number
+   * @param visible - New visible flag
+   */
+  setLayerVisible(layer: number, visible: boolean): void {
+    if (visible === this.isLayerVisible(layer)) {
+      return;
+    }
+    if (visible) {
+      this.hiddenLayers.delete(layer);
+    } else {
+      this.hiddenLayers.add(layer);
+    }
+    this.refreshLayers();
+  }
+
+  /**
+   * Returns a layer's own visible flag (see isLayerShown for the effective state).
+   *
+   * @param layer - Layer number
+   */
+  isLayerVisible(layer: number): boolean {
+    return !this.hiddenLayers.has(layer);
+  }
+
+  /**
+   * Solos or un-solos a layer. While any layer is soloed, only soloed layers are
+   * shown; hidden (muted) layers stay hidden even when soloed.
+   *
+   * @param layer - Layer number
+   * @param solo - New solo flag
+   */
+  setLayerSolo(layer: number, solo: boolean): void {
+    if (solo === this.isLayerSolo(layer)) {
+      return;
+    }
+    if (solo) {
+      this.soloLayers.add(layer);
+    } else {
+      this.soloLayers.delete(layer);
+    }
+    this.refreshLayers();
+  }
 
   /**
-   * Returns the minimal bounding box containing all objects (including influence).
+   * Returns true if a layer is soloed.
    *
-   * If no objects exist, returns a zero-sized box at origin.
+   * @param layer - Layer number
+   */
+  isLayerSolo(layer: number): boolean {
+    return this.soloLayers.has(layer);
+  }
+
+  /**
+   * Returns true if a layer's objects and effect are rendered (visible, and soloed if any layer is).
+   *
+   * @param layer - Layer number
+   */
+  isLayerShown(layer: number): boolean {
+    return !this.hiddenLayers.has(layer) && (this.soloLayers.size === 0 || this.soloLayers.has(layer));
+  }
+
+  /**
+   * Locks or unlocks a layer. Locked layers still render but are skipped by
+   * pick(), pickAll() and queryRect(), so editors cannot select their objects.
+   *
+   * @param layer - Layer number
+   * @param locked - New locked flag
+   */
+  setLayerLocked(layer: number, locked: boolean): void {
+    if (locked) {
+      this.lockedLayers.add(layer);
+    } else {
+      this.lockedLayers.delete(layer);
+    }
+  }
+
+  /**
+   * Returns true if a layer is locked.
+   *
+   * @param layer - Layer number
+   */
+  isLayerLocked(layer: number): boolean {
+    return this.lockedLayers.has(layer);
+  }
+
+  /**
+   * Returns the layers with non-default visibility, solo or lock state.
+   *
+   * @returns Layer states sorted by layer
+   */
+  getLayerStates(): SerializedLayerState[] {
+    return Array.from(new Set([...this.hiddenLayers, ...this.soloLayers, ...this.lockedLayers]))
+      .sort((a, b) => a - b)
+      .map(layer => ({
+        layer,
+        visible: this.isLayerVisible(layer),
+        solo: this.isLayerSolo(layer),
+        locked: this.isLayerLocked(layer),
+      }));
+  }
+
+  /**
+   * Returns the minimal bounding box containing all visible objects (including influence)
+   * and visible tilemaps that do not wrap (wrapped tilemaps have no edge to bound).
+   *
+   * If nothing visible is bounded, returns a zero-sized box at origin.
    *
    * @returns Canvas bounds
    */
   getCanvasBounds(): Bounds {
-    if (this.objects.size === 0) {
+    const tilemaps = this.listTilemaps().filter(
+      tilemap => tilemap.wrap === 'none' && tilemap.visible && this.isLayerShown(tilemap.layer)
+    );
+    if (this.objects.size === this.hiddenObjects.size && tilemaps.length === 0) {
       return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
     }
 
@@ -285,9 +1223,13 @@ export class Compositor {
     let maxX = -Infinity;
     let maxY = -Infinity;
 
-    // Union of all object bounds
-    for (const obj of this.objects.values()) {
-      const bounds = obj.getBounds();
+    // Union of all visible object and tilemap bounds
+    const nodes: Array<AsciiObject | Tilemap> = [...this.objects.values(), ...tilemaps];
+    for (const node of nodes) {
+      if (node instanceof AsciiObject && this.hiddenObjects.has(node)) {
+        continue;
+      }
+      const bounds = node.getBounds();
       minX = Math.min(minX, bounds.minX);
       minY = Math.min(minY, bounds.minY);
       maxX = Math.max(maxX, bounds.maxX);
@@ -297,14 +1239,104 @@ export class Compositor {
     return { minX, minY, maxX, maxY };
   }
 
+  /**
+   * Returns the topmost object whose content covers a world cell.
+   *
+   * Influence gradients, transparent (null) cells and glass-pane spaces do not count
+   * as hits, matching what render() shows; opaque spaces do.
+   *
+   * @param x - World X coordinate
+   * @param y - World Y coordinate
+   * @returns Topmost hit, or null if no content covers the cell
+   *
+   * @example
+   * ```typescript
+   * const hit = compositor.pick(viewport.x + mouseX, viewport.y + mouseY);
+   * if (hit) select(hit.object);
+   * ```
+   */
+  pick(x: number, y: number): PickResult | null {
+    return this.pickAll(x, y)[0] ?? null;
+  }
+
+  /**
+   * Returns every object whose content covers a world cell, topmost first.
+   * Same hit rules as pick(); order matches render priority (higher layers first,
+   * then higher zIndex, then first-added). Hidden objects and locked layers are skipped.
+   *
+   * @param x - World X coordinate
+   * @param y - World Y coordinate
+   * @returns Hits from top to bottom (empty if none)
+   */
+  pickAll(x: number, y: number): PickResult[] {
+    this.syncObjects();
+
+    const hits: PickResult[] = [];
+    for (const obj of this.sortByRenderOrder(this.spatialIndex.queryPoint(x, y))) {
+      if (this.lockedLayers.has(obj.layer)) {
+        continue;
+      }
+      const localX = x - obj.position.x;
+      const localY = y - obj.position.y;
+      const char = this.getHitChar(obj, localX, localY);
+      if (char !== null) {
+        hits.push({ object: obj, layer: obj.layer, local: { x: localX, y: localY }, char });
+      }
+    }
+    return hits;
+  }
+
+  /**
+   * Returns objects with content in a world rectangle (e.g. marquee selection), topmost first.
+   * An object matches if any of its hit cells (see pick()) lies inside the rectangle.
+   * Hidden objects and locked layers are skipped.
+   *
+   * @param bounds - World rectangle (inclusive)
+   * @returns Matching objects in render priority order
+   * @throws {Error} If bounds min exceeds max
+   */
+  queryRect(bounds: Bounds): AsciiObject[] {
+    if (bounds.minX > bounds.maxX || bounds.minY > bounds.maxY) {
+      throw new Error('Query bounds min must not exceed max');
+    }
+
+    this.syncObjects();
+
+    return this.sortByRenderOrder(this.spatialIndex.queryRect(bounds)).filter(obj => {
+      if (this.lockedLayers.has(obj.layer)) {
+        return false;
+      }
+      const minX = Math.max(bounds.minX, obj.position.x);
+      const minY = Math.max(bounds.minY, obj.position.y);
+      const maxX = Math.min(bounds.maxX, obj.position.x + obj.content[0].length - 1);
+      const maxY = Math.min(bounds.maxY, obj.position.y + obj.content.length - 1);
+
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          if (this.getHitChar(obj, x - obj.position.x, y - obj.position.y) !== null) {
+            return true;
+          }
+        }
+      }
+      return false;
+    });
+  }
+
   /**
    * Renders the scene to the specified viewport.
    *
-   * Uses whole-viewport caching: if viewport unchanged and no dirty regions,
-   * returns cached result. Otherwise re-renders entire viewport.
+   * Uses viewport caching: the outputs of the most recently rendered viewports are
+   * kept (see setViewportCacheSize), so alternating views such as a main view and a
+   * minimap each reuse their own cache. Re-rendering a cached viewport only
+   * re-composites the regions touched by object changes (including influence radius)
+   * since that viewport was last rendered. A new viewport or layer effect change
+   * re-renders the entire viewport.
+   *
+   * The returned `dirtyRegions` describe which viewport cells changed, so callers
+   * can patch their display incrementally.
    *
    * @param viewport - Optional viewport (uses default if omitted)
-   * @returns Rendered character and color grids
+   * @returns Rendered character, color and background grids
    * @throws {Error} If no viewport specified and no default viewport set
    * @throws {Error} If viewport width or height is not positive
    */
@@ -318,12 +1350,204 @@ export class Compositor {
       throw new Error('Viewport width and height must be positive');
     }
 
-    // Collect dirty bounds from all changed objects
+    this.syncObjects();
+
+    const key = `${vp.x},${vp.y},${vp.width},${vp.height}`;
+    const cache = this.viewportCaches.get(key);
+    if (cache) {
+      // Move to the most recently used end
+      this.viewportCaches.delete(key);
+      this.viewportCaches.set(key, cache);
+    }
+
+    // Check if we can patch the cached output
+    if (cache && !cache.fullyDirty) {
+      const regions = this.toViewportRegions(cache.dirtyRegions, vp);
+      cache.dirtyRegions = [];
+
+      if (regions.length > 0) {
+        this.renderRegions(cache.output, vp, regions);
+      }
+
+      // Return a deep clone to prevent cache corruption from user mutations
+      return {
+        characters: cache.output.characters.map(row => [...row]),
+        colors: cache.output.colors.map(row => [...row]),
+        backgrounds: cache.output.backgrounds.map(row => [...row]),
+        dirtyRegions: regions,
+      };
+    }
+
+    // Cache miss - render the scene
+    const output = this.renderScene(vp);
+
+    // Cache a deep clone to prevent corruption from user mutations
+    this.viewportCaches.set(key, {
+      viewport: { ...vp },
+      output: {
+        characters: output.characters.map(row => [...row]),
+        colors: output.colors.map(row => [...row]),
+        backgrounds: output.backgrounds.map(row => [...row]),
+        dirtyRegions: [],
+      },
+      dirtyRegions: [],
+      fullyDirty: false,
+    });
+    this.evictViewportCaches();
+
+    return output;
+  }
+
+  /**
+   * Sets how many viewports render() keeps cached output for.
+   * The least recently rendered viewports are dropped first.
+   *
+   * @param size - Maximum number of cached viewports (default: 4)
+   * @throws {Error} If size is not a positive integer
+   */
+  setViewportCacheSize(size: number): void {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error('Viewport cache size must be a positive integer');
+    }
+    this.viewportCacheSize = size;
+    this.evictViewportCaches();
+  }
+
+  /**
+   * Returns the maximum number of cached viewports.
+   */
+  getViewportCacheSize(): number {
+    return this.viewportCacheSize;
+  }
+
+  /**
+   * Renders a band of whole rows of a viewport, identical to the same rows of
+   * render(viewport). Viewport-anchored gradients keep the full viewport as their
+   * origin, so bands can be rendered separately (e.g. in parallel by WorkerRenderer)
+   * and stacked. Does not touch the render() cache.
+   *
+   * @param viewport - Full viewport the band belongs to
+   * @param startRow - First viewport row to render
+   * @param rowCount - Number of rows to render
+   * @returns Output for the band only (row 0 is viewport row startRow)
+   * @throws {Error} If viewport width or height is not positive
+   * @throws {Error} If the rows are not a non-empty integer range within the viewport
+   */
+  renderRows(viewport: Viewport, startRow: number, rowCount: number): RenderOutput {
+    if (viewport.width <= 0 || viewport.height <= 0) {
+      throw new Error('Viewport width and height must be positive');
+    }
+    if (
+      !Number.isInteger(startRow) || !Number.isInteger(rowCount) ||
+      startRow < 0 || rowCount < 1 || startRow + rowCount > viewport.height
+    ) {
+      throw new Error('Rows must be a non-empty range within the viewport');
+    }
+
+    this.syncObjects();
+    return this.renderScene(viewport, startRow, startRow + rowCount);
+  }
+
+  /**
+   * Renders the scene into a caller-owned typed-array buffer.
+   *
+   * Writes code points and RGB bytes directly, without per-cell string allocation,
+   * hex conversion, or output cloning. Always renders the whole viewport and does
+   * not touch the render() cache; object changes consumed here are still reported
+   * by the next render() call.
+   *
+   * @param buffer - Target buffer (dimensions must match the viewport)
+   * @param viewport - Optional viewport (uses default if omitted)
+   * @throws {Error} If no viewport specified and no default viewport set
+   * @throws {Error} If viewport width or height is not positive
+   * @throws {Error} If buffer dimensions or array lengths do not match the viewport
+   *
+   * @example
+   * ```typescript
+   * const buffer = createRenderBuffer(80, 24);
+   * compositor.renderInto(buffer, { x: 0, y: 0, width: 80, height: 24 });
+   * const char = String.fromCodePoint(buffer.codePoints[0]);
+   * ```
+   */
+  renderInto(buffer: RenderBuffer, viewport?: Viewport): void {
+    const vp = viewport || this.defaultViewport;
+    if (!vp) {
+      throw new Error('No viewport specified and no default viewport set');
+    }
+
+    if (vp.width <= 0 || vp.height <= 0) {
+      throw new Error('Viewport width and height must be positive');
+    }
+
+    const cellCount = vp.width * vp.height;
+    if (
+      buffer.width !== vp.width ||
+      buffer.height !== vp.height ||
+      buffer.codePoints.length < cellCount ||
+      buffer.colors.length < cellCount * 3 ||
+      (buffer.backgrounds !== undefined && buffer.backgrounds.length < cellCount * 3)
+    ) {
+      throw new Error('Render buffer dimensions must match viewport');
+    }
+
+    this.syncObjects();
+
+    const layers = this.getSortedLayers();
+    const lookupLayerObjects = this.createLayerObjectsLookup(layers);
+    const { codePoints, colors, backgrounds } = buffer;
+
+    // Row characters, only kept when wide glyph pairs need repair
+    const rowChars: string[] = [];
+
+    let i = 0;
+    for (let y = 0; y < vp.height; y++) {
+      const worldY = vp.y + y;
+      for (let x = 0; x < vp.width; x++) {
+        const worldX = vp.x + x;
+        const cell = this.renderCell(worldX, worldY, layers, lookupLayerObjects(worldX, worldY), vp);
+        if (this.widesActive) {
+          rowChars[x] = cell.char;
+        }
+        codePoints[i] = cell.char === WIDE_CONTINUATION ? 0 : cell.char.codePointAt(0)!;
+        colors[i * 3] = cell.r;
+        colors[i * 3 + 1] = cell.g;
+        colors[i * 3 + 2] = cell.b;
+        if (backgrounds) {
+          backgrounds[i * 3] = cell.background.r;
+          backgrounds[i * 3 + 1] = cell.background.g;
+          backgrounds[i * 3 + 2] = cell.background.b;
+        }
+        i++;
+      }
+
+      if (this.widesActive) {
+        this.repairWidePairs(rowChars, 0, vp.width - 1);
+        for (let x = 0; x < vp.width; x++) {
+          if (rowChars[x] === ' ') {
+            codePoints[i - vp.width + x] = 0x20;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Consumes object and tilemap changes before a render pass.
+   *
+   * Collects dirty bounds into the pending dirty regions, re-indexes changed objects,
+   * regenerates invalidated influence masks, and hands the pending regions to the
+   * cached viewports.
+   */
+  private syncObjects(): void {
+    // Collect dirty bounds from all changed objects and re-index them
     for (const obj of this.objects.values()) {
       if (obj.isDirty()) {
         const dirtyBounds = obj.getDirtyBounds();
         if (dirtyBounds) {
-          this.dirty = true;
+          this.dirtyRegions.push(dirtyBounds);
+        }
+        if (!this.hiddenObjects.has(obj)) {
+          this.spatialIndex.update(obj, obj.getBounds());
         }
         obj.clearDirty();
       }
@@ -336,76 +1560,244 @@ export class Compositor {
       }
     }
 
-    // Check if we can use cached output
-    if (
-      this.cachedOutput &&
-      this.lastViewport &&
-      this.viewportsEqual(vp, this.lastViewport) &&
-      !this.dirty
-    ) {
-      // Return a deep clone to prevent cache corruption from user mutations
-      return {
-        characters: this.cachedOutput.characters.map(row => [...row]),
-        colors: this.cachedOutput.colors.map(row => [...row]),
-      };
+    // Collect changed tiles and group the visible tilemaps by layer
+    this.layerTilemaps.clear();
+    for (const tilemap of this.tilemaps.values()) {
+      for (const region of tilemap.getDirtyRegions()) {
+        this.markTilemapRegion(tilemap, region);
+      }
+      tilemap.clearDirty();
+
+      if (tilemap.visible) {
+        const tilemaps = this.layerTilemaps.get(tilemap.layer);
+        if (tilemaps) {
+          tilemaps.push(tilemap);
+        } else {
+          this.layerTilemaps.set(tilemap.layer, [tilemap]);
+        }
+      }
     }
 
-    // Cache miss - render the scene
-    const output = this.renderScene(vp);
+    this.backgroundsActive = this.hasBackgroundSources();
+    this.widesActive = this.hasWideContent();
+    this.distributeDirtyRegions();
+  }
 
-    // Cache a deep clone to prevent corruption from user mutations
-    this.cachedOutput = {
-      characters: output.characters.map(row => [...row]),
-      colors: output.colors.map(row => [...row]),
+  /**
+   * Returns true if any object's content or tile has WIDE_CONTINUATION cells. Cell
+   * matrices without them are taken as laid out by the caller and never repaired.
+   */
+  private hasWideContent(): boolean {
+    const contents: Cell[][][] = Array.from(this.objects.values(), obj => obj.content);
+    for (const tilemap of this.tilemaps.values()) {
+      contents.push(...tilemap.tileset);
+    }
+
+    for (const content of contents) {
+      let wide = this.wideContent.get(content);
+      if (wide === undefined) {
+        wide = content.some(row => row.includes(WIDE_CONTINUATION));
+        this.wideContent.set(content, wide);
+      }
+      if (wide) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Returns true if any object or tilemap has a background color or any influence or
+   * layer effect targets the background. When false, every background is black.
+   */
+  private hasBackgroundSources(): boolean {
+    for (const effect of this.layerEffects.values()) {
+      if ((effect.target ?? 'foreground') !== 'foreground') {
+        return true;
+      }
+    }
+    for (const obj of this.objects.values()) {
+      if (obj.backgroundColor !== null || (obj.influence?.transform.target ?? 'foreground') !== 'foreground') {
+        return true;
+      }
+    }
+    for (const tilemap of this.tilemaps.values()) {
+      if (tilemap.backgroundColor !== null) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Renders the entire viewport (or a band of its rows) from scratch.
+   *
+   * Implements top-down layer traversal with transparency accumulation.
+   *
+   * @param viewport - Viewport to render
+   * @param startRow - First row to render (default: 0)
+   * @param endRow - Row after the last one to render (default: viewport height)
+   * @returns Rendered output for the rows
+   */
+  private renderScene(viewport: Viewport, startRow: number = 0, endRow: number = viewport.height): RenderOutput {
+    const characters: string[][] = [];
+    const colors: string[][] = [];
+    const backgrounds: string[][] = [];
+
+    // Get layers sorted ascending (lower layers first, higher layers on top)
+    const layers = this.getSortedLayers();
+    const lookupLayerObjects = this.createLayerObjectsLookup(layers);
+
+    // Render each cell in the viewport
+    for (let y = startRow; y < endRow; y++) {
+      const charRow: string[] = [];
+      const colorRow: string[] = [];
+      const backgroundRow: string[] = [];
+
+      for (let x = 0; x < viewport.width; x++) {
+        // Convert viewport coordinates to world coordinates
+        const worldX = viewport.x + x;
+        const worldY = viewport.y + y;
+
+        // Render this cell by traversing layers top-down
+        const cell = this.renderCell(worldX, worldY, layers, lookupLayerObjects(worldX, worldY), viewport);
+        charRow.push(cell.char);
+        colorRow.push(cell.color ?? rgbToHex(cell.r, cell.g, cell.b));
+        backgroundRow.push(cell.background.color ?? rgbToHex(cell.background.r, cell.background.g, cell.background.b));
+      }
+
+      if (this.widesActive) {
+        this.repairWidePairs(charRow, 0, viewport.width - 1);
+      }
+      characters.push(charRow);
+      colors.push(colorRow);
+      backgrounds.push(backgroundRow);
+    }
+
+    return {
+      characters,
+      colors,
+      backgrounds,
+      dirtyRegions: [{ minX: 0, minY: 0, maxX: viewport.width - 1, maxY: endRow - startRow - 1 }],
     };
-    this.lastViewport = { ...vp };
-    this.dirty = false;
+  }
 
-    return output;
+  /**
+   * Re-renders the given viewport-local regions into an existing output in place.
+   *
+   * @param output - Output to patch (must match viewport dimensions)
+   * @param viewport - Viewport the output was rendered for
+   * @param regions - Viewport-local regions to re-render (already clipped)
+   */
+  private renderRegions(output: RenderOutput, viewport: Viewport, regions: Bounds[]): void {
+    const layers = this.getSortedLayers();
+    const lookupLayerObjects = this.createLayerObjectsLookup(layers);
+
+    for (const region of regions) {
+      for (let y = region.minY; y <= region.maxY; y++) {
+        const charRow = output.characters[y];
+        const colorRow = output.colors[y];
+        const backgroundRow = output.backgrounds[y];
+
+        for (let x = region.minX; x <= region.maxX; x++) {
+          const worldX = viewport.x + x;
+          const worldY = viewport.y + y;
+          const cell = this.renderCell(worldX, worldY, layers, lookupLayerObjects(worldX, worldY), viewport);
+          charRow[x] = cell.char;
+          colorRow[x] = cell.color ?? rgbToHex(cell.r, cell.g, cell.b);
+          backgroundRow[x] = cell.background.color ?? rgbToHex(cell.background.r, cell.background.g, cell.background.b);
+        }
+
+        if (this.widesActive) {
+          this.repairWidePairs(charRow, region.minX, region.maxX);
+        }
+      }
+    }
+  }
+
+  /**
+   * Replaces halves of wide glyphs that lost their partner (to an overlapping object
+   * or the viewport edge) with spaces, so every row keeps its width.
+   *
+   * Decisions only depend on the raw neighbors of each cell, which is why dirty
+   * regions are widened by one column when wide glyphs are present: cells just
+   * outside a region are re-rendered and re-checked along with it.
+   *
+   * @param row - Row of rendered characters (modified in place)
+   * @param from - First column to check
+   * @param to - Last column to check
+   */
+  private repairWidePairs(row: string[], from: number, to: number): void {
+    const broken: number[] = [];
+    for (let x = from; x <= to; x++) {
+      const char = row[x];
+      const unpaired =
+        char === WIDE_CONTINUATION
+          ? !isWideGlyph(row[x - 1] ?? null)
+          : isWideGlyph(char) && row[x + 1] !== WIDE_CONTINUATION;
+      if (unpaired) {
+        broken.push(x);
+      }
+    }
+    for (const x of broken) {
+      row[x] = ' ';
+    }
   }
 
   /**
-   * Renders the entire viewport from scratch.
+   * Converts world-space dirty bounds into merged, viewport-local regions.
    *
-   * Implements top-down layer traversal with transparency accumulation.
+   * Bounds are clipped to the viewport, then overlapping or adjacent regions are
+   * merged so no cell is rendered twice.
    *
-   * @param viewport - Viewport to render
-   * @returns Rendered output
+   * @param bounds - World-space dirty bounds
+   * @param viewport - Viewport to clip against
+   * @returns Non-overlapping viewport-local regions
    */
-  private renderScene(viewport: Viewport): RenderOutput {
-    const characters: string[][] = [];
-    const colors: string[][] = [];
-
-    // Get layers sorted ascending (lower layers first, higher layers on top)
-    const layers = this.getSortedLayers();
-
-    // Cache objects per layer to avoid repeated lookups (performance optimization)
-    const layerObjectsCache = new Map<number, AsciiObject[]>();
-    for (const layer of layers) {
-      layerObjectsCache.set(layer, this.getObjectsOnLayer(layer));
-    }
+  private toViewportRegions(bounds: Bounds[], viewport: Viewport): Bounds[] {
+    const regions: Bounds[] = [];
 
-    // Render each cell in the viewport
-    for (let y = 0; y < viewport.height; y++) {
-      const charRow: string[] = [];
-      const colorRow: string[] = [];
+    // A wide glyph's partner may lie just outside a region (see repairWidePairs)
+    const margin = this.widesActive ? 1 : 0;
 
-      for (let x = 0; x < viewport.width; x++) {
-        // Convert viewport coordinates to world coordinates
-        const worldX = viewport.x + x;
-        const worldY = viewport.y + y;
+    for (const b of bounds) {
+      const minX = Math.max(b.minX - margin - viewport.x, 0);
+      const minY = Math.max(b.minY - viewport.y, 0);
+      const maxX = Math.min(b.maxX + margin - viewport.x, viewport.width - 1);
+      const maxY = Math.min(b.maxY - viewport.y, viewport.height - 1);
 
-        // Render this cell by traversing layers top-down
-        const { char, color } = this.renderCell(worldX, worldY, layers, layerObjectsCache);
-        charRow.push(char);
-        colorRow.push(color);
+      if (minX <= maxX && minY <= maxY) {
+        regions.push({ minX, minY, maxX, maxY });
       }
+    }
 
-      characters.push(charRow);
-      colors.push(colorRow);
+    // Merge until no two regions overlap or touch
+    let merged = true;
+    while (merged) {
+      merged = false;
+      for (let i = 0; i < regions.length && !merged; i++) {
+        for (let j = i + 1; j < regions.length; j++) {
+          const a = regions[i];
+          const b = regions[j];
+          if (
+            a.minX <= b.maxX + 1 && b.minX <= a.maxX + 1 &&
+            a.minY <= b.maxY + 1 && b.minY <= a.maxY + 1
+          ) {
+            regions[i] = {
+              minX: Math.min(a.minX, b.minX),
+              minY: Math.min(a.minY, b.minY),
+              maxX: Math.max(a.maxX, b.maxX),
+              maxY: Math.max(a.maxY, b.maxY),
+            };
+            regions.splice(j, 1);
+            merged = true;
+            break;
+          }
+        }
+      }
     }
 
-    return { characters, colors };
+    return regions;
   }
 
   /**
@@ -421,44 +1813,73 @@ export class Compositor {
    * - Space with influence: glass pane effect (transparent, contributes transform)
    * - Space without influence: opaque space character
    * - Accumulated transparency >= 100: fully transparent (blank)
+   * - Content with opacity < 1: color blends with the cell rendered beneath the object
+   * - Tilemap cells: opaque content beneath all objects on the tilemap's layer
    *
    * @param x - World X coordinate
    * @param y - World Y coordinate
    * @param layers - Sorted layer numbers (ascending)
-   * @param layerObjectsCache - Pre-computed map of layer -> objects (performance optimization)
-   * @returns Rendered character and color
+   * @param layerObjectsCache - Pre-computed map of layer -> candidate objects near this cell
+   * @param viewport - Viewport being rendered (origin for viewport-anchored gradients)
+   * @returns Rendered character and color (RGB, plus hex if untransformed)
+   */
+  private renderCell(
+    x: number,
+    y: number,
+    layers: number[],
+    layerObjectsCache: Map<number, AsciiObject[]>,
+    viewport: Viewport
+  ): CellResult {
+    return this.renderCellFrom(x, y, layers, layerObjectsCache, viewport, layers.length - 1, 0);
+  }
+
+  /**
+   * Top-down traversal for renderCell, starting part-way down the stack.
+   * Used to render what lies beneath a semi-transparent object.
+   *
+   * @param startLayer - Index into layers to start at
+   * @param startObject - Index of the first object (then tilemap) to consider on the start layer;
+   *   when > 0 the start layer's effect is skipped (already applied by the caller)
    */
-  private renderCell(x: number, y: number, layers: number[], layerObjectsCache: Map<number, AsciiObject[]>): { char: string; color: string } {
+  private renderCellFrom(
+    x: number,
+    y: number,
+    layers: number[],
+    layerObjectsCache: Map<number, AsciiObject[]>,
+    viewport: Viewport,
+    startLayer: number,
+    startObject: number
+  ): CellResult {
     // Working color accumulates influence transforms as RGB (no hex parsing)
     let wR = 0, wG = 0, wB = 0;
     // Collect all transforms to apply to final content color (uses pre-parsed RGB)
-    const transformsToApply: Array<{
-      tR: number; tG: number; tB: number; // target color RGB
-      type: 'lighten' | 'darken' | 'multiply' | 'multiply-darken';
-      strength: number;
-      darkenFactor?: number;
-    }> = [];
+    const transformsToApply: ColorTransform[] = [];
+    // Transforms targeting the background, applied to the cell's background color
+    const bgTransforms: ColorTransform[] = [];
 
     // Traverse layers top to bottom (reverse order of sorted array)
-    for (let i = layers.length - 1; i >= 0; i--) {
+    for (let i = startLayer; i >= 0; i--) {
       const layer = layers[i];
+      const firstObject = i === startLayer ? startObject : 0;
 
       // Collect layer effect as a transform
-      const layerEffect = this.layerEffects.get(layer);
+      const layerEffect = firstObject === 0 ? this.layerEffects.get(layer) : undefined;
       if (layerEffect && layerEffect.strength > 0) {
-        const rgb = this.layerEffectRGBs.get(layer)!;
-        transformsToApply.push({
-          tR: rgb[0], tG: rgb[1], tB: rgb[2],
-          type: layerEffect.type,
-          strength: layerEffect.strength,
-          darkenFactor: layerEffect.darkenFactor,
-        });
+        const transform = this.createLayerTransform(layer, layerEffect, x, y, viewport);
+        const target = layerEffect.target ?? 'foreground';
+        if (transform && target !== 'background') {
+          transformsToApply.push(transform);
+        }
+        if (transform && target !== 'foreground') {
+          bgTransforms.push(transform);
+        }
       }
 
       const objectsOnLayer = layerObjectsCache.get(layer) || [];
 
       // First-added-wins for same-layer overlaps
-      for (const obj of objectsOnLayer) {
+      for (let k = firstObject; k < objectsOnLayer.length; k++) {
+        const obj = objectsOnLayer[k];
         // Calculate local coordinates relative to object origin
         const localX = x - obj.position.x;
         const localY = y - obj.position.y;
@@ -496,81 +1917,397 @@ export class Compositor {
             ) {
               const cell = obj.content[contentY][contentX];
 
-              if (cell !== null && cell !== ' ') {
+              if (cell !== null && cell !== ' ' && obj.opacity < 1) {
+                // Semi-transparent content - blend with the cell beneath, then apply transforms
+                return this.blendContentCell(
+                  x, y, layers, layerObjectsCache, viewport, i, k, obj, cell, transformsToApply, bgTransforms
+                );
+              } else if (cell !== null && cell !== ' ') {
                 // Non-space character - apply all transforms to object color
-                if (transformsToApply.length === 0) {
-                  return { char: cell, color: obj.color };
-                }
-                let fR = obj.colorRGB[0], fG = obj.colorRGB[1], fB = obj.colorRGB[2];
-                for (let j = transformsToApply.length - 1; j >= 0; j--) {
-                  const result = this.applyTransformRGB(fR, fG, fB, transformsToApply[j]);
-                  fR = result[0]; fG = result[1]; fB = result[2];
-                }
-                return { char: cell, color: rgbToHex([fR, fG, fB]) };
+                return this.opaqueContentCell(
+                  x, y, layers, layerObjectsCache, viewport, i, k, obj, cell, transformsToApply, bgTransforms
+                );
               } else if (cell === ' ' && obj.influence) {
                 // Glass pane effect: space with influence
-                const strength = obj.influence.transform.strength;
-                const infType = obj.influence.transform.type;
-                const targetRGB = this.getInfluenceTargetRGB(obj, infType);
-
-                const transform = {
-                  tR: targetRGB[0], tG: targetRGB[1], tB: targetRGB[2],
-                  type: infType,
-                  strength,
-                  darkenFactor: obj.influence.transform.darkenFactor,
-                };
-                transformsToApply.push(transform);
-
-                // Apply to working color
-                const result = this.applyTransformRGB(wR, wG, wB, transform);
-                wR = result[0]; wG = result[1]; wB = result[2];
-              } else if (cell !== null) {
-                // Space without influence - apply all transforms to object color
-                if (transformsToApply.length === 0) {
-                  return { char: cell, color: obj.color };
+                const transform = this.createInfluenceTransform(obj, obj.influence.transform.strength);
+                const target = obj.influence.transform.target ?? 'foreground';
+
+                if (target !== 'background') {
+                  transformsToApply.push(transform);
+
+                  // Apply to working color
+                  const result = this.applyTransformRGB(wR, wG, wB, transform);
+                  wR = result[0]; wG = result[1]; wB = result[2];
                 }
-                let fR = obj.colorRGB[0], fG = obj.colorRGB[1], fB = obj.colorRGB[2];
-                for (let j = transformsToApply.length - 1; j >= 0; j--) {
-                  const result = this.applyTransformRGB(fR, fG, fB, transformsToApply[j]);
-                  fR = result[0]; fG = result[1]; fB = result[2];
+                if (target !== 'foreground') {
+                  bgTransforms.push(transform);
                 }
-                return { char: cell, color: rgbToHex([fR, fG, fB]) };
+              } else if (cell !== null && obj.opacity < 1) {
+                // Semi-transparent opaque space
+                return this.blendContentCell(
+                  x, y, layers, layerObjectsCache, viewport, i, k, obj, cell, transformsToApply, bgTransforms
+                );
+              } else if (cell !== null) {
+                // Space without influence - apply all transforms to object color
+                return this.opaqueContentCell(
+                  x, y, layers, layerObjectsCache, viewport, i, k, obj, cell, transformsToApply, bgTransforms
+                );
               }
             }
           }
 
           // maskValue < 100: influence gradient (not content)
           if (maskValue > 0 && maskValue < 100) {
-            const infType = obj.influence!.transform.type;
-            const strength = (maskValue / 100) * obj.influence!.transform.strength;
-            const targetRGB = this.getInfluenceTargetRGB(obj, infType);
-
-            const transform = {
-              tR: targetRGB[0], tG: targetRGB[1], tB: targetRGB[2],
-              type: infType,
-              strength,
-              darkenFactor: obj.influence!.transform.darkenFactor,
-            };
-            transformsToApply.push(transform);
+            const transform = this.createInfluenceTransform(obj, (maskValue / 100) * obj.influence!.transform.strength);
+            const target = obj.influence!.transform.target ?? 'foreground';
 
-            // Apply to working color
-            const result = this.applyTransformRGB(wR, wG, wB, transform);
-            wR = result[0]; wG = result[1]; wB = result[2];
+            if (target !== 'background') {
+              transformsToApply.push(transform);
+
+              // Apply to working color
+              const result = this.applyTransformRGB(wR, wG, wB, transform);
+              wR = result[0]; wG = result[1]; wB = result[2];
+            }
+            if (target !== 'foreground') {
+              bgTransforms.push(transform);
+            }
           }
         }
       }
+
+      // Tilemaps lie beneath the layer's objects and are indexed after them
+      const tilemaps = this.layerTilemaps.get(layer) || [];
+      for (let t = Math.max(0, firstObject - objectsOnLayer.length); t < tilemaps.length; t++) {
+        const cell = tilemaps[t].getCell(x, y);
+        if (cell !== null) {
+          return this.opaqueContentCell(
+            x, y, layers, layerObjectsCache, viewport, i, objectsOnLayer.length + t, tilemaps[t], cell,
+            transformsToApply, bgTransforms
+          );
+        }
+      }
+    }
+
+    // No content found - apply all transforms to working color (background starts black)
+    const background = bgTransforms.length === 0 ? BLACK_BACKGROUND : this.applyTransforms(0, 0, 0, bgTransforms);
+    if (transformsToApply.length === 0) {
+      return { char: ' ', r: 0, g: 0, b: 0, color: '#000000', background };
     }
+    const { r, g, b } = this.applyTransforms(wR, wG, wB, transformsToApply);
+    return { char: ' ', r, g, b, color: null, background };
+  }
 
-    // No content found - apply all transforms to working color
+  /**
+   * Renders a content cell of an opaque object or a tilemap: its color with the
+   * foreground transforms collected above it, over its background.
+   */
+  private opaqueContentCell(
+    x: number,
+    y: number,
+    layers: number[],
+    layerObjectsCache: Map<number, AsciiObject[]>,
+    viewport: Viewport,
+    layerIndex: number,
+    objectIndex: number,
+    obj: AsciiObject | Tilemap,
+    cell: string,
+    transformsToApply: ColorTransform[],
+    bgTransforms: ColorTransform[]
+  ): CellResult {
+    const background = this.getContentBackground(
+      x, y, layers, layerObjectsCache, viewport, layerIndex, objectIndex, obj, bgTransforms
+    );
     if (transformsToApply.length === 0) {
-      return { char: ' ', color: '#000000' };
+      return { char: cell, r: obj.colorRGB[0], g: obj.colorRGB[1], b: obj.colorRGB[2], color: obj.color, background };
+    }
+    const { r, g, b } = this.applyTransforms(obj.colorRGB[0], obj.colorRGB[1], obj.colorRGB[2], transformsToApply);
+    return { char: cell, r, g, b, color: null, background };
+  }
+
+  /**
+   * Renders a content cell of a semi-transparent object.
+   *
+   * The cell beneath the object (later objects on its layer, then lower layers) is
+   * rendered on its own and mixed with the object's color by opacity. Transforms
+   * collected above the object apply to the mixed color. The beneath character
+   * wins when opacity is 0 or below the object's opacityCharThreshold. A background
+   * color mixes with the background beneath the same way.
+   */
+  private blendContentCell(
+    x: number,
+    y: number,
+    layers: number[],
+    layerObjectsCache: Map<number, AsciiObject[]>,
+    viewport: Viewport,
+    layerIndex: number,
+    objectIndex: number,
+    obj: AsciiObject,
+    cell: string,
+    transformsToApply: ColorTransform[],
+    bgTransforms: ColorTransform[]
+  ): CellResult {
+    const below = this.renderCellFrom(x, y, layers, layerObjectsCache, viewport, layerIndex, objectIndex + 1);
+    const alpha = obj.opacity;
+    // Fully transparent content shows the character beneath whatever the threshold
+    const char = alpha === 0 || alpha < obj.opacityCharThreshold ? below.char : cell;
+
+    const fR = Math.round(below.r + (obj.colorRGB[0] - below.r) * alpha);
+    const fG = Math.round(below.g + (obj.colorRGB[1] - below.g) * alpha);
+    const fB = Math.round(below.b + (obj.colorRGB[2] - below.b) * alpha);
+    const { r, g, b } = this.applyTransforms(fR, fG, fB, transformsToApply);
+
+    let background = below.background;
+    const ownBackground = obj.backgroundColorRGB;
+    if (ownBackground || bgTransforms.length > 0) {
+      let bR = background.r, bG = background.g, bB = background.b;
+      if (ownBackground) {
+        bR = Math.round(bR + (ownBackground[0] - bR) * alpha);
+        bG = Math.round(bG + (ownBackground[1] - bG) * alpha);
+        bB = Math.round(bB + (ownBackground[2] - bB) * alpha);
+      }
+      background = this.applyTransforms(bR, bG, bB, bgTransforms);
+    }
+
+    return { char, r, g, b, color: null, background };
+  }
+
+  /**
+   * Resolves the background of an opaque content cell: the object's (or tilemap's)
+   * background color, or the background beneath it, with the background transforms collected above.
+   */
+  private getContentBackground(
+    x: number,
+    y: number,
+    layers: number[],
+    layerObjectsCache: Map<number, AsciiObject[]>,
+    viewport: Viewport,
+    layerIndex: number,
+    objectIndex: number,
+    obj: AsciiObject | Tilemap,
+    bgTransforms: ColorTransform[]
+  ): ChannelColor {
+    let background: ChannelColor;
+    if (obj.backgroundColorRGB) {
+      const [r, g, b] = obj.backgroundColorRGB;
+      background = { r, g, b, color: obj.backgroundColor };
+    } else if (this.backgroundsActive) {
+      background = this.renderBackgroundFrom(x, y, layers, layerObjectsCache, viewport, layerIndex, objectIndex + 1);
+    } else {
+      // Nothing in the scene sets or transforms backgrounds
+      return BLACK_BACKGROUND;
+    }
+
+    if (bgTransforms.length === 0) {
+      return background;
+    }
+    return this.applyTransforms(background.r, background.g, background.b, bgTransforms);
+  }
+
+  /**
+   * Top-down traversal of the background channel only, starting part-way down the stack.
+   *
+   * Stops at the first content cell with a background color; content without one is
+   * transparent to the background. Collects background-targeted layer effects and
+   * influences on the way down. Empty backgrounds are black.
+   *
+   * @param startLayer - Index into layers to start at
+   * @param startObject - Index of the first object (then tilemap) to consider on the start layer;
+   *   when > 0 the start layer's effect is skipped (already applied by the caller)
+   * @returns Background color with the collected transforms applied
+   */
+  private renderBackgroundFrom(
+    x: number,
+    y: number,
+    layers: number[],
+    layerObjectsCache: Map<number, AsciiObject[]>,
+    viewport: Viewport,
+    startLayer: number,
+    startObject: number
+  ): ChannelColor {
+    const transforms: ColorTransform[] = [];
+    let base = BLACK_BACKGROUND;
+
+    layerLoop: for (let i = startLayer; i >= 0; i--) {
+      const layer = layers[i];
+      const firstObject = i === startLayer ? startObject : 0;
+
+      const layerEffect = firstObject === 0 ? this.layerEffects.get(layer) : undefined;
+      if (layerEffect && layerEffect.strength > 0 && (layerEffect.target ?? 'foreground') !== 'foreground') {
+        const transform = this.createLayerTransform(layer, layerEffect, x, y, viewport);
+        if (transform) {
+          transforms.push(transform);
+        }
+      }
+
+      const objectsOnLayer = layerObjectsCache.get(layer) || [];
+
+      for (let k = firstObject; k < objectsOnLayer.length; k++) {
+        const obj = objectsOnLayer[k];
+        const radius = obj.influence?.radius || 0;
+        const maskValue = obj.getInfluenceMask()[y - obj.position.y + radius]?.[x - obj.position.x + radius] ?? null;
+        if (maskValue === null || maskValue === 0) {
+          continue;
+        }
+
+        let strength = (maskValue / 100) * (obj.influence?.transform.strength ?? 0);
+        if (maskValue === 100) {
+          const cell = obj.content[y - obj.position.y]?.[x - obj.position.x] ?? null;
+          if (cell === null) {
+            continue;
+          }
+
+          if (cell !== ' ' || !obj.influence) {
+            // Content cell: its background color ends the search, otherwise look beneath
+            const own = obj.backgroundColorRGB;
+            if (!own) {
+              continue;
+            }
+            if (obj.opacity < 1) {
+              const beneath = this.renderBackgroundFrom(x, y, layers, layerObjectsCache, viewport, i, k + 1);
+              base = {
+                r: Math.round(beneath.r + (own[0] - beneath.r) * obj.opacity),
+                g: Math.round(beneath.g + (own[1] - beneath.g) * obj.opacity),
+                b: Math.round(beneath.b + (own[2] - beneath.b) * obj.opacity),
+                color: null,
+              };
+            } else {
+              base = { r: own[0], g: own[1], b: own[2], color: obj.backgroundColor };
+            }
+            break layerLoop;
+          }
+
+          // Glass pane applies full influence strength
+          strength = obj.influence.transform.strength;
+        }
+
+        if ((obj.influence!.transform.target ?? 'foreground') !== 'foreground') {
+          transforms.push(this.createInfluenceTransform(obj, strength));
+        }
+      }
+
+      const tilemaps = this.layerTilemaps.get(layer) || [];
+      for (let t = Math.max(0, firstObject - objectsOnLayer.length); t < tilemaps.length; t++) {
+        const tilemap = tilemaps[t];
+        const own = tilemap.backgroundColorRGB;
+        if (own && tilemap.getCell(x, y) !== null) {
+          base = { r: own[0], g: own[1], b: own[2], color: tilemap.backgroundColor };
+          break layerLoop;
+        }
+      }
+    }
+
+    if (transforms.length === 0) {
+      return base;
+    }
+    return this.applyTransforms(base.r, base.g, base.b, transforms);
+  }
+
+  /**
+   * Creates the transform for a layer effect at one cell (null if the cell is unaffected).
+   */
+  private createLayerTransform(
+    layer: number,
+    effect: LayerEffect,
+    x: number,
+    y: number,
+    viewport: Viewport
+  ): ColorTransform | null {
+    if (effect.gradient) {
+      return this.getGradientTransform(layer, effect, x, y, viewport);
+    }
+    const rgb = this.layerEffectRGBs.get(layer)!;
+    return {
+      tR: rgb[0], tG: rgb[1], tB: rgb[2],
+      type: effect.type,
+      strength: effect.strength,
+      darkenFactor: effect.darkenFactor,
+    };
+  }
+
+  /**
+   * Creates the transform for an object's influence at the given strength.
+   */
+  private createInfluenceTransform(obj: AsciiObject, strength: number): ColorTransform {
+    const type = obj.influence!.transform.type;
+    const targetRGB = this.getInfluenceTargetRGB(obj, type);
+    return {
+      tR: targetRGB[0], tG: targetRGB[1], tB: targetRGB[2],
+      type,
+      strength,
+      darkenFactor: obj.influence!.transform.darkenFactor,
+    };
+  }
+
+  /**
+   * Applies collected transforms to a color, lowest (last collected) first.
+   */
+  private applyTransforms(r: number, g: number, b: number, transforms: ColorTransform[]): ChannelColor {
+    for (let j = transforms.length - 1; j >= 0; j--) {
+      const result = this.applyTransformRGB(r, g, b, transforms[j]);
+      r = result[0]; g = result[1]; b = result[2];
+    }
+    return { r, g, b, color: null };
+  }
+
+  /**
+   * Resolves a gradient layer effect to the transform for one cell.
+   *
+   * @param layer - Layer number (for the resolved stops)
+   * @param effect - Layer effect with a gradient
+   * @param x - World X coordinate
+   * @param y - World Y coordinate
+   * @param viewport - Viewport being rendered (origin for viewport-anchored gradients)
+   * @returns Transform for the cell, or null if its strength is zero
+   */
+  private getGradientTransform(
+    layer: number,
+    effect: LayerEffect,
+    x: number,
+    y: number,
+    viewport: Viewport
+  ): ColorTransform | null {
+    const gradient = effect.gradient!;
+    const px = gradient.anchor === 'world' ? x : x - viewport.x;
+    const py = gradient.anchor === 'world' ? y : y - viewport.y;
+
+    // Position along the gradient: 0 at the start/center, 1 at the end/edge
+    let t: number;
+    if (gradient.kind === 'linear') {
+      const dx = gradient.to.x - gradient.from.x;
+      const dy = gradient.to.y - gradient.from.y;
+      t = ((px - gradient.from.x) * dx + (py - gradient.from.y) * dy) / (dx * dx + dy * dy);
+    } else {
+      const ex = (px - gradient.center.x) / gradient.radius;
+      const ey = (py - gradient.center.y) / (gradient.radiusY ?? gradient.radius);
+      t = Math.sqrt(ex * ex + ey * ey);
     }
-    let fR = wR, fG = wG, fB = wB;
-    for (let j = transformsToApply.length - 1; j >= 0; j--) {
-      const result = this.applyTransformRGB(fR, fG, fB, transformsToApply[j]);
-      fR = result[0]; fG = result[1]; fB = result[2];
+    t = GRADIENT_CURVES[gradient.curve ?? 'linear'](Math.max(0, Math.min(1, t)));
+
+    // Interpolate between the surrounding stops (clamped to the first and last)
+    const stops = this.layerGradientStops.get(layer)!;
+    let tR: number, tG: number, tB: number, stopStrength: number;
+    const last = stops[stops.length - 1];
+    if (t <= stops[0].offset) {
+      ({ r: tR, g: tG, b: tB, strength: stopStrength } = stops[0]);
+    } else if (t >= last.offset) {
+      ({ r: tR, g: tG, b: tB, strength: stopStrength } = last);
+    } else {
+      let i = 1;
+      while (stops[i].offset < t) i++;
+      const a = stops[i - 1];
+      const b = stops[i];
+      const f = (t - a.offset) / (b.offset - a.offset);
+      tR = Math.round(a.r + (b.r - a.r) * f);
+      tG = Math.round(a.g + (b.g - a.g) * f);
+      tB = Math.round(a.b + (b.b - a.b) * f);
+      stopStrength = a.strength + (b.strength - a.strength) * f;
     }
-    return { char: ' ', color: rgbToHex([fR, fG, fB]) };
+
+    const strength = effect.strength * stopStrength;
+    if (strength <= 0) {
+      return null;
+    }
+    return { tR, tG, tB, type: effect.type, strength, darkenFactor: effect.darkenFactor };
   }
 
   /**
@@ -588,12 +2325,7 @@ export class Compositor {
    */
   private applyTransformRGB(
     r1: number, g1: number, b1: number,
-    transform: {
-      tR: number; tG: number; tB: number;
-      type: 'lighten' | 'darken' | 'multiply' | 'multiply-darken';
-      strength: number;
-      darkenFactor?: number;
-    }
+    transform: ColorTransform
   ): RGB {
     if (transform.type === 'lighten' || transform.type === 'darken') {
       const t = Math.max(0, Math.min(1, transform.strength));
@@ -604,6 +2336,17 @@ export class Compositor {
       ];
     }
 
+    if (transform.type !== 'multiply' && transform.type !== 'multiply-darken') {
+      // Separable blend modes: blend each channel, then mix by strength
+      const blend = BLEND_FUNCTIONS[transform.type];
+      const t = transform.strength;
+      return [
+        Math.round(r1 + (blend(r1 / 255, transform.tR / 255) * 255 - r1) * t),
+        Math.round(g1 + (blend(g1 / 255, transform.tG / 255) * 255 - g1) * t),
+        Math.round(b1 + (blend(b1 / 255, transform.tB / 255) * 255 - b1) * t),
+      ];
+    }
+
     // Multiply
     let mr = transform.tR, mg = transform.tG, mb = transform.tB;
     if (transform.type === 'multiply-darken') {
@@ -638,7 +2381,81 @@ export class Compositor {
   }
 
   /**
-   * Returns all unique layer numbers sorted ascending.
+   * Moves an object to just before another in insertion order (or to the end for null)
+   * and marks its bounds dirty. Insertion order breaks zIndex ties and is serialized.
+   */
+  private moveInOrder(obj: AsciiObject, before: AsciiObject | null): void {
+    if (before === obj) {
+      return;
+    }
+    const ordered = Array.from(this.objects.values()).filter(other => other !== obj);
+    ordered.splice(before ? ordered.indexOf(before) : ordered.length, 0, obj);
+    this.objects = new Map(ordered.map(other => [other.id, other]));
+
+    this.dirtyRegions.push(obj.getBounds());
+    this.emit('invalidated', { bounds: { ...obj.getBounds() } });
+  }
+
+  /**
+   * Returns true if an object is hidden by its own flag, its layer or a group.
+   */
+  private isHidden(obj: AsciiObject): boolean {
+    if (!obj.visible || !this.isLayerShown(obj.layer)) {
+      return true;
+    }
+    const parent = Group.parentOf(obj);
+    return parent !== null && !parent.isVisible();
+  }
+
+  /**
+   * Applies a layer visibility or solo change: re-evaluates every object and, since
+   * layer effects and tilemaps may cover the whole viewport, re-renders everything if any exist.
+   */
+  private refreshLayers(): void {
+    for (const obj of this.objects.values()) {
+      this.refreshVisibility(obj);
+    }
+    if (this.layerEffects.size > 0 || this.tilemaps.size > 0) {
+      this.fullyDirty = true;
+      this.emit('invalidated', { bounds: null });
+    }
+  }
+
+  /**
+   * Moves an object in or out of the spatial index when its effective visibility changed,
+   * marking its bounds dirty. Emits 'invalidated' if it changed.
+   */
+  private refreshVisibility(obj: AsciiObject): void {
+    const hidden = this.isHidden(obj);
+    if (hidden === this.hiddenObjects.has(obj)) {
+      return;
+    }
+
+    if (hidden) {
+      this.hiddenObjects.add(obj);
+      this.spatialIndex.remove(obj);
+    } else {
+      this.hiddenObjects.delete(obj);
+      this.spatialIndex.insert(obj, obj.getBounds());
+    }
+    this.dirtyRegions.push(obj.getBounds());
+    this.emit('invalidated', { bounds: { ...obj.getBounds() } });
+  }
+
+  /**
+   * Returns true if a group's root group was added to this compositor.
+   */
+  private isInScene(group: Group): boolean {
+    let root = group;
+    for (let parent = Group.parentOf(root); parent; parent = Group.parentOf(root)) {
+      root = parent;
+    }
+    return this.groups.get(root.id) === root;
+  }
+
+  /**
+   * Returns all unique shown layer numbers sorted ascending.
+   * Hidden layers are left out, so their effects are not applied.
    */
   private getSortedLayers(): number[] {
     const layers = new Set<number>();
@@ -650,12 +2467,109 @@ export class Compositor {
     for (const layer of this.layerEffects.keys()) {
       layers.add(layer);
     }
-    return Array.from(layers).sort((a, b) => a - b);
+    // Include layers with tilemaps
+    for (const tilemap of this.tilemaps.values()) {
+      layers.add(tilemap.layer);
+    }
+    return Array.from(layers)
+      .filter(layer => this.isLayerShown(layer))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Creates a per-cell lookup of layer -> candidate objects for a single render pass.
+   *
+   * Candidates come from the spatial index bucket containing the cell, so each cell only
+   * tests objects whose bounds are nearby. Per-bucket maps are built once and memoized;
+   * within a layer, objects keep getObjectsOnLayer() order (zIndex, then first-added-wins).
+   *
+   * @param layers - Sorted layer numbers (ascending)
+   * @returns Lookup function from world coordinates to layer -> objects map
+   */
+  private createLayerObjectsLookup(layers: number[]): (x: number, y: number) => Map<number, AsciiObject[]> {
+    // Rank objects by render priority so bucket contents can be re-ordered cheaply
+    const ranks = new Map<AsciiObject, number>();
+    for (const layer of layers) {
+      const objects = this.getObjectsOnLayer(layer);
+      for (let i = 0; i < objects.length; i++) {
+        ranks.set(objects[i], i);
+      }
+    }
+
+    const index = this.spatialIndex;
+    const empty = new Map<number, AsciiObject[]>();
+    const bucketCaches = new Map<string, Map<number, AsciiObject[]>>();
+    let lastBX = NaN;
+    let lastBY = NaN;
+    let lastCache = empty;
+
+    return (x: number, y: number) => {
+      const bx = index.toBucket(x);
+      const by = index.toBucket(y);
+      if (bx === lastBX && by === lastBY) {
+        return lastCache;
+      }
+      lastBX = bx;
+      lastBY = by;
+
+      const key = `${bx},${by}`;
+      let cache = bucketCaches.get(key);
+      if (!cache) {
+        cache = empty;
+        const bucket = index.getBucket(bx, by);
+        if (bucket) {
+          cache = new Map();
+          for (const obj of bucket) {
+            let objects = cache.get(obj.layer);
+            if (!objects) {
+              objects = [];
+              cache.set(obj.layer, objects);
+            }
+            objects.push(obj);
+          }
+          for (const objects of cache.values()) {
+            objects.sort((a, b) => ranks.get(a)! - ranks.get(b)!);
+          }
+        }
+        bucketCaches.set(key, cache);
+      }
+
+      lastCache = cache;
+      return cache;
+    };
+  }
+
+  /**
+   * Returns the content character an object shows at a local cell, or null if the cell
+   * is outside its content, transparent, or a glass-pane space (renderCell's hit rules).
+   */
+  private getHitChar(obj: AsciiObject, localX: number, localY: number): string | null {
+    const cell = obj.content[localY]?.[localX] ?? null;
+    if (cell === null || (cell === ' ' && obj.influence)) {
+      return null;
+    }
+    return cell;
+  }
+
+  /**
+   * Sorts objects by render priority: higher layers first, then higher zIndex, then first-added.
+   */
+  private sortByRenderOrder(objects: AsciiObject[]): AsciiObject[] {
+    if (objects.length < 2) {
+      return objects;
+    }
+    const ranks = new Map<AsciiObject, number>();
+    let rank = 0;
+    for (const obj of this.objects.values()) {
+      ranks.set(obj, rank++);
+    }
+    return objects.sort((a, b) => b.layer - a.layer || b.zIndex - a.zIndex || ranks.get(a)! - ranks.get(b)!);
   }
 
   /**
    * Returns all objects on a specific layer.
-   * Objects are returned in insertion order (first-added-wins for same-layer overlaps).
+   * Objects are returned in render priority: higher zIndex first, then insertion order
+   * (first-added-wins for same-layer overlaps).
    */
   private getObjectsOnLayer(layer: number): AsciiObject[] {
     const objects: AsciiObject[] = [];
@@ -664,7 +2578,8 @@ export class Compositor {
         objects.push(obj);
       }
     }
-    return objects;
+    // Array.prototype.sort is stable, so equal zIndex keeps insertion order
+    return objects.sort((a, b) => b.zIndex - a.zIndex);
   }
 
   /**
@@ -675,9 +2590,148 @@ export class Compositor {
   }
 
   /**
-   * Checks if two viewports are equal.
+   * Validates a layer effect gradient.
+   *
+   * @throws {Error} If kind, anchor or curve is unknown
+   * @throws {Error} If a linear gradient's from and to are the same point
+   * @throws {Error} If a radial gradient's radius or radiusY is not positive
+   * @throws {Error} If there are no stops, offsets are out of order or outside 0.0 to 1.0,
+   *   or a stop has an invalid color or strength
+   */
+  private validateGradient(gradient: LayerGradient): void {
+    if (gradient.kind === 'linear') {
+      if (gradient.from.x === gradient.to.x && gradient.from.y === gradient.to.y) {
+        throw new Error('Linear gradient from and to must be different points');
+      }
+    } else if (gradient.kind === 'radial') {
+      if (!(gradient.radius > 0) || (gradient.radiusY !== undefined && !(gradient.radiusY > 0))) {
+        throw new Error('Gradient radius must be positive');
+      }
+    } else {
+      throw new Error(`Invalid gradient kind: ${(gradient as { kind: string }).kind}`);
+    }
+
+    if (gradient.anchor !== undefined && gradient.anchor !== 'world' && gradient.anchor !== 'viewport') {
+      throw new Error(`Invalid gradient anchor: ${gradient.anchor}`);
+    }
+
+    if (gradient.curve !== undefined && !Object.keys(GRADIENT_CURVES).includes(gradient.curve)) {
+      throw new Error(`Invalid gradient curve: ${gradient.curve}`);
+    }
+
+    if (!Array.isArray(gradient.stops) || gradient.stops.length === 0) {
+      throw new Error('Gradient requires at least one stop');
+    }
+
+    let previousOffset = 0;
+    for (const stop of gradient.stops) {
+      if (!(stop.offset >= previousOffset && stop.offset <= 1)) {
+        throw new Error('Gradient stop offsets must be ascending between 0.0 and 1.0');
+      }
+      previousOffset = stop.offset;
+
+      if (stop.color !== undefined && !this.isValidColor(stop.color)) {
+        throw new Error('Invalid color format: must be #RRGGBB');
+      }
+      if (stop.strength !== undefined && !(stop.strength >= 0 && stop.strength <= 1)) {
+        throw new Error('Gradient stop strength must be between 0.0 and 1.0');
+      }
+    }
+  }
+
+  /**
+   * Hands pending invalidation to the cached viewports: a full invalidation marks every
+   * cache fully dirty, and each dirty region goes only to the caches whose viewport it
+   * intersects (widened by the wide glyph margin used in toViewportRegions).
+   */
+  private distributeDirtyRegions(): void {
+    const margin = this.widesActive ? 1 : 0;
+
+    for (const cache of this.viewportCaches.values()) {
+      if (this.fullyDirty) {
+        cache.fullyDirty = true;
+      }
+      if (cache.fullyDirty) {
+        cache.dirtyRegions = [];
+        continue;
+      }
+
+      const vp = cache.viewport;
+      for (const b of this.dirtyRegions) {
+        if (
+          b.maxX + margin >= vp.x && b.minX - margin < vp.x + vp.width &&
+          b.maxY >= vp.y && b.minY < vp.y + vp.height
+        ) {
+          cache.dirtyRegions.push(b);
+        }
+      }
+
+      // Caches that are rarely rendered would otherwise collect regions without bound
+      if (cache.dirtyRegions.length > MAX_PENDING_REGIONS) {
+        cache.fullyDirty = true;
+        cache.dirtyRegions = [];
+      }
+    }
+
+    this.fullyDirty = false;
+    this.dirtyRegions = [];
+  }
+
+  /**
+   * Marks a region of a tilemap's grid area dirty. Along wrapped axes the region repeats,
+   * so every copy that appears in a cached viewport is marked (everything, if too many).
+   */
+  private markTilemapRegion(tilemap: Tilemap, region: Bounds): void {
+    if (tilemap.wrap === 'none') {
+      this.dirtyRegions.push(region);
+      return;
+    }
+
+    const periodX = tilemap.wrap === 'y' ? 0 : tilemap.columns * tilemap.tileWidth;
+    const periodY = tilemap.wrap === 'x' ? 0 : tilemap.rows * tilemap.tileHeight;
+    // Repeats within a viewport, widened by one column for wide glyph pairs
+    const repeats = (min: number, max: number, start: number, size: number, period: number): number[] => {
+      if (period === 0) {
+        return [0];
+      }
+      const shifts: number[] = [];
+      for (let k = Math.ceil((start - 1 - max) / period); k * period + min <= start + size; k++) {
+        shifts.push(k * period);
+      }
+      return shifts;
+    };
+
+    let count = 0;
+    for (const { viewport: vp } of this.viewportCaches.values()) {
+      const shiftsX = repeats(region.minX, region.maxX, vp.x, vp.width, periodX);
+      const shiftsY = repeats(region.minY, region.maxY, vp.y, vp.height, periodY);
+      count += shiftsX.length * shiftsY.length;
+      if (count > MAX_PENDING_REGIONS) {
+        this.fullyDirty = true;
+        return;
+      }
+      for (const dy of shiftsY) {
+        for (const dx of shiftsX) {
+          this.dirtyRegions.push({
+            minX: region.minX + dx,
+            minY: region.minY + dy,
+            maxX: region.maxX + dx,
+            maxY: region.maxY + dy,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Drops the least recently rendered viewport caches beyond the cache size.
    */
-  private viewportsEqual(a: Viewport, b: Viewport): boolean {
-    return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+  private evictViewportCaches(): void {
+    for (const key of this.viewportCaches.keys()) {
+      if (this.viewportCaches.size <= this.viewportCacheSize) {
+        break;
+      }
+      this.viewportCaches.delete(key);
+    }
   }
 }
@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'vitest';
+import { EventEmitter } from './EventEmitter';
+
+interface TestEvents {
+  ping: { value: number };
+  pong: { text: string };
+}
+
+class TestEmitter extends EventEmitter<TestEvents> {
+  send<K extends keyof TestEvents>(type: K, event: TestEvents[K]): void {
+    this.emit(type, event);
+  }
+
+  listening(type: keyof TestEvents): boolean {
+    return this.hasListeners(type);
+  }
+}
+
+describe('EventEmitter', () => {
+  test('calls listeners of the emitted type in subscription order', () => {
+    const emitter = new TestEmitter();
+    const calls: string[] = [];
+    emitter.on('ping', e => calls.push(`a${e.value}`));
+    emitter.on('ping', e => calls.push(`b${e.value}`));
+    emitter.on('pong', e => calls.push(e.text));
+
+    emitter.send('ping', { value: 1 });
+
+    expect(calls).toEqual(['a1', 'b1']);
+  });
+
+  test('unsubscribes with off() or the returned function', () => {
+    const emitter = new TestEmitter();
+    const calls: number[] = [];
+    const first = (e: { value: number }) => calls.push(e.value);
+    emitter.on('ping', first);
+    const unsubscribe = emitter.on('ping', e => calls.push(e.value * 10));
+
+    emitter.off('ping', first);
+    emitter.send('ping', { value: 1 });
+    unsubscribe();
+    emitter.send('ping', { value: 2 });
+
+    expect(calls).toEqual([10]);
+    expect(emitter.listening('ping')).toBe(false);
+  });
+
+  test('ignores duplicate subscriptions', () => {
+    const emitter = new TestEmitter();
+    let count = 0;
+    const listener = () => count++;
+    emitter.on('ping', listener);
+    emitter.on('ping', listener);
+
+    emitter.send('ping', { value: 0 });
+
+    expect(count).toBe(1);
+  });
+
+  test('changes made during emission apply from the next emission', () => {
+    const emitter = new TestEmitter();
+    const calls: string[] = [];
+    const late = () => calls.push('late');
+    const unsubscribe = emitter.on('ping', () => {
+      calls.push('once');
+      unsubscribe();
+      emitter.on('ping', late);
+    });
+
+    emitter.send('ping', { value: 0 });
+    emitter.send('ping', { value: 0 });
+
+    expect(calls).toEqual(['once', 'late']);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * EventEmitter - Minimal typed event emitter
+ *
+ * Base class for scene types that notify observers of changes. Listeners run
+ * synchronously, in subscription order, when the change happens.
+ *
+ * @module @ascii-art-studio/compositor
+ */
+
+/** Event listener */
+export type Listener<T> = (event: T) => void;
+
+/**
+ * Typed event emitter keyed by an event map.
+ *
+ * @example
+ * ```typescript
+ * class Counter extends EventEmitter<{ change: { value: number } }> {
+ *   private value = 0;
+ *   increment(): void {
+ *     this.emit('change', { value: ++this.value });
+ *   }
+ * }
+ *
+ * const counter = new Counter();
+ * const unsubscribe = counter.on('change', e => console.log(e.value));
+ * counter.increment(); // logs 1
+ * unsubscribe();
+ * ```
+ */
+export class EventEmitter<Events extends object> {
+  /** Listeners per event type (created on first subscription) */
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /**
+   * Subscribes to an event. Adding the same listener twice has no effect.
+   *
+   * @param type - Event type
+   * @param listener - Called with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners[type];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[type] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Unsubscribes from an event. No-op if the listener is not subscribed.
+   *
+   * @param type - Event type
+   * @param listener - Listener passed to on()
+   */
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    this.listeners[type]?.delete(listener);
+  }
+
+  /**
+   * Returns true if an event type has listeners (lets emitters skip building payloads).
+   */
+  protected hasListeners<K extends keyof Events>(type: K): boolean {
+    return (this.listeners[type]?.size ?? 0) > 0;
+  }
+
+  /**
+   * Calls every listener of an event type. Listeners added or removed during
+   * emission take effect from the next emission; a throwing listener propagates.
+   *
+   * @param type - Event type
+   * @param event - Event payload
+   */
+  protected emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    const listeners = this.listeners[type];
+    if (!listeners || listeners.size === 0) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      listener(event);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, test, expect } from 'vitest';
+import { Group } from './Group';
+import { AsciiObject, type AsciiObjectOptions } from './AsciiObject';
+
+function part(id: string, options: Partial<AsciiObjectOptions> = {}): AsciiObject {
+  return new AsciiObject({ id, content: ['#'], position: { x: 0, y: 0 }, ...options });
+}
+
+describe('Group', () => {
+  test('places children relative to the group and moves them together', () => {
+    const head = part('head', { position: { x: 1, y: 0 } });
+    const body = part('body', { content: ['/|\\'], position: { x: 0, y: 1 } });
+    const group = new Group({ id: 'hero', position: { x: 10, y: 5 }, children: [head, body] });
+
+    expect(head.position).toEqual({ x: 11, y: 5 });
+    expect(body.position).toEqual({ x: 10, y: 6 });
+
+    group.setPosition(20, 0);
+
+    expect(head.position).toEqual({ x: 21, y: 0 });
+    expect(body.position).toEqual({ x: 20, y: 1 });
+    expect(group.getLocalPosition(head)).toEqual({ x: 1, y: 0 });
+    expect(group.getBounds()).toEqual({ minX: 20, minY: 0, maxX: 22, maxY: 1 });
+  });
+
+  test('nested groups accumulate positions and layer offsets', () => {
+    const eye = part('eye', { position: { x: 1, y: 1 }, layer: 1 });
+    const face = new Group({ id: 'face', position: { x: 2, y: 0 }, layerOffset: 1, children: [eye] });
+    const hero = new Group({ id: 'hero', position: { x: 10, y: 10 }, layerOffset: 2, children: [face] });
+
+    expect(eye.position).toEqual({ x: 13, y: 11 });
+    expect(eye.layer).toBe(4);
+    expect(face.getWorldPosition()).toEqual({ x: 12, y: 10 });
+
+    hero.setLayerOffset(5);
+    face.setPosition(0, 0);
+
+    expect(eye.layer).toBe(7);
+    expect(eye.position).toEqual({ x: 11, y: 11 });
+    expect(hero.getObjects()).toEqual([eye]);
+    expect(Group.parentOf(eye)).toBe(face);
+    expect(Group.parentOf(face)).toBe(hero);
+  });
+
+  test('moving or re-layering a grouped object directly updates its relative state', () => {
+    const obj = part('a', { position: { x: 1, y: 1 } });
+    const group = new Group({ id: 'g', position: { x: 10, y: 10 }, layerOffset: 2, children: [obj] });
+
+    obj.setPosition(15, 12);
+    obj.setLayer(3);
+    group.setPosition(0, 0);
+
+    expect(group.getLocalPosition(obj)).toEqual({ x: 5, y: 2 });
+    expect(obj.position).toEqual({ x: 5, y: 2 });
+    expect(obj.layer).toBe(3);
+
+    group.setLocalPosition(obj, 1, 1);
+    expect(obj.position).toEqual({ x: 1, y: 1 });
+  });
+
+  test('flip mirrors child positions within the group extent and flips contents', () => {
+    const left = part('left', { content: ['<-'], position: { x: 0, y: 0 } });
+    const right = part('right', { content: ['o'], position: { x: 4, y: 1 } });
+    const group = new Group({ id: 'g', position: { x: 10, y: 0 }, children: [left, right] });
+
+    group.flipHorizontalToggle(true);
+
+    expect(left.position).toEqual({ x: 13, y: 0 });
+    expect(left.content).toEqual([['-', '>']]);
+    expect(right.position).toEqual({ x: 10, y: 1 });
+    expect(group.flipHorizontal).toBe(true);
+
+    group.flipVerticalToggle();
+
+    expect(left.position).toEqual({ x: 13, y: 1 });
+    expect(right.position).toEqual({ x: 10, y: 0 });
+    expect(left.flipVertical).toBe(true);
+    expect(group.getBounds()).toEqual({ minX: 10, minY: 0, maxX: 14, maxY: 1 });
+  });
+
+  test('flip mirrors nested groups as a block', () => {
+    const a = part('a', { position: { x: 0, y: 0 } });
+    const b = part('b', { position: { x: 1, y: 0 } });
+    const inner = new Group({ id: 'inner', position: { x: 0, y: 0 }, children: [a, b] });
+    const c = part('c', { position: { x: 5, y: 0 } });
+    const outer = new Group({ id: 'outer', children: [inner, c] });
+
+    outer.flipHorizontalToggle();
+
+    expect(c.position.x).toBe(0);
+    expect(a.position.x).toBe(5);
+    expect(b.position.x).toBe(4);
+    expect(inner.flipHorizontal).toBe(true);
+  });
+
+  test('removed children keep their world placement', () => {
+    const obj = part('a', { position: { x: 1, y: 0 } });
+    const inner = new Group({ id: 'inner', position: { x: 1, y: 1 }, layerOffset: 1, children: [obj] });
+    const outer = new Group({ id: 'outer', position: { x: 10, y: 10 }, layerOffset: 1, children: [inner] });
+
+    outer.remove(inner);
+
+    expect(Group.parentOf(inner)).toBeNull();
+    expect(inner.position).toEqual({ x: 11, y: 11 });
+    expect(inner.layerOffset).toBe(2);
+    expect(obj.position).toEqual({ x: 12, y: 11 });
+
+    inner.setPosition(0, 0);
+    expect(obj.position).toEqual({ x: 1, y: 0 });
+  });
+
+  test('visibility includes ancestors and events bubble up', () => {
+    const inner = new Group({ id: 'inner' });
+    const outer = new Group({ id: 'outer', children: [inner] });
+    const events: string[] = [];
+    outer.on('childAdded', e => events.push(`added ${e.child.id} to ${e.group.id}`));
+    outer.on('visibilityChanged', e => events.push(`${e.group.id} ${e.visible}`));
+
+    inner.add(part('a'));
+    outer.setVisible(false);
+    outer.setVisible(false);
+
+    expect(inner.isVisible()).toBe(false);
+    expect(inner.visible).toBe(true);
+    expect(events).toEqual(['added a to inner', 'outer false']);
+  });
+
+  test('validates structure and options', () => {
+    const obj = part('a');
+    const group = new Group({ id: 'g', children: [obj] });
+    const inner = new Group({ id: 'inner' });
+    group.add(inner);
+
+    expect(() => new Group({ id: 'other', children: [obj] })).toThrow('Node already belongs to a group');
+    expect(() => inner.add(group)).toThrow('Cannot add a group to itself or its descendants');
+    expect(() => inner.remove(obj)).toThrow("Node 'a' is not a child of group 'inner'");
+    expect(() => new Group({ id: 'x', layerOffset: 0.5 })).toThrow('Layer offset must be an integer');
+    expect(() => new Group({ id: '' })).toThrow('Invalid group: missing required fields (id)');
+  });
+});
@@ -0,0 +1,511 @@
+/**
+ * Group - Hierarchical scene graph node
+ *
+ * Holds AsciiObjects and nested groups with positions and layers relative to
+ * the group. The group drives its objects' world state, so the Compositor keeps
+ * rendering plain objects and picks up group changes through their dirty bounds.
+ *
+ * @module @ascii-art-studio/compositor
+ */
+
+import type { AsciiObject, AsciiObjectChangeEvent, Bounds, Position } from './AsciiObject';
+import { EventEmitter } from './EventEmitter';
+
+/** Node that can be placed in a group */
+export type SceneNode = AsciiObject | Group;
+
+/**
+ * Configuration for creating a Group
+ */
+export interface GroupOptions {
+  /** Unique group identifier */
+  id: string;
+  /** Position relative to the parent group (or world position for a root group) (default: 0, 0) */
+  position?: Position;
+  /** Added to the layers of all descendants (default: 0) */
+  layerOffset?: number;
+  /** Whether the group and its descendants are rendered (default: true) */
+  visible?: boolean;
+  /** Initial children (see Group.add) */
+  children?: SceneNode[];
+}
+
+/** Payload of Group 'childAdded' and 'childRemoved' events */
+export interface GroupChildEvent {
+  /** Group the child was added to or removed from */
+  group: Group;
+  /** Added or removed child */
+  child: SceneNode;
+}
+
+/** Payload of a Group 'visibilityChanged' event */
+export interface GroupVisibilityEvent {
+  /** Group whose own visible flag changed */
+  group: Group;
+  /** New visible flag */
+  visible: boolean;
+}
+
+/** Events emitted by Group (events of nested groups bubble up to their ancestors) */
+export interface GroupEvents {
+  childAdded: GroupChildEvent;
+  childRemoved: GroupChildEvent;
+  visibilityChanged: GroupVisibilityEvent;
+}
+
+/** Object state relative to its group */
+interface LocalTransform {
+  position: Position;
+  layer: number;
+}
+
+/** Parent of every grouped node */
+const parents = new WeakMap<SceneNode, Group>();
+
+/**
+ * Scene graph node that moves, layers, flips and hides its children as one.
+ *
+ * A child's world position is the sum of its ancestors' positions plus its own
+ * relative position; its world layer is its relative layer plus every ancestor's
+ * layer offset. Objects keep their world state in `position` and `layer`, so
+ * setting those directly on a grouped object updates its relative position or layer.
+ *
+ * @example
+ * ```typescript
+ * const hero = new Group({ id: 'hero', position: { x: 10, y: 5 }, layerOffset: 2 });
+ * hero.add(new AsciiObject({ id: 'head', content: ['o'], position: { x: 1, y: 0 } }));
+ * hero.add(new AsciiObject({ id: 'body', content: ['/|\\'], position: { x: 0, y: 1 } }));
+ * compositor.addGroup(hero);
+ *
+ * hero.setPosition(20, 5); // moves both parts
+ * hero.flipHorizontalToggle(true);
+ * ```
+ */
+export class Group extends EventEmitter<GroupEvents> {
+  /** Unique identifier */
+  public readonly id: string;
+
+  /** Position relative to the parent group (world position for a root group) */
+  public position: Position;
+
+  /** Added to the layers of all descendants */
+  public layerOffset: number;
+
+  /** Own visibility flag (see isVisible for the effective visibility) */
+  public visible: boolean;
+
+  /** True if the group is flipped horizontally */
+  public flipHorizontal: boolean = false;
+
+  /** True if the group is flipped vertically */
+  public flipVertical: boolean = false;
+
+  /** Children in insertion order */
+  private children: SceneNode[] = [];
+
+  /** Relative position and layer of each object child */
+  private locals: Map<AsciiObject, LocalTransform> = new Map();
+
+  /** True while the group writes world state into its objects */
+  private applying: boolean = false;
+
+  /** Keeps relative state in sync when an object child is moved or re-layered directly */
+  private readonly handleObjectChange = (event: AsciiObjectChangeEvent): void => {
+    if (this.applying || (event.property !== 'position' && event.property !== 'layer')) {
+      return;
+    }
+    const obj = event.object;
+    const origin = this.getWorldPosition();
+    this.locals.set(obj, {
+      position: { x: obj.position.x - origin.x, y: obj.position.y - origin.y },
+      layer: obj.layer - this.getWorldLayerOffset(),
+    });
+  };
+
+  /** Re-emits events of nested groups */
+  private readonly forwardChildAdded = (event: GroupChildEvent): void => this.emit('childAdded', event);
+  private readonly forwardChildRemoved = (event: GroupChildEvent): void => this.emit('childRemoved', event);
+  private readonly forwardVisibility = (event: GroupVisibilityEvent): void => this.emit('visibilityChanged', event);
+
+  /**
+   * Creates a new group.
+   *
+   * @param options - Group configuration
+   * @throws {Error} If id is missing
+   * @throws {Error} If layerOffset is not an integer
+   */
+  constructor(options: GroupOptions) {
+    super();
+
+    if (!options?.id) {
+      throw new Error('Invalid group: missing required fields (id)');
+    }
+
+    this.id = options.id;
+    this.position = { ...(options.position ?? { x: 0, y: 0 }) };
+    this.layerOffset = options.layerOffset ?? 0;
+    this.visible = options.visible ?? true;
+
+    if (!Number.isInteger(this.layerOffset)) {
+      throw new Error('Layer offset must be an integer');
+    }
+
+    for (const child of options.children ?? []) {
+      this.add(child);
+    }
+  }
+
+  /**
+   * Returns the group a node belongs to.
+   *
+   * @param node - Object or group
+   * @returns Parent group, or null if the node is not grouped
+   */
+  static parentOf(node: SceneNode): Group | null {
+    return parents.get(node) ?? null;
+  }
+
+  /**
+   * Adds a child. The child's current position and layer (or layer offset) are
+   * taken as relative to this group, and objects are moved into world space.
+   * Emits 'childAdded' first; if a listener throws (e.g. a Compositor rejecting a
+   * duplicate object ID), the child is detached unchanged and the error propagates.
+   *
+   * @param child - Object or group to add
+   * @throws {Error} If the child already belongs to a group
+   * @throws {Error} If the child is this group or one of its ancestors
+   */
+  add(child: SceneNode): void {
+    if (parents.has(child)) {
+      throw new Error('Node already belongs to a group');
+    }
+    for (let group: Group | null = this; group; group = Group.parentOf(group)) {
+      if (group === child) {
+        throw new Error('Cannot add a group to itself or its descendants');
+      }
+    }
+
+    this.children.push(child);
+    parents.set(child, this);
+    if (child instanceof Group) {
+      child.on('childAdded', this.forwardChildAdded);
+      child.on('childRemoved', this.forwardChildRemoved);
+      child.on('visibilityChanged', this.forwardVisibility);
+    } else {
+      this.locals.set(child, { position: { ...child.position }, layer: child.layer });
+      child.on('change', this.handleObjectChange);
+    }
+
+    try {
+      this.emit('childAdded', { group: this, child });
+    } catch (error) {
+      this.detach(child, false);
+      throw error;
+    }
+    this.applyTransform(child);
+  }
+
+  /**
+   * Removes a child. The child keeps its world position and layer; a removed group
+   * becomes a root group. Emits 'childRemoved'.
+   *
+   * @param child - Child object or group
+   * @throws {Error} If the node is not a child of this group
+   */
+  remove(child: SceneNode): void {
+    if (Group.parentOf(child) !== this) {
+      throw new Error(`Node '${child.id}' is not a child of group '${this.id}'`);
+    }
+    this.detach(child, true);
+    this.emit('childRemoved', { group: this, child });
+  }
+
+  /**
+   * Returns the direct children in insertion order.
+   */
+  getChildren(): SceneNode[] {
+    return [...this.children];
+  }
+
+  /**
+   * Returns all descendant objects, depth-first in insertion order.
+   */
+  getObjects(): AsciiObject[] {
+    const objects: AsciiObject[] = [];
+    for (const child of this.children) {
+      if (child instanceof Group) {
+        objects.push(...child.getObjects());
+      } else {
+        objects.push(child);
+      }
+    }
+    return objects;
+  }
+
+  /**
+   * Returns a child's position relative to this group.
+   *
+   * @param child - Child object or group
+   * @throws {Error} If the node is not a child of this group
+   */
+  getLocalPosition(child: SceneNode): Position {
+    if (Group.parentOf(child) !== this) {
+      throw new Error(`Node '${child.id}' is not a child of group '${this.id}'`);
+    }
+    return child instanceof Group ? { ...child.position } : { ...this.locals.get(child)!.position };
+  }
+
+  /**
+   * Sets a child's position relative to this group.
+   *
+   * @param child - Child object or group
+   * @param x - Relative x coordinate
+   * @param y - Relative y coordinate
+   * @throws {Error} If the node is not a child of this group
+   */
+  setLocalPosition(child: SceneNode, x: number, y: number): void {
+    if (Group.parentOf(child) !== this) {
+      throw new Error(`Node '${child.id}' is not a child of group '${this.id}'`);
+    }
+    if (child instanceof Group) {
+      child.setPosition(x, y);
+    } else {
+      this.locals.get(child)!.position = { x, y };
+      this.applyTransform(child);
+    }
+  }
+
+  /**
+   * Sets the group's position relative to its parent, moving all descendants.
+   *
+   * @param x - New x coordinate
+   * @param y - New y coordinate
+   */
+  setPosition(x: number, y: number): void {
+    this.position = { x, y };
+    this.applyTransform();
+  }
+
+  /**
+   * Sets the layer offset, re-layering all descendants.
+   *
+   * @param layerOffset - New layer offset
+   * @throws {Error} If layerOffset is not an integer
+   */
+  setLayerOffset(layerOffset: number): void {
+    if (!Number.isInteger(layerOffset)) {
+      throw new Error('Layer offset must be an integer');
+    }
+    this.layerOffset = layerOffset;
+    this.applyTransform();
+  }
+
+  /**
+   * Shows or hides the group and its descendants. Emits 'visibilityChanged' if the flag changed.
+   *
+   * @param visible - New visible flag
+   */
+  setVisible(visible: boolean): void {
+    if (this.visible === visible) {
+      return;
+    }
+    this.visible = visible;
+    this.emit('visibilityChanged', { group: this, visible });
+  }
+
+  /**
+   * Returns true if this group and all its ancestors are visible.
+   */
+  isVisible(): boolean {
+    for (let group: Group | null = this; group; group = Group.parentOf(group)) {
+      if (!group.visible) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Returns the group's origin in world coordinates.
+   */
+  getWorldPosition(): Position {
+    const parent = Group.parentOf(this);
+    if (!parent) {
+      return { ...this.position };
+    }
+    const origin = parent.getWorldPosition();
+    return { x: origin.x + this.position.x, y: origin.y + this.position.y };
+  }
+
+  /**
+   * Returns the union of all descendant object bounds (including influence).
+   *
+   * @returns World bounds, or null if the group has no objects
+   */
+  getBounds(): Bounds | null {
+    let bounds: Bounds | null = null;
+    for (const obj of this.getObjects()) {
+      const b = obj.getBounds();
+      bounds = bounds
+        ? {
+            minX: Math.min(bounds.minX, b.minX),
+            minY: Math.min(bounds.minY, b.minY),
+            maxX: Math.max(bounds.maxX, b.maxX),
+            maxY: Math.max(bounds.maxY, b.maxY),
+          }
+        : { ...b };
+    }
+    return bounds;
+  }
+
+  /**
+   * Toggles horizontal flip of the whole group.
+   * Children are mirrored within the group's content extent (so the group keeps
+   * its footprint) and each object's content is flipped.
+   *
+   * @param mirrorChars - If true, applies character mirroring during flip (default: false)
+   */
+  flipHorizontalToggle(mirrorChars: boolean = false): void {
+    this.mirror('x', mirrorChars);
+    this.applyTransform();
+  }
+
+  /**
+   * Toggles vertical flip of the whole group.
+   * Children are mirrored within the group's content extent (so the group keeps
+   * its footprint) and each object's content is flipped.
+   *
+   * @param mirrorChars - If true, applies character mirroring during flip (default: false)
+   */
+  flipVerticalToggle(mirrorChars: boolean = false): void {
+    this.mirror('y', mirrorChars);
+    this.applyTransform();
+  }
+
+  /**
+   * Mirrors relative child positions within the group's extent along one axis, flips
+   * descendant content and toggles the flip flags. World state is applied by the caller.
+   */
+  private mirror(axis: 'x' | 'y', mirrorChars: boolean): void {
+    const extent = this.getLocalExtent();
+    const [min, max] = axis === 'x' ? ['minX', 'maxX'] as const : ['minY', 'maxY'] as const;
+
+    for (const child of this.children) {
+      if (child instanceof Group) {
+        const childExtent = child.getLocalExtent();
+        if (extent && childExtent) {
+          child.position[axis] = extent[min] + extent[max] - child.position[axis] - childExtent[max] - childExtent[min];
+        }
+        child.mirror(axis, mirrorChars);
+      } else {
+        const local = this.locals.get(child)!;
+        const size = axis === 'x' ? child.content[0].length : child.content.length;
+        local.position[axis] = extent![min] + extent![max] - local.position[axis] - size + 1;
+        if (axis === 'x') {
+          child.flipHorizontalToggle(mirrorChars);
+        } else {
+          child.flipVerticalToggle(mirrorChars);
+        }
+      }
+    }
+
+    if (axis === 'x') {
+      this.flipHorizontal = !this.flipHorizontal;
+    } else {
+      this.flipVertical = !this.flipVertical;
+    }
+  }
+
+  /**
+   * Returns the content extent of all descendants in this group's coordinates
+   * (influence excluded), or null if the group has no objects.
+   */
+  private getLocalExtent(): Bounds | null {
+    let extent: Bounds | null = null;
+    for (const child of this.children) {
+      let box: Bounds | null;
+      if (child instanceof Group) {
+        const childExtent = child.getLocalExtent();
+        box = childExtent && {
+          minX: child.position.x + childExtent.minX,
+          minY: child.position.y + childExtent.minY,
+          maxX: child.position.x + childExtent.maxX,
+          maxY: child.position.y + childExtent.maxY,
+        };
+      } else {
+        const { x, y } = this.locals.get(child)!.position;
+        box = { minX: x, minY: y, maxX: x + child.content[0].length - 1, maxY: y + child.content.length - 1 };
+      }
+      if (box) {
+        extent = extent
+          ? {
+              minX: Math.min(extent.minX, box.minX),
+              minY: Math.min(extent.minY, box.minY),
+              maxX: Math.max(extent.maxX, box.maxX),
+              maxY: Math.max(extent.maxY, box.maxY),
+            }
+          : box;
+      }
+    }
+    return extent;
+  }
+
+  /**
+   * Returns the sum of this group's and its ancestors' layer offsets.
+   */
+  private getWorldLayerOffset(): number {
+    const parent = Group.parentOf(this);
+    return this.layerOffset + (parent ? parent.getWorldLayerOffset() : 0);
+  }
+
+  /**
+   * Writes world position and layer into descendant objects (all children by default).
+   * Objects are only touched when their state actually changes, so unchanged objects stay clean.
+   */
+  private applyTransform(only?: SceneNode): void {
+    const origin = this.getWorldPosition();
+    const layerOffset = this.getWorldLayerOffset();
+
+    this.applying = true;
+    try {
+      for (const child of only ? [only] : this.children) {
+        if (child instanceof Group) {
+          child.applyTransform();
+          continue;
+        }
+        const local = this.locals.get(child)!;
+        const x = origin.x + local.position.x;
+        const y = origin.y + local.position.y;
+        if (child.position.x !== x || child.position.y !== y) {
+          child.setPosition(x, y);
+        }
+        if (child.layer !== layerOffset + local.layer) {
+          child.setLayer(layerOffset + local.layer);
+        }
+      }
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /**
+   * Unlinks a child. Objects keep their world state; a group keeps its world
+   * placement as a root if keepWorld is set, or its relative values otherwise.
+   */
+  private detach(child: SceneNode, keepWorld: boolean): void {
+    if (child instanceof Group) {
+      if (keepWorld) {
+        child.position = child.getWorldPosition();
+        child.layerOffset = child.getWorldLayerOffset();
+      }
+      child.off('childAdded', this.forwardChildAdded);
+      child.off('childRemoved', this.forwardChildRemoved);
+      child.off('visibilityChanged', this.forwardVisibility);
+    } else {
+      this.locals.delete(child);
+      child.off('change', this.handleObjectChange);
+    }
+    this.children.splice(this.children.indexOf(child), 1);
+    parents.delete(child);
+  }
+}
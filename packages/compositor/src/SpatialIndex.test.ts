@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import { SpatialIndex } from './SpatialIndex';
+
+describe('SpatialIndex', () => {
+  test('throws on invalid cell size', () => {
+    expect(() => new SpatialIndex(0)).toThrow('Spatial index cell size must be positive integer');
+    expect(() => new SpatialIndex(2.5)).toThrow('Spatial index cell size must be positive integer');
+  });
+
+  test('queryPoint returns items whose bounds contain the point', () => {
+    const index = new SpatialIndex<string>(4);
+    index.insert('a', { minX: 0, minY: 0, maxX: 2, maxY: 2 });
+    index.insert('b', { minX: 2, minY: 2, maxX: 5, maxY: 5 });
+
+    expect(index.queryPoint(1, 1)).toEqual(['a']);
+    expect(index.queryPoint(2, 2).sort()).toEqual(['a', 'b']);
+    expect(index.queryPoint(5, 5)).toEqual(['b']);
+    expect(index.queryPoint(3, 0)).toEqual([]);
+  });
+
+  test('supports negative coordinates', () => {
+    const index = new SpatialIndex<string>(4);
+    index.insert('a', { minX: -10, minY: -10, maxX: -6, maxY: -6 });
+
+    expect(index.queryPoint(-8, -7)).toEqual(['a']);
+    expect(index.queryPoint(0, 0)).toEqual([]);
+  });
+
+  test('queryRect returns each intersecting item once', () => {
+    const index = new SpatialIndex<string>(4);
+    index.insert('big', { minX: 0, minY: 0, maxX: 20, maxY: 20 });
+    index.insert('small', { minX: 30, minY: 30, maxX: 30, maxY: 30 });
+
+    expect(index.queryRect({ minX: 0, minY: 0, maxX: 12, maxY: 12 })).toEqual(['big']);
+    expect(index.queryRect({ minX: 25, minY: 25, maxX: 35, maxY: 35 })).toEqual(['small']);
+  });
+
+  test('update moves an item between buckets', () => {
+    const index = new SpatialIndex<string>(4);
+    index.insert('a', { minX: 0, minY: 0, maxX: 0, maxY: 0 });
+    index.update('a', { minX: 50, minY: 50, maxX: 50, maxY: 50 });
+
+    expect(index.queryPoint(0, 0)).toEqual([]);
+    expect(index.queryPoint(50, 50)).toEqual(['a']);
+    expect(index.getBucket(0, 0)).toBeUndefined();
+  });
+
+  test('remove drops an item from all buckets', () => {
+    const index = new SpatialIndex<string>(4);
+    index.insert('a', { minX: 0, minY: 0, maxX: 10, maxY: 10 });
+    index.remove('a');
+
+    expect(index.size).toBe(0);
+    expect(index.has('a')).toBe(false);
+    expect(index.queryRect({ minX: 0, minY: 0, maxX: 10, maxY: 10 })).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * SpatialIndex - Uniform grid index for fast bounds lookups
+ *
+ * Buckets items by the grid cells their bounding boxes overlap, so per-cell
+ * queries only need to test items near that cell instead of the whole scene.
+ *
+ * @module @ascii-art-studio/compositor
+ */
+
+import type { Bounds } from './AsciiObject';
+
+/** Default bucket size in world cells */
+export const DEFAULT_SPATIAL_CELL_SIZE = 16;
+
+/**
+ * Uniform grid spatial index.
+ *
+ * Each item is stored in every bucket its bounds overlap. Buckets are keyed by
+ * integer grid coordinates, so negative world coordinates are supported.
+ *
+ * @example
+ * ```typescript
+ * const index = new SpatialIndex<string>();
+ * index.insert('a', { minX: 0, minY: 0, maxX: 3, maxY: 3 });
+ * index.queryPoint(2, 2); // ['a']
+ * ```
+ */
+export class SpatialIndex<T> {
+  /** Bucket size in world cells */
+  public readonly cellSize: number;
+
+  /** Items per bucket, keyed by "bx,by" */
+  private buckets: Map<string, Set<T>> = new Map();
+
+  /** Bounds each item is currently indexed under */
+  private entries: Map<T, Bounds> = new Map();
+
+  /**
+   * Creates a new spatial index.
+   *
+   * @param cellSize - Bucket size in world cells (default: 16)
+   * @throws {Error} If cellSize is not a positive integer
+   */
+  constructor(cellSize: number = DEFAULT_SPATIAL_CELL_SIZE) {
+    if (cellSize <= 0 || !Number.isInteger(cellSize)) {
+      throw new Error('Spatial index cell size must be positive integer');
+    }
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Number of indexed items.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Adds an item with the given bounds.
+   * Re-inserting an existing item updates its bounds.
+   *
+   * @param item - Item to index
+   * @param bounds - Item bounds (inclusive)
+   */
+  insert(item: T, bounds: Bounds): void {
+    if (this.entries.has(item)) {
+      this.remove(item);
+    }
+
+    const stored = { ...bounds };
+    this.entries.set(item, stored);
+    this.forEachBucket(stored, key => {
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = new Set();
+        this.buckets.set(key, bucket);
+      }
+      bucket.add(item);
+    });
+  }
+
+  /**
+   * Updates an item's bounds. No-op if the bounds are unchanged.
+   *
+   * @param item - Indexed item
+   * @param bounds - New bounds (inclusive)
+   */
+  update(item: T, bounds: Bounds): void {
+    const current = this.entries.get(item);
+    if (
+      current &&
+      current.minX === bounds.minX &&
+      current.minY === bounds.minY &&
+      current.maxX === bounds.maxX &&
+      current.maxY === bounds.maxY
+    ) {
+      return;
+    }
+    this.insert(item, bounds);
+  }
+
+  /**
+   * Removes an item from the index. No-op if the item is not indexed.
+   *
+   * @param item - Item to remove
+   */
+  remove(item: T): void {
+    const bounds = this.entries.get(item);
+    if (!bounds) {
+      return;
+    }
+
+    this.forEachBucket(bounds, key => {
+      const bucket = this.buckets.get(key);
+      if (bucket) {
+        bucket.delete(item);
+        if (bucket.size === 0) {
+          this.buckets.delete(key);
+        }
+      }
+    });
+    this.entries.delete(item);
+  }
+
+  /**
+   * Returns true if the item is indexed.
+   */
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  /**
+   * Removes all items.
+   */
+  clear(): void {
+    this.buckets.clear();
+    this.entries.clear();
+  }
+
+  /**
+   * Returns the bucket coordinate containing a world coordinate.
+   *
+   * @param n - World coordinate (x or y)
+   * @returns Bucket coordinate
+   */
+  toBucket(n: number): number {
+    return Math.floor(n / this.cellSize);
+  }
+
+  /**
+   * Returns all items stored in a bucket (candidates, not exact hits).
+   *
+   * @param bx - Bucket x coordinate
+   * @param by - Bucket y coordinate
+   * @returns Items whose bounds overlap the bucket, or undefined if empty
+   */
+  getBucket(bx: number, by: number): ReadonlySet<T> | undefined {
+    return this.buckets.get(`${bx},${by}`);
+  }
+
+  /**
+   * Returns items whose bounds contain a point.
+   *
+   * @param x - World X coordinate
+   * @param y - World Y coordinate
+   * @returns Matching items
+   */
+  queryPoint(x: number, y: number): T[] {
+    const bucket = this.getBucket(this.toBucket(x), this.toBucket(y));
+    if (!bucket) {
+      return [];
+    }
+
+    const result: T[] = [];
+    for (const item of bucket) {
+      const b = this.entries.get(item)!;
+      if (x >= b.minX && x <= b.maxX && y >= b.minY && y <= b.maxY) {
+        result.push(item);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns items whose bounds intersect a rectangle.
+   *
+   * @param bounds - Query rectangle (inclusive)
+   * @returns Matching items (each item at most once)
+   */
+  queryRect(bounds: Bounds): T[] {
+    const seen = new Set<T>();
+    const result: T[] = [];
+
+    this.forEachBucket(bounds, key => {
+      const bucket = this.buckets.get(key);
+      if (!bucket) {
+        return;
+      }
+      for (const item of bucket) {
+        if (seen.has(item)) {
+          continue;
+        }
+        seen.add(item);
+        const b = this.entries.get(item)!;
+        if (b.minX <= bounds.maxX && b.maxX >= bounds.minX && b.minY <= bounds.maxY && b.maxY >= bounds.minY) {
+          result.push(item);
+        }
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Invokes callback with the key of every bucket a bounding box overlaps.
+   */
+  private forEachBucket(bounds: Bounds, callback: (key: string) => void): void {
+    const minBX = this.toBucket(bounds.minX);
+    const minBY = this.toBucket(bounds.minY);
+    const maxBX = this.toBucket(bounds.maxX);
+    const maxBY = this.toBucket(bounds.maxY);
+
+    for (let by = minBY; by <= maxBY; by++) {
+      for (let bx = minBX; bx <= maxBX; bx++) {
+        callback(`${bx},${by}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, test, expect } from 'vitest';
+import { Tilemap, type TilemapChangeEvent, type TilemapOptions } from './Tilemap';
+import { WIDE_CONTINUATION } from './unicode';
+
+function tilemap(options: Partial<TilemapOptions> = {}): Tilemap {
+  return new Tilemap({
+    id: 'floor',
+    tileset: [['ab', 'cd'], [['#', null], [null, '#']]],
+    grid: [[0, 1, null]],
+    ...options,
+  });
+}
+
+/** Reads a rect of world cells, '_' marking transparent ones */
+function cells(map: Tilemap, minX: number, minY: number, width: number, height: number): string[] {
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => map.getCell(minX + x, minY + y) ?? '_').join('')
+  );
+}
+
+describe('Tilemap', () => {
+  test('samples cells from the tileset without materializing the grid', () => {
+    const map = tilemap({ position: { x: 1, y: 1 } });
+
+    expect(map.tileWidth).toBe(2);
+    expect(map.tileHeight).toBe(2);
+    expect(map.getBounds()).toEqual({ minX: 1, minY: 1, maxX: 6, maxY: 2 });
+    expect(cells(map, 0, 0, 8, 4)).toEqual(['________', '_ab#____', '_cd_#___', '________']);
+  });
+
+  test('repeats the grid along wrapped axes, including negative coordinates', () => {
+    const map = tilemap({ grid: [[0, 1]], wrap: 'x' });
+    expect(cells(map, -4, -1, 8, 3)).toEqual(['________', 'ab#_ab#_', 'cd_#cd_#']);
+
+    const both = tilemap({ grid: [[0], [1]], wrap: 'both' });
+    expect(cells(both, 1_000_000, -5, 2, 4)).toEqual(['_#', 'ab', 'cd', '#_']);
+
+    const vertical = tilemap({ grid: [[0]], wrap: 'y' });
+    expect(cells(vertical, -1, 0, 4, 3)).toEqual(['_ab_', '_cd_', '_ab_']);
+  });
+
+  test('setTile changes one tile and marks only its cells dirty', () => {
+    const map = tilemap({ position: { x: 10, y: 0 } });
+    const events: TilemapChangeEvent[] = [];
+    map.on('change', event => events.push(event));
+    map.clearDirty();
+
+    map.setTile(2, 0, 0);
+
+    expect(map.getTile(2, 0)).toBe(0);
+    expect(cells(map, 14, 0, 2, 2)).toEqual(['ab', 'cd']);
+    expect(map.getDirtyRegions()).toEqual([{ minX: 14, minY: 0, maxX: 15, maxY: 1 }]);
+    expect(events).toEqual([{ tilemap: map, property: 'tile', bounds: { minX: 14, minY: 0, maxX: 15, maxY: 1 } }]);
+
+    map.clearDirty();
+    map.setPosition(0, 0);
+    expect(map.getDirtyRegions()).toEqual([
+      { minX: 10, minY: 0, maxX: 15, maxY: 1 },
+      { minX: 0, minY: 0, maxX: 5, maxY: 1 },
+    ]);
+    expect(events[1].bounds).toEqual({ minX: 0, minY: 0, maxX: 15, maxY: 1 });
+  });
+
+  test('many edits between renders collapse into one dirty region', () => {
+    const map = tilemap({ grid: [Array(100).fill(0)] });
+    map.clearDirty();
+
+    for (let column = 0; column < 100; column++) {
+      map.setTile(column, 0, 1);
+    }
+
+    expect(map.getDirtyRegions().length).toBeLessThan(100);
+    expect(map.getDirtyRegions()[0]).toEqual({ minX: 0, minY: 0, maxX: 129, maxY: 1 });
+  });
+
+  test('lays out wide glyphs in string tiles', () => {
+    const map = tilemap({ tileset: ['日.'], grid: [[0]] });
+    expect(map.tileset[0]).toEqual([['日', WIDE_CONTINUATION, '.']]);
+  });
+
+  test('round-trips through JSON', () => {
+    const map = tilemap({ color: '#FF0000', backgroundColor: '#101010', layer: -1, wrap: 'both', visible: false });
+    map.setTile(0, 0, null);
+
+    const restored = Tilemap.fromJSON(JSON.parse(JSON.stringify(map)));
+
+    expect(restored.toJSON()).toEqual(map.toJSON());
+    expect(restored.toJSON()).toMatchObject({ color: '#ff0000', grid: [[null, 1, null]], visible: false });
+  });
+
+  test('validates tileset, grid and edits', () => {
+    expect(() => tilemap({ tileset: [] })).toThrow('Tileset must contain at least one tile');
+    expect(() => tilemap({ tileset: ['ab', 'abc'] })).toThrow('Tiles must all have the same size');
+    expect(() => tilemap({ tileset: [['ab', 'a']] })).toThrow('Invalid tile format: rows have unequal lengths');
+    expect(() => tilemap({ grid: [] })).toThrow('Tile grid must be non-empty');
+    expect(() => tilemap({ grid: [[0], [0, 1]] })).toThrow('Invalid tile grid: rows have unequal lengths');
+    expect(() => tilemap({ grid: [[2]] })).toThrow('Invalid tile index: 2');
+    expect(() => tilemap({ wrap: 'diagonal' as never })).toThrow('Invalid tile wrap: diagonal');
+    expect(() => tilemap({ layer: 0.5 })).toThrow('Layer must be an integer');
+
+    const map = tilemap();
+    expect(() => map.setTile(3, 0, 0)).toThrow('Tile position (3, 0) is outside the grid');
+    expect(() => map.setTile(0, 0, -1)).toThrow('Invalid tile index: -1');
+    expect(() => map.setColor('red')).toThrow('Invalid color format: red. Expected #RRGGBB.');
+  });
+});
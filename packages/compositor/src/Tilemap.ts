@@ -0,0 +1,511 @@
+/**
+ * Tilemap - Grid of repeated tiles for large backgrounds
+ *
+ * References a small tileset of equally sized tiles and a grid of tile indices.
+ * The Compositor samples cells straight from the tileset, so the full content
+ * matrix is never materialized, and the grid can repeat endlessly along either
+ * axis. Editing a tile only invalidates that tile's cells.
+ *
+ * @module @ascii-art-studio/compositor
+ */
+
+import { type Bounds, type Cell, type Position, type RGB, parseHexColor } from './AsciiObject';
+import { EventEmitter } from './EventEmitter';
+import { textToCells } from './unicode';
+
+/**
+ * Axes along which the grid repeats:
+ * - 'none': the grid covers its own area only
+ * - 'x' / 'y': the grid repeats endlessly horizontally / vertically
+ * - 'both': the grid tiles the whole plane
+ */
+export type TileWrap = 'none' | 'x' | 'y' | 'both';
+
+/** All supported wrap modes (for validation) */
+export const TILE_WRAPS: readonly TileWrap[] = ['none', 'x', 'y', 'both'];
+
+/**
+ * Options for creating a Tilemap.
+ *
+ * @example
+ * ```typescript
+ * const floor = new Tilemap({
+ *   id: 'floor',
+ *   tileset: [['. '], ['~~']],
+ *   grid: [[0, 0, 1], [0, 1, 1]],
+ *   wrap: 'both',
+ *   color: '#404040',
+ *   layer: -1,
+ * });
+ * ```
+ */
+export interface TilemapOptions {
+  /** Unique identifier for the tilemap */
+  id: string;
+  /**
+   * Tiles, all of the same non-empty size. Each tile takes any AsciiObject content
+   * format (null = transparent, ' ' = opaque space).
+   */
+  tileset: Array<Cell[][] | string[] | string>;
+  /** Rows of indices into the tileset (null = empty tile, transparent) */
+  grid: (number | null)[][];
+  /** World position of the grid's top-left cell (default: 0, 0) */
+  position?: Position;
+  /** Hex color in #RRGGBB format (default: #000000) */
+  color?: string;
+  /** Background hex color of tile cells (default: null = shows the background beneath) */
+  backgroundColor?: string | null;
+  /** Layer number; tilemaps render beneath the objects on their layer (default: 0) */
+  layer?: number;
+  /** Axes along which the grid repeats (default: 'none') */
+  wrap?: TileWrap;
+  /** Whether the tilemap is rendered (default: true) */
+  visible?: boolean;
+}
+
+/**
+ * JSON-safe snapshot of a Tilemap (see Tilemap.toJSON).
+ */
+export interface SerializedTilemap {
+  id: string;
+  /** Normalized tiles */
+  tileset: Cell[][][];
+  grid: (number | null)[][];
+  position: Position;
+  color: string;
+  /** Background color; omitted when transparent */
+  backgroundColor?: string;
+  layer: number;
+  wrap: TileWrap;
+  /** Omitted when visible */
+  visible?: boolean;
+}
+
+/** Tilemap property changed by a mutator (see TilemapChangeEvent) */
+export type TilemapProperty = 'tile' | 'position' | 'color' | 'backgroundColor' | 'visible';
+
+/** Payload of a Tilemap 'change' event */
+export interface TilemapChangeEvent {
+  /** Tilemap that changed */
+  tilemap: Tilemap;
+  /** Property that changed */
+  property: TilemapProperty;
+  /**
+   * Changed cells of the grid's own area (before wrapping); a move covers the old and
+   * new area. Wrapped tilemaps repeat the change along their wrapped axes.
+   */
+  bounds: Bounds;
+}
+
+/** Events emitted by Tilemap */
+export interface TilemapEvents {
+  /** Emitted after every mutator call, once the tilemap is in its new state */
+  change: TilemapChangeEvent;
+}
+
+/** Pending dirty regions beyond which they collapse into their bounding box */
+const MAX_DIRTY_REGIONS = 64;
+
+/**
+ * Tiled background node for a Compositor (see Compositor.addTilemap).
+ *
+ * Tile cells render like opaque object content in the tilemap's colors. Tilemaps
+ * have no influence, opacity or zIndex, and are not hit-tested.
+ */
+export class Tilemap extends EventEmitter<TilemapEvents> {
+  /** Unique identifier */
+  public readonly id: string;
+
+  /** Normalized tiles (not mutated after creation) */
+  public readonly tileset: readonly Cell[][][];
+
+  /** Tile width in cells */
+  public readonly tileWidth: number;
+
+  /** Tile height in cells */
+  public readonly tileHeight: number;
+
+  /** Grid width in tiles */
+  public readonly columns: number;
+
+  /** Grid height in tiles */
+  public readonly rows: number;
+
+  /** Layer number */
+  public readonly layer: number;
+
+  /** Axes along which the grid repeats */
+  public readonly wrap: TileWrap;
+
+  /** World position of the grid's top-left cell */
+  public position: Position;
+
+  /** Hex color in #RRGGBB format */
+  public color: string;
+
+  /** Pre-parsed RGB tuple of color (kept in sync with color) */
+  public colorRGB: RGB;
+
+  /** Background hex color of tile cells (null = transparent) */
+  public backgroundColor: string | null;
+
+  /** Pre-parsed RGB tuple of backgroundColor (kept in sync with backgroundColor) */
+  public backgroundColorRGB: RGB | null;
+
+  /** Whether the tilemap is rendered */
+  public visible: boolean;
+
+  /** Tile indices */
+  private grid: (number | null)[][];
+
+  /** Regions changed since last render (grid area coordinates, before wrapping) */
+  private _dirtyRegions: Bounds[] = [];
+
+  /**
+   * Creates a new Tilemap.
+   *
+   * @param options - Tilemap configuration
+   * @throws {Error} If the tileset is empty or its tiles are empty or differ in size
+   * @throws {Error} If the grid is empty, its rows differ in length, or an index is invalid
+   * @throws {Error} If the layer, colors or wrap mode are invalid
+   */
+  constructor(options: TilemapOptions) {
+    super();
+
+    if (!options || !options.id || !options.tileset || !options.grid) {
+      const missing: string[] = [];
+      if (!options?.id) missing.push('id');
+      if (!options?.tileset) missing.push('tileset');
+      if (!options?.grid) missing.push('grid');
+      throw new Error(`Invalid tilemap: missing required fields (${missing.join(', ')})`);
+    }
+
+    if (!Array.isArray(options.tileset) || options.tileset.length === 0) {
+      throw new Error('Tileset must contain at least one tile');
+    }
+    const tileset = options.tileset.map(tile => this.normalizeTile(tile));
+    const tileWidth = tileset[0][0].length;
+    const tileHeight = tileset[0].length;
+    if (tileset.some(tile => tile.length !== tileHeight || tile[0].length !== tileWidth)) {
+      throw new Error('Tiles must all have the same size');
+    }
+
+    const grid = options.grid;
+    if (!Array.isArray(grid) || grid.length === 0 || !Array.isArray(grid[0]) || grid[0].length === 0) {
+      throw new Error('Tile grid must be non-empty');
+    }
+    if (grid.some(row => !Array.isArray(row) || row.length !== grid[0].length)) {
+      throw new Error('Invalid tile grid: rows have unequal lengths');
+    }
+
+    this.id = options.id;
+    this.tileset = tileset;
+    this.tileWidth = tileWidth;
+    this.tileHeight = tileHeight;
+    this.columns = grid[0].length;
+    this.rows = grid.length;
+    this.grid = grid.map(row => row.map(index => this.validateIndex(index)));
+    this.position = { ...(options.position ?? { x: 0, y: 0 }) };
+    this.color = (options.color || '#000000').toLowerCase();
+    this.backgroundColor = options.backgroundColor ? options.backgroundColor.toLowerCase() : null;
+    this.layer = options.layer ?? 0;
+    this.wrap = options.wrap ?? 'none';
+    this.visible = options.visible ?? true;
+
+    if (!Number.isInteger(this.layer)) {
+      throw new Error('Layer must be an integer');
+    }
+    if (!this.isValidColor(this.color)) {
+      throw new Error('Invalid color format: must be #RRGGBB');
+    }
+    if (this.backgroundColor !== null && !this.isValidColor(this.backgroundColor)) {
+      throw new Error('Invalid background color format: must be #RRGGBB');
+    }
+    if (!TILE_WRAPS.includes(this.wrap)) {
+      throw new Error(`Invalid tile wrap: ${this.wrap}`);
+    }
+    this.colorRGB = parseHexColor(this.color);
+    this.backgroundColorRGB = this.backgroundColor !== null ? parseHexColor(this.backgroundColor) : null;
+  }
+
+  /**
+   * Restores a tilemap from a serialized snapshot.
+   * Validates through the constructor, so invalid data throws the same errors.
+   *
+   * @param data - Serialized tilemap
+   * @returns New Tilemap
+   */
+  static fromJSON(data: SerializedTilemap): Tilemap {
+    return new Tilemap({
+      id: data?.id,
+      tileset: data?.tileset,
+      grid: data?.grid,
+      position: data?.position,
+      color: data?.color,
+      backgroundColor: data?.backgroundColor,
+      layer: data?.layer,
+      wrap: data?.wrap,
+      visible: data?.visible !== false,
+    });
+  }
+
+  /**
+   * Returns a JSON-safe snapshot of the tilemap's state.
+   * Called automatically by JSON.stringify.
+   *
+   * @returns Serialized tilemap (deep clone)
+   */
+  toJSON(): SerializedTilemap {
+    return {
+      id: this.id,
+      tileset: this.tileset.map(tile => tile.map(row => [...row])),
+      grid: this.grid.map(row => [...row]),
+      position: { ...this.position },
+      color: this.color,
+      ...(this.backgroundColor !== null && { backgroundColor: this.backgroundColor }),
+      layer: this.layer,
+      wrap: this.wrap,
+      ...(!this.visible && { visible: false }),
+    };
+  }
+
+  /**
+   * Returns the tile index at a grid position.
+   *
+   * @param column - Grid column
+   * @param row - Grid row
+   * @returns Tile index, or null for an empty tile
+   * @throws {Error} If the position is outside the grid
+   */
+  getTile(column: number, row: number): number | null {
+    this.validateGridPosition(column, row);
+    return this.grid[row][column];
+  }
+
+  /**
+   * Sets the tile at a grid position. Marks only that tile's cells dirty.
+   *
+   * @param column - Grid column
+   * @param row - Grid row
+   * @param index - Index into the tileset, or null for an empty tile
+   * @throws {Error} If the position is outside the grid or the index is invalid
+   */
+  setTile(column: number, row: number, index: number | null): void {
+    this.validateGridPosition(column, row);
+    this.grid[row][column] = this.validateIndex(index);
+
+    const minX = this.position.x + column * this.tileWidth;
+    const minY = this.position.y + row * this.tileHeight;
+    this.markDirty('tile', {
+      minX,
+      minY,
+      maxX: minX + this.tileWidth - 1,
+      maxY: minY + this.tileHeight - 1,
+    });
+  }
+
+  /**
+   * Moves the grid's top-left cell. Marks the old and new area dirty.
+   *
+   * @param x - New x coordinate
+   * @param y - New y coordinate
+   */
+  setPosition(x: number, y: number): void {
+    const oldBounds = this.getBounds();
+    this.position = { x, y };
+    const newBounds = this.getBounds();
+
+    this._dirtyRegions.push(oldBounds);
+    this.markDirty('position', {
+      minX: Math.min(oldBounds.minX, newBounds.minX),
+      minY: Math.min(oldBounds.minY, newBounds.minY),
+      maxX: Math.max(oldBounds.maxX, newBounds.maxX),
+      maxY: Math.max(oldBounds.maxY, newBounds.maxY),
+    }, newBounds);
+  }
+
+  /**
+   * Sets the tilemap's color. Marks its area dirty.
+   *
+   * @param color - New hex color (#RRGGBB)
+   */
+  setColor(color: string): void {
+    const normalizedColor = color.toLowerCase();
+    if (!this.isValidColor(normalizedColor)) {
+      throw new Error(`Invalid color format: ${color}. Expected #RRGGBB.`);
+    }
+    this.color = normalizedColor;
+    this.colorRGB = parseHexColor(normalizedColor);
+    this.markDirty('color', this.getBounds());
+  }
+
+  /**
+   * Sets the tilemap's background color. Marks its area dirty.
+   *
+   * @param color - New hex color (#RRGGBB), or null for a transparent background
+   */
+  setBackgroundColor(color: string | null): void {
+    const normalizedColor = color === null ? null : color.toLowerCase();
+    if (normalizedColor !== null && !this.isValidColor(normalizedColor)) {
+      throw new Error(`Invalid color format: ${color}. Expected #RRGGBB.`);
+    }
+    this.backgroundColor = normalizedColor;
+    this.backgroundColorRGB = normalizedColor === null ? null : parseHexColor(normalizedColor);
+    this.markDirty('backgroundColor', this.getBounds());
+  }
+
+  /**
+   * Shows or hides the tilemap. Marks its area dirty.
+   *
+   * @param visible - New visible flag
+   */
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.markDirty('visible', this.getBounds());
+  }
+
+  /**
+   * Returns the cell shown at a world position, or null if it is transparent or
+   * outside the grid (on axes that do not wrap).
+   *
+   * @param x - World X coordinate
+   * @param y - World Y coordinate
+   */
+  getCell(x: number, y: number): Cell {
+    const offsetX = x - this.position.x;
+    const offsetY = y - this.position.y;
+    let column = Math.floor(offsetX / this.tileWidth);
+    let row = Math.floor(offsetY / this.tileHeight);
+    const tileX = offsetX - column * this.tileWidth;
+    const tileY = offsetY - row * this.tileHeight;
+
+    if (this.wrap === 'x' || this.wrap === 'both') {
+      column = ((column % this.columns) + this.columns) % this.columns;
+    } else if (column < 0 || column >= this.columns) {
+      return null;
+    }
+    if (this.wrap === 'y' || this.wrap === 'both') {
+      row = ((row % this.rows) + this.rows) % this.rows;
+    } else if (row < 0 || row >= this.rows) {
+      return null;
+    }
+
+    const index = this.grid[row][column];
+    return index === null ? null : this.tileset[index][tileY]?.[tileX] ?? null;
+  }
+
+  /**
+   * Returns the grid's own area in world cells (one repetition for wrapped tilemaps).
+   */
+  getBounds(): Bounds {
+    return {
+      minX: this.position.x,
+      minY: this.position.y,
+      maxX: this.position.x + this.columns * this.tileWidth - 1,
+      maxY: this.position.y + this.rows * this.tileHeight - 1,
+    };
+  }
+
+  /**
+   * Checks if the tilemap has changed since last render.
+   *
+   * @returns True if the tilemap is dirty
+   */
+  isDirty(): boolean {
+    return this._dirtyRegions.length > 0;
+  }
+
+  /**
+   * Gets the regions changed since last clear, in grid area coordinates (before wrapping).
+   *
+   * @returns Dirty regions (empty if clean)
+   */
+  getDirtyRegions(): Bounds[] {
+    return this._dirtyRegions;
+  }
+
+  /**
+   * Clears dirty state after render.
+   * Called by Compositor after consuming dirty regions.
+   */
+  clearDirty(): void {
+    this._dirtyRegions = [];
+  }
+
+  /**
+   * Records a dirty region and emits a change event.
+   *
+   * @param property - Changed property
+   * @param bounds - Changed area reported by the event
+   * @param region - Region to mark dirty (default: bounds)
+   */
+  private markDirty(property: TilemapProperty, bounds: Bounds, region: Bounds = bounds): void {
+    this._dirtyRegions.push(region);
+
+    // Many edits between renders collapse into one region
+    if (this._dirtyRegions.length > MAX_DIRTY_REGIONS) {
+      const all = this._dirtyRegions;
+      this._dirtyRegions = [{
+        minX: Math.min(...all.map(b => b.minX)),
+        minY: Math.min(...all.map(b => b.minY)),
+        maxX: Math.max(...all.map(b => b.maxX)),
+        maxY: Math.max(...all.map(b => b.maxY)),
+      }];
+    }
+
+    if (this.hasListeners('change')) {
+      this.emit('change', { tilemap: this, property, bounds: { ...bounds } });
+    }
+  }
+
+  /**
+   * Normalizes a tile from any content format to a non-empty Cell[][].
+   */
+  private normalizeTile(tile: Cell[][] | string[] | string): Cell[][] {
+    let cells: Cell[][];
+    if (typeof tile === 'string') {
+      cells = tile.split('\n').map(line => textToCells(line));
+    } else if (Array.isArray(tile) && tile.every(row => typeof row === 'string')) {
+      cells = (tile as string[]).map(line => textToCells(line));
+    } else if (Array.isArray(tile) && tile.every(row => Array.isArray(row))) {
+      cells = (tile as Cell[][]).map(row => [...row]);
+    } else {
+      throw new Error('Invalid tile format');
+    }
+
+    if (cells.length === 0 || cells[0].length === 0) {
+      throw new Error('Tiles must be non-empty');
+    }
+    if (cells.some(row => row.length !== cells[0].length)) {
+      throw new Error('Invalid tile format: rows have unequal lengths');
+    }
+    return cells;
+  }
+
+  /**
+   * Validates a tile index against the tileset.
+   */
+  private validateIndex(index: number | null): number | null {
+    if (index !== null && !(Number.isInteger(index) && index >= 0 && index < this.tileset.length)) {
+      throw new Error(`Invalid tile index: ${index}`);
+    }
+    return index;
+  }
+
+  /**
+   * Validates a grid position.
+   */
+  private validateGridPosition(column: number, row: number): void {
+    if (!Number.isInteger(column) || !Number.isInteger(row) ||
+        column < 0 || row < 0 || column >= this.columns || row >= this.rows) {
+      throw new Error(`Tile position (${column}, ${row}) is outside the grid`);
+    }
+  }
+
+  /**
+   * Validates color is in #RRGGBB format.
+   */
+  private isValidColor(color: string): boolean {
+    return /^#[0-9A-Fa-f]{6}$/.test(color);
+  }
+}
@@ -0,0 +1,285 @@
+// @vitest-environment node
+import { describe, test, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { MessageChannel, MessagePort, Worker } from 'node:worker_threads';
+import { build } from 'vite';
+import { WorkerRenderer } from './WorkerRenderer';
+import { serveRenderWorker, type RenderWorkerEndpoint, type RenderWorkerRequest } from './renderWorker';
+import { Compositor, type RenderOutput, type Viewport } from './Compositor';
+import { AsciiObject } from './AsciiObject';
+import { Group } from './Group';
+import { Tilemap } from './Tilemap';
+
+const VIEWPORT: Viewport = { x: -2, y: -1, width: 14, height: 7 };
+
+function buildScene(): Compositor {
+  const compositor = new Compositor();
+  compositor.addObject(new AsciiObject({
+    id: 'bg',
+    content: Array(6).fill('.........'),
+    position: { x: 0, y: 0 },
+    color: '#336699',
+    backgroundColor: '#101010',
+  }));
+  compositor.addObject(new AsciiObject({
+    id: 'sprite',
+    content: ['/\\', '\\/'],
+    position: { x: 2, y: 1 },
+    color: '#ff0000',
+    layer: 1,
+    influence: { radius: 2, transform: { type: 'lighten', strength: 0.6, falloff: 'quadratic', target: 'both' } },
+  }));
+  compositor.addObject(new AsciiObject({
+    id: 'text',
+    content: ['日本 é\u{1f468}‍\u{1f469}‍\u{1f467}'],
+    position: { x: 1, y: 4 },
+    color: '#00ff00',
+    layer: 2,
+  }));
+  compositor.setLayerEffect(0, {
+    color: '#000000',
+    type: 'multiply',
+    strength: 1,
+    gradient: {
+      kind: 'radial',
+      center: { x: 7, y: 3 },
+      radius: 7,
+      radiusY: 4,
+      stops: [{ offset: 0, strength: 0 }, { offset: 1, strength: 0.8 }],
+    },
+  });
+  return compositor;
+}
+
+function expectSameOutput(actual: RenderOutput, expected: RenderOutput): void {
+  expect(actual.characters).toEqual(expected.characters);
+  expect(actual.colors).toEqual(expected.colors);
+  expect(actual.backgrounds).toEqual(expected.backgrounds);
+}
+
+describe('WorkerRenderer', () => {
+  const ports: MessagePort[] = [];
+
+  /** Creates in-process workers on MessageChannels, recording the request types sent to the first one */
+  function createWorkers(count: number, sent: string[] = []): RenderWorkerEndpoint[] {
+    return Array.from({ length: count }, (_, i) => {
+      const { port1, port2 } = new MessageChannel();
+      ports.push(port1, port2);
+      serveRenderWorker(port2);
+      return {
+        postMessage: (message: RenderWorkerRequest, transfer?: ArrayBuffer[]) => {
+          if (i === 0) sent.push(message.type);
+          port1.postMessage(message, transfer);
+        },
+        on: port1.on.bind(port1),
+        off: port1.off.bind(port1),
+      };
+    });
+  }
+
+  afterEach(() => {
+    for (const port of ports.splice(0)) {
+      port.close();
+    }
+  });
+
+  test('assembles bands from several workers into the render() output', async () => {
+    const compositor = buildScene();
+    const renderer = new WorkerRenderer(compositor, createWorkers(3));
+
+    const output = await renderer.render(VIEWPORT);
+
+    expectSameOutput(output, compositor.render(VIEWPORT));
+    expect(output.dirtyRegions).toEqual([{ minX: 0, minY: 0, maxX: 13, maxY: 6 }]);
+    // More workers than rows
+    const small: Viewport = { x: 0, y: 0, width: 5, height: 2 };
+    expectSameOutput(await renderer.render(small), compositor.render(small));
+    renderer.dispose();
+  });
+
+  test('ships the scene once, then only changes', async () => {
+    const compositor = buildScene();
+    const sent: string[] = [];
+    const renderer = new WorkerRenderer(compositor, createWorkers(2, sent));
+
+    await renderer.render(VIEWPORT);
+    await renderer.render(VIEWPORT);
+    expect(sent).toEqual(['load', 'render', 'render']);
+
+    const sprite = compositor.getObject('sprite');
+    sprite.setPosition(5, 2);
+    sprite.flipHorizontalToggle(true);
+    sprite.setInfluence(undefined);
+    compositor.getObject('bg').setBackgroundColor(null);
+    compositor.removeObject('text');
+    compositor.addObject(new AsciiObject({ id: 'new', content: '<>', position: { x: 0, y: 0 }, layer: 3 }));
+    compositor.setLayerEffect(0, null);
+    compositor.setLayerVisible(3, false);
+    compositor.setLayerSolo(1, true);
+
+    sent.length = 0;
+    expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+    expect(sent).toEqual(['sync', 'render']);
+
+    // Resetting layer states and hiding a group reach the workers too
+    const group = new Group({ id: 'g' });
+    compositor.addGroup(group);
+    group.add(new AsciiObject({ id: 'tree', content: ['^', '|'], position: { x: 6, y: 1 }, color: '#00aa00' }));
+    compositor.setLayerSolo(1, false);
+    expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+    group.setVisible(false);
+    expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+
+    // Tilemaps travel in diffs as well
+    const floor = new Tilemap({ id: 'floor', tileset: ['-'], grid: [[0, null, 0]], wrap: 'x', layer: -1 });
+    compositor.addTilemap(floor);
+    expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+    floor.setTile(1, 0, 0);
+    sent.length = 0;
+    expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+    expect(sent).toEqual(['sync', 'render']);
+
+    // Reordering cannot be expressed as appends, so the scene is shipped again
+    group.setVisible(true);
+    compositor.sendToBack('bg');
+    sent.length = 0;
+    expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+    expect(sent).toEqual(['load', 'render']);
+    renderer.dispose();
+  });
+
+  test('rejects renders that a worker fails and reloads the scene afterwards', async () => {
+    const compositor = buildScene();
+    const sent: string[] = [];
+    const renderer = new WorkerRenderer(compositor, createWorkers(1, sent));
+    await renderer.render(VIEWPORT);
+
+    // An object the worker rejects (invalid color bypassing the setter)
+    compositor.getObject('sprite').color = 'red';
+    compositor.getObject('sprite').setPosition(3, 1);
+    compositor.addObject(new AsciiObject({ id: 'late', content: 'x', position: { x: 0, y: 0 } }));
+    compositor.getObject('late').color = 'bad';
+    await expect(renderer.render(VIEWPORT)).rejects.toThrow('Invalid color format: must be #RRGGBB');
+
+    compositor.getObject('late').setColor('#ffffff');
+    compositor.getObject('sprite').setColor('#ff0000');
+    sent.length = 0;
+    expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+    expect(sent).toEqual(['load', 'render']);
+    renderer.dispose();
+  });
+
+  test('ignores messages that are not render requests or responses', async () => {
+    const compositor = buildScene();
+    const { port1, port2 } = new MessageChannel();
+    ports.push(port1, port2);
+    serveRenderWorker(port2);
+    const worker: RenderWorkerEndpoint = {
+      postMessage: (message, transfer) => port1.postMessage(message, transfer),
+      on: port1.on.bind(port1),
+      off: port1.off.bind(port1),
+    };
+    const renderer = new WorkerRenderer(compositor, [worker]);
+
+    port1.postMessage({ type: 'ping' });
+    port2.postMessage('hello');
+    port2.postMessage(null);
+    expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+    renderer.dispose();
+  });
+
+  test('dispose rejects pending renders and later calls', async () => {
+    const compositor = buildScene();
+    const renderer = new WorkerRenderer(compositor, createWorkers(1));
+
+    const pending = renderer.render(VIEWPORT);
+    renderer.dispose();
+
+    await expect(pending).rejects.toThrow('WorkerRenderer has been disposed');
+    await expect(renderer.render(VIEWPORT)).rejects.toThrow('WorkerRenderer has been disposed');
+  });
+
+  test('validates workers and viewport', async () => {
+    const compositor = buildScene();
+
+    expect(() => new WorkerRenderer(compositor, [])).toThrow('WorkerRenderer requires at least one worker');
+    const renderer = new WorkerRenderer(compositor, createWorkers(1));
+    await expect(renderer.render({ x: 0, y: 0, width: 0, height: 1 })).rejects.toThrow(
+      'Viewport width and height must be positive'
+    );
+    renderer.dispose();
+  });
+
+  describe('with worker_threads', () => {
+    const workers: Worker[] = [];
+
+    beforeAll(async () => {
+      // Bundle a Node worker script that serves this package's render worker
+      const entry = 'virtual:render-worker';
+      const result = await build({
+        configFile: false,
+        logLevel: 'silent',
+        root: __dirname,
+        build: { write: false, ssr: true, minify: false, rollupOptions: { input: entry, output: { format: 'cjs' } } },
+        plugins: [{
+          name: 'render-worker-entry',
+          resolveId: id => (id === entry ? id : null),
+          load: id => (id === entry
+            ? `import { parentPort } from 'node:worker_threads';
+               import { serveRenderWorker } from ${JSON.stringify(`${__dirname}/renderWorker.ts`)};
+               serveRenderWorker(parentPort);`
+            : null),
+        }],
+      });
+      const code = (Array.isArray(result) ? result[0] : result as { output: Array<{ code: string }> }).output[0].code;
+      workers.push(new Worker(code, { eval: true }), new Worker(code, { eval: true }));
+    }, 60_000);
+
+    afterAll(async () => {
+      await Promise.all(workers.map(worker => worker.terminate()));
+    });
+
+    test('renders on worker threads with output identical to render()', async () => {
+      const compositor = buildScene();
+      const renderer = new WorkerRenderer(compositor, workers);
+
+      expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+
+      compositor.getObject('sprite').setPosition(6, 3);
+      expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+      renderer.dispose();
+    });
+
+    test('rejects renders when a worker dies mid-render and continues on the others', async () => {
+      // Exits instead of answering its first render
+      const dying = new Worker(
+        `require('node:worker_threads').parentPort.on('message', request => {
+          if (request.type === 'render') process.exit(3);
+        });`,
+        { eval: true }
+      );
+      const compositor = buildScene();
+      const renderer = new WorkerRenderer(compositor, [dying, workers[0]]);
+
+      await expect(renderer.render(VIEWPORT)).rejects.toThrow('Render worker exited with code 3');
+      compositor.getObject('sprite').setPosition(4, 2);
+      expectSameOutput(await renderer.render(VIEWPORT), compositor.render(VIEWPORT));
+      renderer.dispose();
+    });
+
+    test('rejects renders when a worker throws, and later calls once no worker is left', async () => {
+      const crashing = new Worker(
+        `require('node:worker_threads').parentPort.on('message', request => {
+          if (request.type === 'render') throw new Error('boom');
+        });`,
+        { eval: true }
+      );
+      const exited = new Promise(resolve => crashing.once('exit', resolve));
+      const renderer = new WorkerRenderer(buildScene(), [crashing]);
+
+      await expect(renderer.render(VIEWPORT)).rejects.toThrow('Render worker failed: boom');
+      await exited;
+      await expect(renderer.render(VIEWPORT)).rejects.toThrow('WorkerRenderer has no running workers');
+      renderer.dispose();
+    });
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * WorkerRenderer - Renders a Compositor scene on worker threads
+ *
+ * Ships the scene to each worker once (Compositor.toJSON()), then only the changes
+ * made since the previous render. Each render splits the viewport into bands of
+ * rows, one per worker, rendered in parallel and returned as transferable typed
+ * arrays. The assembled output is identical to Compositor.render().
+ *
+ * @module @ascii-art-studio/compositor
+ */
+
+import {
+  type Compositor,
+  type LayerEffectChangeEvent,
+  type RenderOutput,
+  type Viewport,
+  rgbToHex,
+} from './Compositor';
+import type {
+  AsciiObject,
+  AsciiObjectChangeEvent,
+  AsciiObjectProperty,
+} from './AsciiObject';
+import { Group } from './Group';
+import type { Tilemap } from './Tilemap';
+import { WIDE_CONTINUATION } from './unicode';
+import {
+  type EncodedRows,
+  type RenderWorkerEndpoint,
+  type RenderWorkerRequest,
+  type SceneDiff,
+  type SerializedObjectPatch,
+  isRenderWorkerResponse,
+  listenToEndpoint,
+} from './renderWorker';
+
+/** A render waiting for its bands */
+interface PendingRender {
+  output: RenderOutput;
+  remaining: number;
+  resolve: (output: RenderOutput) => void;
+  reject: (error: Error) => void;
+}
+
+/** Changes to these properties also change the (oriented) content */
+const ORIENTATION_PROPERTIES: AsciiObjectProperty[] = ['flipHorizontal', 'flipVertical', 'rotation'];
+
+/**
+ * Offloads rendering of a Compositor scene to workers.
+ *
+ * The workers are owned by the caller: each must run serveRenderWorker(), and
+ * they are not terminated by dispose(). A worker that exits is dropped and later
+ * renders are spread over the others.
+ *
+ * @example
+ * ```typescript
+ * const workers = [0, 1, 2, 3].map(
+ *   () => new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' })
+ * );
+ * const renderer = new WorkerRenderer(compositor, workers);
+ *
+ * async function frame() {
+ *   animator.update();
+ *   draw(await renderer.render({ x: 0, y: 0, width: 160, height: 48 }));
+ *   requestAnimationFrame(frame);
+ * }
+ * ```
+ */
+export class WorkerRenderer {
+  /** Scene being rendered */
+  private compositor: Compositor;
+
+  /** Worker channels */
+  private workers: RenderWorkerEndpoint[];
+
+  /** Unsubscribe functions for the worker channels, by worker */
+  private unsubscribers: Map<RenderWorkerEndpoint, () => void> = new Map();
+
+  /** Objects as last shipped to the workers, in scene order */
+  private shipped: Map<string, AsciiObject> = new Map();
+
+  /** Properties changed since the last ship, per shipped object */
+  private changes: Map<AsciiObject, Set<AsciiObjectProperty>> = new Map();
+
+  /** Layers whose effect changed since the last ship */
+  private changedEffects: Set<number> = new Set();
+
+  /** Tilemaps as last shipped to the workers, in scene order */
+  private shippedTilemaps: Tilemap[] = [];
+
+  /** Whether a shipped tilemap changed since the last ship */
+  private tilemapsChanged: boolean = false;
+
+  /** Layer states as last shipped (JSON) */
+  private shippedLayers: string = '[]';
+
+  /** Ids of objects last shipped as hidden by a group */
+  private hiddenByGroup: Set<string> = new Set();
+
+  /** Whether the next render ships the whole scene */
+  private needsLoad: boolean = true;
+
+  /** Renders waiting for worker output, by request id */
+  private pending: Map<number, PendingRender> = new Map();
+
+  /** Id of the next render request */
+  private nextId: number = 0;
+
+  /** Whether dispose() was called */
+  private disposed: boolean = false;
+
+  /** Records which properties of a shipped object changed */
+  private readonly handleObjectChange = (event: AsciiObjectChangeEvent): void => {
+    this.markChanged(event.object, event.property);
+  };
+
+  /** Records layer effect changes */
+  private readonly handleLayerEffectChanged = ({ layer }: LayerEffectChangeEvent): void => {
+    this.changedEffects.add(layer);
+  };
+
+  /** Records tilemap changes */
+  private readonly handleTilemapChange = (): void => {
+    this.tilemapsChanged = true;
+  };
+
+  /** Collects a band of rows from a worker and resolves the render once all bands arrived */
+  private readonly handleResponse = (response: unknown): void => {
+    if (!isRenderWorkerResponse(response)) {
+      return;
+    }
+    const render = this.pending.get(response.id);
+    if (!render) {
+      return;
+    }
+
+    if (response.type === 'error') {
+      // The worker's scene may be out of date, so the next render ships it whole
+      this.needsLoad = true;
+      this.pending.delete(response.id);
+      render.reject(new Error(response.message));
+      return;
+    }
+
+    this.decodeRows(response.rows, response.startRow, render.output);
+    render.remaining--;
+    if (render.remaining === 0) {
+      this.pending.delete(response.id);
+      render.resolve(render.output);
+    }
+  };
+
+  /**
+   * Creates a renderer for a compositor.
+   *
+   * @param compositor - Scene to render
+   * @param workers - Channels to workers running serveRenderWorker() (at least one)
+   * @throws {Error} If no workers are given
+   */
+  constructor(compositor: Compositor, workers: RenderWorkerEndpoint[]) {
+    if (!workers || workers.length === 0) {
+      throw new Error('WorkerRenderer requires at least one worker');
+    }
+
+    this.compositor = compositor;
+    this.workers = [...workers];
+    for (const worker of this.workers) {
+      this.listen(worker);
+    }
+    compositor.on('layerEffectChanged', this.handleLayerEffectChanged);
+  }
+
+  /**
+   * Renders a viewport on the workers.
+   * Scene changes made before the call are included; later changes are not.
+   *
+   * @param viewport - Viewport to render
+   * @returns Output identical to compositor.render(viewport), with the whole
+   *   viewport as its dirty region
+   * @throws {Error} If viewport width or height is not positive (rejected)
+   * @throws {Error} If the renderer was disposed (rejected)
+   * @throws {Error} If a worker fails to render (rejected with its error message)
+   * @throws {Error} If a worker errors or exits before answering (rejected)
+   * @throws {Error} If every worker has exited (rejected)
+   */
+  render(viewport: Viewport): Promise<RenderOutput> {
+    if (this.disposed) {
+      return Promise.reject(new Error('WorkerRenderer has been disposed'));
+    }
+    if (this.workers.length === 0) {
+      return Promise.reject(new Error('WorkerRenderer has no running workers'));
+    }
+    if (viewport.width <= 0 || viewport.height <= 0) {
+      return Promise.reject(new Error('Viewport width and height must be positive'));
+    }
+
+    this.ship();
+
+    const id = this.nextId++;
+    const bands = Math.min(this.workers.length, viewport.height);
+    const vp = { x: viewport.x, y: viewport.y, width: viewport.width, height: viewport.height };
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, {
+        output: {
+          characters: new Array(vp.height),
+          colors: new Array(vp.height),
+          backgrounds: new Array(vp.height),
+          dirtyRegions: [{ minX: 0, minY: 0, maxX: vp.width - 1, maxY: vp.height - 1 }],
+        },
+        remaining: bands,
+        resolve,
+        reject,
+      });
+
+      // Spread rows evenly; earlier bands take the remainder
+      let startRow = 0;
+      for (let band = 0; band < bands; band++) {
+        const rowCount = Math.floor(vp.height / bands) + (band < vp.height % bands ? 1 : 0);
+        const request: RenderWorkerRequest = { type: 'render', id, viewport: vp, startRow, rowCount };
+        this.workers[band].postMessage(request);
+        startRow += rowCount;
+      }
+    });
+  }
+
+  /**
+   * Stops tracking the scene and rejects renders still in progress.
+   * The workers are left running.
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+
+    this.compositor.off('layerEffectChanged', this.handleLayerEffectChanged);
+    for (const obj of this.shipped.values()) {
+      obj.off('change', this.handleObjectChange);
+    }
+    for (const tilemap of this.shippedTilemaps) {
+      tilemap.off('change', this.handleTilemapChange);
+    }
+    for (const unsubscribe of this.unsubscribers.values()) {
+      unsubscribe();
+    }
+    this.unsubscribers.clear();
+    for (const render of this.pending.values()) {
+      render.reject(new Error('WorkerRenderer has been disposed'));
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Subscribes to a worker's responses and to the events that mean it failed.
+   */
+  private listen(worker: RenderWorkerEndpoint): void {
+    const unsubscribers = [
+      listenToEndpoint(worker, this.handleResponse),
+      listenToEndpoint(worker, error => {
+        this.fail(new Error(`Render worker failed: ${errorMessage(error)}`));
+      }, 'error'),
+      listenToEndpoint(worker, () => {
+        this.fail(new Error('Render worker could not deserialize a message'));
+      }, 'messageerror'),
+      listenToEndpoint(worker, code => {
+        // An exited worker never answers again, so later renders use the others
+        this.workers = this.workers.filter(other => other !== worker);
+        this.unsubscribers.get(worker)?.();
+        this.unsubscribers.delete(worker);
+        this.fail(new Error(`Render worker exited with code ${code}`));
+      }, 'exit'),
+    ];
+    this.unsubscribers.set(worker, () => unsubscribers.forEach(unsubscribe => unsubscribe()));
+  }
+
+  /**
+   * Rejects every render in progress after a worker failure; its bands will not arrive.
+   */
+  private fail(error: Error): void {
+    // The failed worker's scene may be out of date, so the next render ships it whole
+    this.needsLoad = true;
+    for (const render of this.pending.values()) {
+      render.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Sends the workers the whole scene, or the changes since the last ship.
+   */
+  private ship(): void {
+    const objects = this.compositor.listObjects();
+    const current = new Map(objects.map(obj => [obj.id, obj]));
+    const groupHidden = this.findGroupHidden();
+
+    // Replaced objects count as removed and re-added
+    const removed = Array.from(this.shipped.values()).filter(obj => current.get(obj.id) !== obj);
+    const added = objects.filter(obj => this.shipped.get(obj.id) !== obj);
+
+    // Appending new objects must reproduce the scene order, otherwise objects were reordered
+    const kept = Array.from(this.shipped.keys()).filter(id => current.get(id) === this.shipped.get(id));
+    const expectedOrder = [...kept, ...added.map(obj => obj.id)];
+    const reordered = expectedOrder.some((id, i) => id !== objects[i].id);
+
+    for (const obj of removed) {
+      obj.off('change', this.handleObjectChange);
+    }
+    for (const obj of added) {
+      obj.on('change', this.handleObjectChange);
+    }
+    this.shipped = current;
+
+    // Tilemaps are small (tile indices), so any change ships all of them
+    const tilemaps = this.compositor.listTilemaps();
+    const tilemapsReplaced =
+      tilemaps.length !== this.shippedTilemaps.length ||
+      tilemaps.some((tilemap, i) => tilemap !== this.shippedTilemaps[i]);
+    for (const tilemap of this.shippedTilemaps) {
+      tilemap.off('change', this.handleTilemapChange);
+    }
+    for (const tilemap of tilemaps) {
+      tilemap.on('change', this.handleTilemapChange);
+    }
+    this.shippedTilemaps = tilemaps;
+
+    const layers = JSON.stringify(this.compositor.getLayerStates());
+
+    if (this.needsLoad || reordered) {
+      this.broadcast({ type: 'load', scene: this.compositor.toJSON() });
+    } else {
+      const diff: SceneDiff = {
+        removed: removed.map(obj => obj.id),
+        added: added.map(obj => this.compositor.serializeObject(obj)),
+        updated: [],
+        layerEffects: Array.from(this.changedEffects, layer => ({
+          layer,
+          effect: this.compositor.getLayerEffect(layer),
+        })),
+        ...(layers !== this.shippedLayers && { layers: JSON.parse(layers) }),
+        ...((tilemapsReplaced || this.tilemapsChanged) && { tilemaps: tilemaps.map(tilemap => tilemap.toJSON()) }),
+      };
+
+      // Group visibility changes do not reach the objects' own change events
+      for (const id of new Set([...groupHidden, ...this.hiddenByGroup])) {
+        const obj = current.get(id);
+        if (obj && groupHidden.has(id) !== this.hiddenByGroup.has(id)) {
+          this.markChanged(obj, 'visible');
+        }
+      }
+      for (const [obj, properties] of this.changes) {
+        if (current.get(obj.id) === obj && !added.includes(obj)) {
+          diff.updated.push(this.createPatch(obj, properties, groupHidden));
+        }
+      }
+
+      const empty =
+        diff.removed.length === 0 && diff.added.length === 0 && diff.updated.length === 0 &&
+        diff.layerEffects.length === 0 && diff.layers === undefined && diff.tilemaps === undefined;
+      if (!empty) {
+        this.broadcast({ type: 'sync', diff });
+      }
+    }
+
+    this.needsLoad = false;
+    this.changes.clear();
+    this.changedEffects.clear();
+    this.tilemapsChanged = false;
+    this.shippedLayers = layers;
+    this.hiddenByGroup = groupHidden;
+  }
+
+  /**
+   * Records a changed property of a shipped object.
+   */
+  private markChanged(obj: AsciiObject, property: AsciiObjectProperty): void {
+    let properties = this.changes.get(obj);
+    if (!properties) {
+      properties = new Set();
+      this.changes.set(obj, properties);
+    }
+    properties.add(property);
+  }
+
+  /**
+   * Returns the ids of visible objects hidden by one of their groups, which
+   * serializeObject() ships as hidden.
+   */
+  private findGroupHidden(): Set<string> {
+    const hidden = new Set<string>();
+    for (const group of this.compositor.listGroups()) {
+      for (const obj of group.getObjects()) {
+        if (obj.visible && !Group.parentOf(obj)!.isVisible()) {
+          hidden.add(obj.id);
+        }
+      }
+    }
+    return hidden;
+  }
+
+  /**
+   * Builds a patch with the current values of the changed properties.
+   * Values are copied by postMessage, so they are not cloned here.
+   */
+  private createPatch(
+    obj: AsciiObject,
+    properties: Set<AsciiObjectProperty>,
+    groupHidden: Set<string>
+  ): SerializedObjectPatch {
+    const patch: SerializedObjectPatch = { id: obj.id };
+    for (const property of properties) {
+      if (property === 'visible') {
+        patch.visible = obj.visible && !groupHidden.has(obj.id);
+      } else if (property === 'backgroundColor') {
+        patch.backgroundColor = obj.backgroundColor ?? undefined;
+      } else {
+        (patch as Record<string, unknown>)[property] = obj[property];
+      }
+      if (ORIENTATION_PROPERTIES.includes(property)) {
+        patch.content = obj.content;
+      }
+    }
+    return patch;
+  }
+
+  /**
+   * Writes encoded rows into an output as strings.
+   */
+  private decodeRows(rows: EncodedRows, startRow: number, output: RenderOutput): void {
+    const { width, height, codePoints, colors, backgrounds } = rows;
+    const clusters = new Map(rows.clusters);
+
+    let i = 0;
+    for (let y = 0; y < height; y++) {
+      const charRow: string[] = new Array(width);
+      const colorRow: string[] = new Array(width);
+      const backgroundRow: string[] = new Array(width);
+
+      for (let x = 0; x < width; x++) {
+        const codePoint = codePoints[i];
+        charRow[x] = clusters.get(i) ?? (codePoint === 0 ? WIDE_CONTINUATION : String.fromCodePoint(codePoint));
+        colorRow[x] = rgbToHex(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]);
+        backgroundRow[x] = rgbToHex(backgrounds[i * 3], backgrounds[i * 3 + 1], backgrounds[i * 3 + 2]);
+        i++;
+      }
+
+      output.characters[startRow + y] = charRow;
+      output.colors[startRow + y] = colorRow;
+      output.backgrounds[startRow + y] = backgroundRow;
+    }
+  }
+
+  /**
+   * Sends a request to every worker.
+   */
+  private broadcast(request: RenderWorkerRequest): void {
+    for (const worker of this.workers) {
+      worker.postMessage(request);
+    }
+  }
+}
+
+/**
+ * Reads the message of a worker 'error' payload (an Error, or an ErrorEvent in browsers).
+ */
+function errorMessage(error: unknown): string {
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return String(error);
+}
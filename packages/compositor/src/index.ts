@@ -1,3 +1,59 @@
-export { Compositor, AsciiObject } from './Compositor';
-export type { RenderOutput, LayerEffect, Influence } from './Compositor';
-export type { AsciiObjectOptions } from './AsciiObject';
+export { Compositor, AsciiObject, createRenderBuffer, SCENE_FORMAT_VERSION } from './Compositor';
+export type {
+  RenderOutput,
+  RenderBuffer,
+  LayerEffect,
+  LayerGradient,
+  LinearGradient,
+  RadialGradient,
+  BaseGradient,
+  GradientStop,
+  GradientAnchor,
+  GradientCurve,
+  Influence,
+  Bounds,
+  Viewport,
+  SerializedScene,
+  SerializedLayerState,
+  SerializedAsciiObject,
+  TransformType,
+  ColorTarget,
+  PickResult,
+  CompositorEvents,
+  SceneObjectEvent,
+  LayerEffectChangeEvent,
+  InvalidatedEvent,
+} from './Compositor';
+export { TRANSFORM_TYPES, COLOR_TARGETS } from './AsciiObject';
+export type {
+  AsciiObjectOptions,
+  AsciiObjectEvents,
+  AsciiObjectChangeEvent,
+  AsciiObjectProperty,
+} from './AsciiObject';
+export { Group } from './Group';
+export type { SceneNode, GroupOptions, GroupEvents, GroupChildEvent, GroupVisibilityEvent } from './Group';
+export { Tilemap, TILE_WRAPS } from './Tilemap';
+export type {
+  TilemapOptions,
+  TilemapEvents,
+  TilemapChangeEvent,
+  TilemapProperty,
+  TileWrap,
+  SerializedTilemap,
+} from './Tilemap';
+export { EventEmitter } from './EventEmitter';
+export type { Listener } from './EventEmitter';
+export {
+  WIDE_CONTINUATION,
+  splitGraphemes,
+  graphemeWidth,
+  textToCells,
+  reverseCells,
+  isWideGlyph,
+} from './unicode';
+export { WorkerRenderer } from './WorkerRenderer';
+export { serveRenderWorker } from './renderWorker';
+export type { RenderWorkerEndpoint } from './renderWorker';
+export { toAnsi, rgbToAnsi256, rgbToAnsi16 } from './AnsiExporter';
+export type { AnsiColorMode, AnsiExportOptions } from './AnsiExporter';
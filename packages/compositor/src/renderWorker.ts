@@ -0,0 +1,280 @@
+/**
+ * Render worker - Worker side of WorkerRenderer
+ *
+ * Keeps a copy of the scene (loaded from Compositor.toJSON() and kept current
+ * with incremental diffs) and renders bands of viewport rows into transferable
+ * typed arrays. Runs in a Web Worker or a Node worker_threads Worker.
+ *
+ * @module @ascii-art-studio/compositor
+ */
+
+import {
+  Compositor,
+  type LayerEffect,
+  type RenderOutput,
+  type SerializedLayerState,
+  type SerializedScene,
+  type Viewport,
+} from './Compositor';
+import { AsciiObject, parseHexColor, type SerializedAsciiObject } from './AsciiObject';
+import { Tilemap, type SerializedTilemap } from './Tilemap';
+import { WIDE_CONTINUATION } from './unicode';
+
+/** Events of a render worker channel; only worker_threads Workers emit 'exit' */
+export type RenderWorkerEvent = 'message' | 'messageerror' | 'error' | 'exit';
+
+/**
+ * Message channel to or from a render worker. Web Workers, MessagePorts (including
+ * worker `self`), worker_threads Workers and `parentPort` all fit.
+ */
+export interface RenderWorkerEndpoint {
+  postMessage(message: unknown, transfer?: ArrayBuffer[]): void;
+  on?(type: RenderWorkerEvent, listener: (data: unknown) => void): unknown;
+  off?(type: RenderWorkerEvent, listener: (data: unknown) => void): unknown;
+  addEventListener?(type: RenderWorkerEvent, listener: (event: unknown) => void): void;
+  removeEventListener?(type: RenderWorkerEvent, listener: (event: unknown) => void): void;
+}
+
+/** Changed properties of an object (see AsciiObjectProperty); content is already oriented */
+export type SerializedObjectPatch = Partial<SerializedAsciiObject> & { id: string };
+
+/** Scene changes since the last load or sync, applied in field order */
+export interface SceneDiff {
+  /** Ids of removed objects */
+  removed: string[];
+  /** Objects appended to the scene order */
+  added: SerializedAsciiObject[];
+  /** Property changes of existing objects */
+  updated: SerializedObjectPatch[];
+  /** Changed layer effects (null = removed) */
+  layerEffects: Array<{ layer: number; effect: LayerEffect | null }>;
+  /** Complete layer states, when they changed */
+  layers?: SerializedLayerState[];
+  /** All tilemaps, when any was added, removed or changed */
+  tilemaps?: SerializedTilemap[];
+}
+
+/** Band of rendered rows encoded as transferable arrays (same layout as RenderBuffer) */
+export interface EncodedRows {
+  width: number;
+  height: number;
+  /** First code point per cell; 0 marks a wide glyph continuation */
+  codePoints: Uint32Array;
+  /** Cells whose character has more than one code point, as [cell index, character] */
+  clusters: Array<[number, string]>;
+  /** RGB triple per cell */
+  colors: Uint8ClampedArray;
+  /** Background RGB triple per cell */
+  backgrounds: Uint8ClampedArray;
+}
+
+/** Messages sent to a render worker */
+export type RenderWorkerRequest =
+  | { type: 'load'; scene: SerializedScene }
+  | { type: 'sync'; diff: SceneDiff }
+  | { type: 'render'; id: number; viewport: Viewport; startRow: number; rowCount: number };
+
+/** Messages sent back by a render worker */
+export type RenderWorkerResponse =
+  | { type: 'rendered'; id: number; startRow: number; rows: EncodedRows }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Checks that message data is a request to a render worker.
+ */
+export function isRenderWorkerRequest(data: unknown): data is RenderWorkerRequest {
+  const type = typeof data === 'object' && data !== null && 'type' in data ? data.type : undefined;
+  return type === 'load' || type === 'sync' || type === 'render';
+}
+
+/**
+ * Checks that message data is a response from a render worker.
+ */
+export function isRenderWorkerResponse(data: unknown): data is RenderWorkerResponse {
+  const type = typeof data === 'object' && data !== null && 'type' in data ? data.type : undefined;
+  return type === 'rendered' || type === 'error';
+}
+
+/**
+ * Subscribes to an endpoint's messages, or to another of its events.
+ *
+ * @param endpoint - Channel to listen to
+ * @param listener - Receives message data, or the event's payload for other types
+ * @param type - Event to listen to (default: 'message')
+ * @returns Function that unsubscribes
+ */
+export function listenToEndpoint(
+  endpoint: RenderWorkerEndpoint,
+  listener: (data: unknown) => void,
+  type: RenderWorkerEvent = 'message'
+): () => void {
+  // Node emitters pass the data itself; EventTargets pass a MessageEvent for messages
+  if (endpoint.on) {
+    endpoint.on(type, listener);
+    return () => endpoint.off?.(type, listener);
+  }
+  const handler = (event: unknown) => {
+    listener(type === 'message' && typeof event === 'object' && event !== null && 'data' in event ? event.data : event);
+  };
+  endpoint.addEventListener?.(type, handler);
+  return () => endpoint.removeEventListener?.(type, handler);
+}
+
+/**
+ * Serves render requests from a WorkerRenderer. Call once in the worker script.
+ *
+ * @param endpoint - The worker's own side of the channel (`self` or `parentPort`)
+ *
+ * @example
+ * ```typescript
+ * // render.worker.ts (browser)
+ * serveRenderWorker(self);
+ *
+ * // render-worker.js (Node)
+ * import { parentPort } from 'node:worker_threads';
+ * serveRenderWorker(parentPort);
+ * ```
+ */
+export function serveRenderWorker(endpoint: RenderWorkerEndpoint): void {
+  let compositor: Compositor | null = null;
+  // A failed load or sync leaves the scene out of date; reported by every render until the next load
+  let failure: string | null = null;
+
+  listenToEndpoint(endpoint, request => {
+    // Other messages on a shared channel are not ours to answer
+    if (!isRenderWorkerRequest(request)) {
+      return;
+    }
+    try {
+      switch (request.type) {
+        case 'load':
+          failure = null;
+          compositor = Compositor.fromJSON(request.scene);
+          break;
+        case 'sync':
+          if (!compositor) {
+            throw new Error('Render worker has no scene');
+          }
+          if (failure === null) {
+            applyDiff(compositor, request.diff);
+          }
+          break;
+        case 'render': {
+          if (failure !== null) {
+            throw new Error(failure);
+          }
+          if (!compositor) {
+            throw new Error('Render worker has no scene');
+          }
+          const rows = encodeRows(compositor.renderRows(request.viewport, request.startRow, request.rowCount));
+          const response: RenderWorkerResponse = { type: 'rendered', id: request.id, startRow: request.startRow, rows };
+          endpoint.postMessage(response, [rows.codePoints.buffer, rows.colors.buffer, rows.backgrounds.buffer]);
+          break;
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (request.type === 'render') {
+        const response: RenderWorkerResponse = { type: 'error', id: request.id, message };
+        endpoint.postMessage(response);
+      } else {
+        failure = message;
+      }
+    }
+  });
+}
+
+/**
+ * Applies a scene diff to the worker's compositor.
+ */
+function applyDiff(compositor: Compositor, diff: SceneDiff): void {
+  for (const id of diff.removed) {
+    compositor.removeObject(id);
+  }
+  for (const data of diff.added) {
+    compositor.addObject(AsciiObject.fromJSON(data));
+  }
+  for (const patch of diff.updated) {
+    applyPatch(compositor.getObject(patch.id), patch);
+  }
+  for (const { layer, effect } of diff.layerEffects) {
+    compositor.setLayerEffect(layer, effect);
+  }
+
+  if (diff.layers) {
+    const states = new Map(diff.layers.map(state => [state.layer, state]));
+    for (const { layer } of compositor.getLayerStates()) {
+      if (!states.has(layer)) {
+        states.set(layer, { layer, visible: true, solo: false, locked: false });
+      }
+    }
+    for (const { layer, visible, solo, locked } of states.values()) {
+      compositor.setLayerVisible(layer, visible);
+      compositor.setLayerSolo(layer, solo);
+      compositor.setLayerLocked(layer, locked);
+    }
+  }
+
+  if (diff.tilemaps) {
+    for (const tilemap of compositor.listTilemaps()) {
+      compositor.removeTilemap(tilemap.id);
+    }
+    for (const data of diff.tilemaps) {
+      compositor.addTilemap(Tilemap.fromJSON(data));
+    }
+  }
+}
+
+/**
+ * Applies changed properties to an object with its setters.
+ */
+function applyPatch(obj: AsciiObject, patch: SerializedObjectPatch): void {
+  if ('content' in patch) {
+    obj.setContent(patch.content!);
+  }
+  // Content arrives oriented, so orientation flags are restored without re-transforming
+  if ('flipHorizontal' in patch) obj.flipHorizontal = patch.flipHorizontal!;
+  if ('flipVertical' in patch) obj.flipVertical = patch.flipVertical!;
+  if ('rotation' in patch) obj.rotation = patch.rotation!;
+
+  if ('position' in patch) obj.setPosition(patch.position!.x, patch.position!.y);
+  if ('color' in patch) obj.setColor(patch.color!);
+  if ('backgroundColor' in patch) obj.setBackgroundColor(patch.backgroundColor ?? null);
+  if ('opacity' in patch) obj.setOpacity(patch.opacity!);
+  if ('opacityCharThreshold' in patch) obj.setOpacityCharThreshold(patch.opacityCharThreshold!);
+  if ('influence' in patch) obj.setInfluence(patch.influence);
+  if ('layer' in patch) obj.setLayer(patch.layer!);
+  if ('zIndex' in patch) obj.setZIndex(patch.zIndex!);
+  if ('visible' in patch) obj.setVisible(patch.visible !== false);
+}
+
+/**
+ * Encodes rendered rows as typed arrays.
+ */
+function encodeRows(output: RenderOutput): EncodedRows {
+  const height = output.characters.length;
+  const width = output.characters[0].length;
+  const codePoints = new Uint32Array(width * height);
+  const colors = new Uint8ClampedArray(width * height * 3);
+  const backgrounds = new Uint8ClampedArray(width * height * 3);
+  const clusters: Array<[number, string]> = [];
+
+  let i = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const char = output.characters[y][x];
+      if (char !== WIDE_CONTINUATION) {
+        const codePoint = char.codePointAt(0)!;
+        codePoints[i] = codePoint;
+        if (char.length > (codePoint > 0xffff ? 2 : 1)) {
+          clusters.push([i, char]);
+        }
+      }
+      colors.set(parseHexColor(output.colors[y][x]), i * 3);
+      backgrounds.set(parseHexColor(output.backgrounds[y][x]), i * 3);
+      i++;
+    }
+  }
+
+  return { width, height, codePoints, clusters, colors, backgrounds };
+}
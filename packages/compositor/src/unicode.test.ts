@@ -0,0 +1,80 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { WIDE_CONTINUATION, splitGraphemes, graphemeWidth, textToCells, reverseCells, isWideGlyph } from './unicode';
+
+const FAMILY = '\u{1f468}\u200d\u{1f469}\u200d\u{1f467}';
+const FLAG = '\u{1f1ef}\u{1f1f5}';
+
+describe('splitGraphemes', () => {
+  test('keeps emoji, flags and combining marks whole', () => {
+    expect(splitGraphemes(`e\u0301${FAMILY}${FLAG}a`)).toEqual(['e\u0301', FAMILY, FLAG, 'a']);
+    expect(splitGraphemes('\u{1f600}')).toEqual(['\u{1f600}']);
+    expect(splitGraphemes('')).toEqual([]);
+  });
+
+  describe('without Intl.Segmenter', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.resetModules();
+    });
+
+    test('approximates clusters', async () => {
+      vi.stubGlobal('Intl', { ...Intl, Segmenter: undefined });
+      vi.resetModules();
+      const fallback = await import('./unicode');
+
+      expect(fallback.splitGraphemes(`e\u0301${FAMILY}${FLAG}${FLAG}\u{1f44d}\u{1f3fd}`)).toEqual([
+        'e\u0301',
+        FAMILY,
+        FLAG,
+        FLAG,
+        '\u{1f44d}\u{1f3fd}',
+      ]);
+    });
+  });
+});
+
+describe('graphemeWidth', () => {
+  test('counts East Asian wide and emoji glyphs as two cells', () => {
+    expect(graphemeWidth('a')).toBe(1);
+    expect(graphemeWidth('─')).toBe(1);
+    expect(graphemeWidth('日')).toBe(2);
+    expect(graphemeWidth('한')).toBe(2);
+    expect(graphemeWidth('Ａ')).toBe(2);
+    expect(graphemeWidth('\u{1f600}')).toBe(2);
+    expect(graphemeWidth(FLAG)).toBe(2);
+    expect(graphemeWidth('❤')).toBe(1);
+    expect(graphemeWidth('❤\ufe0f')).toBe(2);
+  });
+});
+
+describe('textToCells', () => {
+  test('follows wide glyphs with a continuation cell', () => {
+    expect(textToCells('a日b')).toEqual(['a', '日', WIDE_CONTINUATION, 'b']);
+    expect(textToCells(`${FAMILY}!`)).toEqual([FAMILY, WIDE_CONTINUATION, '!']);
+  });
+});
+
+describe('reverseCells', () => {
+  test('keeps wide pairs in order', () => {
+    expect(reverseCells(['a', '日', WIDE_CONTINUATION, 'b', null])).toEqual([
+      null,
+      'b',
+      '日',
+      WIDE_CONTINUATION,
+      'a',
+    ]);
+  });
+
+  test('leaves orphaned continuations in place', () => {
+    expect(reverseCells([WIDE_CONTINUATION, 'a'])).toEqual(['a', WIDE_CONTINUATION]);
+  });
+});
+
+describe('isWideGlyph', () => {
+  test('is false for null, continuation and narrow cells', () => {
+    expect(isWideGlyph('日')).toBe(true);
+    expect(isWideGlyph(null)).toBe(false);
+    expect(isWideGlyph(WIDE_CONTINUATION)).toBe(false);
+    expect(isWideGlyph('x')).toBe(false);
+  });
+});
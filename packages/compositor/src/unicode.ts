@@ -0,0 +1,159 @@
+/**
+ * Unicode text layout for the character grid
+ *
+ * Splits text into grapheme clusters (so emoji, flags and combining marks stay
+ * whole) and lays wide East Asian and emoji glyphs out over two cells: the glyph
+ * followed by a WIDE_CONTINUATION marker.
+ *
+ * @module @ascii-art-studio/compositor
+ */
+
+import type { Cell } from './AsciiObject';
+
+/**
+ * Marks the right half of a wide glyph. An empty string, so joining a row of
+ * characters yields text whose terminal width matches the grid.
+ */
+export const WIDE_CONTINUATION = '';
+
+/** Code point ranges with East Asian Width W or F, plus emoji presented wide by default */
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f], [0x231a, 0x231b], [0x2329, 0x232a], [0x23e9, 0x23ec], [0x23f0, 0x23f0],
+  [0x23f3, 0x23f3], [0x25fd, 0x25fe], [0x2614, 0x2615], [0x2648, 0x2653], [0x267f, 0x267f],
+  [0x2693, 0x2693], [0x26a1, 0x26a1], [0x26aa, 0x26ab], [0x26bd, 0x26be], [0x26c4, 0x26c5],
+  [0x26ce, 0x26ce], [0x26d4, 0x26d4], [0x26ea, 0x26ea], [0x26f2, 0x26f3], [0x26f5, 0x26f5],
+  [0x26fa, 0x26fa], [0x26fd, 0x26fd], [0x2705, 0x2705], [0x270a, 0x270b], [0x2728, 0x2728],
+  [0x274c, 0x274c], [0x274e, 0x274e], [0x2753, 0x2755], [0x2757, 0x2757], [0x2795, 0x2797],
+  [0x27b0, 0x27b0], [0x27bf, 0x27bf], [0x2b1b, 0x2b1c], [0x2b50, 0x2b50], [0x2b55, 0x2b55],
+  [0x2e80, 0x303e], [0x3041, 0x33ff], [0x3400, 0x4dbf], [0x4e00, 0x9fff], [0xa000, 0xa4cf],
+  [0xa960, 0xa97f], [0xac00, 0xd7a3], [0xf900, 0xfaff], [0xfe10, 0xfe19], [0xfe30, 0xfe6f],
+  [0xff00, 0xff60], [0xffe0, 0xffe6], [0x16fe0, 0x16fe4], [0x17000, 0x18cff], [0x1b000, 0x1b2ff],
+  [0x1f004, 0x1f004], [0x1f0cf, 0x1f0cf], [0x1f18e, 0x1f18e], [0x1f191, 0x1f19a], [0x1f1e6, 0x1f1ff],
+  [0x1f200, 0x1f251], [0x1f300, 0x1f64f], [0x1f680, 0x1f6ff], [0x1f7e0, 0x1f7eb], [0x1f90c, 0x1f9ff],
+  [0x1fa70, 0x1faff], [0x20000, 0x2fffd], [0x30000, 0x3fffd],
+];
+
+/** Emoji presentation selector (VS16) - makes text-default emoji wide */
+const EMOJI_PRESENTATION = '\ufe0f';
+
+/** Code points that attach to the previous cluster when Intl.Segmenter is unavailable */
+const EXTEND = /^[\p{M}\u200d\ufe00-\ufe0f\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}]$/u;
+
+/** Regional indicator symbols (pairs form flags) */
+const REGIONAL_INDICATOR = /^[\u{1f1e6}-\u{1f1ff}]$/u;
+
+/** Intl.Segmenter is ES2022; only the grapheme API used here is declared */
+type GraphemeSegmenter = { segment(text: string): Iterable<{ segment: string }> };
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter;
+
+const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+const segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+
+/**
+ * Splits text into grapheme clusters (user-perceived characters).
+ * Uses Intl.Segmenter where available, otherwise an approximation that keeps
+ * combining marks, ZWJ sequences, variation selectors, skin tones and flags together.
+ *
+ * @param text - Text to split
+ * @returns Grapheme clusters in order
+ */
+export function splitGraphemes(text: string): string[] {
+  if (segmenter) {
+    return Array.from(segmenter.segment(text), s => s.segment);
+  }
+
+  const clusters: string[] = [];
+  let joinNext = false;
+  for (const char of text) {
+    const last = clusters.length - 1;
+    // A lone regional indicator pairs with the next one to form a flag
+    const completesFlag = REGIONAL_INDICATOR.test(char) && REGIONAL_INDICATOR.test(clusters[last] ?? '');
+    if (last >= 0 && (joinNext || EXTEND.test(char) || completesFlag)) {
+      clusters[last] += char;
+    } else {
+      clusters.push(char);
+    }
+    joinNext = char === '\u200d';
+  }
+  return clusters;
+}
+
+/**
+ * Returns the number of grid cells a grapheme occupies (2 for wide glyphs, otherwise 1).
+ *
+ * @param grapheme - Single grapheme cluster
+ */
+export function graphemeWidth(grapheme: string): 1 | 2 {
+  const codePoint = grapheme.codePointAt(0);
+  if (codePoint === undefined) {
+    return 1;
+  }
+  if (grapheme.length > 1 && grapheme.includes(EMOJI_PRESENTATION)) {
+    return 2;
+  }
+  if (codePoint < 0x1100) {
+    return 1;
+  }
+
+  // Binary search the sorted ranges
+  let low = 0;
+  let high = WIDE_RANGES.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const [start, end] = WIDE_RANGES[mid];
+    if (codePoint < start) {
+      high = mid - 1;
+    } else if (codePoint > end) {
+      low = mid + 1;
+    } else {
+      return 2;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Lays a line of text out as grid cells: one cell per grapheme, with a
+ * WIDE_CONTINUATION cell after each wide glyph.
+ *
+ * @param text - Single line of text
+ * @returns Cells (its length is the line's width in the grid)
+ */
+export function textToCells(text: string): string[] {
+  const cells: string[] = [];
+  for (const grapheme of splitGraphemes(text)) {
+    cells.push(grapheme);
+    if (graphemeWidth(grapheme) === 2) {
+      cells.push(WIDE_CONTINUATION);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Reverses a row of cells, keeping each wide glyph in front of its continuation.
+ *
+ * @param row - Row to reverse
+ * @returns New reversed row
+ */
+export function reverseCells(row: Cell[]): Cell[] {
+  const reversed: Cell[] = [];
+  for (let x = row.length - 1; x >= 0; x--) {
+    if (row[x] === WIDE_CONTINUATION && x > 0 && isWideGlyph(row[x - 1])) {
+      reversed.push(row[x - 1], WIDE_CONTINUATION);
+      x--;
+    } else {
+      reversed.push(row[x]);
+    }
+  }
+  return reversed;
+}
+
+/**
+ * Returns true if a cell holds a wide glyph (the left half of a two-cell pair).
+ *
+ * @param cell - Cell to test
+ */
+export function isWideGlyph(cell: Cell): boolean {
+  return cell !== null && cell !== WIDE_CONTINUATION && graphemeWidth(cell) === 2;
+}
@@ -0,0 +1,229 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { DrawingCanvas } from './DrawingCanvas';
+import { SetCellsCommand } from './commands';
+import { AsciiObject, type Cell } from '../../compositor/src/AsciiObject';
+import { Compositor } from '../../compositor/src/Compositor';
+import { WIDE_CONTINUATION } from '../../compositor/src/unicode';
+
+function text(cells: Cell[][]): string[] {
+  return cells.map(row => row.map(c => c ?? '.').join(''));
+}
+
+describe('DrawingCanvas', () => {
+  let canvas: DrawingCanvas;
+
+  beforeEach(() => {
+    canvas = new DrawingCanvas({ width: 5, height: 3 });
+  });
+
+  test('starts fully transparent', () => {
+    expect(text(canvas.getCells())).toEqual(['.....', '.....', '.....']);
+    expect(canvas.canUndo()).toBe(false);
+  });
+
+  describe('Tools', () => {
+    test('pencil joins stroke points', () => {
+      canvas.pencil([{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 2 }], '*');
+
+      expect(text(canvas.getCells())).toEqual(['*****', '....*', '....*']);
+    });
+
+    test('eraser sets cells to null', () => {
+      canvas.rect({ x: 0, y: 0 }, { x: 4, y: 2 }, '#', true);
+      canvas.erase([{ x: 1, y: 1 }, { x: 3, y: 1 }]);
+
+      expect(text(canvas.getCells())).toEqual(['#####', '#...#', '#####']);
+    });
+
+    test('line, rect and ellipse tools', () => {
+      canvas.line({ x: 0, y: 2 }, { x: 4, y: 2 }, '-');
+      expect(text(canvas.getCells())[2]).toBe('-----');
+
+      canvas.clear();
+      canvas.rect({ x: 0, y: 0 }, { x: 4, y: 2 }, '+');
+      expect(text(canvas.getCells())).toEqual(['+++++', '+...+', '+++++']);
+
+      canvas.clear();
+      canvas.ellipse({ x: 0, y: 0 }, { x: 4, y: 2 }, 'o');
+      expect(text(canvas.getCells())).toEqual(['.ooo.', 'o...o', '.ooo.']);
+    });
+
+    test('fill replaces the connected region', () => {
+      canvas.rect({ x: 0, y: 0 }, { x: 4, y: 2 }, '#');
+      canvas.fill({ x: 2, y: 1 }, ' ');
+
+      expect(text(canvas.getCells())).toEqual(['#####', '#   #', '#####']);
+
+      canvas.fill({ x: 0, y: 0 }, null);
+      expect(text(canvas.getCells())).toEqual(['.....', '.   .', '.....']);
+    });
+
+    test('text writes characters and wraps on newline', () => {
+      canvas.text({ x: 1, y: 0 }, 'hi\nyo');
+
+      expect(text(canvas.getCells())).toEqual(['.hi..', '.yo..', '.....']);
+    });
+
+    test('text lays out graphemes, with wide glyphs over two cells', () => {
+      const C = WIDE_CONTINUATION;
+      canvas.text({ x: 0, y: 0 }, '漢字e\u0301\n\u{1f600}\u{1f1ef}\u{1f1f5}');
+
+      expect(canvas.getCells().slice(0, 2)).toEqual([
+        ['漢', C, '字', C, 'e\u0301'],
+        ['\u{1f600}', C, '\u{1f1ef}\u{1f1f5}', C, null],
+      ]);
+    });
+
+    test('wide tool characters draw glyph and continuation pairs', () => {
+      const C = WIDE_CONTINUATION;
+      canvas.line({ x: 0, y: 0 }, { x: 4, y: 0 }, '漢');
+      canvas.pencil([{ x: 0, y: 1 }, { x: 0, y: 2 }], '\u{1f1ef}\u{1f1f5}');
+      canvas.pencil([{ x: 4, y: 2 }], '\u{1f600}');
+      canvas.pencil([{ x: 2, y: 1 }], 'e\u0301');
+
+      expect(canvas.getCells()).toEqual([
+        ['漢', C, '漢', C, null],
+        ['\u{1f1ef}\u{1f1f5}', C, 'e\u0301', null, null],
+        ['\u{1f1ef}\u{1f1f5}', C, null, null, null],
+      ]);
+      const compositor = new Compositor([new AsciiObject(canvas.toObjectOptions({ id: 'art' }))]);
+      expect(compositor.render({ x: 0, y: 0, width: 5, height: 1 }).characters[0]).toEqual(['漢', C, '漢', C, ' ']);
+    });
+
+    test('tools clip to the grid', () => {
+      canvas.line({ x: -2, y: 1 }, { x: 10, y: 1 }, '=');
+      canvas.text({ x: 3, y: 2 }, 'long');
+
+      expect(text(canvas.getCells())).toEqual(['.....', '=====', '...lo']);
+    });
+
+    test('validates tool characters', () => {
+      expect(() => canvas.pencil([{ x: 0, y: 0 }], 'ab')).toThrow('Tool character must be a single character');
+      expect(() => canvas.pencil([{ x: 0, y: 0 }], '漢字')).toThrow('Tool character must be a single character');
+      expect(() => canvas.line({ x: 0, y: 0 }, { x: 1, y: 0 }, '')).toThrow(
+        'Tool character must be a single character'
+      );
+    });
+
+    test('rejects non-integer tool positions without drawing', () => {
+      expect(() => canvas.line({ x: 0.5, y: 0 }, { x: 3, y: 0 }, '#')).toThrow('Tool positions must be integers');
+      expect(() => canvas.pencil([{ x: 0, y: 0 }, { x: NaN, y: 1 }], '#')).toThrow('Tool positions must be integers');
+      expect(() => canvas.erase([{ x: 1, y: Infinity }])).toThrow('Tool positions must be integers');
+      expect(() => canvas.rect({ x: 0, y: 0 }, { x: 2, y: 1.5 }, '#')).toThrow('Tool positions must be integers');
+      expect(() => canvas.fill({ x: NaN, y: 0 }, '#')).toThrow('Tool positions must be integers');
+      expect(() => canvas.text({ x: 0.1, y: 0 }, 'a')).toThrow('Tool positions must be integers');
+
+      expect(canvas.canUndo()).toBe(false);
+    });
+  });
+
+  describe('Undo/redo', () => {
+    test('undoes and redoes each tool as one step', () => {
+      canvas.line({ x: 0, y: 0 }, { x: 4, y: 0 }, '-');
+      canvas.text({ x: 0, y: 1 }, 'ab');
+
+      expect(canvas.getHistory()).toEqual(['Line', 'Text']);
+
+      expect(canvas.undo()).toBe(true);
+      expect(text(canvas.getCells())).toEqual(['-----', '.....', '.....']);
+
+      expect(canvas.undo()).toBe(true);
+      expect(text(canvas.getCells())).toEqual(['.....', '.....', '.....']);
+      expect(canvas.undo()).toBe(false);
+
+      expect(canvas.redo()).toBe(true);
+      expect(canvas.redo()).toBe(true);
+      expect(text(canvas.getCells())).toEqual(['-----', 'ab...', '.....']);
+      expect(canvas.redo()).toBe(false);
+    });
+
+    test('restores overwritten characters', () => {
+      canvas.text({ x: 0, y: 0 }, 'abc');
+      canvas.line({ x: 0, y: 0 }, { x: 4, y: 0 }, '-');
+      canvas.undo();
+
+      expect(text(canvas.getCells())[0]).toBe('abc..');
+    });
+
+    test('a self-overlapping stroke undoes to the original value', () => {
+      canvas.text({ x: 0, y: 0 }, 'x');
+      canvas.pencil([{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 0 }], '*');
+      canvas.undo();
+
+      expect(text(canvas.getCells())[0]).toBe('x....');
+    });
+
+    test('new edits clear the redo stack', () => {
+      canvas.text({ x: 0, y: 0 }, 'a');
+      canvas.undo();
+      canvas.text({ x: 1, y: 0 }, 'b');
+
+      expect(canvas.canRedo()).toBe(false);
+    });
+
+    test('edits that change nothing are not recorded', () => {
+      canvas.erase([{ x: 0, y: 0 }]);
+      canvas.line({ x: 10, y: 10 }, { x: 12, y: 10 }, '-');
+
+      expect(canvas.canUndo()).toBe(false);
+    });
+
+    test('honors the history limit', () => {
+      const limited = new DrawingCanvas({ width: 3, height: 1, historyLimit: 2 });
+      limited.text({ x: 0, y: 0 }, 'a');
+      limited.text({ x: 1, y: 0 }, 'b');
+      limited.text({ x: 2, y: 0 }, 'c');
+
+      expect(limited.undo()).toBe(true);
+      expect(limited.undo()).toBe(true);
+      expect(limited.undo()).toBe(false);
+      expect(text(limited.getCells())).toEqual(['a..']);
+    });
+
+    test('executes custom commands', () => {
+      canvas.execute(new SetCellsCommand('Stamp', [{ x: 2, y: 1, before: null, after: '@' }]));
+      expect(canvas.getCell(2, 1)).toBe('@');
+
+      canvas.undo();
+      expect(canvas.getCell(2, 1)).toBeNull();
+    });
+  });
+
+  describe('Export', () => {
+    test('exports AsciiObject options that render in a Compositor', () => {
+      canvas.rect({ x: 0, y: 0 }, { x: 2, y: 2 }, '#');
+      const options = canvas.toObjectOptions({ id: 'art', position: { x: 1, y: 0 }, color: '#ff0000', layer: 2 });
+      const compositor = new Compositor([new AsciiObject(options)]);
+      const output = compositor.render({ x: 0, y: 0, width: 6, height: 3 });
+
+      expect(options.layer).toBe(2);
+      expect(output.characters.map(row => row.join(''))).toEqual([' ###  ', ' # #  ', ' ###  ']);
+      expect(output.colors[0][1]).toBe('#ff0000');
+    });
+
+    test('trim crops to drawn cells and shifts position', () => {
+      canvas.text({ x: 2, y: 1 }, 'ok');
+      const options = canvas.toObjectOptions({ id: 'art', position: { x: 10, y: 10 }, trim: true });
+
+      expect(options.content).toEqual([['o', 'k']]);
+      expect(options.position).toEqual({ x: 12, y: 11 });
+      expect(() => new DrawingCanvas({ width: 2, height: 2 }).toObjectOptions({ id: 'x', trim: true })).toThrow(
+        'Cannot trim an empty canvas'
+      );
+    });
+
+    test('export is a copy of the grid', () => {
+      const options = canvas.toObjectOptions({ id: 'art' });
+      (options.content as Cell[][])[0][0] = 'z';
+
+      expect(canvas.getCell(0, 0)).toBeNull();
+    });
+  });
+
+  test('validates options', () => {
+    expect(() => new DrawingCanvas({ width: 0, height: 1 })).toThrow('Canvas dimensions must be positive integers');
+    expect(() => new DrawingCanvas({ width: 1, height: 1, historyLimit: -1 })).toThrow(
+      'History limit must be a non-negative integer'
+    );
+  });
+});
@@ -0,0 +1,440 @@
+/**
+ * DrawingCanvas - Headless drawing model over a Cell[][] grid
+ *
+ * Provides pencil, eraser, line, rectangle, ellipse, flood fill and text tools
+ * with command-based undo/redo. Framework-free: a UI forwards pointer and key
+ * input to the tool methods and renders getCells() however it likes.
+ *
+ * Cells hold one grapheme cluster, as in the compositor: a wide glyph (CJK,
+ * emoji) takes two cells, the glyph followed by a WIDE_CONTINUATION cell.
+ *
+ * @module @ascii-art-studio/draw
+ */
+
+import type { AsciiObjectOptions, Cell, Influence, Position } from '../../compositor/src/AsciiObject';
+import { type Command, type CellChange, SetCellsCommand } from './commands';
+import { linePoints, rectPoints, ellipsePoints, floodFillPoints } from './shapes';
+import { WIDE_CONTINUATION, isWideGlyph, splitGraphemes, textToCells } from '../../compositor/src/unicode';
+
+/** Options for creating a DrawingCanvas */
+export interface DrawingCanvasOptions {
+  /** Grid width in cells */
+  width: number;
+  /** Grid height in cells */
+  height: number;
+  /** Maximum number of undo steps kept (default: 100) */
+  historyLimit?: number;
+}
+
+/** Options for exporting a drawing as AsciiObject options */
+export interface ExportOptions {
+  /** Object id */
+  id: string;
+  /** Canvas position of the drawing's top-left cell (default: {x: 0, y: 0}) */
+  position?: Position;
+  /** Hex color in #RRGGBB format */
+  color?: string;
+  /** Layer number */
+  layer?: number;
+  /** Optional influence effect */
+  influence?: Influence;
+  /** Crop to the drawn cells and shift position to match (default: false) */
+  trim?: boolean;
+}
+
+/** Default number of undo steps kept */
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Editable cell grid with drawing tools and undo/redo.
+ *
+ * All tools clip to the grid and record a single undo step; edits that change
+ * nothing are not recorded.
+ *
+ * @example
+ * ```typescript
+ * const canvas = new DrawingCanvas({ width: 20, height: 10 });
+ * canvas.rect({ x: 0, y: 0 }, { x: 19, y: 9 }, '#');
+ * canvas.text({ x: 2, y: 2 }, 'Hello');
+ * compositor.addObject(new AsciiObject(canvas.toObjectOptions({ id: 'sign' })));
+ * ```
+ */
+export class DrawingCanvas {
+  /** Grid width in cells */
+  public readonly width: number;
+
+  /** Grid height in cells */
+  public readonly height: number;
+
+  /** Cell grid (null = transparent) */
+  private cells: Cell[][];
+
+  /** Executed commands, oldest first */
+  private undoStack: Command[] = [];
+
+  /** Undone commands, most recently undone last */
+  private redoStack: Command[] = [];
+
+  /** Maximum undo steps kept */
+  private historyLimit: number;
+
+  /**
+   * Creates an empty (fully transparent) canvas.
+   *
+   * @param options - Canvas size and history limit
+   * @throws {Error} If dimensions or history limit are invalid
+   */
+  constructor(options: DrawingCanvasOptions) {
+    const { width, height } = options;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      throw new Error('Canvas dimensions must be positive integers');
+    }
+
+    const historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    if (!Number.isInteger(historyLimit) || historyLimit < 0) {
+      throw new Error('History limit must be a non-negative integer');
+    }
+
+    this.width = width;
+    this.height = height;
+    this.historyLimit = historyLimit;
+    this.cells = Array.from({ length: height }, () => new Array<Cell>(width).fill(null));
+  }
+
+  /**
+   * Returns a cell's value (null outside the grid).
+   */
+  getCell(x: number, y: number): Cell {
+    if (!this.inBounds(x, y)) {
+      return null;
+    }
+    return this.cells[y][x];
+  }
+
+  /**
+   * Returns a copy of the grid.
+   */
+  getCells(): Cell[][] {
+    return this.cells.map(row => [...row]);
+  }
+
+  /**
+   * Draws a freehand stroke. Consecutive points are joined with lines so fast
+   * pointer movement leaves no gaps.
+   *
+   * @param points - Stroke points in drawing order
+   * @param char - Character to draw
+   */
+  pencil(points: Position[], char: string): void {
+    this.validateChar(char);
+    this.validatePositions(points);
+    this.setCells('Pencil', this.strokePoints(points), char);
+  }
+
+  /**
+   * Erases a freehand stroke (sets cells to null).
+   *
+   * @param points - Stroke points in drawing order
+   */
+  erase(points: Position[]): void {
+    this.validatePositions(points);
+    this.setCells('Erase', this.strokePoints(points), null);
+  }
+
+  /**
+   * Draws a straight line.
+   *
+   * @param from - Start cell
+   * @param to - End cell
+   * @param char - Character to draw
+   */
+  line(from: Position, to: Position, char: string): void {
+    this.validateChar(char);
+    this.validatePositions([from, to]);
+    this.setCells('Line', linePoints(from, to), char);
+  }
+
+  /**
+   * Draws a rectangle spanned by two opposite corners.
+   *
+   * @param from - One corner
+   * @param to - Opposite corner
+   * @param char - Character to draw
+   * @param filled - Fill the interior (default: false)
+   */
+  rect(from: Position, to: Position, char: string, filled: boolean = false): void {
+    this.validateChar(char);
+    this.validatePositions([from, to]);
+    this.setCells('Rectangle', rectPoints(from, to, filled), char);
+  }
+
+  /**
+   * Draws an ellipse inscribed in the box spanned by two opposite corners.
+   *
+   * @param from - One corner of the bounding box
+   * @param to - Opposite corner of the bounding box
+   * @param char - Character to draw
+   * @param filled - Fill the interior (default: false)
+   */
+  ellipse(from: Position, to: Position, char: string, filled: boolean = false): void {
+    this.validateChar(char);
+    this.validatePositions([from, to]);
+    this.setCells('Ellipse', ellipsePoints(from, to, filled), char);
+  }
+
+  /**
+   * Flood fills the 4-connected region of cells matching the start cell.
+   *
+   * @param at - Seed cell
+   * @param char - Character to fill with (null fills with transparency)
+   */
+  fill(at: Position, char: Cell): void {
+    if (char !== null) {
+      this.validateChar(char);
+    }
+    this.validatePositions([at]);
+    this.setCells('Fill', floodFillPoints(this.cells, at), char);
+  }
+
+  /**
+   * Writes text starting at a cell. '\n' starts a new line below the start column.
+   * Each grapheme takes one cell, wide glyphs two (see textToCells).
+   *
+   * @param at - Cell of the first character
+   * @param text - Text to write
+   */
+  text(at: Position, text: string): void {
+    this.validatePositions([at]);
+    const changes = text.split('\n').flatMap((line, row) =>
+      textToCells(line).map((char, column) => this.change({ x: at.x + column, y: at.y + row }, char))
+    );
+
+    this.record('Text', changes);
+  }
+
+  /**
+   * Clears every cell to null.
+   */
+  clear(): void {
+    this.setCells('Clear', rectPoints({ x: 0, y: 0 }, { x: this.width - 1, y: this.height - 1 }, true), null);
+  }
+
+  /**
+   * Executes a command and records it for undo. Clears the redo stack.
+   *
+   * @param command - Command to execute
+   */
+  execute(command: Command): void {
+    command.execute(this.cells);
+    this.undoStack.push(command);
+    this.redoStack = [];
+
+    if (this.undoStack.length > this.historyLimit) {
+      this.undoStack.splice(0, this.undoStack.length - this.historyLimit);
+    }
+  }
+
+  /**
+   * Undoes the most recent command.
+   *
+   * @returns True if a command was undone
+   */
+  undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) {
+      return false;
+    }
+    command.undo(this.cells);
+    this.redoStack.push(command);
+    return true;
+  }
+
+  /**
+   * Redoes the most recently undone command.
+   *
+   * @returns True if a command was redone
+   */
+  redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) {
+      return false;
+    }
+    command.execute(this.cells);
+    this.undoStack.push(command);
+    return true;
+  }
+
+  /**
+   * Returns true if there is a command to undo.
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Returns true if there is a command to redo.
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Returns the labels of undoable commands, oldest first.
+   */
+  getHistory(): string[] {
+    return this.undoStack.map(command => command.label);
+  }
+
+  /**
+   * Exports the drawing as AsciiObject options, ready for `new AsciiObject(...)`.
+   *
+   * @param options - Object id, placement and styling
+   * @returns AsciiObject options with a copy of the grid as content
+   * @throws {Error} If trim is requested on a canvas with nothing drawn
+   */
+  toObjectOptions(options: ExportOptions): AsciiObjectOptions {
+    const position = options.position ?? { x: 0, y: 0 };
+    let content = this.getCells();
+    let offsetX = 0;
+    let offsetY = 0;
+
+    if (options.trim) {
+      const bounds = this.getDrawnBounds();
+      if (!bounds) {
+        throw new Error('Cannot trim an empty canvas');
+      }
+      content = content.slice(bounds.minY, bounds.maxY + 1).map(row => row.slice(bounds.minX, bounds.maxX + 1));
+      offsetX = bounds.minX;
+      offsetY = bounds.minY;
+    }
+
+    const result: AsciiObjectOptions = {
+      id: options.id,
+      content,
+      position: { x: position.x + offsetX, y: position.y + offsetY },
+    };
+    if (options.color !== undefined) result.color = options.color;
+    if (options.layer !== undefined) result.layer = options.layer;
+    if (options.influence !== undefined) result.influence = options.influence;
+
+    return result;
+  }
+
+  /**
+   * Returns the bounding box of non-null cells, or null if nothing is drawn.
+   */
+  private getDrawnBounds(): { minX: number; minY: number; maxX: number; maxY: number } | null {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (this.cells[y][x] !== null) {
+          minX = Math.min(minX, x);
+          minY = Math.min(minY, y);
+          maxX = Math.max(maxX, x);
+          maxY = Math.max(maxY, y);
+        }
+      }
+    }
+
+    return minX === Infinity ? null : { minX, minY, maxX, maxY };
+  }
+
+  /**
+   * Expands stroke points into connected line segments.
+   */
+  private strokePoints(points: Position[]): Position[] {
+    if (points.length === 1) {
+      return [points[0]];
+    }
+    const result: Position[] = [];
+    for (let i = 1; i < points.length; i++) {
+      result.push(...linePoints(points[i - 1], points[i]));
+    }
+    return result;
+  }
+
+  /**
+   * Records a command writing one value to every point.
+   * A wide glyph also writes a continuation into the cell right of each point; points
+   * whose pair would overlap one already drawn, or leave the grid, are skipped.
+   */
+  private setCells(label: string, points: Position[], value: Cell): void {
+    if (!isWideGlyph(value)) {
+      this.record(label, points.map(point => this.change(point, value)));
+      return;
+    }
+
+    const covered = new Set<string>();
+    const changes: Array<CellChange | null> = [];
+    for (const point of points) {
+      const right = { x: point.x + 1, y: point.y };
+      const keys = [`${point.x},${point.y}`, `${right.x},${right.y}`];
+      if (keys.some(key => covered.has(key)) || !this.inBounds(point.x, point.y) || !this.inBounds(right.x, right.y)) {
+        continue;
+      }
+      keys.forEach(key => covered.add(key));
+      changes.push(this.change(point, value), this.change(right, WIDE_CONTINUATION));
+    }
+    this.record(label, changes);
+  }
+
+  /**
+   * Builds a change for a point, or null if it is off-grid.
+   */
+  private change(point: Position, after: Cell): CellChange | null {
+    if (!this.inBounds(point.x, point.y)) {
+      return null;
+    }
+    return { x: point.x, y: point.y, before: this.cells[point.y][point.x], after };
+  }
+
+  /**
+   * Executes a SetCellsCommand for the effective changes.
+   * Duplicate points keep their last value; no-op edits are not recorded.
+   */
+  private record(label: string, changes: Array<CellChange | null>): void {
+    const byCell = new Map<number, CellChange>();
+    for (const change of changes) {
+      if (!change) continue;
+      const key = change.y * this.width + change.x;
+      const first = byCell.get(key);
+      // Keep the original before value when a cell is written twice
+      byCell.set(key, first ? { ...change, before: first.before } : change);
+    }
+
+    const effective = [...byCell.values()].filter(change => change.before !== change.after);
+    if (effective.length === 0) {
+      return;
+    }
+    this.execute(new SetCellsCommand(label, effective));
+  }
+
+  /**
+   * Checks that a tool character is a single grapheme cluster.
+   */
+  private validateChar(char: string): void {
+    if (typeof char !== 'string' || splitGraphemes(char).length !== 1) {
+      throw new Error('Tool character must be a single character');
+    }
+  }
+
+  /**
+   * Checks that tool positions are on integer cells.
+   */
+  private validatePositions(points: Position[]): void {
+    if (!points.every(point => Number.isInteger(point.x) && Number.isInteger(point.y))) {
+      throw new Error('Tool positions must be integers');
+    }
+  }
+
+  /**
+   * Checks whether a cell is inside the grid.
+   */
+  private inBounds(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
+}
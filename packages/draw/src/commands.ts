@@ -0,0 +1,64 @@
+/**
+ * Undoable drawing commands
+ *
+ * Every edit to a DrawingCanvas is a Command, so the canvas can undo and redo
+ * it. Built-in tools produce SetCellsCommand diffs; custom tools can implement
+ * Command directly.
+ *
+ * @module @ascii-art-studio/draw
+ */
+
+import type { Cell } from '../../compositor/src/AsciiObject';
+
+/** An undoable edit to a cell grid */
+export interface Command {
+  /** Human-readable name for history UIs (e.g. 'Line') */
+  readonly label: string;
+  /** Applies the edit to the grid */
+  execute(cells: Cell[][]): void;
+  /** Reverts the edit (the grid is in the state execute() left it in) */
+  undo(cells: Cell[][]): void;
+}
+
+/** A single cell's value before and after an edit */
+export interface CellChange {
+  x: number;
+  y: number;
+  before: Cell;
+  after: Cell;
+}
+
+/**
+ * Command that writes a set of cells, remembering their previous values.
+ */
+export class SetCellsCommand implements Command {
+  /**
+   * Creates a cell-diff command.
+   *
+   * @param label - Name for history UIs
+   * @param changes - Cells to write (coordinates must be inside the grid)
+   */
+  constructor(
+    public readonly label: string,
+    public readonly changes: readonly CellChange[]
+  ) {}
+
+  /**
+   * Writes each change's after value.
+   */
+  execute(cells: Cell[][]): void {
+    for (const change of this.changes) {
+      cells[change.y][change.x] = change.after;
+    }
+  }
+
+  /**
+   * Restores each change's before value (in reverse order).
+   */
+  undo(cells: Cell[][]): void {
+    for (let i = this.changes.length - 1; i >= 0; i--) {
+      const change = this.changes[i];
+      cells[change.y][change.x] = change.before;
+    }
+  }
+}
@@ -4,3 +4,9 @@
  */
 
 export const version = '0.0.0'
+
+export { DrawingCanvas } from './DrawingCanvas'
+export type { DrawingCanvasOptions, ExportOptions } from './DrawingCanvas'
+export { SetCellsCommand } from './commands'
+export type { Command, CellChange } from './commands'
+export { linePoints, rectPoints, ellipsePoints, floodFillPoints } from './shapes'
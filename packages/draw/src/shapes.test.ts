@@ -0,0 +1,86 @@
+import { describe, test, expect } from 'vitest';
+import { linePoints, rectPoints, ellipsePoints, floodFillPoints } from './shapes';
+import type { Position } from '../../compositor/src/AsciiObject';
+
+/** Plots points onto a grid of '.' for readable assertions */
+function plot(points: Position[], width: number, height: number): string[] {
+  const rows = Array.from({ length: height }, () => new Array(width).fill('.'));
+  for (const { x, y } of points) {
+    rows[y][x] = '#';
+  }
+  return rows.map(row => row.join(''));
+}
+
+describe('linePoints', () => {
+  test('draws horizontal, vertical and diagonal lines inclusively', () => {
+    expect(linePoints({ x: 0, y: 0 }, { x: 3, y: 0 })).toHaveLength(4);
+    expect(linePoints({ x: 1, y: 3 }, { x: 1, y: 0 })).toEqual([
+      { x: 1, y: 3 },
+      { x: 1, y: 2 },
+      { x: 1, y: 1 },
+      { x: 1, y: 0 },
+    ]);
+    expect(plot(linePoints({ x: 0, y: 0 }, { x: 2, y: 2 }), 3, 3)).toEqual(['#..', '.#.', '..#']);
+  });
+
+  test('draws shallow lines without gaps', () => {
+    expect(plot(linePoints({ x: 0, y: 0 }, { x: 5, y: 1 }), 6, 2)).toEqual(['###...', '...###']);
+  });
+
+  test('handles a single point', () => {
+    expect(linePoints({ x: 2, y: 2 }, { x: 2, y: 2 })).toEqual([{ x: 2, y: 2 }]);
+  });
+
+  test('rejects fractional and NaN endpoints instead of looping forever', () => {
+    expect(() => linePoints({ x: 0.5, y: 0 }, { x: 3, y: 0 })).toThrow('Line endpoints must be integers');
+    expect(() => linePoints({ x: 0, y: 0 }, { x: NaN, y: 2 })).toThrow('Line endpoints must be integers');
+  });
+});
+
+describe('rectPoints', () => {
+  test('draws an outline from any corner order', () => {
+    expect(plot(rectPoints({ x: 3, y: 2 }, { x: 0, y: 0 }), 4, 3)).toEqual(['####', '#..#', '####']);
+  });
+
+  test('draws a filled rectangle', () => {
+    expect(plot(rectPoints({ x: 0, y: 0 }, { x: 2, y: 1 }, true), 3, 2)).toEqual(['###', '###']);
+  });
+});
+
+describe('ellipsePoints', () => {
+  test('draws a closed, symmetric outline', () => {
+    expect(plot(ellipsePoints({ x: 0, y: 0 }, { x: 8, y: 4 }), 9, 5)).toEqual([
+      '..#####..',
+      '##.....##',
+      '#.......#',
+      '##.....##',
+      '..#####..',
+    ]);
+  });
+
+  test('draws a filled ellipse', () => {
+    expect(plot(ellipsePoints({ x: 0, y: 0 }, { x: 4, y: 2 }, true), 5, 3)).toEqual(['.###.', '#####', '.###.']);
+  });
+
+  test('degenerates to a line for zero height', () => {
+    expect(plot(ellipsePoints({ x: 0, y: 0 }, { x: 3, y: 0 }), 4, 1)).toEqual(['####']);
+  });
+});
+
+describe('floodFillPoints', () => {
+  test('fills the 4-connected region matching the seed value', () => {
+    const cells = [
+      ['#', '#', '#', null],
+      ['#', null, '#', null],
+      ['#', '#', '#', null],
+    ];
+
+    expect(floodFillPoints(cells, { x: 1, y: 1 })).toEqual([{ x: 1, y: 1 }]);
+    expect(floodFillPoints(cells, { x: 3, y: 0 })).toHaveLength(3);
+    expect(floodFillPoints(cells, { x: 0, y: 0 })).toHaveLength(8);
+  });
+
+  test('returns nothing for a seed outside the grid', () => {
+    expect(floodFillPoints([['a']], { x: 5, y: 0 })).toEqual([]);
+  });
+});
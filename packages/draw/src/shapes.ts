@@ -0,0 +1,160 @@
+/**
+ * Shape rasterization for drawing tools
+ *
+ * Pure functions that return the grid cells covered by a shape. Results may
+ * include cells outside the canvas; callers clip them.
+ *
+ * @module @ascii-art-studio/draw
+ */
+
+import type { Cell, Position } from '../../compositor/src/AsciiObject';
+
+/**
+ * Returns the cells on a straight line between two points (Bresenham).
+ *
+ * @param from - Start point (included)
+ * @param to - End point (included)
+ * @returns Cells in order from start to end
+ * @throws Error if an endpoint is not on integer coordinates
+ */
+export function linePoints(from: Position, to: Position): Position[] {
+  // Fractional or NaN endpoints never reach `to`, so the loop below would not end
+  if (![from.x, from.y, to.x, to.y].every(Number.isInteger)) {
+    throw new Error('Line endpoints must be integers');
+  }
+  const points: Position[] = [];
+  let x = from.x;
+  let y = from.y;
+  const dx = Math.abs(to.x - x);
+  const dy = -Math.abs(to.y - y);
+  const sx = x < to.x ? 1 : -1;
+  const sy = y < to.y ? 1 : -1;
+  let err = dx + dy;
+
+  while (true) {
+    points.push({ x, y });
+    if (x === to.x && y === to.y) {
+      break;
+    }
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y += sy;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Returns the cells of a rectangle spanned by two opposite corners.
+ *
+ * @param from - One corner (included)
+ * @param to - Opposite corner (included)
+ * @param filled - Include the interior (default: false)
+ * @returns Cells row by row
+ */
+export function rectPoints(from: Position, to: Position, filled: boolean = false): Position[] {
+  const minX = Math.min(from.x, to.x);
+  const maxX = Math.max(from.x, to.x);
+  const minY = Math.min(from.y, to.y);
+  const maxY = Math.max(from.y, to.y);
+  const points: Position[] = [];
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (filled || y === minY || y === maxY || x === minX || x === maxX) {
+        points.push({ x, y });
+      }
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Returns the cells of an ellipse inscribed in the box spanned by two opposite corners.
+ * The outline is the set of filled cells with a side neighbor outside the ellipse,
+ * so it has no gaps at any aspect ratio.
+ *
+ * @param from - One corner of the bounding box
+ * @param to - Opposite corner of the bounding box
+ * @param filled - Include the interior (default: false)
+ * @returns Cells row by row
+ */
+export function ellipsePoints(from: Position, to: Position, filled: boolean = false): Position[] {
+  const minX = Math.min(from.x, to.x);
+  const maxX = Math.max(from.x, to.x);
+  const minY = Math.min(from.y, to.y);
+  const maxY = Math.max(from.y, to.y);
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  // Radii reach the outer edges of the corner cells so the ellipse touches every side of the box
+  const rx = (maxX - minX + 1) / 2;
+  const ry = (maxY - minY + 1) / 2;
+
+  // Horizontal extent of the filled ellipse on each row (cells whose centers are inside)
+  const spans: Array<[number, number]> = [];
+  for (let y = minY; y <= maxY; y++) {
+    const t = (y - cy) / ry;
+    const dx = rx * Math.sqrt(1 - t * t);
+    spans.push([Math.ceil(cx - dx), Math.floor(cx + dx)]);
+  }
+
+  const inside = (x: number, y: number): boolean => {
+    if (y < minY || y > maxY) return false;
+    const [left, right] = spans[y - minY];
+    return x >= left && x <= right;
+  };
+
+  const points: Position[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    const [left, right] = spans[y - minY];
+    for (let x = left; x <= right; x++) {
+      const edge = !inside(x - 1, y) || !inside(x + 1, y) || !inside(x, y - 1) || !inside(x, y + 1);
+      if (filled || edge) {
+        points.push({ x, y });
+      }
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Returns the 4-connected region of cells that share the start cell's value.
+ *
+ * @param cells - Grid to search
+ * @param start - Seed cell
+ * @returns Cells in the region (empty if start is outside the grid)
+ */
+export function floodFillPoints(cells: Cell[][], start: Position): Position[] {
+  const height = cells.length;
+  const width = height > 0 ? cells[0].length : 0;
+  if (start.x < 0 || start.y < 0 || start.x >= width || start.y >= height) {
+    return [];
+  }
+
+  const target = cells[start.y][start.x];
+  const visited = new Uint8Array(width * height);
+  const points: Position[] = [];
+  const stack: Position[] = [start];
+
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    if (x < 0 || y < 0 || x >= width || y >= height) continue;
+
+    const index = y * width + x;
+    if (visited[index] || cells[y][x] !== target) continue;
+    visited[index] = 1;
+
+    points.push({ x, y });
+    stack.push({ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 });
+  }
+
+  return points;
+}
@@ -4,6 +4,7 @@
  */
 
 import { Compositor, AsciiObject } from '../../../compositor/src/Compositor';
+import { Tilemap } from '../../../compositor/src/Tilemap';
 
 export function renderEdgeDetectionStaticDemo(): string {
   return getHtml();
@@ -447,14 +448,11 @@ function createSingleCharShapeExplicit(): string[][] {
 }
 
 function addBackground(compositor: Compositor) {
-  const pattern: string[] = [];
-  for (let y = 0; y < 23; y++) {
-    pattern.push('.'.repeat(40));
-  }
-
-  compositor.addObject(new AsciiObject({ id: 'background',
-    content: pattern,
-    position: { x: 0, y: 0 },
+  // A single dot tile repeated over the whole pane
+  compositor.addTilemap(new Tilemap({ id: 'background',
+    tileset: ['.'],
+    grid: [[0]],
+    wrap: 'both',
     color: '#808080',
     layer: -1,
   }));
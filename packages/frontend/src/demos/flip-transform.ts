@@ -4,6 +4,7 @@
  */
 
 import { Compositor, AsciiObject } from '../../../compositor/src/Compositor';
+import { Tilemap } from '../../../compositor/src/Tilemap';
 
 let compositor: Compositor;
 let flipH = false;
@@ -21,15 +22,11 @@ export function renderFlipTransformDemo(): string {
 }
 
 function addBackgroundPattern() {
-  // Create a solid dot background
-  const pattern: string[] = [];
-  for (let y = 0; y < 20; y++) {
-    pattern.push('.'.repeat(50));
-  }
-
-  compositor.addObject(new AsciiObject({ id: 'background',
-    content: pattern,
-    position: { x: 0, y: 0 },
+  // Create a solid dot background from a single repeated tile
+  compositor.addTilemap(new Tilemap({ id: 'background',
+    tileset: ['.'],
+    grid: [[0]],
+    wrap: 'both',
     color: '#404040', // Darker for more contrast
     layer: -1, // Behind the arrow
   }));
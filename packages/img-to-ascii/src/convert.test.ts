@@ -0,0 +1,146 @@
+import { describe, test, expect } from 'vitest';
+import { imageToAscii, type PixelBuffer } from './convert';
+import { RAMPS, resolveRamp } from './ramps';
+import { AsciiObject } from '../../compositor/src/AsciiObject';
+import { Compositor } from '../../compositor/src/Compositor';
+
+type RGBA = [number, number, number, number];
+
+/** Builds a pixel buffer from a callback returning each pixel's RGBA */
+function image(width: number, height: number, pixel: (x: number, y: number) => RGBA): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+const WHITE: RGBA = [255, 255, 255, 255];
+const BLACK: RGBA = [0, 0, 0, 255];
+const CLEAR: RGBA = [0, 0, 0, 0];
+
+describe('imageToAscii', () => {
+  test('maps brightness onto the ramp', () => {
+    const img = image(2, 1, x => (x === 0 ? BLACK : WHITE));
+    const result = imageToAscii(img, { charAspect: 1 });
+
+    expect(result.content).toEqual([[' ', '@']]);
+  });
+
+  test('invert maps dark pixels to dense glyphs', () => {
+    const img = image(2, 1, x => (x === 0 ? BLACK : WHITE));
+    const result = imageToAscii(img, { charAspect: 1, invert: true });
+
+    expect(result.content).toEqual([['@', ' ']]);
+  });
+
+  test('gamma reshapes midtones', () => {
+    const gray = image(1, 1, () => [128, 128, 128, 255]);
+
+    const linear = imageToAscii(gray, { charAspect: 1 }).content[0][0];
+    const darker = imageToAscii(gray, { charAspect: 1, gamma: 2.2 }).content[0][0];
+
+    expect(linear).toBe('+');
+    expect(RAMPS.standard.indexOf(darker!)).toBeLessThan(RAMPS.standard.indexOf(linear!));
+  });
+
+  test('supports built-in and custom ramps', () => {
+    const img = image(3, 1, x => [x * 127, x * 127, x * 127, 255]);
+
+    expect(imageToAscii(img, { charAspect: 1, ramp: 'blocks' }).content).toEqual([[' ', '▒', '█']]);
+    expect(imageToAscii(img, { charAspect: 1, ramp: '.oO' }).content).toEqual([['.', 'o', 'O']]);
+  });
+
+  test('averages pixel blocks to the output width', () => {
+    // Left half black, right half white
+    const img = image(8, 2, x => (x < 4 ? BLACK : WHITE));
+    const result = imageToAscii(img, { width: 2, charAspect: 1 });
+
+    expect(result.width).toBe(2);
+    expect(result.height).toBe(1);
+    expect(result.content).toEqual([[' ', '@']]);
+  });
+
+  test('corrects for character aspect', () => {
+    const img = image(40, 40, () => WHITE);
+
+    expect(imageToAscii(img, { width: 20 }).height).toBe(10);
+    expect(imageToAscii(img, { width: 20, charAspect: 1 }).height).toBe(20);
+    expect(imageToAscii(img, { width: 20, height: 3 }).height).toBe(3);
+  });
+
+  test('defaults width to the image width capped at 80 columns', () => {
+    expect(imageToAscii(image(10, 10, () => WHITE)).width).toBe(10);
+    expect(imageToAscii(image(200, 10, () => WHITE)).width).toBe(80);
+  });
+
+  test('produces per-cell colors and an average color', () => {
+    const img = image(2, 1, x => (x === 0 ? [255, 0, 0, 255] : [0, 0, 255, 255]));
+    const result = imageToAscii(img, { charAspect: 1 });
+
+    expect(result.colors).toEqual([['#ff0000', '#0000ff']]);
+    expect(result.color).toBe('#800080');
+  });
+
+  test('transparent pixels become null cells', () => {
+    const img = image(2, 1, x => (x === 0 ? CLEAR : WHITE));
+    const result = imageToAscii(img, { charAspect: 1 });
+
+    expect(result.content).toEqual([[null, '@']]);
+    expect(result.colors).toEqual([[null, '#ffffff']]);
+  });
+
+  test('alpha-weights colors so transparent pixels do not darken edges', () => {
+    const img = image(2, 1, x => (x === 0 ? CLEAR : [200, 100, 50, 255]));
+    const result = imageToAscii(img, { width: 1, charAspect: 1 });
+
+    expect(result.colors).toEqual([['#c86432']]);
+  });
+
+  test('alphaThreshold controls when partially transparent cells are drawn', () => {
+    const img = image(1, 1, () => [255, 255, 255, 64]);
+
+    expect(imageToAscii(img, { charAspect: 1 }).content).toEqual([[null]]);
+    expect(imageToAscii(img, { charAspect: 1, alphaThreshold: 0.2 }).content).toEqual([['@']]);
+  });
+
+  test('output plugs into AsciiObject and renders', () => {
+    const img = image(4, 4, (x, y) => ((x + y) % 2 === 0 ? WHITE : CLEAR));
+    const art = imageToAscii(img, { width: 4, height: 2 });
+    const obj = new AsciiObject({ id: 'img', content: art.content, color: art.color, position: { x: 0, y: 0 } });
+    const output = new Compositor([obj]).render({ x: 0, y: 0, width: 4, height: 2 });
+
+    expect(output.characters).toEqual(art.content.map(row => row.map(c => c ?? ' ')));
+    expect(output.colors[0][0]).toBe(art.color);
+  });
+
+  test('validates the pixel buffer', () => {
+    expect(() => imageToAscii({ width: 2, height: 2, data: new Uint8ClampedArray(4) })).toThrow(
+      'Invalid pixel buffer: data length must be width * height * 4'
+    );
+    expect(() => imageToAscii({ width: 0, height: 2, data: new Uint8ClampedArray(0) })).toThrow(
+      'Invalid pixel buffer: width and height must be positive integers'
+    );
+  });
+
+  test('validates options', () => {
+    const img = image(2, 2, () => WHITE);
+
+    expect(() => imageToAscii(img, { width: 0 })).toThrow('Output width must be a positive integer');
+    expect(() => imageToAscii(img, { height: 1.5 })).toThrow('Output height must be a positive integer');
+    expect(() => imageToAscii(img, { gamma: 0 })).toThrow('Gamma must be positive');
+    expect(() => imageToAscii(img, { charAspect: -1 })).toThrow('Character aspect must be positive');
+    expect(() => imageToAscii(img, { alphaThreshold: 2 })).toThrow('Alpha threshold must be between 0.0 and 1.0');
+    expect(() => imageToAscii(img, { ramp: '' })).toThrow('Ramp must contain at least one character');
+  });
+});
+
+describe('resolveRamp', () => {
+  test('resolves names and splits custom ramps by code point', () => {
+    expect(resolveRamp('binary')).toEqual([' ', '#']);
+    expect(resolveRamp('·•●')).toEqual(['·', '•', '●']);
+    expect(resolveRamp()).toEqual(Array.from(RAMPS.standard));
+  });
+});
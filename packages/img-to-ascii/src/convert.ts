@@ -0,0 +1,218 @@
+/**
+ * Convert - Raw pixel buffers to ASCII art
+ *
+ * Converts an ImageData-shaped RGBA buffer into Cell[][] content plus a per-cell
+ * color grid. Works on plain objects, so no browser or canvas is required.
+ *
+ * @module @ascii-art-studio/img-to-ascii
+ */
+
+import type { Cell } from '../../compositor/src/AsciiObject';
+import { type RampName, resolveRamp } from './ramps';
+
+/** ImageData-shaped RGBA pixel buffer */
+export interface PixelBuffer {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** RGBA bytes, row-major (length must be width * height * 4) */
+  data: Uint8ClampedArray;
+}
+
+/** Options for image conversion */
+export interface ConvertOptions {
+  /** Output width in characters (default: image width, capped at 80) */
+  width?: number;
+  /** Output height in characters (default: derived from width, image aspect and charAspect) */
+  height?: number;
+  /** Character cell width divided by height, used to correct aspect (default: 0.5) */
+  charAspect?: number;
+  /** Built-in ramp name or custom glyphs from least to most ink (default: 'standard') */
+  ramp?: RampName | string;
+  /** Map dark pixels to dense glyphs instead of bright ones (default: false) */
+  invert?: boolean;
+  /** Brightness curve exponent; values above 1 darken midtones (default: 1) */
+  gamma?: number;
+  /** Minimum average alpha (0.0 to 1.0) for a cell to be drawn; below it the cell is null (default: 0.5) */
+  alphaThreshold?: number;
+}
+
+/** Result of an image conversion */
+export interface ConversionResult {
+  /** Character grid, ready for AsciiObject content (null = transparent) */
+  content: Cell[][];
+  /** Per-cell average color as #rrggbb (null where content is null) */
+  colors: (string | null)[][];
+  /** Average color of all drawn cells as #rrggbb, for the AsciiObject color */
+  color: string;
+  /** Output width in characters */
+  width: number;
+  /** Output height in characters */
+  height: number;
+}
+
+/** Default output width cap in characters */
+const DEFAULT_MAX_WIDTH = 80;
+
+/** Default character cell aspect (width / height) of monospace fonts */
+const DEFAULT_CHAR_ASPECT = 0.5;
+
+/**
+ * Converts an RGBA pixel buffer to ASCII art.
+ *
+ * Each output cell averages the pixels it covers (alpha-weighted), maps the
+ * average luminance through gamma onto the ramp and records the average color.
+ *
+ * @param image - ImageData-shaped pixel buffer
+ * @param options - Conversion options
+ * @returns Character grid, color grid and average color
+ * @throws {Error} If the buffer or any option is invalid
+ *
+ * @example
+ * ```typescript
+ * const art = imageToAscii(ctx.getImageData(0, 0, w, h), { width: 60 });
+ * const obj = new AsciiObject({ id: 'logo', content: art.content, color: art.color, position: { x: 0, y: 0 } });
+ * ```
+ */
+export function imageToAscii(image: PixelBuffer, options: ConvertOptions = {}): ConversionResult {
+  validateImage(image);
+
+  const charAspect = options.charAspect ?? DEFAULT_CHAR_ASPECT;
+  const gamma = options.gamma ?? 1;
+  const alphaThreshold = options.alphaThreshold ?? 0.5;
+  const invert = options.invert ?? false;
+  const ramp = resolveRamp(options.ramp);
+
+  if (!(charAspect > 0) || !Number.isFinite(charAspect)) {
+    throw new Error('Character aspect must be positive');
+  }
+  if (!(gamma > 0) || !Number.isFinite(gamma)) {
+    throw new Error('Gamma must be positive');
+  }
+  if (!(alphaThreshold >= 0 && alphaThreshold <= 1)) {
+    throw new Error('Alpha threshold must be between 0.0 and 1.0');
+  }
+
+  const width = options.width ?? Math.min(image.width, DEFAULT_MAX_WIDTH);
+  const height =
+    options.height ?? Math.max(1, Math.round(((width * image.height) / image.width) * charAspect));
+
+  if (!Number.isInteger(width) || width < 1) {
+    throw new Error('Output width must be a positive integer');
+  }
+  if (!Number.isInteger(height) || height < 1) {
+    throw new Error('Output height must be a positive integer');
+  }
+
+  const content: Cell[][] = [];
+  const colors: (string | null)[][] = [];
+  let totalR = 0;
+  let totalG = 0;
+  let totalB = 0;
+  let drawn = 0;
+
+  for (let row = 0; row < height; row++) {
+    const [y0, y1] = pixelSpan(row, image.height, height);
+    const contentRow: Cell[] = [];
+    const colorRow: (string | null)[] = [];
+
+    for (let col = 0; col < width; col++) {
+      const [x0, x1] = pixelSpan(col, image.width, width);
+      const sample = sampleBlock(image, x0, x1, y0, y1);
+
+      if (sample.alpha < alphaThreshold || sample.alpha === 0) {
+        contentRow.push(null);
+        colorRow.push(null);
+        continue;
+      }
+
+      // Rec. 709 luma on the averaged color
+      const luminance = (0.2126 * sample.r + 0.7152 * sample.g + 0.0722 * sample.b) / 255;
+      let level = Math.pow(luminance, gamma);
+      if (invert) {
+        level = 1 - level;
+      }
+
+      const index = Math.min(ramp.length - 1, Math.floor(level * ramp.length));
+      contentRow.push(ramp[index]);
+      colorRow.push(toHex(sample.r, sample.g, sample.b));
+
+      totalR += sample.r;
+      totalG += sample.g;
+      totalB += sample.b;
+      drawn++;
+    }
+
+    content.push(contentRow);
+    colors.push(colorRow);
+  }
+
+  const color = drawn === 0 ? '#000000' : toHex(totalR / drawn, totalG / drawn, totalB / drawn);
+
+  return { content, colors, color, width, height };
+}
+
+/**
+ * Validates a pixel buffer's dimensions and data length.
+ */
+function validateImage(image: PixelBuffer): void {
+  if (!Number.isInteger(image?.width) || !Number.isInteger(image?.height) || image.width < 1 || image.height < 1) {
+    throw new Error('Invalid pixel buffer: width and height must be positive integers');
+  }
+  if (!image.data || image.data.length !== image.width * image.height * 4) {
+    throw new Error('Invalid pixel buffer: data length must be width * height * 4');
+  }
+}
+
+/**
+ * Returns the pixel range [start, end) covered by an output cell (at least one pixel).
+ */
+function pixelSpan(index: number, pixels: number, cells: number): [number, number] {
+  const start = Math.min(pixels - 1, Math.floor((index * pixels) / cells));
+  const end = Math.floor(((index + 1) * pixels) / cells);
+  return [start, Math.max(start + 1, end)];
+}
+
+/**
+ * Averages a pixel block. Color channels are alpha-weighted so transparent
+ * pixels do not darken edges; alpha is returned as 0.0 to 1.0.
+ */
+function sampleBlock(
+  image: PixelBuffer,
+  x0: number,
+  x1: number,
+  y0: number,
+  y1: number
+): { r: number; g: number; b: number; alpha: number } {
+  const { data, width } = image;
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let a = 0;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = data[i + 3];
+      r += data[i] * alpha;
+      g += data[i + 1] * alpha;
+      b += data[i + 2] * alpha;
+      a += alpha;
+    }
+  }
+
+  const count = (x1 - x0) * (y1 - y0);
+  if (a === 0) {
+    return { r: 0, g: 0, b: 0, alpha: 0 };
+  }
+  return { r: r / a, g: g / a, b: b / a, alpha: a / (count * 255) };
+}
+
+/**
+ * Converts RGB channels (0-255, may be fractional) to a lowercase #rrggbb string.
+ */
+function toHex(r: number, g: number, b: number): string {
+  const hex = (v: number) => Math.round(v).toString(16).padStart(2, '0');
+  return `#${hex(r)}${hex(g)}${hex(b)}`;
+}
@@ -4,3 +4,8 @@
  */
 
 export const version = '0.0.0'
+
+export { imageToAscii } from './convert'
+export type { PixelBuffer, ConvertOptions, ConversionResult } from './convert'
+export { RAMPS, resolveRamp } from './ramps'
+export type { RampName } from './ramps'
@@ -0,0 +1,34 @@
+/**
+ * Brightness ramps for image conversion
+ *
+ * Each ramp lists glyphs from least to most ink. Brighter pixels map to glyphs
+ * further along the ramp (light-on-dark, as in a terminal).
+ *
+ * @module @ascii-art-studio/img-to-ascii
+ */
+
+/** Built-in ramp names */
+export type RampName = 'standard' | 'detailed' | 'blocks' | 'binary';
+
+/** Built-in ramps ordered from least to most ink */
+export const RAMPS: Record<RampName, string> = {
+  standard: ' .:-=+*#%@',
+  detailed: ' .\'`^",:;Il!i><~+_-?][}{1)(|\\/tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$',
+  blocks: ' ░▒▓█',
+  binary: ' #',
+};
+
+/**
+ * Resolves a ramp name or custom ramp string to its glyphs.
+ *
+ * @param ramp - Built-in ramp name or a custom string of glyphs (default: 'standard')
+ * @returns Ramp glyphs from least to most ink
+ * @throws {Error} If the ramp is empty
+ */
+export function resolveRamp(ramp: RampName | string = 'standard'): string[] {
+  const glyphs = Array.from(RAMPS[ramp as RampName] ?? ramp);
+  if (glyphs.length === 0) {
+    throw new Error('Ramp must contain at least one character');
+  }
+  return glyphs;
+}
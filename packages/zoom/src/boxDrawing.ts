@@ -0,0 +1,79 @@
+/**
+ * Box-drawing character geometry
+ *
+ * Describes box-drawing glyphs as a set of connections (up, right, down, left)
+ * plus a line style, and rebuilds glyphs from connection sets. Used by
+ * line-aware scaling to keep borders continuous.
+ *
+ * @module @ascii-art-studio/zoom
+ */
+
+/** Connection bit: line leaves the cell through its top edge */
+export const UP = 1;
+/** Connection bit: line leaves the cell through its right edge */
+export const RIGHT = 2;
+/** Connection bit: line leaves the cell through its bottom edge */
+export const DOWN = 4;
+/** Connection bit: line leaves the cell through its left edge */
+export const LEFT = 8;
+
+/** Line style of a box-drawing glyph */
+export type LineStyle = 'light' | 'heavy' | 'double' | 'rounded';
+
+/** Connections and style of a box-drawing glyph */
+export interface LineGlyph {
+  /** Bitmask of UP, RIGHT, DOWN and LEFT */
+  connections: number;
+  /** Line style */
+  style: LineStyle;
+}
+
+/**
+ * Glyphs indexed by connection mask for each style.
+ * Single-direction masks use the full straight line so shrunken ends stay visible.
+ */
+const GLYPHS_BY_MASK: Record<LineStyle, string[]> = {
+  //       0    U    R    UR   D    UD   RD   URD  L    UL   RL   URL  DL   UDL  RDL  URDL
+  light: [' ', '│', '─', '└', '│', '│', '┌', '├', '─', '┘', '─', '┴', '┐', '┤', '┬', '┼'],
+  heavy: [' ', '┃', '━', '┗', '┃', '┃', '┏', '┣', '━', '┛', '━', '┻', '┓', '┫', '┳', '╋'],
+  double: [' ', '║', '═', '╚', '║', '║', '╔', '╠', '═', '╝', '═', '╩', '╗', '╣', '╦', '╬'],
+  rounded: [' ', '│', '─', '╰', '│', '│', '╭', '├', '─', '╯', '─', '┴', '╮', '┤', '┬', '┼'],
+};
+
+/** Masks that map to a single-direction glyph (not a real connection set of that glyph) */
+const SINGLE_DIRECTION_MASKS = new Set([UP, RIGHT, DOWN, LEFT]);
+
+/** Glyph lookup built from GLYPHS_BY_MASK (first style wins for shared glyphs) */
+const LINE_GLYPHS: Map<string, LineGlyph> = new Map();
+for (const style of ['light', 'heavy', 'double', 'rounded'] as LineStyle[]) {
+  GLYPHS_BY_MASK[style].forEach((char, connections) => {
+    if (connections === 0 || SINGLE_DIRECTION_MASKS.has(connections) || LINE_GLYPHS.has(char)) {
+      return;
+    }
+    LINE_GLYPHS.set(char, { connections, style });
+  });
+}
+
+/**
+ * Returns the connections and style of a box-drawing character.
+ *
+ * @param char - Character to look up
+ * @returns Line geometry, or null if the character is not a supported box-drawing glyph
+ */
+export function getLineGlyph(char: string | null): LineGlyph | null {
+  if (char === null) {
+    return null;
+  }
+  return LINE_GLYPHS.get(char) ?? null;
+}
+
+/**
+ * Returns the box-drawing character for a set of connections.
+ *
+ * @param connections - Bitmask of UP, RIGHT, DOWN and LEFT
+ * @param style - Line style (default: 'light')
+ * @returns Glyph (a space for an empty mask)
+ */
+export function lineGlyphFor(connections: number, style: LineStyle = 'light'): string {
+  return GLYPHS_BY_MASK[style][connections & 15];
+}
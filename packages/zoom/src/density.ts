@@ -0,0 +1,47 @@
+/**
+ * Glyph density estimates
+ *
+ * Approximates how much of a character cell each glyph covers (0.0 = blank,
+ * 1.0 = solid). Used to pick representative glyphs when downscaling.
+ *
+ * @module @ascii-art-studio/zoom
+ */
+
+/** Classic ASCII ramp ordered from lightest to densest */
+const ASCII_RAMP = ' .\'`^",:;Il!i><~+_-?][}{1)(|\\/tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$';
+
+/** Densities for non-ASCII glyphs common in ASCII art */
+const EXTRA_DENSITIES: Record<string, number> = {
+  '░': 0.25,
+  '▒': 0.5,
+  '▓': 0.75,
+  '█': 1.0,
+  '▀': 0.5,
+  '▄': 0.5,
+  '▌': 0.5,
+  '▐': 0.5,
+  '·': 0.05,
+  '•': 0.2,
+};
+
+/** Density assumed for glyphs without an estimate (box drawing, letters in other scripts, etc.) */
+const DEFAULT_DENSITY = 0.5;
+
+/** Lookup built from the ramp and extra densities */
+const DENSITY: Map<string, number> = new Map();
+for (let i = 0; i < ASCII_RAMP.length; i++) {
+  DENSITY.set(ASCII_RAMP[i], i / (ASCII_RAMP.length - 1));
+}
+for (const [char, density] of Object.entries(EXTRA_DENSITIES)) {
+  DENSITY.set(char, density);
+}
+
+/**
+ * Returns the approximate ink coverage of a glyph.
+ *
+ * @param char - Character to measure
+ * @returns Density from 0.0 (blank) to 1.0 (solid)
+ */
+export function glyphDensity(char: string): number {
+  return DENSITY.get(char) ?? DEFAULT_DENSITY;
+}
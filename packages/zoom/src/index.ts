@@ -4,3 +4,9 @@
  */
 
 export const version = '0.0.0'
+
+export { scale, resize } from './scale'
+export type { ScaleMode, ScaleOptions, ResizeOptions } from './scale'
+export { glyphDensity } from './density'
+export { UP, RIGHT, DOWN, LEFT, getLineGlyph, lineGlyphFor } from './boxDrawing'
+export type { LineStyle, LineGlyph } from './boxDrawing'
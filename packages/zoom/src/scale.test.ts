@@ -0,0 +1,223 @@
+import { describe, test, expect } from 'vitest';
+import { scale, resize } from './scale';
+import { glyphDensity } from './density';
+import { UP, RIGHT, DOWN, LEFT, getLineGlyph, lineGlyphFor } from './boxDrawing';
+import { AsciiObject, type Cell } from '../../compositor/src/AsciiObject';
+import { Compositor } from '../../compositor/src/Compositor';
+import { WIDE_CONTINUATION } from '../../compositor/src/unicode';
+
+function grid(rows: string[]): Cell[][] {
+  return rows.map(row => row.split(''));
+}
+
+function text(cells: Cell[][]): string[] {
+  return cells.map(row => row.map(c => c ?? '.').join(''));
+}
+
+const BOX = grid(['┌──┐', '│  │', '└──┘']);
+
+describe('scale', () => {
+  describe('nearest', () => {
+    test('repeats cells when upscaling', () => {
+      const result = scale(grid(['ab', 'cd']), { scaleX: 2, mode: 'nearest' });
+
+      expect(text(result)).toEqual(['aabb', 'aabb', 'ccdd', 'ccdd']);
+    });
+
+    test('supports independent axis factors', () => {
+      const result = scale(grid(['ab']), { scaleX: 3, scaleY: 2, mode: 'nearest' });
+
+      expect(text(result)).toEqual(['aaabbb', 'aaabbb']);
+    });
+
+    test('samples cell centers when downscaling', () => {
+      const result = scale(grid(['abcd', 'efgh']), { scaleX: 0.5, scaleY: 1, mode: 'nearest' });
+
+      expect(text(result)).toEqual(['bd', 'fh']);
+    });
+
+    test('preserves null transparency', () => {
+      const result = scale([['x', null]], { scaleX: 2, scaleY: 1, mode: 'nearest' });
+
+      expect(result).toEqual([['x', 'x', null, null]]);
+    });
+  });
+
+  describe('density', () => {
+    test('picks the block glyph closest to the average density', () => {
+      // '@' and '#' average out closer to '#' than to '.'
+      const result = scale(grid(['@#', '#.']), { scaleX: 0.5, mode: 'density' });
+
+      expect(result).toEqual([['#']]);
+    });
+
+    test('sparse detail fades to space', () => {
+      const result = scale(grid(['#   ', '    ']), { scaleX: 0.5, mode: 'density' });
+
+      expect(text(result)).toEqual(['  ']);
+    });
+
+    test('mostly transparent blocks stay transparent', () => {
+      const result = scale([['#', null, '#', '#'], [null, null, '#', null]], { scaleX: 0.5, mode: 'density' });
+
+      expect(result).toEqual([[null, '#']]);
+    });
+
+    test('upscales like nearest', () => {
+      expect(scale(grid(['ab']), { scaleX: 2, mode: 'density' })).toEqual(
+        scale(grid(['ab']), { scaleX: 2, mode: 'nearest' })
+      );
+    });
+  });
+
+  describe('line', () => {
+    test('keeps a box closed at 2x', () => {
+      const result = scale(BOX, { scaleX: 2 });
+
+      expect(text(result)).toEqual([
+        '┌─────┐.',
+        '│     │.',
+        '│     │.',
+        '│     │.',
+        '└─────┘.',
+        '........',
+      ]);
+    });
+
+    test('leaves cells outside the rebuilt border transparent', () => {
+      const result = scale(grid(['┌┐', '└┘']), { scaleX: 3 });
+
+      expect(text(result)).toEqual(['......', '.┌──┐.', '.│  │.', '.│  │.', '.└──┘.', '......']);
+      // Every edge cell is outside the border
+      const edges = [...result[0], ...result[5], ...result.map(row => row[0]), ...result.map(row => row[5])];
+      expect(edges.every(cell => cell === null)).toBe(true);
+    });
+
+    test('keeps a box closed at non-integer factors', () => {
+      const result = scale(BOX, { scaleX: 1.5, scaleY: 2 });
+
+      expect(text(result)).toEqual(['┌────┐', '│    │', '│    │', '│    │', '└────┘', '......']);
+    });
+
+    test('keeps a box closed when downscaling', () => {
+      const big = grid(['┌──────┐', '│      │', '│      │', '└──────┘']);
+
+      expect(text(scale(big, { scaleX: 0.5 }))).toEqual(['┌──┐', '└──┘']);
+    });
+
+    test('preserves line style', () => {
+      const rounded = grid(['╭──────╮', '│      │', '│      │', '╰──────╯']);
+      const double = grid(['╔═╗', '╚═╝']);
+
+      expect(text(scale(rounded, { scaleX: 0.5 }))).toEqual(['╭──╮', '╰──╯']);
+      expect(text(scale(double, { scaleX: 2, scaleY: 1 }))).toEqual(['╔═══╗.', '╚═══╝.']);
+    });
+
+    test('keeps junctions connected', () => {
+      const table = grid(['┌─┬─┐', '├─┼─┤', '└─┴─┘']);
+
+      expect(text(scale(table, { scaleX: 2, scaleY: 1 }))).toEqual([
+        '┌───┬───┐.',
+        '├───┼───┤.',
+        '└───┴───┘.',
+      ]);
+    });
+
+    test('scales text inside borders like density mode', () => {
+      const framed = grid(['╔════╗', '║ hi ║', '╚════╝']);
+
+      expect(text(scale(framed, { scaleX: 0.5, scaleY: 1 }))).toEqual(['╔═╗', '║h║', '╚═╝']);
+    });
+
+    test('preserves transparency around lines', () => {
+      const result = scale([[null, '─', null]], { scaleX: 2, scaleY: 1 });
+
+      expect(result).toEqual([[null, null, '─', '─', null, null]]);
+    });
+  });
+
+  describe('wide glyphs', () => {
+    const C = WIDE_CONTINUATION;
+    const content = (rows: string[]) =>
+      new AsciiObject({ id: 'text', content: rows, position: { x: 0, y: 0 } }).content;
+
+    test('scale each glyph and continuation pair as one unit', () => {
+      const cjk = content(['漢字']);
+
+      for (const mode of ['nearest', 'density', 'line'] as const) {
+        expect(scale(cjk, { scaleX: 2, scaleY: 1, mode })).toEqual([['漢', C, '漢', C, '字', C, '字', C]]);
+        expect(scale(cjk, { scaleX: 0.5, scaleY: 1, mode })).toEqual([['漢', C]]);
+      }
+      expect(scale(content(['\u{1f600}|']), { scaleX: 1, scaleY: 2 })).toEqual([
+        ['\u{1f600}', C, '|'],
+        ['\u{1f600}', C, '|'],
+      ]);
+    });
+
+    test('odd cells left by a glyph become spaces', () => {
+      // 4 cells to 6: the glyph covers three output cells
+      expect(scale(content(['漢ab']), { scaleX: 1.5, scaleY: 1, mode: 'nearest' })).toEqual([
+        ['漢', C, ' ', 'a', 'b', 'b'],
+      ]);
+      // A glyph sampled into the last column has no room for its continuation
+      expect(resize(content(['ab漢']), { width: 2, height: 1, mode: 'nearest' })).toEqual([['b', ' ']]);
+    });
+
+    test('scaled wide content renders whole', () => {
+      const compositor = new Compositor([
+        new AsciiObject({ id: 'big', content: scale(content(['漢字']), { scaleX: 2 }), position: { x: 0, y: 0 } }),
+      ]);
+
+      expect(compositor.render({ x: 0, y: 0, width: 8, height: 2 }).characters.map(row => row.join(''))).toEqual([
+        '漢漢字字',
+        '漢漢字字',
+      ]);
+    });
+  });
+
+  test('result can be used as AsciiObject content', () => {
+    const content = scale([['┌', '┐', null]], { scaleX: 2, scaleY: 1 });
+    const obj = new AsciiObject({ id: 'scaled', content, position: { x: 0, y: 0 } });
+
+    expect(obj.content[0][5]).toBeNull();
+  });
+
+  test('returns an empty grid for empty input', () => {
+    expect(scale([], { scaleX: 2 })).toEqual([]);
+    expect(resize([[]], { width: 3, height: 3 })).toEqual([]);
+  });
+
+  test('validates arguments', () => {
+    expect(() => scale(BOX, { scaleX: 0 })).toThrow('Scale factor must be positive');
+    expect(() => scale(BOX, { scaleX: 1, scaleY: -1 })).toThrow('Scale factor must be positive');
+    expect(() => resize(BOX, { width: 2.5, height: 1 })).toThrow('Target size must be positive integers');
+    expect(() => resize(BOX, { width: 2, height: 1, mode: 'cubic' as any })).toThrow('Invalid scale mode: cubic');
+  });
+});
+
+describe('resize', () => {
+  test('resizes to an exact size', () => {
+    const result = resize(BOX, { width: 6, height: 3 });
+
+    expect(text(result)).toEqual(['┌────┐', '│    │', '└────┘']);
+  });
+});
+
+describe('glyphDensity', () => {
+  test('orders glyphs from blank to solid', () => {
+    expect(glyphDensity(' ')).toBe(0);
+    expect(glyphDensity('.')).toBeLessThan(glyphDensity('+'));
+    expect(glyphDensity('+')).toBeLessThan(glyphDensity('@'));
+    expect(glyphDensity('█')).toBe(1);
+  });
+});
+
+describe('box drawing', () => {
+  test('round-trips glyphs through connections', () => {
+    expect(getLineGlyph('┼')).toEqual({ connections: UP | RIGHT | DOWN | LEFT, style: 'light' });
+    expect(getLineGlyph('╝')).toEqual({ connections: UP | LEFT, style: 'double' });
+    expect(getLineGlyph('x')).toBeNull();
+    expect(lineGlyphFor(RIGHT | DOWN, 'heavy')).toBe('┏');
+    expect(lineGlyphFor(DOWN | LEFT, 'rounded')).toBe('╮');
+  });
+});
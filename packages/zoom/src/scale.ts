@@ -0,0 +1,411 @@
+/**
+ * Scale - Resampling of ASCII art cell grids
+ *
+ * Scales a Cell[][] grid by arbitrary factors. Three modes are supported:
+ * - nearest: samples the source cell under each output cell's center
+ * - density: like nearest when upscaling; when downscaling, each output cell
+ *   takes the block glyph closest to the block's average ink density
+ * - line: box-drawing glyphs are rebuilt from their connections so borders stay
+ *   continuous at any scale; other glyphs are scaled as in density mode
+ *
+ * null (transparent) cells are preserved, and in line mode the cells outside a rebuilt
+ * border are transparent too, so results can be passed straight to AsciiObject.
+ *
+ * Wide glyphs (a glyph followed by a WIDE_CONTINUATION cell) are resampled as one
+ * unit: both cells sample as the glyph, and each output row is re-paired (see
+ * pairWideGlyphs), so scaling never leaves half a glyph behind.
+ *
+ * @module @ascii-art-studio/zoom
+ */
+
+import type { Cell } from '../../compositor/src/AsciiObject';
+import { UP, RIGHT, DOWN, LEFT, type LineStyle, getLineGlyph, lineGlyphFor } from './boxDrawing';
+import { glyphDensity } from './density';
+import { WIDE_CONTINUATION, isWideGlyph } from '../../compositor/src/unicode';
+
+/** Resampling mode */
+export type ScaleMode = 'nearest' | 'density' | 'line';
+
+/** Options for scaling by a factor */
+export interface ScaleOptions {
+  /** Horizontal scale factor (must be positive) */
+  scaleX: number;
+  /** Vertical scale factor (default: scaleX) */
+  scaleY?: number;
+  /** Resampling mode (default: 'line') */
+  mode?: ScaleMode;
+}
+
+/** Options for resizing to an exact size */
+export interface ResizeOptions {
+  /** Output width in cells (positive integer) */
+  width: number;
+  /** Output height in cells (positive integer) */
+  height: number;
+  /** Resampling mode (default: 'line') */
+  mode?: ScaleMode;
+}
+
+/**
+ * Scales a cell grid by a factor. Output dimensions are rounded and at least 1.
+ *
+ * @param cells - Source grid (rows may be ragged; missing cells are transparent)
+ * @param options - Scale factors and mode
+ * @returns Scaled grid
+ * @throws {Error} If a scale factor is not positive or the mode is invalid
+ *
+ * @example
+ * ```typescript
+ * const big = scale(box.content, { scaleX: 2 });
+ * const obj = new AsciiObject({ id: 'big-box', content: big, position: { x: 0, y: 0 } });
+ * ```
+ */
+export function scale(cells: Cell[][], options: ScaleOptions): Cell[][] {
+  const scaleX = options.scaleX;
+  const scaleY = options.scaleY ?? scaleX;
+  if (!(scaleX > 0) || !(scaleY > 0) || !Number.isFinite(scaleX) || !Number.isFinite(scaleY)) {
+    throw new Error('Scale factor must be positive');
+  }
+
+  const { width, height } = getSize(cells);
+  if (width === 0 || height === 0) {
+    return [];
+  }
+
+  return resize(cells, {
+    width: Math.max(1, Math.round(width * scaleX)),
+    height: Math.max(1, Math.round(height * scaleY)),
+    mode: options.mode,
+  });
+}
+
+/**
+ * Resizes a cell grid to an exact size.
+ *
+ * @param cells - Source grid (rows may be ragged; missing cells are transparent)
+ * @param options - Target size and mode
+ * @returns Resized grid
+ * @throws {Error} If the target size is not positive integers or the mode is invalid
+ */
+export function resize(cells: Cell[][], options: ResizeOptions): Cell[][] {
+  const { width: outWidth, height: outHeight } = options;
+  const mode = options.mode ?? 'line';
+
+  if (!Number.isInteger(outWidth) || !Number.isInteger(outHeight) || outWidth < 1 || outHeight < 1) {
+    throw new Error('Target size must be positive integers');
+  }
+  if (mode !== 'nearest' && mode !== 'density' && mode !== 'line') {
+    throw new Error(`Invalid scale mode: ${mode}`);
+  }
+
+  const { width, height } = getSize(cells);
+  if (width === 0 || height === 0) {
+    return [];
+  }
+
+  const grid = new SourceGrid(cells, width, height, outWidth, outHeight);
+  const result: Cell[][] = [];
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    const row: Cell[] = [];
+    for (let ox = 0; ox < outWidth; ox++) {
+      if (mode === 'nearest') {
+        row.push(grid.nearest(ox, oy));
+      } else if (mode === 'density') {
+        row.push(grid.density(ox, oy));
+      } else {
+        row.push(grid.lineAware(ox, oy));
+      }
+    }
+    result.push(pairWideGlyphs(row));
+  }
+
+  return result;
+}
+
+/**
+ * Lays sampled wide glyphs out as glyph and continuation pairs. Along a run of the
+ * same glyph, cells pair up and an odd cell left at the end becomes a space. A lone
+ * glyph takes the cell to its right, or becomes a space in the last column.
+ */
+function pairWideGlyphs(sampled: Cell[]): Cell[] {
+  const row = [...sampled];
+  for (let x = 0; x < row.length; x++) {
+    const glyph = sampled[x];
+    if (!isWideGlyph(glyph)) {
+      continue;
+    }
+    const lone = x === 0 || sampled[x - 1] !== glyph;
+    if (sampled[x + 1] === glyph || (lone && x + 1 < row.length)) {
+      row[x + 1] = WIDE_CONTINUATION;
+      x++;
+    } else {
+      row[x] = ' ';
+    }
+  }
+  return row;
+}
+
+/**
+ * Returns the width (longest row) and height of a grid.
+ */
+function getSize(cells: Cell[][]): { width: number; height: number } {
+  let width = 0;
+  for (const row of cells) {
+    width = Math.max(width, row.length);
+  }
+  return { width, height: width === 0 ? 0 : cells.length };
+}
+
+/** Which part of a source cell a point falls in along an axis */
+type Half = 'low' | 'center' | 'high';
+
+/**
+ * Source grid with the output-to-source coordinate mapping.
+ *
+ * Output cell o on an axis covers the source interval [o * src / out, (o + 1) * src / out).
+ * Positions are kept as integer numerators over the output length to avoid float error.
+ */
+class SourceGrid {
+  constructor(
+    private cells: Cell[][],
+    private width: number,
+    private height: number,
+    private outWidth: number,
+    private outHeight: number
+  ) {}
+
+  /**
+   * Returns a source cell (transparent outside the grid or past a ragged row).
+   * A wide glyph's continuation cell returns the glyph.
+   */
+  get(x: number, y: number): Cell {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return null;
+    }
+    const cell = this.cells[y]?.[x] ?? null;
+    if (cell === WIDE_CONTINUATION && x > 0 && isWideGlyph(this.cells[y][x - 1])) {
+      return this.cells[y][x - 1];
+    }
+    return cell;
+  }
+
+  /**
+   * Samples the source cell under the output cell's center.
+   */
+  nearest(ox: number, oy: number): Cell {
+    const x = Math.floor(((2 * ox + 1) * this.width) / (2 * this.outWidth));
+    const y = Math.floor(((2 * oy + 1) * this.height) / (2 * this.outHeight));
+    return this.get(x, y);
+  }
+
+  /**
+   * Picks the glyph from the covered source block whose density is closest to
+   * the block's average. Blocks that are mostly transparent stay transparent.
+   *
+   * @param blankLines - Treat box-drawing glyphs as spaces (see lineBlank)
+   */
+  density(ox: number, oy: number, blankLines: boolean = false): Cell {
+    const [x0, x1] = this.span(ox, this.width, this.outWidth);
+    const [y0, y1] = this.span(oy, this.height, this.outHeight);
+
+    const sample = (x: number, y: number): Cell => {
+      const cell = this.get(x, y);
+      return blankLines && getLineGlyph(cell) !== null ? this.lineBlank(x, y, ox, oy) : cell;
+    };
+
+    if (x1 - x0 === 1 && y1 - y0 === 1) {
+      return sample(x0, y0);
+    }
+
+    const counts: Map<string, number> = new Map();
+    let nullCount = 0;
+    let totalDensity = 0;
+    let inkCount = 0;
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const cell = sample(x, y);
+        if (cell === null) {
+          nullCount++;
+          continue;
+        }
+        counts.set(cell, (counts.get(cell) ?? 0) + 1);
+        totalDensity += glyphDensity(cell);
+        inkCount++;
+      }
+    }
+
+    if (nullCount > inkCount) {
+      return null;
+    }
+
+    const target = totalDensity / inkCount;
+    let best: string | null = null;
+    let bestDiff = Infinity;
+    let bestCount = 0;
+
+    // Map preserves first-seen order, so remaining ties go to the earliest glyph
+    for (const [char, count] of counts) {
+      const diff = Math.abs(glyphDensity(char) - target);
+      if (diff < bestDiff || (diff === bestDiff && count > bestCount)) {
+        best = char;
+        bestDiff = diff;
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Rebuilds box-drawing glyphs from the lines crossing the output cell's edges.
+   * A source glyph's lines run from its cell center to the edges it connects to.
+   */
+  lineAware(ox: number, oy: number): Cell {
+    const [x0, x1] = this.span(ox, this.width, this.outWidth);
+    const [y0, y1] = this.span(oy, this.height, this.outHeight);
+
+    let connections = 0;
+    // Light is the fallback style; heavy, double and rounded glyphs override it
+    let style: LineStyle = 'light';
+    const useStyle = (x: number, y: number) => {
+      const glyph = getLineGlyph(this.get(x, y));
+      if (glyph && style === 'light') {
+        style = glyph.style;
+      }
+    };
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        if (this.centerInside(x, ox, this.width, this.outWidth) && this.centerInside(y, oy, this.height, this.outHeight)) {
+          useStyle(x, y);
+        }
+      }
+    }
+
+    // Horizontal lines: rows whose center line passes through this output cell
+    for (let y = y0; y < y1; y++) {
+      if (!this.centerInside(y, oy, this.height, this.outHeight)) continue;
+      const covers = (x: number, half: Half) =>
+        this.connects(x, y, half === 'low' ? LEFT : half === 'high' ? RIGHT : LEFT | RIGHT);
+
+      const left = this.crossing(ox * this.width, this.outWidth, covers);
+      if (left !== null) {
+        connections |= LEFT;
+        useStyle(left[1], y);
+      }
+
+      const right = this.crossing((ox + 1) * this.width, this.outWidth, covers);
+      if (right !== null) {
+        connections |= RIGHT;
+        useStyle(right[0], y);
+      }
+    }
+
+    // Vertical lines: columns whose center line passes through this output cell
+    for (let x = x0; x < x1; x++) {
+      if (!this.centerInside(x, ox, this.width, this.outWidth)) continue;
+      const covers = (y: number, half: Half) =>
+        this.connects(x, y, half === 'low' ? UP : half === 'high' ? DOWN : UP | DOWN);
+
+      const top = this.crossing(oy * this.height, this.outHeight, covers);
+      if (top !== null) {
+        connections |= UP;
+        useStyle(x, top[1]);
+      }
+
+      const bottom = this.crossing((oy + 1) * this.height, this.outHeight, covers);
+      if (bottom !== null) {
+        connections |= DOWN;
+        useStyle(x, bottom[0]);
+      }
+    }
+
+    if (connections !== 0) {
+      return lineGlyphFor(connections, style);
+    }
+
+    // No line passes through: line glyphs in the block count as blank space
+    return this.density(ox, oy, true);
+  }
+
+  /**
+   * Returns what a box-drawing glyph's cell holds off its rebuilt lines, seen from an
+   * output cell: transparent if the source cell beyond it on the output cell's side is
+   * transparent (outside a border), otherwise a space.
+   */
+  private lineBlank(x: number, y: number, ox: number, oy: number): Cell {
+    // Output cell center relative to the source cell center, in units of 1 / (2 * out)
+    const dx = Math.sign((2 * ox + 1) * this.width - (2 * x + 1) * this.outWidth);
+    const dy = Math.sign((2 * oy + 1) * this.height - (2 * y + 1) * this.outHeight);
+    return (dx !== 0 || dy !== 0) && this.get(x + dx, y + dy) === null ? null : ' ';
+  }
+
+  /**
+   * Returns the source index range [start, end) overlapped by an output index.
+   */
+  private span(o: number, srcLength: number, outLength: number): [number, number] {
+    const start = Math.floor((o * srcLength) / outLength);
+    const end = Math.ceil(((o + 1) * srcLength) / outLength);
+    return [start, Math.min(srcLength, Math.max(start + 1, end))];
+  }
+
+  /**
+   * Checks whether the center of source index s lies within output index o's interval.
+   * Intervals include their trailing edge here, so upscaled glyphs anchor to the top-left
+   * of their block.
+   */
+  private centerInside(s: number, o: number, srcLength: number, outLength: number): boolean {
+    // (s + 0.5) in (o * src / out, (o + 1) * src / out], scaled by 2 * out
+    const center = (2 * s + 1) * outLength;
+    return center > 2 * o * srcLength && center <= 2 * (o + 1) * srcLength;
+  }
+
+  /**
+   * Checks whether a line crosses an edge at position numerator / outLength.
+   * The line must cover the points just before and just after the edge. An edge
+   * exactly at a cell center belongs to the output cell before it.
+   *
+   * @param covers - Whether the source cell at an index has a line in the given part
+   * @returns Source indices just before and just after the edge, or null if no line crosses
+   */
+  private crossing(
+    numerator: number,
+    outLength: number,
+    covers: (index: number, half: Half) => boolean
+  ): [number, number] | null {
+    const index = Math.floor(numerator / outLength);
+    const twiceRemainder = 2 * (numerator - index * outLength);
+
+    let beforeIndex = index;
+    let beforeHalf: Half;
+    let afterHalf: Half;
+
+    if (twiceRemainder === 0) {
+      // Edge on a cell boundary
+      beforeIndex = index - 1;
+      beforeHalf = 'high';
+      afterHalf = 'low';
+    } else if (twiceRemainder === outLength) {
+      // Edge exactly at the cell center
+      beforeHalf = 'center';
+      afterHalf = 'high';
+    } else {
+      beforeHalf = afterHalf = twiceRemainder < outLength ? 'low' : 'high';
+    }
+
+    if (!covers(beforeIndex, beforeHalf) || !covers(index, afterHalf)) {
+      return null;
+    }
+    return [beforeIndex, index];
+  }
+
+  /**
+   * Checks whether a source cell is a box-drawing glyph with a given connection.
+   */
+  private connects(x: number, y: number, direction: number): boolean {
+    const glyph = getLineGlyph(this.get(x, y));
+    return glyph !== null && (glyph.connections & direction) !== 0;
+  }
+}